@@ -0,0 +1,550 @@
+import Database from 'better-sqlite3';
+import { logger } from './logger.js';
+import { getErrorMessage } from './error-utils.js';
+import { metrics } from './metrics-service.js';
+import { REQUEST_ID_HEADER } from './request-context.js';
+import {
+  getWebhookSecret,
+  getWebhookSigningSecrets,
+  shouldSendWebhookSecret,
+  signCallbackPayload,
+} from './callback-url-builder.js';
+import { getSharedDbPath } from './utils/path-resolver.js';
+import { getPositiveIntEnv } from './utils/env.js';
+
+/**
+ * Delivery states of a callback webhook
+ * - pending: being delivered or waiting for a retry
+ * - delivered: the callback URL accepted the payload
+ * - failed: every attempt failed (or the failure cannot be retried); kept as a dead letter
+ */
+export const CALLBACK_DELIVERY_STATUSES = ['pending', 'delivered', 'failed'] as const;
+
+export type CallbackDeliveryStatus = (typeof CALLBACK_DELIVERY_STATUSES)[number];
+
+/**
+ * Callback delivery interface matching the database schema
+ */
+export interface CallbackDelivery {
+  id: number;
+  request_id: string;
+  callback_url: string;
+  /**
+   * JSON payload sent to the callback URL
+   */
+  payload: string;
+  status: CallbackDeliveryStatus;
+  attempts: number;
+  last_status_code: number | null;
+  last_error: string | null;
+  next_attempt_at: string | null;
+  created_at: string;
+  updated_at: string;
+  delivered_at: string | null;
+}
+
+/**
+ * Filters for listing callback deliveries
+ */
+export interface ListCallbackDeliveriesFilters {
+  status?: CallbackDeliveryStatus;
+  requestId?: string;
+  limit?: number;
+}
+
+/**
+ * Options for CallbackDeliveryService
+ */
+export interface CallbackDeliveryServiceOptions {
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  timeoutMs?: number;
+}
+
+/**
+ * Retry backoff settings
+ */
+export interface CallbackRetryPolicy {
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+/**
+ * Outcome of a single delivery attempt
+ */
+interface AttemptResult {
+  ok: boolean;
+  statusCode: number | null;
+  error: string | null;
+  retryable: boolean;
+}
+
+/**
+ * Delivery being worked on by this process
+ */
+interface ActiveDelivery {
+  /**
+   * Row ID in callback_deliveries, or null if the delivery could not be recorded
+   */
+  id: number | null;
+  requestId: string;
+  callbackUrl: string;
+  body: string;
+  attempts: number;
+}
+
+/**
+ * Check whether a value is a known callback delivery status
+ */
+export function isCallbackDeliveryStatus(value: unknown): value is CallbackDeliveryStatus {
+  return (
+    typeof value === 'string' && (CALLBACK_DELIVERY_STATUSES as readonly string[]).includes(value)
+  );
+}
+
+/**
+ * Hide the secret query parameter of a callback URL (for logs and API responses)
+ */
+export function maskCallbackUrl(callbackUrl: string): string {
+  return callbackUrl.replace(/secret=[^&]*/, 'secret=***');
+}
+
+/**
+ * Get the delay before the given retry: exponential backoff capped at maxDelayMs, with jitter
+ * spreading each delay over its upper half so retries from many runs do not arrive in bursts
+ * @param retry - 1 for the first retry, 2 for the second, and so on
+ */
+export function getRetryDelay(
+  retry: number,
+  policy: CallbackRetryPolicy,
+  random: () => number = Math.random
+): number {
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (retry - 1));
+  return Math.round(exponential / 2 + (random() * exponential) / 2);
+}
+
+/**
+ * Check whether an HTTP status is worth retrying (timeouts, rate limits and server errors)
+ * Other 4xx responses mean the callback itself was rejected, so retrying will not help.
+ */
+function isRetryableStatus(statusCode: number): boolean {
+  return statusCode === 408 || statusCode === 429 || statusCode >= 500;
+}
+
+/**
+ * CallbackDeliveryService - Delivers callback webhooks reliably
+ *
+ * Failed deliveries are retried with exponential backoff and jitter, so results survive the
+ * receiving app being briefly unavailable (e.g. while it redeploys). Every delivery is logged in
+ * the shared SQLite database; deliveries that still fail after the last attempt are kept as
+ * dead letters that can be listed and replayed. If the database is unavailable, callbacks are
+ * still delivered and retried, just without a log.
+ */
+export class CallbackDeliveryService {
+  public readonly maxAttempts: number;
+  private readonly retryPolicy: CallbackRetryPolicy;
+  private readonly timeoutMs: number;
+  private db: Database.Database | null = null;
+  private readonly retryTimers = new Set<NodeJS.Timeout>();
+
+  constructor(options: CallbackDeliveryServiceOptions = {}) {
+    this.maxAttempts = options.maxAttempts ?? getPositiveIntEnv('CALLBACK_MAX_ATTEMPTS', 8);
+    this.retryPolicy = {
+      baseDelayMs: options.baseDelayMs ?? getPositiveIntEnv('CALLBACK_RETRY_BASE_DELAY_MS', 2000),
+      maxDelayMs: options.maxDelayMs ?? getPositiveIntEnv('CALLBACK_RETRY_MAX_DELAY_MS', 300000),
+    };
+    this.timeoutMs = options.timeoutMs ?? 30000;
+  }
+
+  /**
+   * Get database connection (lazy initialization)
+   */
+  private getDatabase(): Database.Database {
+    if (!this.db) {
+      try {
+        const dbPath = getSharedDbPath();
+        this.db = new Database(dbPath);
+        // Enable WAL mode for better concurrency
+        this.db.pragma('journal_mode = WAL');
+        logger.debug('Database connection established for callback deliveries', { path: dbPath });
+      } catch (error) {
+        logger.error('Failed to connect to database for callback deliveries', {
+          path: getSharedDbPath(),
+          error: getErrorMessage(error),
+        });
+        throw error;
+      }
+    }
+    return this.db;
+  }
+
+  /**
+   * Update the delivery log, logging rather than throwing on failure so a database problem
+   * never stops a callback from being delivered
+   */
+  private record<T>(requestId: string, action: () => T): T | null {
+    try {
+      return action();
+    } catch (error) {
+      logger.warn('Failed to record callback delivery', {
+        requestId,
+        error: getErrorMessage(error),
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Deliver a callback payload
+   * The first attempt is made immediately; if it fails, retries continue in the background.
+   * @param callbackUrl - URL to call (may include secret in query string)
+   * @param payload - Payload to send as JSON
+   * @param requestId - Request ID for logging
+   * @throws Error from the first attempt if it fails (retries are still scheduled)
+   */
+  async deliver(callbackUrl: string, payload: unknown, requestId: string): Promise<void> {
+    const delivery: ActiveDelivery = {
+      id: null,
+      requestId,
+      callbackUrl,
+      body: JSON.stringify(payload),
+      attempts: 0,
+    };
+
+    delivery.id = this.record(requestId, () => {
+      const now = new Date().toISOString();
+      const result = this.getDatabase()
+        .prepare(
+          `INSERT INTO callback_deliveries
+            (request_id, callback_url, payload, status, created_at, updated_at)
+           VALUES (?, ?, ?, 'pending', ?, ?)`
+        )
+        .run(requestId, callbackUrl, delivery.body, now, now);
+      return Number(result.lastInsertRowid);
+    });
+
+    const result = await this.attempt(delivery);
+    if (!result.ok) {
+      throw new Error(result.error ?? 'Callback delivery failed');
+    }
+  }
+
+  /**
+   * Deliver a dead-lettered callback again, starting a new round of attempts
+   * @returns The delivery after the first new attempt, or null if it does not exist
+   * @throws Error if the delivery has not failed (it is still pending or was delivered)
+   */
+  async replay(id: number): Promise<CallbackDelivery | null> {
+    const existing = this.getDelivery(id);
+    if (!existing) {
+      return null;
+    }
+    if (existing.status !== 'failed') {
+      throw new Error(
+        `Only failed callback deliveries can be replayed (status: ${existing.status})`
+      );
+    }
+
+    this.getDatabase()
+      .prepare(
+        `UPDATE callback_deliveries
+         SET status = 'pending', attempts = 0, next_attempt_at = NULL, updated_at = ?
+         WHERE id = ?`
+      )
+      .run(new Date().toISOString(), id);
+    logger.info('Replaying callback delivery', { id, requestId: existing.request_id });
+
+    await this.attempt({
+      id,
+      requestId: existing.request_id,
+      callbackUrl: existing.callback_url,
+      body: existing.payload,
+      attempts: 0,
+    });
+    return this.getDelivery(id);
+  }
+
+  /**
+   * Reschedule deliveries left pending by a previous process (e.g. after a restart)
+   * @returns Number of deliveries rescheduled
+   */
+  resumePending(): number {
+    let pending: CallbackDelivery[];
+    try {
+      pending = this.listDeliveries({ status: 'pending', limit: 1000 });
+    } catch {
+      return 0;
+    }
+
+    for (const delivery of pending) {
+      const dueIn = delivery.next_attempt_at
+        ? Date.parse(delivery.next_attempt_at) - Date.now()
+        : 0;
+      this.scheduleRetry(
+        {
+          id: delivery.id,
+          requestId: delivery.request_id,
+          callbackUrl: delivery.callback_url,
+          body: delivery.payload,
+          attempts: delivery.attempts,
+        },
+        Math.max(0, dueIn)
+      );
+    }
+    if (pending.length > 0) {
+      logger.info('Resumed pending callback deliveries', { count: pending.length });
+    }
+    return pending.length;
+  }
+
+  /**
+   * Make one delivery attempt and record its outcome, scheduling a retry or dead-lettering the
+   * delivery when it fails
+   */
+  private async attempt(delivery: ActiveDelivery): Promise<AttemptResult> {
+    delivery.attempts++;
+    const result = await this.send(delivery);
+    const now = new Date().toISOString();
+    metrics.recordCallbackAttempt(result.ok ? 'success' : 'failure');
+
+    if (result.ok) {
+      this.updateDelivery(delivery, 'delivered', result, null, now);
+      metrics.recordCallbackDelivery('delivered');
+      return result;
+    }
+
+    if (result.retryable && delivery.attempts < this.maxAttempts) {
+      const delayMs = getRetryDelay(delivery.attempts, this.retryPolicy);
+      const nextAttemptAt = new Date(Date.now() + delayMs).toISOString();
+      this.updateDelivery(delivery, 'pending', result, nextAttemptAt, null);
+      logger.warn('Callback delivery failed, retrying', {
+        requestId: delivery.requestId,
+        attempt: delivery.attempts,
+        maxAttempts: this.maxAttempts,
+        delayMs,
+        error: result.error,
+      });
+      this.scheduleRetry(delivery, delayMs);
+      return result;
+    }
+
+    this.updateDelivery(delivery, 'failed', result, null, null);
+    metrics.recordCallbackDelivery('failed');
+    logger.error('Callback delivery failed permanently', {
+      requestId: delivery.requestId,
+      deliveryId: delivery.id,
+      attempts: delivery.attempts,
+      statusCode: result.statusCode,
+      error: result.error,
+    });
+    return result;
+  }
+
+  /**
+   * Record the outcome of an attempt in the delivery log
+   */
+  private updateDelivery(
+    delivery: ActiveDelivery,
+    status: CallbackDeliveryStatus,
+    result: AttemptResult,
+    nextAttemptAt: string | null,
+    deliveredAt: string | null
+  ): void {
+    if (delivery.id === null) {
+      return;
+    }
+    this.record(delivery.requestId, () =>
+      this.getDatabase()
+        .prepare(
+          `UPDATE callback_deliveries
+           SET status = ?, attempts = ?, last_status_code = ?, last_error = ?,
+               next_attempt_at = ?, delivered_at = ?, updated_at = ?
+           WHERE id = ?`
+        )
+        .run(
+          status,
+          delivery.attempts,
+          result.statusCode,
+          result.error,
+          nextAttemptAt,
+          deliveredAt,
+          new Date().toISOString(),
+          delivery.id
+        )
+    );
+  }
+
+  /**
+   * Schedule the next attempt of a delivery
+   * Timers do not keep the process alive; pending deliveries are resumed on the next start.
+   */
+  private scheduleRetry(delivery: ActiveDelivery, delayMs: number): void {
+    const timer = setTimeout(() => {
+      this.retryTimers.delete(timer);
+      void this.attempt(delivery);
+    }, delayMs);
+    timer.unref();
+    this.retryTimers.add(timer);
+  }
+
+  /**
+   * POST the payload to the callback URL
+   */
+  private async send(delivery: ActiveDelivery): Promise<AttemptResult> {
+    const { requestId } = delivery;
+    try {
+      // Get webhook secret from URL query parameter, or fall back to the environment
+      const url = new URL(delivery.callbackUrl);
+      const urlSecret = url.searchParams.get('secret');
+      const secret = urlSecret || getWebhookSecret();
+      url.searchParams.delete('secret');
+
+      const headers: Record<string, string> = {
+        'Content-Type': 'application/json',
+        'User-Agent': 'cursor-runner/1.0',
+        [REQUEST_ID_HEADER]: requestId,
+      };
+
+      // Legacy: send the secret itself in headers rather than the URL
+      if (secret && shouldSendWebhookSecret()) {
+        headers['X-Webhook-Secret'] = secret;
+        headers['X-Cursor-Runner-Secret'] = secret; // Also support this header name for compatibility
+      }
+
+      // Sign each attempt afresh so retries stay within the receiver's replay window
+      const signingSecrets = getWebhookSigningSecrets();
+      Object.assign(
+        headers,
+        signCallbackPayload(
+          delivery.body,
+          signingSecrets.length > 0 ? signingSecrets : urlSecret ? [urlSecret] : []
+        )
+      );
+      const callbackUrl = url.toString();
+
+      logger.info('Calling callback webhook', {
+        requestId,
+        callbackUrl,
+        attempt: delivery.attempts,
+      });
+
+      const response = await fetch(callbackUrl, {
+        method: 'POST',
+        headers,
+        body: delivery.body,
+        signal: AbortSignal.timeout(this.timeoutMs),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text().catch(() => 'Unknown error');
+        logger.error('Callback webhook error', {
+          requestId,
+          callbackUrl,
+          status: response.status,
+        });
+        return {
+          ok: false,
+          statusCode: response.status,
+          error: `Webhook returned ${response.status}: ${errorText}`,
+          retryable: isRetryableStatus(response.status),
+        };
+      }
+
+      logger.info('Callback webhook called successfully', {
+        requestId,
+        callbackUrl,
+        status: response.status,
+      });
+      return { ok: true, statusCode: response.status, error: null, retryable: false };
+    } catch (error) {
+      const err = error instanceof Error ? error : new Error(getErrorMessage(error));
+      const callbackUrl = maskCallbackUrl(delivery.callbackUrl);
+      if (err.name === 'AbortError' || err.name === 'TimeoutError') {
+        logger.error('Callback webhook timeout', { requestId, callbackUrl });
+      } else {
+        logger.error('Callback webhook error', { requestId, callbackUrl, error: err.message });
+      }
+      // An invalid URL will never succeed; network errors and timeouts may
+      return {
+        ok: false,
+        statusCode: null,
+        error: err.message,
+        retryable: !(err instanceof TypeError && err.message.includes('Invalid URL')),
+      };
+    }
+  }
+
+  /**
+   * Get a delivery by ID
+   */
+  getDelivery(id: number): CallbackDelivery | null {
+    try {
+      const row = this.getDatabase()
+        .prepare('SELECT * FROM callback_deliveries WHERE id = ?')
+        .get(id) as CallbackDelivery | undefined;
+      return row ?? null;
+    } catch (error) {
+      logger.error('Failed to get callback delivery', { error: getErrorMessage(error), id });
+      throw error;
+    }
+  }
+
+  /**
+   * List deliveries, newest first, optionally filtered by status and request ID
+   */
+  listDeliveries(filters: ListCallbackDeliveriesFilters = {}): CallbackDelivery[] {
+    try {
+      const conditions: string[] = [];
+      const params: unknown[] = [];
+
+      if (filters.status !== undefined) {
+        conditions.push('status = ?');
+        params.push(filters.status);
+      }
+
+      if (filters.requestId !== undefined) {
+        conditions.push('request_id = ?');
+        params.push(filters.requestId);
+      }
+
+      let query = 'SELECT * FROM callback_deliveries';
+      if (conditions.length > 0) {
+        query += ` WHERE ${conditions.join(' AND ')}`;
+      }
+      query += ' ORDER BY created_at DESC, id DESC LIMIT ?';
+      params.push(filters.limit ?? 100);
+
+      return this.getDatabase()
+        .prepare(query)
+        .all(...params) as CallbackDelivery[];
+    } catch (error) {
+      logger.error('Failed to list callback deliveries', {
+        error: getErrorMessage(error),
+        filters,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Cancel scheduled retries (they stay pending in the log and resume on the next start)
+   */
+  stop(): void {
+    for (const timer of this.retryTimers) {
+      clearTimeout(timer);
+    }
+    this.retryTimers.clear();
+  }
+
+  /**
+   * Cancel scheduled retries and close the database connection
+   */
+  close(): void {
+    this.stop();
+    if (this.db) {
+      this.db.close();
+      this.db = null;
+    }
+  }
+}
@@ -1,15 +1,33 @@
 /**
- * Helper module for constructing callback URLs
+ * Helper module for constructing callback URLs and signing callback payloads
  */
 
+import { createHmac, timingSafeEqual } from 'crypto';
 import { logger } from './logger.js';
 
+/**
+ * Header carrying the HMAC-SHA256 signature(s) of a callback, as `v1=<hex>` entries
+ */
+export const CALLBACK_SIGNATURE_HEADER = 'X-Cursor-Runner-Signature';
+
+/**
+ * Header carrying the Unix time (in seconds) a callback was signed at
+ */
+export const CALLBACK_TIMESTAMP_HEADER = 'X-Cursor-Runner-Timestamp';
+
+/**
+ * How far a callback's timestamp may be from the receiver's clock by default (5 minutes)
+ */
+export const DEFAULT_SIGNATURE_TOLERANCE_SECONDS = 300;
+
+const SIGNATURE_VERSION = 'v1';
+
 /**
  * Construct callback URL from environment variables or Docker network defaults
  * Uses JAREK_VA_URL if set, otherwise defaults to Docker service name (app:3000)
  * In Docker networks, services can communicate using service names as hostnames.
  * The jarek-va service is named 'app' in docker-compose.yml, so we default to http://app:3000
- * Adds WEBHOOK_SECRET as query parameter if available
+ * Adds WEBHOOK_SECRET as query parameter if available (unless WEBHOOK_SEND_SECRET=false)
  * @returns Constructed callback URL (always returns a URL, defaults to Docker network)
  */
 export function buildCallbackUrl(): string {
@@ -30,7 +48,7 @@ export function buildCallbackUrl(): string {
 
   // Add webhook secret as query parameter if available
   const webhookSecret = process.env.WEBHOOK_SECRET;
-  if (webhookSecret) {
+  if (webhookSecret && shouldSendWebhookSecret()) {
     callbackUrl.searchParams.set('secret', webhookSecret);
   }
 
@@ -52,3 +70,151 @@ export function buildCallbackUrl(): string {
 export function getWebhookSecret(): string | null {
   return process.env.WEBHOOK_SECRET || null;
 }
+
+/**
+ * Check whether the shared secret itself should be sent with callbacks
+ * (in the callback URL and X-Webhook-Secret headers). Set WEBHOOK_SEND_SECRET=false once
+ * receivers verify signatures, so the secret never travels on the wire.
+ */
+export function shouldSendWebhookSecret(): boolean {
+  return process.env.WEBHOOK_SEND_SECRET !== 'false';
+}
+
+/**
+ * Get the secrets callbacks are signed with
+ * WEBHOOK_SIGNING_SECRETS is a comma-separated list; every listed secret signs each callback so
+ * keys can be rotated without downtime. Falls back to WEBHOOK_SECRET.
+ * @returns Signing secrets, or an empty array if none are configured
+ */
+export function getWebhookSigningSecrets(): string[] {
+  const secrets = (process.env.WEBHOOK_SIGNING_SECRETS || '')
+    .split(',')
+    .map((secret) => secret.trim())
+    .filter((secret) => secret !== '');
+  if (secrets.length > 0) {
+    return secrets;
+  }
+  const webhookSecret = getWebhookSecret();
+  return webhookSecret ? [webhookSecret] : [];
+}
+
+/**
+ * Compute the signature of a callback body signed at the given time
+ */
+function computeSignature(secret: string, timestamp: number, body: string | Buffer): string {
+  return createHmac('sha256', secret).update(`${timestamp}.`).update(body).digest('hex');
+}
+
+/**
+ * Build the signature headers for a callback body
+ * The signature covers the timestamp and the raw body, with one `v1=` entry per secret.
+ * @param body - Raw JSON body, exactly as sent
+ * @param secrets - Secrets to sign with (default: getWebhookSigningSecrets())
+ * @param timestamp - Unix time in seconds (default: now)
+ * @returns Headers to add to the request, or an empty object when there is no secret to sign with
+ */
+export function signCallbackPayload(
+  body: string,
+  secrets: string[] = getWebhookSigningSecrets(),
+  timestamp: number = Math.floor(Date.now() / 1000)
+): Record<string, string> {
+  if (secrets.length === 0) {
+    return {};
+  }
+  return {
+    [CALLBACK_TIMESTAMP_HEADER]: String(timestamp),
+    [CALLBACK_SIGNATURE_HEADER]: secrets
+      .map((secret) => `${SIGNATURE_VERSION}=${computeSignature(secret, timestamp, body)}`)
+      .join(','),
+  };
+}
+
+/**
+ * Options for verifying a callback signature
+ */
+export interface VerifyCallbackSignatureOptions {
+  /**
+   * Secrets to accept (default: getWebhookSigningSecrets()); list old and new during rotation
+   */
+  secrets?: string[];
+  /**
+   * Maximum age (and clock skew) of the timestamp in seconds, to reject replayed callbacks
+   */
+  toleranceSeconds?: number;
+  /**
+   * Current Unix time in seconds (default: now)
+   */
+  now?: number;
+}
+
+/**
+ * Result of verifying a callback signature
+ */
+export type CallbackSignatureVerification = { valid: true } | { valid: false; reason: string };
+
+/**
+ * Read a header from Node-style (lowercased) or as-sent header names
+ */
+function getHeader(
+  headers: Record<string, string | string[] | undefined>,
+  name: string
+): string | undefined {
+  const value = headers[name.toLowerCase()] ?? headers[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Verify a callback received from cursor-runner
+ * Receivers must pass the raw request body (before JSON parsing), e.g. from
+ * `express.raw({ type: 'application/json' })`.
+ * @param rawBody - Raw request body
+ * @param headers - Request headers (e.g. req.headers)
+ * @param options - Accepted secrets, replay window and current time
+ * @returns Whether the callback is authentic, with the reason when it is not
+ */
+export function verifyCallbackSignature(
+  rawBody: string | Buffer,
+  headers: Record<string, string | string[] | undefined>,
+  options: VerifyCallbackSignatureOptions = {}
+): CallbackSignatureVerification {
+  const signatureHeader = getHeader(headers, CALLBACK_SIGNATURE_HEADER);
+  const timestampHeader = getHeader(headers, CALLBACK_TIMESTAMP_HEADER);
+  if (!signatureHeader || !timestampHeader) {
+    return { valid: false, reason: 'Missing signature or timestamp header' };
+  }
+
+  const timestamp = Number(timestampHeader);
+  if (!Number.isInteger(timestamp)) {
+    return { valid: false, reason: 'Invalid timestamp' };
+  }
+
+  const now = options.now ?? Math.floor(Date.now() / 1000);
+  const toleranceSeconds = options.toleranceSeconds ?? DEFAULT_SIGNATURE_TOLERANCE_SECONDS;
+  if (Math.abs(now - timestamp) > toleranceSeconds) {
+    return { valid: false, reason: 'Timestamp outside the allowed window' };
+  }
+
+  const secrets = options.secrets ?? getWebhookSigningSecrets();
+  if (secrets.length === 0) {
+    return { valid: false, reason: 'No signing secrets configured' };
+  }
+
+  const received = signatureHeader
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.startsWith(`${SIGNATURE_VERSION}=`))
+    .map((entry) => Buffer.from(entry.slice(SIGNATURE_VERSION.length + 1), 'utf8'));
+
+  for (const secret of secrets) {
+    const expected = Buffer.from(computeSignature(secret, timestamp, rawBody), 'utf8');
+    if (
+      received.some(
+        (signature) => signature.length === expected.length && timingSafeEqual(signature, expected)
+      )
+    ) {
+      return { valid: true };
+    }
+  }
+
+  return { valid: false, reason: 'Signature mismatch' };
+}
@@ -111,6 +111,13 @@ export class ConversationService {
     }
   }
 
+  /**
+   * Whether Redis is currently available for conversation storage
+   */
+  isRedisAvailable(): boolean {
+    return this.redisAvailable;
+  }
+
   /**
    * Get the Redis key for the last conversation ID based on queue type
    */
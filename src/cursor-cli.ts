@@ -1,6 +1,8 @@
 import { spawn, ChildProcess } from 'child_process';
 import { logger } from './logger.js';
 import { getErrorMessage } from './error-utils.js';
+import type { QueueType } from './conversation-service.js';
+import { ModelSelectionService, type ModelRunResult } from './model-selection-service.js';
 
 /**
  * Options for cursor-cli command execution
@@ -8,8 +10,29 @@ import { getErrorMessage } from './error-utils.js';
 export interface ExecuteCommandOptions {
   cwd?: string;
   timeout?: number;
+  /**
+   * Invoked once an execution slot has been acquired, right before cursor-cli is spawned
+   */
+  onStart?: () => void;
+  /**
+   * Aborting this signal cancels the execution, whether it is still waiting for a slot or running
+   */
+  signal?: AbortSignal;
+  /**
+   * Invoked with each output chunk as it is received (PTY output is reported as stdout)
+   */
+  onOutput?: (chunk: string, stream: OutputStream) => void;
+  /**
+   * Scheduling priority while waiting for an execution slot (default: 'default')
+   */
+  queueType?: QueueType;
 }
 
+/**
+ * Output stream a chunk was received on
+ */
+export type OutputStream = 'stdout' | 'stderr';
+
 /**
  * Result of cursor-cli command execution
  */
@@ -27,6 +50,67 @@ interface CommandError extends Error {
   stdout?: string;
   stderr?: string;
   exitCode?: number | null;
+  cancelled?: boolean;
+}
+
+/**
+ * Create the error used to reject a cancelled execution
+ */
+function createCancelledError(stdout = '', stderr = ''): CommandError {
+  const error: CommandError = new Error('cursor-cli execution cancelled');
+  error.stdout = stdout;
+  error.stderr = stderr;
+  error.exitCode = null;
+  error.cancelled = true;
+  return error;
+}
+
+/**
+ * Check whether an execution failed because it was cancelled through its AbortSignal
+ */
+export function isCancellationError(error: unknown): boolean {
+  return (
+    !!error && typeof error === 'object' && (error as { cancelled?: unknown }).cancelled === true
+  );
+}
+
+/**
+ * Largest delay setTimeout supports; longer delays overflow and fire almost immediately
+ */
+const MAX_TIMER_DELAY_MS = 2147483647;
+
+/**
+ * Get the hard cursor-cli timeout from CURSOR_CLI_TIMEOUT (default: 30 minutes)
+ */
+export function getCursorCliTimeout(): number {
+  const timeoutValue = parseInt(process.env.CURSOR_CLI_TIMEOUT || '1800000', 10);
+  return isNaN(timeoutValue) || timeoutValue <= 0 ? 1800000 : timeoutValue;
+}
+
+/**
+ * Get the largest cursor-cli timeout a caller can use: CURSOR_CLI_TIMEOUT, or the largest delay
+ * setTimeout supports
+ */
+export function getMaxTimeout(): number {
+  return Math.min(getCursorCliTimeout(), MAX_TIMER_DELAY_MS);
+}
+
+/**
+ * Validate a caller's cursor-cli timeout
+ * Callers can lower the timeout but not raise it above CURSOR_CLI_TIMEOUT (or the largest
+ * delay setTimeout supports).
+ * @param value - Timeout in milliseconds
+ * @returns Error message, or null if the timeout is valid
+ */
+export function validateTimeout(value: unknown): string | null {
+  if (!Number.isInteger(value) || (value as number) < 1) {
+    return 'timeout must be a positive integer (milliseconds)';
+  }
+  const maxTimeout = getMaxTimeout();
+  if ((value as number) > maxTimeout) {
+    return `timeout must be at most ${maxTimeout} milliseconds`;
+  }
+  return null;
 }
 
 /**
@@ -68,50 +152,202 @@ export type GenerationRequirements = string | Record<string, unknown>;
 export interface GenerationResult {
   success: boolean;
   phase: 'red' | 'green' | 'refactor';
+  /**
+   * Model cursor-agent ran with
+   */
+  model?: string;
   output?: string;
   files?: readonly string[];
   error?: string;
 }
 
 /**
- * Simple semaphore for concurrency control
+ * Per-priority breakdown of the execution queue
+ */
+export interface QueuePriorityStatus {
+  waiting: number;
+  running: number;
+  weight: number;
+  oldestWaitMs: number | null;
+}
+
+/**
+ * Execution queue status
+ */
+export interface QueueStatus {
+  available: number;
+  waiting: number;
+  maxConcurrent: number;
+  byPriority: Record<QueueType, QueuePriorityStatus>;
+}
+
+/**
+ * Queue types in tie-break order (interactive requests first)
+ */
+export const QUEUE_TYPES: readonly QueueType[] = ['telegram', 'api', 'default'];
+
+const DEFAULT_QUEUE_WEIGHTS: Record<QueueType, number> = { telegram: 5, api: 5, default: 1 };
+
+/**
+ * Get scheduling weights per queue type from CURSOR_CLI_QUEUE_WEIGHTS
+ * Format: "telegram=5,api=5,default=1" - unspecified or invalid entries keep their defaults.
+ */
+function getQueueWeights(): Record<QueueType, number> {
+  const weights = { ...DEFAULT_QUEUE_WEIGHTS };
+  for (const entry of (process.env.CURSOR_CLI_QUEUE_WEIGHTS || '').split(',')) {
+    const [name, value] = entry.split('=').map((part) => part.trim());
+    const weight = parseInt(value || '', 10);
+    if (QUEUE_TYPES.includes(name as QueueType) && !isNaN(weight) && weight > 0) {
+      weights[name as QueueType] = weight;
+    }
+  }
+  return weights;
+}
+
+/**
+ * Get how long a request may wait before it is served regardless of priority
+ * (CURSOR_CLI_QUEUE_STARVATION_MS, default: 5 minutes)
+ */
+function getStarvationThreshold(): number {
+  const value = parseInt(process.env.CURSOR_CLI_QUEUE_STARVATION_MS || '300000', 10);
+  return isNaN(value) || value <= 0 ? 300000 : value;
+}
+
+interface Waiter {
+  queueType: QueueType;
+  enqueuedAt: number;
+  resolve: () => void;
+}
+
+/**
+ * Priority-aware semaphore for concurrency control
+ *
+ * Freed slots go to waiting requests by smooth weighted round-robin across queue types, so
+ * interactive (telegram/api) requests jump ahead of background work while background work
+ * still gets a share. A request that has waited longer than the starvation threshold is
+ * served next regardless of weights.
  */
 class Semaphore {
   private count: number;
-  private waiting: Array<() => void> = [];
+  private readonly weights: Record<QueueType, number>;
+  private readonly starvationMs: number;
+  private readonly queues: Record<QueueType, Waiter[]> = { telegram: [], api: [], default: [] };
+  private readonly running: Record<QueueType, number> = { telegram: 0, api: 0, default: 0 };
+  private readonly credits: Record<QueueType, number> = { telegram: 0, api: 0, default: 0 };
 
-  constructor(count: number) {
+  constructor(count: number, weights: Record<QueueType, number>, starvationMs: number) {
     this.count = count;
+    this.weights = weights;
+    this.starvationMs = starvationMs;
   }
 
-  async acquire(): Promise<void> {
+  async acquire(queueType: QueueType = 'default', signal?: AbortSignal): Promise<void> {
     if (this.count > 0) {
       this.count--;
+      this.running[queueType]++;
       return;
     }
 
-    return new Promise<void>((resolve) => {
-      this.waiting.push(resolve);
+    return new Promise<void>((resolve, reject) => {
+      const queue = this.queues[queueType];
+      const onAbort = (): void => {
+        // Drop out of the queue so the slot goes to the next waiter instead
+        const index = queue.indexOf(waiter);
+        if (index !== -1) {
+          queue.splice(index, 1);
+          reject(createCancelledError());
+        }
+      };
+      const waiter: Waiter = {
+        queueType,
+        enqueuedAt: Date.now(),
+        resolve: () => {
+          signal?.removeEventListener('abort', onAbort);
+          this.running[queueType]++;
+          resolve();
+        },
+      };
+      queue.push(waiter);
+      signal?.addEventListener('abort', onAbort, { once: true });
     });
   }
 
-  release(): void {
-    if (this.waiting.length > 0) {
-      const resolve = this.waiting.shift();
-      if (resolve) {
-        resolve();
-      }
+  release(queueType: QueueType = 'default'): void {
+    this.running[queueType] = Math.max(0, this.running[queueType] - 1);
+
+    const next = this.selectNext();
+    if (next) {
+      next.resolve();
     } else {
       this.count++;
     }
   }
 
+  /**
+   * Pick the waiter that gets the next free slot
+   */
+  private selectNext(): Waiter | undefined {
+    const now = Date.now();
+
+    // Starvation protection: serve the longest-waiting request once it exceeds the threshold
+    let starved: Waiter | undefined;
+    for (const type of QUEUE_TYPES) {
+      const head = this.queues[type][0];
+      if (
+        head &&
+        now - head.enqueuedAt >= this.starvationMs &&
+        (!starved || head.enqueuedAt < starved.enqueuedAt)
+      ) {
+        starved = head;
+      }
+    }
+    if (starved) {
+      return this.queues[starved.queueType].shift();
+    }
+
+    // Smooth weighted round-robin across queue types that have waiters
+    let selected: QueueType | null = null;
+    let totalWeight = 0;
+    for (const type of QUEUE_TYPES) {
+      if (this.queues[type].length === 0) {
+        this.credits[type] = 0;
+        continue;
+      }
+      this.credits[type] += this.weights[type];
+      totalWeight += this.weights[type];
+      if (selected === null || this.credits[type] > this.credits[selected]) {
+        selected = type;
+      }
+    }
+    if (selected === null) {
+      return undefined;
+    }
+
+    this.credits[selected] -= totalWeight;
+    return this.queues[selected].shift();
+  }
+
   getAvailable(): number {
     return this.count;
   }
 
   getWaiting(): number {
-    return this.waiting.length;
+    return QUEUE_TYPES.reduce((total, type) => total + this.queues[type].length, 0);
+  }
+
+  getBreakdown(): Record<QueueType, QueuePriorityStatus> {
+    const now = Date.now();
+    const breakdown = {} as Record<QueueType, QueuePriorityStatus>;
+    for (const type of QUEUE_TYPES) {
+      const head = this.queues[type][0];
+      breakdown[type] = {
+        waiting: this.queues[type].length,
+        running: this.running[type],
+        weight: this.weights[type],
+        oldestWaitMs: head ? now - head.enqueuedAt : null,
+      };
+    }
+    return breakdown;
   }
 }
 
@@ -127,13 +363,13 @@ export class CursorCLI {
   private _ptyModule: IPty | null = null; // Lazy-loaded
   private readonly semaphore: Semaphore;
   private readonly maxConcurrent: number;
+  private readonly models = new ModelSelectionService();
 
   constructor(cursorPath?: string) {
     this.cursorPath = cursorPath || process.env.CURSOR_CLI_PATH || 'cursor';
     // Hard timeout (wall-clock). Must be >= idle timeout to make idle-timeout meaningful.
     // Default: 30 minutes.
-    const timeoutValue = parseInt(process.env.CURSOR_CLI_TIMEOUT || '1800000', 10);
-    this.timeout = isNaN(timeoutValue) || timeoutValue <= 0 ? 1800000 : timeoutValue; // 30 minutes default
+    this.timeout = getCursorCliTimeout();
     const maxOutputSizeValue = parseInt(process.env.CURSOR_CLI_MAX_OUTPUT_SIZE || '10485760', 10);
     this.maxOutputSize =
       isNaN(maxOutputSizeValue) || maxOutputSizeValue <= 0 ? 10485760 : maxOutputSizeValue; // 10MB default
@@ -153,10 +389,12 @@ export class CursorCLI {
         ? defaultMaxConcurrent
         : maxConcurrentValue;
     this.maxConcurrent = maxConcurrent;
-    this.semaphore = new Semaphore(this.maxConcurrent);
+    const queueWeights = getQueueWeights();
+    this.semaphore = new Semaphore(this.maxConcurrent, queueWeights, getStarvationThreshold());
 
     logger.info('CursorCLI initialized', {
       maxConcurrent,
+      queueWeights,
       timeout: this.timeout,
       maxOutputSize: this.maxOutputSize,
       lowResourceMode: lowResource,
@@ -165,13 +403,14 @@ export class CursorCLI {
 
   /**
    * Get execution queue status
-   * @returns Object with available and waiting counts
+   * @returns Object with available and waiting counts, broken down by queue type
    */
-  getQueueStatus(): { available: number; waiting: number; maxConcurrent: number } {
+  getQueueStatus(): QueueStatus {
     return {
       available: this.semaphore.getAvailable(),
       waiting: this.semaphore.getWaiting(),
       maxConcurrent: this.maxConcurrent,
+      byPriority: this.semaphore.getBreakdown(),
     };
   }
 
@@ -262,6 +501,7 @@ export class CursorCLI {
     options: ExecuteCommandOptions = {}
   ): Promise<CommandResult> {
     // Acquire semaphore to limit concurrency
+    const queueType = options.queueType || 'default';
     const available = this.semaphore.getAvailable();
     const waiting = this.semaphore.getWaiting();
 
@@ -269,11 +509,22 @@ export class CursorCLI {
       logger.info('Waiting for cursor-cli execution slot', {
         available,
         waiting,
+        queueType,
         args: this.formatArgsForLogging(args),
       });
     }
 
-    await this.semaphore.acquire();
+    if (options.signal?.aborted) {
+      throw createCancelledError();
+    }
+
+    await this.semaphore.acquire(queueType, options.signal);
+
+    // The signal may have fired in the same tick the slot was handed over
+    if (options.signal?.aborted) {
+      this.semaphore.release(queueType);
+      throw createCancelledError();
+    }
 
     // Track that we've acquired the semaphore
     const currentAvailable = this.semaphore.getAvailable();
@@ -284,6 +535,14 @@ export class CursorCLI {
       args: this.formatArgsForLogging(args),
     });
 
+    if (options.onStart) {
+      try {
+        options.onStart();
+      } catch (error) {
+        logger.warn('cursor-cli onStart hook failed', { error: getErrorMessage(error) });
+      }
+    }
+
     const cwd = options.cwd || process.cwd();
     const timeout = options.timeout || this.timeout;
     const idleTimeoutValue = parseInt(process.env.CURSOR_CLI_IDLE_TIMEOUT || '600000', 10);
@@ -317,7 +576,7 @@ export class CursorCLI {
       // Wrapper to ensure semaphore is released on rejection
       const safeReject = (error: unknown): void => {
         if (!completed) {
-          this.semaphore.release();
+          this.semaphore.release(queueType);
         }
         reject(error);
       };
@@ -502,7 +761,7 @@ export class CursorCLI {
             heartbeatInterval = null;
           }
           // Force release semaphore as a safety measure
-          this.semaphore.release();
+          this.semaphore.release(queueType);
           // Resolve with error result to prevent hanging
           resolve({
             success: false,
@@ -546,7 +805,7 @@ export class CursorCLI {
           heartbeatInterval = null; // Clear reference to prevent memory leaks
         }
         // Force release semaphore to prevent semaphore leak on timeout
-        this.semaphore.release();
+        this.semaphore.release(queueType);
         const timeoutError: CommandError = new Error(`Command timeout after ${validTimeout}ms`);
         // Attach partial output to error so it can be retrieved by caller
         timeoutError.stdout = stdout;
@@ -656,7 +915,7 @@ export class CursorCLI {
             heartbeatInterval = null; // Clear reference to prevent memory leaks
           }
           // Force release semaphore to prevent semaphore leak on idle timeout
-          this.semaphore.release();
+          this.semaphore.release(queueType);
           const idleError: CommandError = new Error(
             `No output from cursor-cli for ${idleTimeout}ms`
           );
@@ -668,6 +927,41 @@ export class CursorCLI {
         }
       }, 30000);
 
+      const handleAbort = (): void => {
+        if (completed) return;
+
+        logger.warn('cursor-cli command cancelled', {
+          command: this.cursorPath,
+          args: this.formatArgsForLogging(args),
+          cwd,
+          stdoutLength: stdout.length,
+          stderrLength: stderr.length,
+        });
+        terminateCursorCli('cancelled');
+
+        completed = true;
+        clearTimeout(timeoutId);
+        if (safetyTimeoutId) {
+          clearTimeout(safetyTimeoutId);
+        }
+        if (heartbeatInterval) {
+          clearInterval(heartbeatInterval);
+          heartbeatInterval = null;
+        }
+        this.semaphore.release(queueType);
+        safeReject(createCancelledError(stdout, stderr));
+      };
+      options.signal?.addEventListener('abort', handleAbort, { once: true });
+
+      const emitOutput = (chunk: string, stream: OutputStream): void => {
+        if (!options.onOutput) return;
+        try {
+          options.onOutput(chunk, stream);
+        } catch (error) {
+          logger.warn('cursor-cli onOutput hook failed', { error: getErrorMessage(error) });
+        }
+      };
+
       // Track if we've already responded to SSH prompt to avoid multiple responses
       let sshPromptResponded = false;
 
@@ -736,6 +1030,7 @@ export class CursorCLI {
         }
 
         stdout += chunk;
+        emitOutput(chunk, 'stdout');
       };
 
       // PTY: single data stream
@@ -760,6 +1055,7 @@ export class CursorCLI {
             });
 
             stderr += chunk;
+            emitOutput(chunk, 'stderr');
           });
         }
       }
@@ -770,6 +1066,7 @@ export class CursorCLI {
         // Set completed flag FIRST to prevent heartbeat from logging
         // This must happen before clearing the interval to prevent race conditions
         completed = true;
+        options.signal?.removeEventListener('abort', handleAbort);
 
         clearTimeout(timeoutId);
         clearTimeout(safetyTimeoutId); // Clear safety timeout since process exited normally
@@ -814,7 +1111,7 @@ export class CursorCLI {
 
           // Always resolve with result, even on failure, so caller can access stdout/stderr
           // Release semaphore before resolving
-          this.semaphore.release();
+          this.semaphore.release(queueType);
           resolve(result);
         };
 
@@ -860,25 +1157,26 @@ export class CursorCLI {
    * Generate tests (TDD Red phase)
    * @param requirements - Test requirements
    * @param targetPath - Target application path
+   * @param model - Model to run with (defaults to the configured default model)
    * @returns Promise resolving to generation result
    */
   async generateTests(
     requirements: GenerationRequirements,
-    targetPath: string
+    targetPath: string,
+    model: string = this.models.resolveModel()
   ): Promise<GenerationResult> {
     logger.info('Generating tests (TDD Red phase)', { targetPath });
 
     // Build cursor command to generate tests
-    // Use --model auto for consistent model selection (same as main execution)
     const prompt = `Generate test cases for: ${JSON.stringify(requirements)}`;
-    const args: string[] = ['--model', 'auto', '--print', '--force', prompt];
 
     try {
-      const result = await this.executeCommand(args, { cwd: targetPath });
+      const { result, model: ranModel } = await this.runGeneration(prompt, targetPath, model);
 
       return {
         success: true,
         phase: 'red',
+        model: ranModel,
         output: result.stdout,
         files: this.extractFilesFromOutput(result.stdout),
       };
@@ -897,24 +1195,25 @@ export class CursorCLI {
    * Generate implementation (TDD Green phase)
    * @param requirements - Implementation requirements
    * @param targetPath - Target application path
+   * @param model - Model to run with (defaults to the configured default model)
    * @returns Promise resolving to generation result
    */
   async generateImplementation(
     requirements: GenerationRequirements,
-    targetPath: string
+    targetPath: string,
+    model: string = this.models.resolveModel()
   ): Promise<GenerationResult> {
     logger.info('Generating implementation (TDD Green phase)', { targetPath });
 
-    // Use --model auto for consistent model selection (same as main execution)
     const prompt = `Implement code to satisfy: ${JSON.stringify(requirements)}`;
-    const args: string[] = ['--model', 'auto', '--print', '--force', prompt];
 
     try {
-      const result = await this.executeCommand(args, { cwd: targetPath });
+      const { result, model: ranModel } = await this.runGeneration(prompt, targetPath, model);
 
       return {
         success: true,
         phase: 'green',
+        model: ranModel,
         output: result.stdout,
         files: this.extractFilesFromOutput(result.stdout),
       };
@@ -933,24 +1232,25 @@ export class CursorCLI {
    * Refactor code (TDD Refactor phase)
    * @param requirements - Refactoring requirements
    * @param targetPath - Target application path
+   * @param model - Model to run with (defaults to the configured default model)
    * @returns Promise resolving to refactoring result
    */
   async refactorCode(
     requirements: GenerationRequirements,
-    targetPath: string
+    targetPath: string,
+    model: string = this.models.resolveModel()
   ): Promise<GenerationResult> {
     logger.info('Refactoring code (TDD Refactor phase)', { targetPath });
 
-    // Use --model auto for consistent model selection (same as main execution)
     const prompt = `Refactor code: ${JSON.stringify(requirements)}`;
-    const args: string[] = ['--model', 'auto', '--print', '--force', prompt];
 
     try {
-      const result = await this.executeCommand(args, { cwd: targetPath });
+      const { result, model: ranModel } = await this.runGeneration(prompt, targetPath, model);
 
       return {
         success: true,
         phase: 'refactor',
+        model: ranModel,
         output: result.stdout,
         files: this.extractFilesFromOutput(result.stdout),
       };
@@ -965,6 +1265,24 @@ export class CursorCLI {
     }
   }
 
+  /**
+   * Run a generation prompt, falling back to the configured fallback model if needed
+   */
+  private runGeneration(
+    prompt: string,
+    targetPath: string,
+    model: string
+  ): Promise<ModelRunResult> {
+    return this.models.runWithFallback(
+      model,
+      (runModel) =>
+        this.executeCommand(['--model', runModel, '--print', '--force', prompt], {
+          cwd: targetPath,
+        }),
+      { targetPath }
+    );
+  }
+
   /**
    * Extract file paths from cursor output
    * @param output - Command output
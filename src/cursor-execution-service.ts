@@ -2,16 +2,39 @@ import path from 'path';
 import { mkdirSync, writeFileSync, readFileSync } from 'fs';
 import { logger } from './logger.js';
 import { FilesystemService } from './filesystem-service.js';
-import { getWebhookSecret } from './callback-url-builder.js';
+import { CallbackDeliveryService, maskCallbackUrl } from './callback-delivery-service.js';
 import { WorkspaceTrustService } from './workspace-trust-service.js';
 import { getErrorMessage } from './error-utils.js';
 import { ConversationService, type QueueType } from './conversation-service.js';
 import { TerminalService } from './terminal-service.js';
 import type { GitService } from './git-service.js';
-import type { CursorCLI } from './cursor-cli.js';
+import {
+  isCancellationError,
+  type CursorCLI,
+  type CommandResult,
+  type OutputStream,
+} from './cursor-cli.js';
 import type { CommandParserService } from './command-parser-service.js';
 import type Redis from 'ioredis';
-import { MCPSelectionService } from './mcp-selection-service.js';
+import {
+  AVAILABLE_MCP_CONNECTIONS,
+  MCPSelectionService,
+  type MCPSelectionResult,
+} from './mcp-selection-service.js';
+import { ReviewAgentService, type ReviewResult } from './review-agent-service.js';
+import { RepositoryLockService, type ReleaseRepositoryLock } from './repository-lock-service.js';
+import { WorktreeService, type Worktree } from './worktree-service.js';
+import { GitBranchService } from './git-branch-service.js';
+import {
+  GitDiffService,
+  type ChangedFile,
+  type DiffStat,
+  type RunCommit,
+  type RunDiff,
+} from './git-diff-service.js';
+import { ModelSelectionService } from './model-selection-service.js';
+import { metrics, type ExecutionOutcome } from './metrics-service.js';
+import { runWithRequestContext, updateRequestContext } from './request-context.js';
 import { getScriptsPath, getCursorAgentsToolsPath } from './utils/path-resolver.js';
 
 /**
@@ -19,12 +42,82 @@ import { getScriptsPath, getCursorAgentsToolsPath } from './utils/path-resolver.
  */
 export interface ExecuteParams {
   repository?: string | null;
+  /**
+   * Branch to run on; checked out (or created from the default branch) before cursor runs
+   */
   branchName?: string;
   prompt: string;
   requestId: string;
   callbackUrl?: string;
   conversationId?: string;
   queueType?: QueueType;
+  /**
+   * Model to run with (defaults to the configured repository, queue or global default model)
+   */
+  model?: string;
+  /**
+   * cursor-cli timeout in milliseconds (defaults to CURSOR_CLI_TIMEOUT, or
+   * CURSOR_CLI_ITERATE_TIMEOUT for iterate passes)
+   */
+  timeout?: number;
+  /**
+   * MCP connections to use instead of selecting them from the prompt
+   */
+  mcps?: string[];
+  /**
+   * Invoked when cursor-cli acquires an execution slot and starts running
+   */
+  onStart?: () => void;
+  /**
+   * Aborting this signal cancels the cursor-cli execution
+   */
+  signal?: AbortSignal;
+  /**
+   * Invoked with each cursor-cli output chunk as it is received
+   */
+  onOutput?: (chunk: string, stream: OutputStream) => void;
+  /**
+   * Invoked when the run has to wait for another run against the same repository ('waiting'),
+   * and again once it gets the repository lock after waiting ('acquired')
+   */
+  onRepositoryLock?: (state: 'waiting' | 'acquired') => void;
+  /**
+   * Run in an isolated git worktree of the repository (on branchName or a generated branch)
+   * instead of the shared checkout. Worktree runs are not serialized by the repository lock.
+   */
+  worktree?: boolean;
+  /**
+   * Keep the worktree after the run instead of removing it
+   */
+  keepWorktree?: boolean;
+  /**
+   * Include the unified diff of the run's changes in the response and callback
+   */
+  includeDiff?: boolean;
+}
+
+/**
+ * Parameters for iterate method
+ */
+export interface IterateParams extends ExecuteParams {
+  /**
+   * Maximum number of follow-up passes after the initial run (default: 5)
+   */
+  maxIterations?: number;
+}
+
+/**
+ * One worker pass and its review within an iterate run
+ */
+export interface IterationRecord {
+  iteration: number;
+  model: string;
+  output: string;
+  exitCode: number | null;
+  duration: string;
+  review: ReviewResult | null;
+  reviewRawOutput: string;
+  reviewModel: string;
 }
 
 /**
@@ -33,6 +126,7 @@ export interface ExecuteParams {
 interface ErrorResponseBody {
   success: false;
   error: string;
+  status?: 'cancelled';
 }
 
 /**
@@ -43,6 +137,10 @@ interface SuccessResponseBody {
   requestId: string;
   repository?: string | null;
   branchName?: string;
+  /**
+   * Model cursor-agent ran with (the fallback model if the requested one was unavailable)
+   */
+  model?: string;
   command?: readonly string[];
   output?: string;
   error?: string | null;
@@ -51,8 +149,65 @@ interface SuccessResponseBody {
   timestamp: string;
   iterations?: number;
   maxIterations?: number;
+  codeComplete?: boolean;
   reviewJustification?: string;
   originalOutput?: string;
+  iterationHistory?: IterationRecord[];
+  worktree?: WorktreeSummary;
+  finalBranch?: string | null;
+  headCommit?: string | null;
+  changedFiles?: ChangedFile[];
+  diffstat?: DiffStat;
+  commits?: RunCommit[];
+  diff?: RunDiff;
+}
+
+/**
+ * Repository state after a run, reported in responses and callbacks
+ */
+type RunReport = Pick<
+  SuccessResponseBody,
+  'finalBranch' | 'headCommit' | 'changedFiles' | 'diffstat' | 'commits' | 'diff'
+>;
+
+/**
+ * Worktree an isolated run used, reported in responses and callbacks
+ */
+export interface WorktreeSummary {
+  path: string;
+  branch: string;
+  /**
+   * Whether the worktree was left on disk after the run
+   */
+  kept: boolean;
+}
+
+/**
+ * Failure body sent to callbacks (and returned by iterate), carrying whatever output is available
+ */
+interface FailureResponseBody {
+  success: false;
+  status?: 'cancelled';
+  requestId: string;
+  repository?: string | null;
+  model?: string;
+  error: string;
+  exitCode?: number;
+  duration?: string;
+  timestamp: string;
+  iterations?: number;
+  maxIterations?: number;
+  output?: string;
+  reviewJustification?: string;
+  originalOutput?: string;
+  iterationHistory?: IterationRecord[];
+  worktree?: WorktreeSummary;
+  finalBranch?: string | null;
+  headCommit?: string | null;
+  changedFiles?: ChangedFile[];
+  diffstat?: DiffStat;
+  commits?: RunCommit[];
+  diff?: RunDiff;
 }
 
 /**
@@ -97,22 +252,49 @@ type ExecutionResult = ErrorResponse | SuccessResponse;
 /**
  * Callback webhook payload - can be success or error response body
  */
-type CallbackWebhookPayload =
-  | SuccessResponseBody
-  | {
-      success: false;
-      requestId: string;
-      repository?: string | null;
-      error: string;
-      exitCode?: number;
-      duration?: string;
-      timestamp: string;
-      iterations?: number;
-      maxIterations?: number;
-      output?: string;
-      reviewJustification?: string;
-      originalOutput?: string;
-    };
+export type CallbackWebhookPayload = SuccessResponseBody | FailureResponseBody;
+
+/**
+ * Iterate result - execution result or a failure carrying the iteration trail
+ */
+type IterateResult = ExecutionResult | { status: number; body: FailureResponseBody };
+
+/**
+ * Get the metrics outcome of a finished run
+ */
+function getExecutionOutcome(result: IterateResult): ExecutionOutcome {
+  if (result.body.success) {
+    return 'success';
+  }
+  return result.body.status === 'cancelled' ? 'cancelled' : 'failure';
+}
+
+/**
+ * Default number of follow-up passes for iterate requests
+ */
+export const DEFAULT_MAX_ITERATIONS = 5;
+
+/**
+ * Get the timeout for worker passes in iterate runs (CURSOR_CLI_ITERATE_TIMEOUT)
+ * Falls back to the cursor-cli default timeout when unset or invalid.
+ */
+function getIterateTimeout(): number | undefined {
+  const value = parseInt(process.env.CURSOR_CLI_ITERATE_TIMEOUT || '', 10);
+  return isNaN(value) || value <= 0 ? undefined : value;
+}
+
+/**
+ * Build the follow-up prompt for the next worker pass from the reviewer's feedback
+ */
+function buildIterationPrompt(originalPrompt: string, feedback: string): string {
+  return `Your previous attempt at this task was reviewed and is not complete yet.
+
+Reviewer feedback:
+${feedback || 'No details provided.'}
+
+Continue working on the original task and address the feedback:
+${originalPrompt}`;
+}
 
 /**
  * NOTE: Historically, cursor-runner appended "system instruction" suffixes to the prompt text
@@ -282,6 +464,13 @@ export class CursorExecutionService {
   private terminalService: TerminalService;
   public conversationService: ConversationService;
   private mcpSelectionService: MCPSelectionService;
+  private reviewAgent: ReviewAgentService;
+  public repositoryLock: RepositoryLockService;
+  private worktreeService: WorktreeService;
+  private gitBranchService: GitBranchService;
+  private gitDiffService: GitDiffService;
+  public callbackDelivery: CallbackDeliveryService;
+  public modelSelection: ModelSelectionService;
 
   constructor(
     gitService: GitService,
@@ -300,6 +489,13 @@ export class CursorExecutionService {
     this.conversationService = new ConversationService(redisClient);
     this.scriptsPath = SCRIPTS_PATH;
     this.mcpSelectionService = new MCPSelectionService();
+    this.repositoryLock = new RepositoryLockService({ redisClient });
+    this.worktreeService = new WorktreeService(this.terminalService);
+    this.gitBranchService = new GitBranchService(this.terminalService);
+    this.gitDiffService = new GitDiffService(this.terminalService);
+    this.callbackDelivery = new CallbackDeliveryService();
+    this.modelSelection = new ModelSelectionService();
+    this.reviewAgent = new ReviewAgentService(cursorCLI, this.modelSelection);
     this.ensureScriptsDirectory();
   }
 
@@ -656,15 +852,40 @@ export class CursorExecutionService {
    * Execute a single cursor command
    * @param params - Execution parameters
    * @param params.repository - Repository name (optional, uses repositories directory if not provided)
-   * @param params.branchName - Optional branch name (for logging/tracking)
+   * @param params.branchName - Optional branch to check out (created from the default branch if missing)
    * @param params.prompt - Prompt string
    * @param params.requestId - Request ID
    * @param params.callbackUrl - Optional callback URL to notify when complete
+   * @param params.signal - Optional AbortSignal used to cancel the execution
    * @returns Execution result
    */
   async execute(params: ExecuteParams): Promise<ExecutionResult> {
-    const { repository, branchName, prompt, requestId, callbackUrl, conversationId, queueType } =
-      params;
+    return this.recordRun('execute', params, () =>
+      this.withWorkspace(params, (worktree) => this.runExecution(params, worktree))
+    );
+  }
+
+  /**
+   * Execute a single cursor command once its workspace is ready
+   * @param worktree - Isolated worktree to run in (runs in the repository checkout if omitted)
+   */
+  private async runExecution(
+    params: ExecuteParams,
+    worktree?: WorktreeSummary
+  ): Promise<ExecutionResult> {
+    const {
+      repository,
+      branchName,
+      prompt,
+      requestId,
+      callbackUrl,
+      conversationId,
+      queueType,
+      timeout,
+      onStart,
+      signal,
+      onOutput,
+    } = params;
     const startTime = Date.now();
 
     // Validate request
@@ -730,7 +951,7 @@ export class CursorExecutionService {
       };
       return errorResponse;
     }
-    const fullRepositoryPath = repoValidation.fullRepositoryPath;
+    const fullRepositoryPath = worktree?.path ?? repoValidation.fullRepositoryPath;
     if (!fullRepositoryPath) {
       const errorResponse: ErrorResponse = {
         status: 500,
@@ -751,6 +972,7 @@ export class CursorExecutionService {
       conversationId,
       queueType
     );
+    updateRequestContext({ conversationId: actualConversationId });
 
     // Get conversation context and build context string (used for MCP selection only)
     const conversationMessages =
@@ -764,7 +986,7 @@ export class CursorExecutionService {
 
     // Select relevant MCP connections based on prompt analysis
     logger.info('Selecting MCP connections for request', { requestId });
-    const mcpSelection = await this.mcpSelectionService.selectMcps(prompt, contextString);
+    const mcpSelection = await this.selectMcps(params, contextString);
 
     logger.info('MCP selection completed', {
       requestId,
@@ -863,7 +1085,7 @@ export class CursorExecutionService {
     }
 
     // Construct command as array to avoid parsing issues with newlines in prompt
-    // --model auto uses automatic model selection (put first)
+    // --model selects the requested or configured default model (put first)
     // --print runs in non-interactive mode (required for automation)
     // --force enables file modifications
     // --approve-mcps automatically approves all MCP servers (required for headless mode)
@@ -872,13 +1094,14 @@ export class CursorExecutionService {
     // We only include it when we actually intend to use MCP tools for this request.
     const shouldApproveMcps = mcpSelection.selectedMcps.length > 0;
 
-    const commandArgs = shouldApproveMcps
-      ? (['--model', 'auto', '--print', '--force', '--approve-mcps', fullPrompt] as const)
-      : (['--model', 'auto', '--print', '--force', fullPrompt] as const);
-
     // IMPORTANT: Do not append any instruction suffixes to the prompt.
     // (No BASE_SYSTEM_INSTRUCTIONS, no MCP_SPECIFIC_INSTRUCTIONS.)
-    const modifiedArgs = commandArgs;
+    const buildCommandArgs = (model: string): readonly string[] =>
+      shouldApproveMcps
+        ? ['--model', model, '--print', '--force', '--approve-mcps', fullPrompt]
+        : ['--model', model, '--print', '--force', fullPrompt];
+    const requestedModel = this.modelSelection.resolveModel(params);
+    let modifiedArgs = buildCommandArgs(requestedModel);
 
     // Execute cursor command
     // Log final MCP state before execution for debugging
@@ -901,6 +1124,7 @@ export class CursorExecutionService {
       requestId,
       repository,
       branchName,
+      model: requestedModel,
       command: modifiedArgs,
       cwd: fullRepositoryPath,
       mcpConfigState: finalMcpState,
@@ -913,9 +1137,37 @@ export class CursorExecutionService {
     // Store only the original prompt, not fullPrompt, to avoid duplicating history
     await this.conversationService.addMessage(actualConversationId, 'user', prompt, false);
 
-    const result = await this.cursorCLI.executeCommand([...modifiedArgs], {
-      cwd: fullRepositoryPath,
-    });
+    const baseCommit = await this.getBaseCommit(repository, fullRepositoryPath);
+    let result: CommandResult;
+    let model: string;
+    try {
+      ({ result, model } = await this.modelSelection.runWithFallback(
+        requestedModel,
+        (runModel) => {
+          modifiedArgs = buildCommandArgs(runModel);
+          return this.cursorCLI.executeCommand([...modifiedArgs], {
+            cwd: fullRepositoryPath,
+            timeout,
+            onStart,
+            signal,
+            onOutput,
+            queueType,
+          });
+        },
+        { requestId, repository }
+      ));
+    } catch (error) {
+      if (isCancellationError(error)) {
+        return this.handleCancellation({
+          requestId,
+          repository,
+          conversationId: actualConversationId,
+          callbackUrl,
+          startTime,
+        });
+      }
+      throw error;
+    }
 
     // Store what we received from cursor in Redis (right after receiving)
     const assistantOutput = result.stdout || result.stderr || '';
@@ -935,7 +1187,7 @@ export class CursorExecutionService {
         requestId,
         conversationId: actualConversationId,
       });
-      await this.summarizeConversationIfNeeded(actualConversationId, fullRepositoryPath);
+      await this.summarizeConversationIfNeeded(actualConversationId, fullRepositoryPath, model);
     }
 
     // Check for API key errors and log prominently
@@ -947,6 +1199,7 @@ export class CursorExecutionService {
       repository,
       branchName,
       conversationId: actualConversationId,
+      model,
       success: result.success,
       duration: `${duration}ms`,
     });
@@ -955,6 +1208,7 @@ export class CursorExecutionService {
       success: true,
       requestId,
       repository,
+      model,
       command: modifiedArgs,
       output: result.stdout || '',
       error: result.stderr || null,
@@ -967,6 +1221,10 @@ export class CursorExecutionService {
     if (branchName) {
       responseBody.branchName = branchName;
     }
+    if (worktree) {
+      responseBody.worktree = worktree;
+    }
+    Object.assign(responseBody, await this.getRunReport(params, fullRepositoryPath, baseCommit));
 
     // If callback URL is provided, call it asynchronously (don't wait)
     if (callbackUrl) {
@@ -985,13 +1243,691 @@ export class CursorExecutionService {
     };
   }
 
+  /**
+   * Execute a cursor command iteratively with a review agent
+   * Runs the prompt, asks the review agent whether the work is complete, and re-prompts with the
+   * reviewer's feedback until it is, the reviewer says to stop, or maxIterations is reached.
+   * @param params - Iterate parameters (execute parameters plus maxIterations)
+   * @returns Iterate result including the per-iteration trail
+   */
+  async iterate(params: IterateParams): Promise<IterateResult> {
+    return this.recordRun('iterate', params, () =>
+      this.withWorkspace(params, (worktree) => this.runIteration(params, worktree))
+    );
+  }
+
+  /**
+   * Run an execute or iterate request in its request context, recording its outcome and
+   * duration in the metrics
+   */
+  private async recordRun<T extends IterateResult>(
+    mode: 'execute' | 'iterate',
+    params: ExecuteParams,
+    run: () => Promise<T>
+  ): Promise<T> {
+    const { requestId, conversationId, repository, queueType } = params;
+    return runWithRequestContext({ requestId, conversationId, repository, queueType }, async () => {
+      const startTime = Date.now();
+      try {
+        const result = await run();
+        metrics.recordExecution(mode, getExecutionOutcome(result), params, Date.now() - startTime);
+        return result;
+      } catch (error) {
+        metrics.recordExecution(mode, 'error', params, Date.now() - startTime);
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Run the iterate loop once its workspace is ready
+   * All passes of the loop run in the same workspace (and under the same repository lock).
+   * @param worktree - Isolated worktree to run in (runs in the repository checkout if omitted)
+   */
+  private async runIteration(
+    params: IterateParams,
+    worktree?: WorktreeSummary
+  ): Promise<IterateResult> {
+    const {
+      repository,
+      branchName,
+      prompt,
+      requestId,
+      callbackUrl,
+      conversationId,
+      queueType,
+      timeout,
+      onStart,
+      signal,
+      onOutput,
+    } = params;
+    const maxIterations = params.maxIterations ?? DEFAULT_MAX_ITERATIONS;
+    const startTime = Date.now();
+
+    // Validate request
+    const validationError = this.validateRequest({ prompt });
+    if (validationError) {
+      this.notifyCallback(
+        callbackUrl,
+        {
+          success: false,
+          requestId,
+          repository,
+          error: validationError.body.error,
+          exitCode: 1,
+          duration: '0ms',
+          timestamp: new Date().toISOString(),
+          iterations: 0,
+          maxIterations,
+        },
+        requestId
+      );
+      return { ...validationError, requestId };
+    }
+
+    // Validate repository exists or use repositories directory
+    const repoValidation = this.validateRepository(repository);
+    const fullRepositoryPath = worktree?.path ?? repoValidation.fullRepositoryPath;
+    if (repoValidation.status || !fullRepositoryPath) {
+      const error = repoValidation.body?.error || 'Failed to determine repository path';
+      this.notifyCallback(
+        callbackUrl,
+        {
+          success: false,
+          requestId,
+          repository,
+          error,
+          exitCode: 1,
+          duration: '0ms',
+          timestamp: new Date().toISOString(),
+          iterations: 0,
+          maxIterations,
+        },
+        requestId
+      );
+      return {
+        status: repoValidation.status || 500,
+        body: { success: false, error },
+        requestId,
+      };
+    }
+
+    await this.workspaceTrust.ensureWorkspaceTrust(fullRepositoryPath);
+
+    const actualConversationId = await this.conversationService.getConversationId(
+      conversationId,
+      queueType
+    );
+    updateRequestContext({ conversationId: actualConversationId });
+    const conversationMessages =
+      await this.conversationService.getConversationContext(actualConversationId);
+    const contextString = this.conversationService.buildContextString(conversationMessages);
+
+    // MCP selection is based on the original prompt and reused for every pass
+    const mcpSelection = await this.selectMcps(params, contextString);
+    logger.info('MCP selection completed for iterate request', {
+      requestId,
+      selectedMcps: mcpSelection.selectedMcps,
+      reasoning: mcpSelection.reasoning,
+    });
+    await this.writeFilteredMcpConfig(mcpSelection.selectedMcps, requestId);
+    const mcpArgs = mcpSelection.selectedMcps.length > 0 ? ['--approve-mcps'] : [];
+
+    const iterationHistory: IterationRecord[] = [];
+    let iterations = 0;
+    let currentPrompt = prompt;
+    // Once a pass falls back to another model, later passes keep using it
+    let currentModel = this.modelSelection.resolveModel(params);
+    // Changes are reported across all passes
+    const baseCommit = await this.getBaseCommit(repository, fullRepositoryPath);
+
+    const buildFailure = async (
+      status: number,
+      fields: Pick<FailureResponseBody, 'error' | 'output'> &
+        Partial<Pick<FailureResponseBody, 'exitCode' | 'reviewJustification' | 'originalOutput'>>
+    ): Promise<{ status: number; body: FailureResponseBody }> => {
+      const body: FailureResponseBody = {
+        success: false,
+        requestId,
+        repository,
+        model: currentModel,
+        ...fields,
+        duration: `${Date.now() - startTime}ms`,
+        timestamp: new Date().toISOString(),
+        iterations,
+        maxIterations,
+        iterationHistory,
+        worktree,
+        ...(await this.getRunReport(params, fullRepositoryPath, baseCommit)),
+      };
+      this.notifyCallback(callbackUrl, body, requestId);
+      return { status, body };
+    };
+
+    try {
+      for (;;) {
+        const passStartTime = Date.now();
+        let commandArgs: string[] = [];
+
+        logger.info('Executing cursor iteration', {
+          requestId,
+          repository,
+          branchName,
+          model: currentModel,
+          iteration: iterations,
+          maxIterations,
+          cwd: fullRepositoryPath,
+          selectedMcps: mcpSelection.selectedMcps,
+        });
+
+        await this.conversationService.addMessage(actualConversationId, 'user', currentPrompt);
+        const { result, model } = await this.modelSelection.runWithFallback(
+          currentModel,
+          (runModel) => {
+            commandArgs = ['--model', runModel, '--print', '--force', ...mcpArgs, currentPrompt];
+            return this.cursorCLI.executeCommand(commandArgs, {
+              cwd: fullRepositoryPath,
+              timeout: timeout ?? getIterateTimeout(),
+              onStart,
+              signal,
+              onOutput,
+              queueType,
+            });
+          },
+          { requestId, repository, iteration: iterations }
+        );
+        currentModel = model;
+
+        const output = result.stdout || '';
+        const assistantOutput = result.stdout || result.stderr || '';
+        if (assistantOutput) {
+          await this.conversationService.addMessage(
+            actualConversationId,
+            'assistant',
+            assistantOutput
+          );
+        }
+
+        const combinedOutput = (result.stdout || '') + (result.stderr || '');
+        if (this.conversationService.isContextWindowError(combinedOutput)) {
+          logger.warn('Context window error detected, summarizing conversation', {
+            requestId,
+            conversationId: actualConversationId,
+          });
+          await this.summarizeConversationIfNeeded(
+            actualConversationId,
+            fullRepositoryPath,
+            currentModel
+          );
+        }
+        this.checkForApiKeyErrors(combinedOutput, requestId);
+
+        // Ask the review agent whether the work is complete
+        await this.conversationService.addMessage(
+          actualConversationId,
+          'user',
+          `[Review Agent Request] Review output of iteration ${iterations}`,
+          true
+        );
+        const review = await this.reviewAgent.reviewOutput(output, fullRepositoryPath, {
+          queueType,
+          model: currentModel,
+          signal,
+        });
+        await this.conversationService.addMessage(
+          actualConversationId,
+          'assistant',
+          `[Review Agent Response] ${review.rawOutput}`,
+          true
+        );
+
+        iterationHistory.push({
+          iteration: iterations,
+          model: currentModel,
+          output,
+          exitCode: result.exitCode,
+          duration: `${Date.now() - passStartTime}ms`,
+          review: review.result,
+          reviewRawOutput: review.rawOutput,
+          reviewModel: review.model,
+        });
+
+        logger.info('Cursor iteration reviewed', {
+          requestId,
+          iteration: iterations,
+          codeComplete: review.result?.code_complete ?? null,
+          breakIteration: review.result?.break_iteration ?? null,
+          justification: review.result?.justification,
+        });
+
+        // Review agent failure acts as a circuit breaker - don't keep re-prompting blindly
+        if (!review.result) {
+          return buildFailure(422, {
+            error: `Review agent could not assess the output: ${review.rawOutput}`,
+            output,
+            exitCode: result.exitCode ?? 1,
+          });
+        }
+
+        if (review.result.break_iteration) {
+          return buildFailure(422, {
+            error: `Iteration stopped by review agent: ${review.result.justification}`,
+            output,
+            exitCode: result.exitCode ?? 1,
+            reviewJustification: review.result.justification,
+            originalOutput: output,
+          });
+        }
+
+        if (review.result.code_complete || iterations >= maxIterations) {
+          const duration = Date.now() - startTime;
+          logger.info('Cursor iterate completed', {
+            requestId,
+            repository,
+            conversationId: actualConversationId,
+            iterations,
+            maxIterations,
+            codeComplete: review.result.code_complete,
+            duration: `${duration}ms`,
+          });
+
+          const responseBody: SuccessResponseBody = {
+            success: true,
+            requestId,
+            repository,
+            model: currentModel,
+            command: commandArgs,
+            output,
+            error: result.stderr || null,
+            exitCode: result.exitCode || 0,
+            duration: `${duration}ms`,
+            timestamp: new Date().toISOString(),
+            iterations,
+            maxIterations,
+            codeComplete: review.result.code_complete,
+            reviewJustification: review.result.justification,
+            iterationHistory,
+          };
+          if (branchName) {
+            responseBody.branchName = branchName;
+          }
+          if (worktree) {
+            responseBody.worktree = worktree;
+          }
+          Object.assign(
+            responseBody,
+            await this.getRunReport(params, fullRepositoryPath, baseCommit)
+          );
+
+          this.notifyCallback(callbackUrl, responseBody, requestId);
+          return { status: 200, body: responseBody };
+        }
+
+        iterations++;
+        currentPrompt = buildIterationPrompt(prompt, review.result.justification);
+      }
+    } catch (error) {
+      if (isCancellationError(error)) {
+        return this.handleCancellation({
+          requestId,
+          repository,
+          conversationId: actualConversationId,
+          callbackUrl,
+          startTime,
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Select the MCP connections for a request, unless the request chose them itself
+   * @param params - Execution parameters
+   * @param contextString - Conversation context for MCP selection
+   */
+  private async selectMcps(
+    params: ExecuteParams,
+    contextString: string
+  ): Promise<MCPSelectionResult> {
+    if (params.mcps) {
+      metrics.recordMcpSelection(
+        'request',
+        params.mcps,
+        AVAILABLE_MCP_CONNECTIONS.map((mcp) => mcp.name)
+      );
+      return { selectedMcps: params.mcps, reasoning: 'Chosen by the request' };
+    }
+    return this.mcpSelectionService.selectMcps(params.prompt, contextString);
+  }
+
+  /**
+   * Send a callback without waiting for it, logging delivery failures
+   * @param callbackUrl - Callback URL (no-op when not provided)
+   * @param payload - Callback payload
+   * @param requestId - Request ID for logging
+   */
+  private notifyCallback(
+    callbackUrl: string | undefined,
+    payload: CallbackWebhookPayload,
+    requestId: string
+  ): void {
+    if (!callbackUrl) {
+      return;
+    }
+
+    this.callbackWebhook(callbackUrl, payload, requestId).catch((error) => {
+      logger.error('Failed to call callback webhook', {
+        requestId,
+        callbackUrl,
+        error: getErrorMessage(error),
+      });
+    });
+  }
+
+  /**
+   * Prepare the workspace an execution runs in, then run it
+   * Shared-checkout runs are serialized per repository; worktree runs get their own checkout,
+   * which is removed afterwards unless keepWorktree is set.
+   * @param params - Execution parameters
+   * @param run - Execution to run, given the worktree when one was created
+   * @returns The execution's result, or an error response if the workspace could not be prepared
+   */
+  private async withWorkspace<T>(
+    params: ExecuteParams,
+    run: (worktree?: WorktreeSummary) => Promise<T>
+  ): Promise<T | ErrorResponse> {
+    if (!params.worktree) {
+      return this.withRepositoryLock(
+        params,
+        async () => (await this.checkoutRequestedBranch(params)) ?? run()
+      );
+    }
+
+    const { repository, branchName, requestId, keepWorktree = false } = params;
+    const repoValidation = this.validateRepository(repository);
+    // Let the execution report validation errors as usual
+    if (this.validateRequest({ prompt: params.prompt }) || repoValidation.status) {
+      return run();
+    }
+    if (!repository || !repoValidation.fullRepositoryPath) {
+      return this.rejectExecution(params, 400, 'Worktree isolation requires a repository');
+    }
+
+    const repositoryPath = repoValidation.fullRepositoryPath;
+    let worktree: Worktree;
+    try {
+      worktree = await this.worktreeService.createWorktree(repositoryPath, {
+        repository,
+        requestId,
+        branchName,
+      });
+    } catch (error) {
+      logger.error('Failed to create worktree for execution', {
+        requestId,
+        repository,
+        branchName,
+        error: getErrorMessage(error),
+      });
+      return this.rejectExecution(
+        params,
+        500,
+        `Failed to create worktree: ${getErrorMessage(error)}`
+      );
+    }
+
+    try {
+      return await run({ path: worktree.path, branch: worktree.branch, kept: keepWorktree });
+    } finally {
+      if (!keepWorktree) {
+        await this.worktreeService.removeWorktree(repositoryPath, worktree);
+      }
+    }
+  }
+
+  /**
+   * Check out the requested branch in the repository's shared checkout
+   * Runs under the repository lock so concurrent runs can't switch branches under each other.
+   * @returns Error response if the branch could not be checked out, null otherwise
+   */
+  private async checkoutRequestedBranch(params: ExecuteParams): Promise<ErrorResponse | null> {
+    const { repository, branchName, requestId } = params;
+    if (!repository || !branchName) {
+      return null;
+    }
+    const repoValidation = this.validateRepository(repository);
+    // Let the execution report validation errors as usual
+    if (
+      this.validateRequest({ prompt: params.prompt }) ||
+      repoValidation.status ||
+      !repoValidation.fullRepositoryPath
+    ) {
+      return null;
+    }
+
+    const repositoryPath = repoValidation.fullRepositoryPath;
+    if (!(await this.gitBranchService.isGitRepository(repositoryPath))) {
+      logger.warn('Repository is not a git repository, ignoring branchName', {
+        requestId,
+        repository,
+        branchName,
+      });
+      return null;
+    }
+
+    try {
+      await this.gitBranchService.checkoutBranch(repositoryPath, branchName);
+      return null;
+    } catch (error) {
+      logger.error('Failed to check out requested branch', {
+        requestId,
+        repository,
+        branchName,
+        error: getErrorMessage(error),
+      });
+      return this.rejectExecution(
+        params,
+        422,
+        `Failed to check out branch ${branchName}: ${getErrorMessage(error)}`
+      );
+    }
+  }
+
+  /**
+   * Get the commit a run starts from, so its changes can be reported afterwards
+   * @returns Commit SHA, or null when not running in a git repository
+   */
+  private async getBaseCommit(
+    repository: string | null | undefined,
+    cwd: string
+  ): Promise<string | null> {
+    return repository ? this.gitDiffService.getHeadCommit(cwd) : null;
+  }
+
+  /**
+   * Describe the repository after a run: the branch and HEAD commit it finished on and what it
+   * changed since baseCommit
+   * @returns Report fields, or an empty object when the run was not in a git repository
+   */
+  private async getRunReport(
+    params: ExecuteParams,
+    cwd: string,
+    baseCommit: string | null
+  ): Promise<RunReport> {
+    if (!params.repository || !(await this.gitBranchService.isGitRepository(cwd))) {
+      return {};
+    }
+
+    const head = await this.gitBranchService.getHead(cwd);
+    const report: RunReport = { finalBranch: head.branch, headCommit: head.commit };
+    if (baseCommit) {
+      const changes = await this.gitDiffService.getChanges(cwd, baseCommit, {
+        requestId: params.requestId,
+        includeDiff: params.includeDiff,
+      });
+      if (changes) {
+        report.changedFiles = changes.changedFiles;
+        report.diffstat = changes.diffstat;
+        report.commits = changes.commits;
+        report.diff = changes.diff;
+      }
+    }
+    return report;
+  }
+
+  /**
+   * Fail an execution before cursor runs, notifying the callback URL
+   * @returns Error response with the given status
+   */
+  private rejectExecution(params: ExecuteParams, status: number, error: string): ErrorResponse {
+    const { requestId, repository, callbackUrl } = params;
+    this.notifyCallback(
+      callbackUrl,
+      {
+        success: false,
+        requestId,
+        repository,
+        error,
+        exitCode: 1,
+        duration: '0ms',
+        timestamp: new Date().toISOString(),
+      },
+      requestId
+    );
+    return { status, body: { success: false, error }, requestId };
+  }
+
+  /**
+   * Run an execution while holding the lock for its repository
+   * Runs against the same repository share a working tree, so they are serialized; runs without
+   * a repository, or that will fail validation anyway, are not held back.
+   * @param params - Execution parameters (repository, request ID, abort signal and lock hook)
+   * @param run - Execution to run under the lock
+   * @returns The execution's result, or a cancelled response if aborted while waiting
+   */
+  private async withRepositoryLock<T>(
+    params: ExecuteParams,
+    run: () => Promise<T>
+  ): Promise<T | ErrorResponse> {
+    const { repository, requestId, callbackUrl, signal, onRepositoryLock } = params;
+    if (
+      !repository ||
+      this.validateRequest({ prompt: params.prompt }) ||
+      this.validateRepository(repository).status
+    ) {
+      return run();
+    }
+
+    const startTime = Date.now();
+    let waited = false;
+    let release: ReleaseRepositoryLock;
+    try {
+      release = await this.repositoryLock.acquire(repository, {
+        requestId,
+        signal,
+        onWait: () => {
+          waited = true;
+          onRepositoryLock?.('waiting');
+        },
+      });
+    } catch (error) {
+      if (isCancellationError(error)) {
+        return this.handleCancellation({ requestId, repository, callbackUrl, startTime });
+      }
+      throw error;
+    }
+
+    if (waited) {
+      logger.info('Repository lock acquired', {
+        requestId,
+        repository,
+        waited: `${Date.now() - startTime}ms`,
+      });
+      onRepositoryLock?.('acquired');
+    }
+
+    try {
+      return await run();
+    } finally {
+      await release();
+    }
+  }
+
+  /**
+   * Record a cancelled execution in the conversation and notify the callback URL
+   * @returns Error response flagged with the cancelled status
+   */
+  private async handleCancellation(params: {
+    requestId: string;
+    repository?: string | null;
+    conversationId?: string;
+    callbackUrl?: string;
+    startTime: number;
+  }): Promise<ErrorResponse> {
+    const { requestId, repository, conversationId, callbackUrl, startTime } = params;
+    const duration = Date.now() - startTime;
+
+    logger.warn('Cursor execution cancelled', {
+      requestId,
+      repository,
+      conversationId,
+      duration: `${duration}ms`,
+    });
+
+    // No conversation yet if the request was cancelled while waiting for its repository lock
+    if (conversationId) {
+      await this.conversationService.addMessage(
+        conversationId,
+        'assistant',
+        `[Execution cancelled] Request ${requestId} was cancelled before cursor finished.`,
+        false
+      );
+    }
+
+    if (callbackUrl) {
+      this.callbackWebhook(
+        callbackUrl,
+        {
+          success: false,
+          status: 'cancelled',
+          requestId,
+          repository,
+          error: 'Execution cancelled',
+          duration: `${duration}ms`,
+          timestamp: new Date().toISOString(),
+        },
+        requestId
+      ).catch((error) => {
+        logger.error('Failed to call callback webhook for cancellation', {
+          requestId,
+          callbackUrl,
+          error: getErrorMessage(error),
+        });
+      });
+    }
+
+    return {
+      status: 409,
+      body: {
+        success: false,
+        status: 'cancelled',
+        error: 'Execution cancelled',
+      },
+      requestId,
+    };
+  }
+
   /**
    * Summarize conversation using cursor when context window errors occur
    * Summarizes to approximately 1/3 of the original token count
    * @param conversationId - Conversation ID to summarize
    * @param cwd - Working directory for cursor execution
+   * @param model - Model to summarize with (defaults to the configured default model)
    */
-  private async summarizeConversationIfNeeded(conversationId: string, cwd: string): Promise<void> {
+  private async summarizeConversationIfNeeded(
+    conversationId: string,
+    cwd: string,
+    model: string = this.modelSelection.resolveModel()
+  ): Promise<void> {
     try {
       // Get raw conversation messages
       const messages = await this.conversationService.getRawConversation(conversationId);
@@ -1023,23 +1959,28 @@ Provide a concise summary that captures the essential information:`;
 
       // Use cursor to generate the summary
       // --approve-mcps automatically approves all MCP servers (required for headless mode)
-      const summarizeShouldApproveMcps = summarizeMcpSelection.selectedMcps.length > 0;
-      const summarizeCommandArgs = summarizeShouldApproveMcps
-        ? (['--model', 'auto', '--print', '--force', '--approve-mcps', summarizePrompt] as const)
-        : (['--model', 'auto', '--print', '--force', summarizePrompt] as const);
-
       // IMPORTANT: Do not append any instruction suffixes to the summarization prompt.
-      const summarizeArgs = summarizeCommandArgs;
+      const summarizeShouldApproveMcps = summarizeMcpSelection.selectedMcps.length > 0;
+      const buildSummarizeArgs = (summarizeModel: string): string[] =>
+        summarizeShouldApproveMcps
+          ? ['--model', summarizeModel, '--print', '--force', '--approve-mcps', summarizePrompt]
+          : ['--model', summarizeModel, '--print', '--force', summarizePrompt];
 
       logger.info('Summarizing conversation using cursor', {
         conversationId,
+        model,
         messageCount: messages.length,
       });
 
-      const summaryResult = await this.cursorCLI.executeCommand([...summarizeArgs], {
-        cwd,
-        timeout: 300000, // 5 minutes for summarization
-      });
+      const { result: summaryResult } = await this.modelSelection.runWithFallback(
+        model,
+        (summarizeModel) =>
+          this.cursorCLI.executeCommand(buildSummarizeArgs(summarizeModel), {
+            cwd,
+            timeout: 300000, // 5 minutes for summarization
+          }),
+        { conversationId }
+      );
 
       const summary = summaryResult.stdout || summaryResult.stderr || '';
       if (!summary) {
@@ -1068,10 +2009,11 @@ Provide a concise summary that captures the essential information:`;
 
   /**
    * Call webhook callback URL with result
+   * Failed deliveries are retried in the background by CallbackDeliveryService.
    * @param callbackUrl - URL to call (may include secret in query string)
    * @param result - Result to send
    * @param requestId - Request ID for logging
-   * @returns Promise that resolves when webhook is called
+   * @returns Promise that resolves when the first delivery attempt succeeds
    */
   async callbackWebhook(
     callbackUrl: string,
@@ -1084,67 +2026,12 @@ Provide a concise summary that captures the essential information:`;
     if (!shouldSendElevenLabsCallback(callbackUrl)) {
       logger.info('Skipping ElevenLabs callback due to feature flag', {
         requestId,
-        callbackUrl: callbackUrl.replace(/secret=[^&]*/, 'secret=***'), // Mask secret in logs
+        callbackUrl: maskCallbackUrl(callbackUrl),
       });
       return;
     }
-    try {
-      logger.info('Calling callback webhook', { requestId, callbackUrl });
-
-      // Get webhook secret from environment or URL query parameter
-      const url = new URL(callbackUrl);
-      let secret = url.searchParams.get('secret');
-
-      // If no secret in URL, try environment variable
-      if (!secret) {
-        secret = getWebhookSecret();
-      }
-
-      const headers: Record<string, string> = {
-        'Content-Type': 'application/json',
-        'User-Agent': 'cursor-runner/1.0',
-      };
-
-      // Add secret to headers if available
-      if (secret) {
-        headers['X-Webhook-Secret'] = secret;
-        headers['X-Cursor-Runner-Secret'] = secret; // Also support this header name for compatibility
-        // Remove secret from URL for cleaner logging
-        url.searchParams.delete('secret');
-        callbackUrl = url.toString();
-      }
-
-      const response = await fetch(callbackUrl, {
-        method: 'POST',
-        headers,
-        body: JSON.stringify(result),
-        // Set reasonable timeout for webhook calls
-        signal: AbortSignal.timeout(30000), // 30 seconds
-      });
 
-      if (!response.ok) {
-        const errorText = await response.text().catch(() => 'Unknown error');
-        throw new Error(`Webhook returned ${response.status}: ${errorText}`);
-      }
-
-      logger.info('Callback webhook called successfully', {
-        requestId,
-        callbackUrl,
-        status: response.status,
-      });
-    } catch (error) {
-      // Log error but don't throw - we don't want to fail the main operation
-      const err = error instanceof Error ? error : new Error(getErrorMessage(error));
-      if (err.name === 'AbortError') {
-        logger.error('Callback webhook timeout', { requestId, callbackUrl });
-      } else {
-        logger.error('Callback webhook error', {
-          requestId,
-          callbackUrl,
-          error: getErrorMessage(err),
-        });
-      }
-      throw err; // Re-throw so caller can handle if needed
-    }
+    // Rejects if the first attempt fails so caller can handle if needed
+    await this.callbackDelivery.deliver(callbackUrl, result, requestId);
   }
 }
@@ -0,0 +1,321 @@
+import Database from 'better-sqlite3';
+import { logger } from './logger.js';
+import { getErrorMessage } from './error-utils.js';
+import { parseTaskFields } from './task-service.js';
+import { validateMcpNames } from './mcp-selection-service.js';
+import { validateTimeout } from './cursor-cli.js';
+import type { ModelSelectionService } from './model-selection-service.js';
+import { getSharedDbPath } from './utils/path-resolver.js';
+
+/**
+ * Preset names are used in URLs and request bodies
+ */
+const PRESET_NAME_PATTERN = /^[A-Za-z0-9][\w.-]*$/;
+
+/**
+ * Execution preset interface matching the database schema
+ */
+export interface ExecutionPreset {
+  id: number;
+  name: string;
+  description: string | null;
+  repository: string | null;
+  branch_name: string | null;
+  model: string | null;
+  /**
+   * cursor-cli timeout in milliseconds
+   */
+  timeout: number | null;
+  /**
+   * MCP connections to use (null lets MCP selection pick them from the prompt)
+   */
+  mcps: string[] | null;
+  /**
+   * Text prepended to the prompt of every request using the preset
+   */
+  prompt_preamble: string | null;
+  createdat: string;
+  updatedat: string;
+}
+
+/**
+ * Execution preset row as stored in the execution_presets table
+ */
+interface ExecutionPresetRow extends Omit<ExecutionPreset, 'mcps'> {
+  mcps: string | null;
+}
+
+/**
+ * Fields that can be set on an execution preset (null clears a field)
+ */
+export interface ExecutionPresetInput {
+  name?: string;
+  description?: string | null;
+  repository?: string | null;
+  branchName?: string | null;
+  model?: string | null;
+  timeout?: number | null;
+  mcps?: string[] | null;
+  promptPreamble?: string | null;
+}
+
+/**
+ * Map database row to ExecutionPreset interface
+ */
+function mapExecutionPresetRow(row: ExecutionPresetRow): ExecutionPreset {
+  return {
+    ...row,
+    mcps: row.mcps ? (JSON.parse(row.mcps) as string[]) : null,
+  };
+}
+
+/**
+ * Validate an execution preset create/update body; absent fields are left out
+ * @param body - Request body (name, description, repository, branch_name, model, timeout, mcps,
+ * prompt_preamble)
+ * @param required - Whether name must be present (on create)
+ * @param models - Used to check the model is allowed
+ * @returns The fields to store, or an error message
+ */
+export function parseExecutionPresetInput(
+  body: Record<string, unknown>,
+  required: boolean,
+  models: ModelSelectionService
+): { input: ExecutionPresetInput } | { error: string } {
+  const input: ExecutionPresetInput = {};
+
+  if (required || body.name !== undefined) {
+    if (typeof body.name !== 'string' || !PRESET_NAME_PATTERN.test(body.name)) {
+      return {
+        error:
+          'name must start with a letter or digit and contain only letters, digits, ".", "_" and "-"',
+      };
+    }
+    input.name = body.name;
+  }
+
+  for (const field of ['description', 'prompt_preamble'] as const) {
+    const value = body[field];
+    if (value !== undefined && value !== null && typeof value !== 'string') {
+      return { error: `${field} must be a string` };
+    }
+  }
+  if (body.description !== undefined) {
+    input.description = (body.description as string | null) || null;
+  }
+  if (body.prompt_preamble !== undefined) {
+    input.promptPreamble = (body.prompt_preamble as string | null)?.trim() || null;
+  }
+
+  const parsedFields = parseTaskFields({
+    repository: body.repository,
+    branch_name: body.branch_name,
+  });
+  if ('error' in parsedFields) {
+    return parsedFields;
+  }
+  if (parsedFields.fields.repository !== undefined) {
+    input.repository = parsedFields.fields.repository;
+  }
+  if (parsedFields.fields.branchName !== undefined) {
+    input.branchName = parsedFields.fields.branchName;
+  }
+
+  if (body.model !== undefined) {
+    const modelError = body.model === null ? null : models.validateModel(body.model);
+    if (modelError) {
+      return { error: modelError };
+    }
+    input.model = body.model as string | null;
+  }
+
+  if (body.timeout !== undefined) {
+    const timeoutError = body.timeout === null ? null : validateTimeout(body.timeout);
+    if (timeoutError) {
+      return { error: timeoutError };
+    }
+    input.timeout = body.timeout as number | null;
+  }
+
+  if (body.mcps !== undefined) {
+    const mcpsError = body.mcps === null ? null : validateMcpNames(body.mcps);
+    if (mcpsError) {
+      return { error: mcpsError };
+    }
+    input.mcps = body.mcps as string[] | null;
+  }
+
+  return { input };
+}
+
+/**
+ * ExecutionPresetService - Manages named execution presets in the shared SQLite database
+ *
+ * A preset holds the execution options a caller would otherwise send with every request;
+ * requests refer to it with `preset` and can still override each option.
+ */
+export class ExecutionPresetService {
+  private db: Database.Database | null = null;
+
+  /**
+   * Get database connection (lazy initialization)
+   */
+  private getDatabase(): Database.Database {
+    if (!this.db) {
+      try {
+        const dbPath = getSharedDbPath();
+        this.db = new Database(dbPath);
+        // Enable WAL mode for better concurrency
+        this.db.pragma('journal_mode = WAL');
+        logger.debug('Database connection established for execution presets', { path: dbPath });
+      } catch (error) {
+        logger.error('Failed to connect to database for execution presets', {
+          path: getSharedDbPath(),
+          error: getErrorMessage(error),
+        });
+        throw error;
+      }
+    }
+    return this.db;
+  }
+
+  /**
+   * List all presets
+   */
+  listPresets(): ExecutionPreset[] {
+    try {
+      const rows = this.getDatabase()
+        .prepare('SELECT * FROM execution_presets ORDER BY name ASC')
+        .all() as ExecutionPresetRow[];
+      return rows.map(mapExecutionPresetRow);
+    } catch (error) {
+      logger.error('Failed to list execution presets', { error: getErrorMessage(error) });
+      throw error;
+    }
+  }
+
+  /**
+   * Get a preset by name
+   */
+  getPresetByName(name: string): ExecutionPreset | null {
+    try {
+      const row = this.getDatabase()
+        .prepare('SELECT * FROM execution_presets WHERE name = ?')
+        .get(name) as ExecutionPresetRow | undefined;
+      return row ? mapExecutionPresetRow(row) : null;
+    } catch (error) {
+      logger.error('Failed to get execution preset', { error: getErrorMessage(error), name });
+      throw error;
+    }
+  }
+
+  /**
+   * Create a preset
+   * @returns The created preset, or null if a preset with the name already exists
+   */
+  createPreset(input: ExecutionPresetInput & { name: string }): ExecutionPreset | null {
+    try {
+      if (this.getPresetByName(input.name)) {
+        return null;
+      }
+
+      const now = new Date().toISOString();
+      const columns: Array<[string, unknown]> = [
+        ...this.getInputColumns(input),
+        ['createdat', now],
+        ['updatedat', now],
+      ];
+      this.getDatabase()
+        .prepare(
+          `INSERT INTO execution_presets (${columns.map(([column]) => column).join(', ')})
+           VALUES (${columns.map(() => '?').join(', ')})`
+        )
+        .run(...columns.map(([, value]) => value));
+
+      logger.info('Execution preset created', { name: input.name });
+      return this.getPresetByName(input.name);
+    } catch (error) {
+      logger.error('Failed to create execution preset', {
+        error: getErrorMessage(error),
+        name: input.name,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Update a preset
+   * @returns The updated preset, or null if it does not exist
+   */
+  updatePreset(name: string, input: ExecutionPresetInput): ExecutionPreset | null {
+    try {
+      const existing = this.getPresetByName(name);
+      if (!existing) {
+        return null;
+      }
+
+      const columns = this.getInputColumns(input);
+      if (columns.length === 0) {
+        return existing;
+      }
+      columns.push(['updatedat', new Date().toISOString()]);
+
+      this.getDatabase()
+        .prepare(
+          `UPDATE execution_presets SET ${columns.map(([column]) => `${column} = ?`).join(', ')}
+           WHERE id = ?`
+        )
+        .run(...columns.map(([, value]) => value), existing.id);
+
+      return this.getPresetByName(input.name ?? name);
+    } catch (error) {
+      logger.error('Failed to update execution preset', { error: getErrorMessage(error), name });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a preset
+   */
+  deletePreset(name: string): boolean {
+    try {
+      return (
+        this.getDatabase().prepare('DELETE FROM execution_presets WHERE name = ?').run(name)
+          .changes > 0
+      );
+    } catch (error) {
+      logger.error('Failed to delete execution preset', { error: getErrorMessage(error), name });
+      throw error;
+    }
+  }
+
+  /**
+   * Get the column values for the preset fields that are set
+   */
+  private getInputColumns(input: ExecutionPresetInput): Array<[string, unknown]> {
+    const columns: Array<[string, unknown]> = [
+      ['name', input.name],
+      ['description', input.description],
+      ['repository', input.repository],
+      ['branch_name', input.branchName],
+      ['model', input.model],
+      ['timeout', input.timeout],
+      [
+        'mcps',
+        input.mcps === undefined || input.mcps === null ? input.mcps : JSON.stringify(input.mcps),
+      ],
+      ['prompt_preamble', input.promptPreamble],
+    ];
+    return columns.filter(([, value]) => value !== undefined);
+  }
+
+  /**
+   * Close database connection
+   */
+  close(): void {
+    if (this.db) {
+      this.db.close();
+      this.db = null;
+    }
+  }
+}
@@ -0,0 +1,200 @@
+import { logger } from './logger.js';
+import { getErrorMessage } from './error-utils.js';
+import type { OutputStream } from './cursor-cli.js';
+import type { JobStatus } from './job-registry-service.js';
+
+/**
+ * Output chunk received from cursor-cli for a request
+ */
+export interface ExecutionOutputEvent {
+  type: 'execution.output';
+  requestId: string;
+  seq: number;
+  stream: OutputStream;
+  chunk: string;
+  timestamp: string;
+}
+
+/**
+ * Final event for a request - no more output will follow
+ */
+export interface ExecutionCompletedEvent {
+  type: 'execution.completed';
+  requestId: string;
+  status: JobStatus;
+  timestamp: string;
+}
+
+export type ExecutionStreamEvent = ExecutionOutputEvent | ExecutionCompletedEvent;
+
+/**
+ * Buffered output for a request, used to replay output to late subscribers
+ */
+export interface ExecutionStreamSnapshot {
+  requestId: string;
+  events: ExecutionOutputEvent[];
+  /**
+   * True when older chunks were dropped to keep the buffer within its size limit
+   */
+  truncated: boolean;
+  status: JobStatus | null;
+}
+
+interface ExecutionStreamBuffer {
+  events: ExecutionOutputEvent[];
+  bufferedBytes: number;
+  nextSeq: number;
+  truncated: boolean;
+  status: JobStatus | null;
+  evictionTimer?: NodeJS.Timeout;
+}
+
+/**
+ * Maximum bytes of output buffered per request for replay (oldest chunks are dropped first)
+ */
+const MAX_BUFFERED_BYTES = 1024 * 1024;
+
+/**
+ * How long a finished request's output stays available for replay
+ */
+const COMPLETED_RETENTION_MS = 5 * 60 * 1000;
+
+/**
+ * ExecutionStreamService - Buffers cursor-cli output per request and publishes it live
+ *
+ * Feeds the /cursor/jobs/:requestId/stream SSE endpoint and the execution:<requestId>
+ * websocket topic. Output is kept in memory only; finished requests are evicted after
+ * a short retention period.
+ */
+export class ExecutionStreamService {
+  private readonly buffers = new Map<string, ExecutionStreamBuffer>();
+  private readonly listeners = new Set<(event: ExecutionStreamEvent) => void>();
+
+  /**
+   * Subscribe to output and completion events for all requests.
+   * Returns an unsubscribe function.
+   */
+  onExecutionEvent(listener: (event: ExecutionStreamEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private emit(event: ExecutionStreamEvent): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(event);
+      } catch (error) {
+        logger.warn('Execution stream listener threw', {
+          error: getErrorMessage(error),
+          requestId: event.requestId,
+          eventType: event.type,
+        });
+      }
+    }
+  }
+
+  /**
+   * Start buffering output for a request
+   * Re-using a request ID discards output buffered for the previous attempt.
+   */
+  start(requestId: string): void {
+    const existing = this.buffers.get(requestId);
+    if (existing?.evictionTimer) {
+      clearTimeout(existing.evictionTimer);
+    }
+
+    this.buffers.set(requestId, {
+      events: [],
+      bufferedBytes: 0,
+      nextSeq: 1,
+      truncated: false,
+      status: null,
+    });
+  }
+
+  /**
+   * Record an output chunk and publish it to subscribers
+   * Chunks for requests that were not started (or already completed) are ignored.
+   */
+  append(requestId: string, chunk: string, stream: OutputStream): void {
+    const buffer = this.buffers.get(requestId);
+    if (!buffer || buffer.status !== null || chunk.length === 0) {
+      return;
+    }
+
+    const event: ExecutionOutputEvent = {
+      type: 'execution.output',
+      requestId,
+      seq: buffer.nextSeq++,
+      stream,
+      chunk,
+      timestamp: new Date().toISOString(),
+    };
+
+    buffer.events.push(event);
+    buffer.bufferedBytes += Buffer.byteLength(chunk);
+    while (buffer.bufferedBytes > MAX_BUFFERED_BYTES && buffer.events.length > 1) {
+      const dropped = buffer.events.shift()!;
+      buffer.bufferedBytes -= Buffer.byteLength(dropped.chunk);
+      buffer.truncated = true;
+    }
+
+    this.emit(event);
+  }
+
+  /**
+   * Mark a request as finished, publish the completion event and schedule eviction
+   */
+  complete(requestId: string, status: JobStatus): void {
+    const buffer = this.buffers.get(requestId);
+    if (!buffer || buffer.status !== null) {
+      return;
+    }
+
+    buffer.status = status;
+    buffer.evictionTimer = setTimeout(() => {
+      this.buffers.delete(requestId);
+    }, COMPLETED_RETENTION_MS);
+    buffer.evictionTimer.unref();
+
+    this.emit({
+      type: 'execution.completed',
+      requestId,
+      status,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Get buffered output for a request
+   * @param afterSeq - Only include chunks with a higher sequence number (for resuming streams)
+   * @returns Snapshot, or null if nothing is buffered for the request
+   */
+  getSnapshot(requestId: string, afterSeq: number = 0): ExecutionStreamSnapshot | null {
+    const buffer = this.buffers.get(requestId);
+    if (!buffer) {
+      return null;
+    }
+
+    return {
+      requestId,
+      events: buffer.events.filter((event) => event.seq > afterSeq),
+      truncated: buffer.truncated,
+      status: buffer.status,
+    };
+  }
+
+  /**
+   * Drop all buffered output and pending eviction timers
+   */
+  clear(): void {
+    for (const buffer of this.buffers.values()) {
+      if (buffer.evictionTimer) {
+        clearTimeout(buffer.evictionTimer);
+      }
+    }
+    this.buffers.clear();
+  }
+}
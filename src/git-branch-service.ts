@@ -0,0 +1,141 @@
+import { logger } from './logger.js';
+import { getErrorMessage } from './error-utils.js';
+import { TerminalService, type CommandResult } from './terminal-service.js';
+
+/**
+ * Branch and commit a checkout is on
+ */
+export interface GitHead {
+  /**
+   * Current branch, or null when HEAD is detached
+   */
+  branch: string | null;
+  commit: string | null;
+}
+
+/**
+ * GitBranchService - Checks out the branch a request asked for
+ *
+ * Missing branches are created from the repository's default branch (origin/main or
+ * origin/master, falling back to a local main or master), so a request's work always starts
+ * from an up-to-date base rather than whatever the checkout happened to be on.
+ */
+export class GitBranchService {
+  private terminalService: TerminalService;
+
+  constructor(terminalService: TerminalService | null = null) {
+    this.terminalService = terminalService || new TerminalService();
+  }
+
+  /**
+   * Run a git command in the given directory
+   */
+  private git(cwd: string, args: readonly string[]): Promise<CommandResult> {
+    return this.terminalService.executeCommand('git', args, { cwd });
+  }
+
+  /**
+   * Check whether a ref resolves to a commit
+   */
+  private async refExists(cwd: string, ref: string): Promise<boolean> {
+    const result = await this.git(cwd, ['rev-parse', '--verify', '--quiet', `${ref}^{commit}`]);
+    return result.success;
+  }
+
+  /**
+   * Check whether a directory is inside a git working tree
+   */
+  async isGitRepository(cwd: string): Promise<boolean> {
+    try {
+      const result = await this.git(cwd, ['rev-parse', '--is-inside-work-tree']);
+      return result.success && result.stdout === 'true';
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Check whether a local branch exists
+   */
+  async branchExists(repositoryPath: string, branch: string): Promise<boolean> {
+    return this.refExists(repositoryPath, `refs/heads/${branch}`);
+  }
+
+  /**
+   * Find the ref new branches are created from
+   * @returns origin/main, origin/master, main or master (first that exists), or null
+   */
+  async getDefaultBranch(repositoryPath: string): Promise<string | null> {
+    for (const ref of ['origin/main', 'origin/master', 'main', 'master']) {
+      if (await this.refExists(repositoryPath, ref)) {
+        return ref;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Find where a branch that does not exist locally should start from
+   * @returns The origin branch of the same name (tracked) or the default branch, or null if neither
+   *   exists
+   */
+  async getStartPoint(
+    repositoryPath: string,
+    branch: string
+  ): Promise<{ ref: string; track: boolean } | null> {
+    if (await this.refExists(repositoryPath, `refs/remotes/origin/${branch}`)) {
+      return { ref: `origin/${branch}`, track: true };
+    }
+    const defaultBranch = await this.getDefaultBranch(repositoryPath);
+    return defaultBranch ? { ref: defaultBranch, track: false } : null;
+  }
+
+  /**
+   * Check out a branch in the repository, creating it if needed
+   * An existing local branch is checked out as is; a branch that only exists on origin is
+   * checked out tracking it; otherwise it is created from the default branch.
+   * @throws Error describing why the branch could not be checked out
+   */
+  async checkoutBranch(repositoryPath: string, branch: string): Promise<void> {
+    let args: string[];
+    if (await this.branchExists(repositoryPath, branch)) {
+      args = ['checkout', branch];
+    } else {
+      const startPoint = await this.getStartPoint(repositoryPath, branch);
+      if (!startPoint) {
+        throw new Error('branch does not exist and no default branch (main or master) was found');
+      }
+      args = ['checkout', '-b', branch, ...(startPoint.track ? ['--track'] : []), startPoint.ref];
+    }
+
+    const result = await this.git(repositoryPath, args);
+    if (!result.success) {
+      throw new Error(result.stderr || `git checkout exited with code ${result.exitCode}`);
+    }
+
+    logger.info('Checked out branch', { path: repositoryPath, branch, command: args.join(' ') });
+  }
+
+  /**
+   * Get the branch and commit the checkout is on
+   * @returns Head info, with null fields when they cannot be determined
+   */
+  async getHead(repositoryPath: string): Promise<GitHead> {
+    try {
+      const [branchResult, commitResult] = await Promise.all([
+        this.git(repositoryPath, ['branch', '--show-current']),
+        this.git(repositoryPath, ['rev-parse', 'HEAD']),
+      ]);
+      return {
+        branch: (branchResult.success && branchResult.stdout) || null,
+        commit: (commitResult.success && commitResult.stdout) || null,
+      };
+    } catch (error) {
+      logger.warn('Failed to read repository HEAD', {
+        path: repositoryPath,
+        error: getErrorMessage(error),
+      });
+      return { branch: null, commit: null };
+    }
+  }
+}
@@ -0,0 +1,307 @@
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { closeSync, copyFileSync, mkdirSync, openSync, readSync, rmSync, statSync } from 'fs';
+import { tmpdir } from 'os';
+import { logger } from './logger.js';
+import { getErrorMessage } from './error-utils.js';
+import { TerminalService, type CommandResult } from './terminal-service.js';
+import { getPositiveIntEnv } from './utils/env.js';
+import { getArtifactsPath, toSafePathSegment } from './utils/path-resolver.js';
+
+/**
+ * How a file changed during a run
+ */
+export type ChangedFileStatus = 'added' | 'modified' | 'deleted';
+
+/**
+ * File touched by a run
+ */
+export interface ChangedFile {
+  path: string;
+  status: ChangedFileStatus;
+}
+
+/**
+ * Size of a run's changes (binary files count as changed without line counts)
+ */
+export interface DiffStat {
+  filesChanged: number;
+  insertions: number;
+  deletions: number;
+}
+
+/**
+ * Commit created during a run
+ */
+export interface RunCommit {
+  sha: string;
+  subject: string;
+}
+
+/**
+ * Unified diff of a run's changes
+ */
+export interface RunDiff {
+  /**
+   * The diff, cut off at the inline size limit when truncated
+   */
+  content: string;
+  truncated: boolean;
+  /**
+   * Size of the full diff in bytes
+   */
+  bytes: number;
+  /**
+   * Where the full diff was stored when it exceeded the inline size limit
+   */
+  artifactPath?: string;
+}
+
+/**
+ * Everything a run changed in the repository, relative to the commit it started from
+ */
+export interface RunChanges {
+  baseCommit: string;
+  changedFiles: ChangedFile[];
+  diffstat: DiffStat;
+  commits: RunCommit[];
+  diff?: RunDiff;
+}
+
+/**
+ * Options for collecting a run's changes
+ */
+export interface GetChangesOptions {
+  requestId: string;
+  /**
+   * Include the unified diff
+   */
+  includeDiff?: boolean;
+}
+
+/**
+ * File name of stored diff artifacts
+ */
+export const DIFF_ARTIFACT_NAME = 'diff.patch';
+
+const STATUS_BY_CODE: Record<string, ChangedFileStatus> = {
+  A: 'added',
+  D: 'deleted',
+};
+
+/**
+ * Maximum diff size returned inline in responses and callbacks (CURSOR_DIFF_INLINE_MAX_BYTES)
+ */
+function getInlineDiffLimit(): number {
+  return getPositiveIntEnv('CURSOR_DIFF_INLINE_MAX_BYTES', 100 * 1024);
+}
+
+/**
+ * Read at most the given number of bytes from the start of a file
+ */
+function readFileHead(filePath: string, maxBytes: number): string {
+  const fd = openSync(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(maxBytes);
+    const bytesRead = readSync(fd, buffer, 0, maxBytes, 0);
+    return buffer.subarray(0, bytesRead).toString('utf8');
+  } finally {
+    closeSync(fd);
+  }
+}
+
+/**
+ * Get the path a request's diff artifact is stored at
+ */
+export function getDiffArtifactPath(requestId: string): string {
+  return path.join(getArtifactsPath(), toSafePathSegment(requestId), DIFF_ARTIFACT_NAME);
+}
+
+/**
+ * GitDiffService - Reports what a cursor run changed in a repository
+ *
+ * Compares the working tree after the run (committed, uncommitted and new untracked files) with
+ * the commit the run started from. The working tree is snapshotted into a throwaway index so
+ * the repository's own index and files are left untouched.
+ */
+export class GitDiffService {
+  private terminalService: TerminalService;
+
+  constructor(terminalService: TerminalService | null = null) {
+    this.terminalService = terminalService || new TerminalService();
+  }
+
+  /**
+   * Run a git command in the given directory
+   */
+  private async git(
+    cwd: string,
+    args: readonly string[],
+    env?: Record<string, string>
+  ): Promise<CommandResult> {
+    const result = await this.terminalService.executeCommand('git', args, { cwd, env });
+    if (!result.success) {
+      throw new Error(`git ${args[0]} failed: ${result.stderr || `exit code ${result.exitCode}`}`);
+    }
+    return result;
+  }
+
+  /**
+   * Get the commit a repository is on
+   * @returns Commit SHA, or null if it cannot be determined (e.g. no commits yet)
+   */
+  async getHeadCommit(cwd: string): Promise<string | null> {
+    try {
+      return (await this.git(cwd, ['rev-parse', '--verify', 'HEAD'])).stdout || null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Collect the changes made since the given commit
+   * @param cwd - Repository path the run used
+   * @param baseCommit - Commit the run started from
+   * @param options - Request ID (for artifacts) and whether to include the diff
+   * @returns Changes, or null if they could not be determined
+   */
+  async getChanges(
+    cwd: string,
+    baseCommit: string,
+    options: GetChangesOptions
+  ): Promise<RunChanges | null> {
+    const indexFile = path.join(tmpdir(), `cursor-runner-index-${randomUUID()}`);
+    const env = { GIT_INDEX_FILE: indexFile };
+
+    try {
+      // Snapshot the working tree (respecting .gitignore) into a temporary index
+      await this.git(cwd, ['read-tree', 'HEAD'], env);
+      await this.git(cwd, ['add', '-A'], env);
+
+      const diffArgs = ['diff', '--cached', '--no-renames', baseCommit];
+      const nameStatus = await this.git(cwd, [...diffArgs, '--name-status', '-z'], env);
+      const numstat = await this.git(cwd, [...diffArgs, '--numstat'], env);
+      const log = await this.git(cwd, [
+        'log',
+        '--reverse',
+        '--format=%H%x1f%s',
+        `${baseCommit}..HEAD`,
+      ]);
+
+      const changes: RunChanges = {
+        baseCommit,
+        changedFiles: this.parseNameStatus(nameStatus.stdout),
+        diffstat: this.parseNumstat(numstat.stdout),
+        commits: this.parseLog(log.stdout),
+      };
+
+      if (options.includeDiff) {
+        changes.diff = await this.getDiff(cwd, diffArgs, env, options.requestId);
+      }
+
+      return changes;
+    } catch (error) {
+      logger.warn('Failed to collect repository changes', {
+        requestId: options.requestId,
+        path: cwd,
+        baseCommit,
+        error: getErrorMessage(error),
+      });
+      return null;
+    } finally {
+      rmSync(indexFile, { force: true });
+    }
+  }
+
+  /**
+   * Parse `git diff --name-status -z` output
+   */
+  private parseNameStatus(output: string): ChangedFile[] {
+    const fields = output.split('\0').filter((field) => field !== '');
+    const files: ChangedFile[] = [];
+    for (let i = 0; i + 1 < fields.length; i += 2) {
+      files.push({ path: fields[i + 1], status: STATUS_BY_CODE[fields[i]] ?? 'modified' });
+    }
+    return files;
+  }
+
+  /**
+   * Parse `git diff --numstat` output into totals
+   */
+  private parseNumstat(output: string): DiffStat {
+    const diffstat: DiffStat = { filesChanged: 0, insertions: 0, deletions: 0 };
+    for (const line of output.split('\n')) {
+      if (!line) {
+        continue;
+      }
+      const [insertions, deletions] = line.split('\t');
+      diffstat.filesChanged++;
+      // Binary files report '-' for both counts
+      diffstat.insertions += parseInt(insertions, 10) || 0;
+      diffstat.deletions += parseInt(deletions, 10) || 0;
+    }
+    return diffstat;
+  }
+
+  /**
+   * Parse `git log --format=%H%x1f%s` output
+   */
+  private parseLog(output: string): RunCommit[] {
+    return output
+      .split('\n')
+      .filter((line) => line !== '')
+      .map((line) => {
+        const [sha, subject = ''] = line.split('\x1f');
+        return { sha, subject };
+      });
+  }
+
+  /**
+   * Get the unified diff, capped at the inline size limit
+   * git writes the diff straight to a file, so diffs of any size are stored in full (as an
+   * artifact when larger than the limit) and only the inline part is read into memory.
+   * @returns The diff, or undefined if it could not be produced
+   */
+  private async getDiff(
+    cwd: string,
+    diffArgs: readonly string[],
+    env: Record<string, string>,
+    requestId: string
+  ): Promise<RunDiff | undefined> {
+    const diffFile = path.join(tmpdir(), `cursor-runner-diff-${randomUUID()}.patch`);
+
+    try {
+      await this.git(cwd, [...diffArgs, `--output=${diffFile}`], env);
+      const bytes = statSync(diffFile).size;
+      const limit = getInlineDiffLimit();
+      const content = readFileHead(diffFile, Math.min(bytes, limit));
+      if (bytes <= limit) {
+        return { content, truncated: false, bytes };
+      }
+
+      const diff: RunDiff = { content, truncated: true, bytes };
+      try {
+        const artifactPath = getDiffArtifactPath(requestId);
+        mkdirSync(path.dirname(artifactPath), { recursive: true });
+        copyFileSync(diffFile, artifactPath);
+        diff.artifactPath = artifactPath;
+        logger.info('Stored diff artifact', { requestId, path: artifactPath, bytes });
+      } catch (error) {
+        logger.warn('Failed to store diff artifact', {
+          requestId,
+          error: getErrorMessage(error),
+        });
+      }
+      return diff;
+    } catch (error) {
+      logger.warn('Failed to collect repository diff', {
+        requestId,
+        path: cwd,
+        error: getErrorMessage(error),
+      });
+      return undefined;
+    } finally {
+      rmSync(diffFile, { force: true });
+    }
+  }
+}
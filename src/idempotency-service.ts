@@ -0,0 +1,214 @@
+import { createHash } from 'crypto';
+import Database from 'better-sqlite3';
+import Redis from 'ioredis';
+import { logger } from './logger.js';
+import { getErrorMessage } from './error-utils.js';
+import { getSharedDbPath } from './utils/path-resolver.js';
+import { getPositiveIntEnv } from './utils/env.js';
+
+/**
+ * Where idempotency keys are stored
+ * - sqlite: the shared SQLite database (alongside the job registry)
+ * - redis: Redis, with the window as key expiry
+ */
+export type IdempotencyBackend = 'sqlite' | 'redis';
+
+/**
+ * Outcome of claiming an idempotency key
+ * - claimed: first request with this key in the window; it should run
+ * - duplicate: the key was already used for the same request, which started originalRequestId
+ * - mismatch: the key was already used for a different request body
+ */
+export type IdempotencyClaim =
+  | { status: 'claimed' }
+  | { status: 'duplicate' | 'mismatch'; originalRequestId: string };
+
+/**
+ * Options for IdempotencyService
+ */
+export interface IdempotencyServiceOptions {
+  backend?: IdempotencyBackend;
+  redisClient?: Redis;
+  windowMs?: number;
+}
+
+/**
+ * Stored key record
+ */
+interface IdempotencyRecord {
+  requestId: string;
+  fingerprint: string;
+}
+
+const REDIS_KEY_PREFIX = 'cursor:idempotency:';
+
+/**
+ * Get the configured storage backend (IDEMPOTENCY_BACKEND, default: sqlite)
+ */
+function getIdempotencyBackend(): IdempotencyBackend {
+  return process.env.IDEMPOTENCY_BACKEND === 'redis' ? 'redis' : 'sqlite';
+}
+
+/**
+ * Fingerprint a request body so reuse of a key for a different request can be detected
+ */
+export function fingerprintRequest(body: unknown): string {
+  return createHash('sha256')
+    .update(JSON.stringify(body ?? null))
+    .digest('hex');
+}
+
+/**
+ * IdempotencyService - Detects duplicate submissions of execution requests
+ *
+ * The first request with a given key claims it for the configured window
+ * (IDEMPOTENCY_WINDOW_MS, default 24 hours); repeats within the window are reported as
+ * duplicates of the original request so callers can return its job instead of running again.
+ */
+export class IdempotencyService {
+  public readonly backend: IdempotencyBackend;
+  private readonly windowMs: number;
+  private readonly redis: Redis | null = null;
+  private readonly ownsRedis: boolean = false;
+  private db: Database.Database | null = null;
+
+  constructor(options: IdempotencyServiceOptions = {}) {
+    this.backend = options.backend ?? getIdempotencyBackend();
+    this.windowMs = options.windowMs ?? getPositiveIntEnv('IDEMPOTENCY_WINDOW_MS', 86400000);
+
+    if (this.backend === 'redis') {
+      if (options.redisClient) {
+        this.redis = options.redisClient;
+      } else {
+        const redisUrl = process.env.REDIS_URL || 'redis://redis:6379/0';
+        this.redis = new Redis(redisUrl, {
+          lazyConnect: true,
+          enableOfflineQueue: false,
+        });
+        this.ownsRedis = true;
+        this.redis.on('error', (error) => {
+          logger.error('Redis connection error for idempotency keys', { error: error.message });
+        });
+        this.redis.connect().catch((error) => {
+          logger.warn('Redis connection failed for idempotency keys', { error: error.message });
+        });
+      }
+    }
+  }
+
+  /**
+   * Get database connection (lazy initialization)
+   */
+  private getDatabase(): Database.Database {
+    if (!this.db) {
+      try {
+        const dbPath = getSharedDbPath();
+        this.db = new Database(dbPath);
+        // Enable WAL mode for better concurrency
+        this.db.pragma('journal_mode = WAL');
+        logger.debug('Database connection established for idempotency keys', { path: dbPath });
+      } catch (error) {
+        logger.error('Failed to connect to database for idempotency keys', {
+          path: getSharedDbPath(),
+          error: getErrorMessage(error),
+        });
+        throw error;
+      }
+    }
+    return this.db;
+  }
+
+  /**
+   * Claim an idempotency key for a request
+   * @param scope - Endpoint the key belongs to (keys are not shared between endpoints)
+   * @param key - Idempotency key sent by the caller
+   * @param requestId - Request ID of the request making the claim
+   * @param fingerprint - Fingerprint of the request body (see fingerprintRequest)
+   * @throws Error if the key store is unavailable
+   */
+  async claim(
+    scope: string,
+    key: string,
+    requestId: string,
+    fingerprint: string
+  ): Promise<IdempotencyClaim> {
+    const storageKey = `${scope}:${key}`;
+    const existing = this.redis
+      ? await this.claimRedis(storageKey, { requestId, fingerprint })
+      : this.claimSqlite(storageKey, { requestId, fingerprint });
+
+    if (!existing) {
+      return { status: 'claimed' };
+    }
+
+    const status = existing.fingerprint === fingerprint ? 'duplicate' : 'mismatch';
+    logger.info('Idempotency key already used', {
+      scope,
+      key,
+      requestId,
+      originalRequestId: existing.requestId,
+      status,
+    });
+    return { status, originalRequestId: existing.requestId };
+  }
+
+  /**
+   * Store the key unless an unexpired record exists
+   * @returns The existing record, or null if the key was claimed
+   */
+  private claimSqlite(storageKey: string, record: IdempotencyRecord): IdempotencyRecord | null {
+    const db = this.getDatabase();
+    const now = new Date();
+    const createdAt = now.toISOString();
+    const expiresAt = new Date(now.getTime() + this.windowMs).toISOString();
+
+    db.prepare('DELETE FROM idempotency_keys WHERE expires_at <= ?').run(createdAt);
+    const result = db
+      .prepare(
+        `INSERT INTO idempotency_keys (key, request_id, fingerprint, created_at, expires_at)
+         VALUES (?, ?, ?, ?, ?)
+         ON CONFLICT(key) DO NOTHING`
+      )
+      .run(storageKey, record.requestId, record.fingerprint, createdAt, expiresAt);
+    if (result.changes > 0) {
+      return null;
+    }
+
+    const row = db
+      .prepare('SELECT request_id, fingerprint FROM idempotency_keys WHERE key = ?')
+      .get(storageKey) as { request_id: string; fingerprint: string } | undefined;
+    return row ? { requestId: row.request_id, fingerprint: row.fingerprint } : null;
+  }
+
+  /**
+   * Store the key with the window as expiry unless it already exists
+   * @returns The existing record, or null if the key was claimed
+   */
+  private async claimRedis(
+    storageKey: string,
+    record: IdempotencyRecord
+  ): Promise<IdempotencyRecord | null> {
+    const redis = this.redis as Redis;
+    const redisKey = `${REDIS_KEY_PREFIX}${storageKey}`;
+    const result = await redis.set(redisKey, JSON.stringify(record), 'PX', this.windowMs, 'NX');
+    if (result === 'OK') {
+      return null;
+    }
+
+    const value = await redis.get(redisKey);
+    return value ? (JSON.parse(value) as IdempotencyRecord) : null;
+  }
+
+  /**
+   * Close the database connection (and the Redis connection if this service opened it)
+   */
+  close(): void {
+    if (this.db) {
+      this.db.close();
+      this.db = null;
+    }
+    if (this.redis && this.ownsRedis) {
+      this.redis.disconnect();
+    }
+  }
+}
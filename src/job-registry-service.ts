@@ -0,0 +1,350 @@
+import Database from 'better-sqlite3';
+import { logger } from './logger.js';
+import type { QueueType } from './conversation-service.js';
+import { getSharedDbPath } from './utils/path-resolver.js';
+
+/**
+ * Lifecycle states of an asynchronous cursor execution job
+ */
+export const JOB_STATUSES = ['queued', 'running', 'succeeded', 'failed', 'cancelled'] as const;
+
+export type JobStatus = (typeof JOB_STATUSES)[number];
+
+/**
+ * Job interface matching the database schema
+ */
+export interface Job {
+  id: number;
+  request_id: string;
+  status: JobStatus;
+  /**
+   * Why a queued job has not started yet (e.g. "Waiting for repository lock")
+   */
+  status_detail: string | null;
+  repository: string | null;
+  branch_name: string | null;
+  queue_type: QueueType;
+  conversation_id: string | null;
+  callback_url: string | null;
+  prompt: string;
+  exit_code: number | null;
+  output: string | null;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+}
+
+/**
+ * Fields recorded when a job is accepted
+ */
+export interface CreateJobParams {
+  requestId: string;
+  prompt: string;
+  repository?: string | null;
+  branchName?: string | null;
+  queueType?: QueueType;
+  conversationId?: string | null;
+  callbackUrl?: string | null;
+}
+
+/**
+ * Outcome recorded when a job finishes
+ */
+export interface JobOutcome {
+  status: Extract<JobStatus, 'succeeded' | 'failed' | 'cancelled'>;
+  exitCode?: number | null;
+  output?: string | null;
+  error?: string | null;
+}
+
+/**
+ * Filters for listing jobs
+ */
+export interface ListJobsFilters {
+  status?: JobStatus;
+  repository?: string;
+  queueType?: QueueType;
+  limit?: number;
+}
+
+/**
+ * Check whether a job has reached a final state
+ */
+export function isTerminalJobStatus(status: JobStatus): boolean {
+  return status === 'succeeded' || status === 'failed' || status === 'cancelled';
+}
+
+/**
+ * Check whether a value is a known job status
+ */
+export function isJobStatus(value: unknown): value is JobStatus {
+  return typeof value === 'string' && (JOB_STATUSES as readonly string[]).includes(value);
+}
+
+/**
+ * JobRegistryService - Persists asynchronous cursor execution jobs in the shared SQLite database
+ *
+ * Lets callers poll for the outcome of /cursor/execute/async requests instead of relying
+ * solely on the callback webhook.
+ */
+export class JobRegistryService {
+  private db: Database.Database | null = null;
+
+  /**
+   * Get database connection (lazy initialization)
+   */
+  private getDatabase(): Database.Database {
+    if (!this.db) {
+      try {
+        const dbPath = getSharedDbPath();
+        this.db = new Database(dbPath);
+        // Enable WAL mode for better concurrency
+        this.db.pragma('journal_mode = WAL');
+        logger.debug('Database connection established for cursor jobs', { path: dbPath });
+      } catch (error) {
+        const dbPath = getSharedDbPath();
+        logger.error('Failed to connect to database for cursor jobs', {
+          path: dbPath,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        throw error;
+      }
+    }
+    return this.db;
+  }
+
+  /**
+   * Record a newly accepted job in the queued state
+   * Re-submitting an existing request ID resets the job so it reflects the latest attempt.
+   */
+  createJob(params: CreateJobParams): Job {
+    try {
+      const db = this.getDatabase();
+      const now = new Date().toISOString();
+      db.prepare(
+        `INSERT INTO cursor_jobs
+          (request_id, status, repository, branch_name, queue_type, conversation_id, callback_url,
+           prompt, created_at, updated_at)
+         VALUES (?, 'queued', ?, ?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT(request_id) DO UPDATE SET
+           status = 'queued',
+           status_detail = NULL,
+           repository = excluded.repository,
+           branch_name = excluded.branch_name,
+           queue_type = excluded.queue_type,
+           conversation_id = excluded.conversation_id,
+           callback_url = excluded.callback_url,
+           prompt = excluded.prompt,
+           exit_code = NULL,
+           output = NULL,
+           error = NULL,
+           updated_at = excluded.updated_at,
+           started_at = NULL,
+           finished_at = NULL`
+      ).run(
+        params.requestId,
+        params.repository ?? null,
+        params.branchName ?? null,
+        params.queueType ?? 'default',
+        params.conversationId ?? null,
+        params.callbackUrl ?? null,
+        params.prompt,
+        now,
+        now
+      );
+
+      const job = this.getJob(params.requestId);
+      if (!job) {
+        throw new Error('Failed to retrieve created job');
+      }
+
+      logger.info('Cursor job recorded', { requestId: job.request_id, status: job.status });
+      return job;
+    } catch (error) {
+      logger.error('Failed to create cursor job', {
+        error: error instanceof Error ? error.message : String(error),
+        requestId: params.requestId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Mark a job as running (cursor-cli has acquired an execution slot)
+   */
+  markRunning(requestId: string): Job | null {
+    try {
+      const db = this.getDatabase();
+      const now = new Date().toISOString();
+      db.prepare(
+        `UPDATE cursor_jobs
+         SET status = 'running', status_detail = NULL, started_at = ?, updated_at = ?
+         WHERE request_id = ? AND status = 'queued'`
+      ).run(now, now, requestId);
+      return this.getJob(requestId);
+    } catch (error) {
+      logger.error('Failed to mark cursor job as running', {
+        error: error instanceof Error ? error.message : String(error),
+        requestId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Explain why a queued job is still waiting (null clears the detail)
+   * Ignored once the job has started or finished.
+   */
+  setStatusDetail(requestId: string, detail: string | null): Job | null {
+    try {
+      const db = this.getDatabase();
+      db.prepare(
+        `UPDATE cursor_jobs SET status_detail = ?, updated_at = ?
+         WHERE request_id = ? AND status = 'queued'`
+      ).run(detail, new Date().toISOString(), requestId);
+      return this.getJob(requestId);
+    } catch (error) {
+      logger.error('Failed to update cursor job status detail', {
+        error: error instanceof Error ? error.message : String(error),
+        requestId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Record the final outcome of a job
+   * A job that was already cancelled keeps its cancelled status.
+   */
+  completeJob(requestId: string, outcome: JobOutcome): Job | null {
+    try {
+      const db = this.getDatabase();
+      const now = new Date().toISOString();
+      db.prepare(
+        `UPDATE cursor_jobs
+         SET status = ?, exit_code = ?, output = ?, error = ?, finished_at = ?, updated_at = ?
+         WHERE request_id = ? AND status != 'cancelled'`
+      ).run(
+        outcome.status,
+        outcome.exitCode ?? null,
+        outcome.output ?? null,
+        outcome.error ?? null,
+        now,
+        now,
+        requestId
+      );
+
+      logger.info('Cursor job finished', { requestId, status: outcome.status });
+      return this.getJob(requestId);
+    } catch (error) {
+      logger.error('Failed to complete cursor job', {
+        error: error instanceof Error ? error.message : String(error),
+        requestId,
+        status: outcome.status,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Mark a queued or running job as cancelled
+   * @returns The updated job, or null if the job does not exist or has already finished
+   */
+  cancelJob(requestId: string, reason: string = 'Execution cancelled'): Job | null {
+    try {
+      const db = this.getDatabase();
+      const now = new Date().toISOString();
+      const result = db
+        .prepare(
+          `UPDATE cursor_jobs SET status = 'cancelled', error = ?, finished_at = ?, updated_at = ?
+           WHERE request_id = ? AND status IN ('queued', 'running')`
+        )
+        .run(reason, now, now, requestId);
+
+      if (result.changes === 0) {
+        return null;
+      }
+
+      logger.info('Cursor job cancelled', { requestId });
+      return this.getJob(requestId);
+    } catch (error) {
+      logger.error('Failed to cancel cursor job', {
+        error: error instanceof Error ? error.message : String(error),
+        requestId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get a job by request ID
+   */
+  getJob(requestId: string): Job | null {
+    try {
+      const db = this.getDatabase();
+      const row = db.prepare('SELECT * FROM cursor_jobs WHERE request_id = ?').get(requestId) as
+        | Job
+        | undefined;
+      return row ?? null;
+    } catch (error) {
+      logger.error('Failed to get cursor job', {
+        error: error instanceof Error ? error.message : String(error),
+        requestId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * List jobs, newest first, optionally filtered by status, repository and queue type
+   */
+  listJobs(filters: ListJobsFilters = {}): Job[] {
+    try {
+      const db = this.getDatabase();
+      const conditions: string[] = [];
+      const params: unknown[] = [];
+
+      if (filters.status !== undefined) {
+        conditions.push('status = ?');
+        params.push(filters.status);
+      }
+
+      if (filters.repository !== undefined) {
+        conditions.push('repository = ?');
+        params.push(filters.repository);
+      }
+
+      if (filters.queueType !== undefined) {
+        conditions.push('queue_type = ?');
+        params.push(filters.queueType);
+      }
+
+      let query = 'SELECT * FROM cursor_jobs';
+      if (conditions.length > 0) {
+        query += ` WHERE ${conditions.join(' AND ')}`;
+      }
+      query += ' ORDER BY created_at DESC, id DESC LIMIT ?';
+      params.push(filters.limit ?? 100);
+
+      return db.prepare(query).all(...params) as Job[];
+    } catch (error) {
+      logger.error('Failed to list cursor jobs', {
+        error: error instanceof Error ? error.message : String(error),
+        filters,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Close database connection
+   */
+  close(): void {
+    if (this.db) {
+      this.db.close();
+      this.db = null;
+    }
+  }
+}
@@ -2,6 +2,7 @@ import winston from 'winston';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import { mkdirSync } from 'fs';
+import { getRequestContext } from './request-context.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -24,9 +25,26 @@ try {
   // Directory might already exist, ignore error
 }
 
+/**
+ * Add the current request context (requestId, conversationId, repository, queueType) to log
+ * entries, without overriding fields the entry sets itself
+ */
+const requestContext = winston.format((info) => {
+  const context = getRequestContext();
+  if (context) {
+    for (const [key, value] of Object.entries(context)) {
+      if (info[key] === undefined && value !== undefined && value !== null) {
+        info[key] = value;
+      }
+    }
+  }
+  return info;
+});
+
 export const logger: winston.Logger = winston.createLogger({
   level: logLevel,
   format: winston.format.combine(
+    requestContext(),
     winston.format.timestamp(),
     winston.format.errors({ stack: true }),
     winston.format.json()
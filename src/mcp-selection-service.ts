@@ -1,6 +1,7 @@
 import { logger } from './logger.js';
 import { getErrorMessage } from './error-utils.js';
 import OpenAI from 'openai';
+import { metrics } from './metrics-service.js';
 
 /**
  * Available MCP connections and their descriptions
@@ -106,6 +107,19 @@ export const AVAILABLE_MCP_CONNECTIONS: MCPConnection[] = [
   },
 ];
 
+/**
+ * Validate a caller's choice of MCP connections
+ * @param value - List of MCP connection names
+ * @returns Error message, or null if every entry is an available MCP connection
+ */
+export function validateMcpNames(value: unknown): string | null {
+  const names = AVAILABLE_MCP_CONNECTIONS.map((mcp) => mcp.name);
+  if (!Array.isArray(value) || !value.every((name) => names.includes(name))) {
+    return `mcps must be a list of MCP connections from: ${names.join(', ')}`;
+  }
+  return null;
+}
+
 /**
  * Result of MCP selection
  */
@@ -242,6 +256,7 @@ Only include MCP names that are in the available list. If no MCPs are needed, re
       const validMcps = AVAILABLE_MCP_CONNECTIONS.map((mcp) => mcp.name);
       const selectedMcps = (parsed.selectedMcps || []).filter((mcp) => validMcps.includes(mcp));
 
+      metrics.recordMcpSelection('gpt', selectedMcps, validMcps);
       logger.info('MCP selection completed using GPT-3.5', {
         selectedMcps,
         reasoning: parsed.reasoning,
@@ -285,6 +300,11 @@ Only include MCP names that are in the available list. If no MCPs are needed, re
       }
     }
 
+    metrics.recordMcpSelection(
+      'keywords',
+      selectedMcps,
+      AVAILABLE_MCP_CONNECTIONS.map((mcp) => mcp.name)
+    );
     logger.info('MCP selection completed using keyword matching', {
       selectedMcps,
     });
@@ -0,0 +1,366 @@
+import path from 'path';
+import { existsSync } from 'fs';
+import { QUEUE_TYPES, type QueueStatus } from './cursor-cli.js';
+import type { QueueType } from './conversation-service.js';
+import { getRepositoriesPath } from './utils/path-resolver.js';
+
+/**
+ * Label values of one metric series
+ */
+type Labels = Record<string, string>;
+
+/**
+ * Execution duration histogram buckets, in seconds
+ */
+const DURATION_BUCKETS_SECONDS = [1, 5, 15, 30, 60, 120, 300, 600, 1200, 1800, 3600];
+
+/**
+ * Get the repository label of a run
+ * Label values come from request bodies, so only repositories that exist in the repositories
+ * directory get their own series; any other name is counted as `other`.
+ */
+function getRepositoryLabel(repository: string | null | undefined): string {
+  if (!repository) {
+    return 'none';
+  }
+  if (
+    repository === '.' ||
+    repository === '..' ||
+    /[/\\]/.test(repository) ||
+    !existsSync(path.join(getRepositoriesPath(), repository))
+  ) {
+    return 'other';
+  }
+  return repository;
+}
+
+/**
+ * Get the queue type label of a run (unknown queue types count as `default`)
+ */
+function getQueueTypeLabel(queueType: string | undefined): QueueType {
+  return QUEUE_TYPES.find((type) => type === queueType) ?? 'default';
+}
+
+/**
+ * Escape a label value for the Prometheus text format
+ */
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+/**
+ * Format a label set as `{name="value",...}` (empty when there are no labels)
+ */
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) => `${name}="${escapeLabelValue(value)}"`
+  );
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+/**
+ * A metric and its series, keyed by their formatted labels
+ */
+abstract class Metric<T> {
+  protected readonly series = new Map<string, { labels: Labels; value: T }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly type: 'counter' | 'gauge' | 'histogram'
+  ) {}
+
+  /**
+   * Get the value of a series, creating it if it does not exist yet
+   */
+  protected getSeries(labels: Labels, create: () => T): { labels: Labels; value: T } {
+    const key = formatLabels(labels);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels, value: create() };
+      this.series.set(key, entry);
+    }
+    return entry;
+  }
+
+  /**
+   * Render the metric's sample lines
+   */
+  protected abstract samples(): string[];
+
+  render(): string {
+    return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`]
+      .concat(this.samples())
+      .join('\n');
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+}
+
+/**
+ * Counter that only goes up
+ */
+export class Counter extends Metric<number> {
+  constructor(name: string, help: string) {
+    super(name, help, 'counter');
+  }
+
+  inc(labels: Labels = {}, value = 1): void {
+    this.getSeries(labels, () => 0).value += value;
+  }
+
+  protected samples(): string[] {
+    return [...this.series.values()].map(
+      ({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`
+    );
+  }
+}
+
+/**
+ * Gauge holding the last value it was set to
+ */
+export class Gauge extends Metric<number> {
+  constructor(name: string, help: string) {
+    super(name, help, 'gauge');
+  }
+
+  set(labels: Labels, value: number): void {
+    this.getSeries(labels, () => 0).value = value;
+  }
+
+  protected samples(): string[] {
+    return [...this.series.values()].map(
+      ({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`
+    );
+  }
+}
+
+/**
+ * Histogram of observed values with cumulative buckets
+ */
+export class Histogram extends Metric<{ buckets: number[]; sum: number; count: number }> {
+  constructor(
+    name: string,
+    help: string,
+    private readonly buckets: readonly number[]
+  ) {
+    super(name, help, 'histogram');
+  }
+
+  observe(labels: Labels, value: number): void {
+    const series = this.getSeries(labels, () => ({
+      buckets: this.buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    })).value;
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) {
+        series.buckets[index]++;
+      }
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  protected samples(): string[] {
+    return [...this.series.values()].flatMap(({ labels, value }) => [
+      ...this.buckets.map(
+        (bound, index) =>
+          `${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${value.buckets[index]}`
+      ),
+      `${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${value.count}`,
+      `${this.name}_sum${formatLabels(labels)} ${value.sum}`,
+      `${this.name}_count${formatLabels(labels)} ${value.count}`,
+    ]);
+  }
+}
+
+/**
+ * How an execute or iterate run ended
+ * - success: the run completed successfully
+ * - failure: the run was rejected or cursor-cli failed
+ * - cancelled: the run was cancelled
+ * - error: the run threw an unexpected error
+ */
+export type ExecutionOutcome = 'success' | 'failure' | 'cancelled' | 'error';
+
+/**
+ * How the MCP connections of a run were chosen
+ */
+export type McpSelectionMethod = 'gpt' | 'keywords' | 'request';
+
+/**
+ * Runtime state read when metrics are scraped
+ */
+export interface MetricsSnapshot {
+  queue: QueueStatus;
+  redisAvailable: boolean;
+}
+
+/**
+ * MetricsService - Collects runtime metrics and renders them in the Prometheus text format
+ *
+ * Counters and histograms are updated as events happen; gauges (execution slots, Redis, memory)
+ * are read from a snapshot when `GET /metrics` is scraped.
+ */
+export class MetricsService {
+  private readonly executions = new Counter(
+    'cursor_runner_executions_total',
+    'Execute and iterate runs by outcome, queue type and repository'
+  );
+  private readonly executionDuration = new Histogram(
+    'cursor_runner_execution_duration_seconds',
+    'Duration of execute and iterate runs in seconds',
+    DURATION_BUCKETS_SECONDS
+  );
+  private readonly callbackAttempts = new Counter(
+    'cursor_runner_callback_attempts_total',
+    'Callback delivery attempts by result'
+  );
+  private readonly callbackDeliveries = new Counter(
+    'cursor_runner_callback_deliveries_total',
+    'Callback deliveries that were delivered or failed permanently'
+  );
+  private readonly mcpSelections = new Counter(
+    'cursor_runner_mcp_selections_total',
+    'MCP selection outcomes per MCP server and selection method'
+  );
+  private readonly semaphoreAvailable = new Gauge(
+    'cursor_runner_semaphore_available',
+    'Free cursor-cli execution slots'
+  );
+  private readonly semaphoreWaiting = new Gauge(
+    'cursor_runner_semaphore_waiting',
+    'Requests waiting for a cursor-cli execution slot, by queue type'
+  );
+  private readonly semaphoreMaxConcurrent = new Gauge(
+    'cursor_runner_semaphore_max_concurrent',
+    'Maximum concurrent cursor-cli executions'
+  );
+  private readonly redisUp = new Gauge(
+    'cursor_runner_redis_up',
+    'Whether Redis is available for conversation storage (1) or not (0)'
+  );
+  private readonly memory = new Gauge(
+    'cursor_runner_process_memory_bytes',
+    'Process memory usage in bytes, by type'
+  );
+
+  /**
+   * Record the end of an execute or iterate run
+   * @param mode - Whether the run was a single execution or an iterate loop
+   * @param outcome - How the run ended
+   * @param params - Queue type and repository of the run
+   * @param durationMs - Run duration in milliseconds
+   */
+  recordExecution(
+    mode: 'execute' | 'iterate',
+    outcome: ExecutionOutcome,
+    params: { queueType?: string; repository?: string | null },
+    durationMs: number
+  ): void {
+    const queueType = getQueueTypeLabel(params.queueType);
+    this.executions.inc({
+      mode,
+      outcome,
+      queue_type: queueType,
+      repository: getRepositoryLabel(params.repository),
+    });
+    this.executionDuration.observe({ mode, outcome, queue_type: queueType }, durationMs / 1000);
+  }
+
+  /**
+   * Record a callback delivery attempt
+   */
+  recordCallbackAttempt(result: 'success' | 'failure'): void {
+    this.callbackAttempts.inc({ result });
+  }
+
+  /**
+   * Record the final status of a callback delivery
+   */
+  recordCallbackDelivery(status: 'delivered' | 'failed'): void {
+    this.callbackDeliveries.inc({ status });
+  }
+
+  /**
+   * Record which MCP connections a selection picked
+   * @param method - How the connections were chosen
+   * @param selectedMcps - Selected connection names
+   * @param availableMcps - All connection names that could have been selected
+   */
+  recordMcpSelection(
+    method: McpSelectionMethod,
+    selectedMcps: readonly string[],
+    availableMcps: readonly string[]
+  ): void {
+    for (const mcp of availableMcps) {
+      this.mcpSelections.inc({
+        mcp,
+        method,
+        outcome: selectedMcps.includes(mcp) ? 'selected' : 'skipped',
+      });
+    }
+  }
+
+  /**
+   * Render all metrics in the Prometheus text exposition format
+   * @param snapshot - Runtime state for the gauges
+   */
+  render(snapshot: MetricsSnapshot): string {
+    this.semaphoreAvailable.set({}, snapshot.queue.available);
+    this.semaphoreMaxConcurrent.set({}, snapshot.queue.maxConcurrent);
+    for (const [queueType, status] of Object.entries(snapshot.queue.byPriority)) {
+      this.semaphoreWaiting.set({ queue_type: queueType }, status.waiting);
+    }
+    this.redisUp.set({}, snapshot.redisAvailable ? 1 : 0);
+    const memoryUsage = process.memoryUsage();
+    for (const type of ['rss', 'heapTotal', 'heapUsed', 'external'] as const) {
+      this.memory.set({ type }, memoryUsage[type]);
+    }
+
+    return (
+      [
+        this.executions,
+        this.executionDuration,
+        this.callbackAttempts,
+        this.callbackDeliveries,
+        this.mcpSelections,
+        this.semaphoreAvailable,
+        this.semaphoreWaiting,
+        this.semaphoreMaxConcurrent,
+        this.redisUp,
+        this.memory,
+      ]
+        .map((metric) => metric.render())
+        .join('\n') + '\n'
+    );
+  }
+
+  /**
+   * Clear all recorded values
+   */
+  reset(): void {
+    for (const metric of [
+      this.executions,
+      this.executionDuration,
+      this.callbackAttempts,
+      this.callbackDeliveries,
+      this.mcpSelections,
+      this.semaphoreAvailable,
+      this.semaphoreWaiting,
+      this.semaphoreMaxConcurrent,
+      this.redisUp,
+      this.memory,
+    ]) {
+      metric.reset();
+    }
+  }
+}
+
+/**
+ * Metrics shared by the whole process
+ */
+export const metrics = new MetricsService();
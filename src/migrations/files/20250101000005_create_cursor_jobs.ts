@@ -0,0 +1,57 @@
+import Database from 'better-sqlite3';
+
+/**
+ * Migration: Create cursor_jobs table
+ * This table records every asynchronous cursor execution request and its outcome
+ */
+export async function up({ context }: { context: Database.Database }): Promise<void> {
+  context.exec(`
+    CREATE TABLE IF NOT EXISTS cursor_jobs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      request_id TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'queued',
+      repository TEXT,
+      branch_name TEXT,
+      queue_type TEXT NOT NULL DEFAULT 'default',
+      conversation_id TEXT,
+      callback_url TEXT,
+      prompt TEXT NOT NULL,
+      exit_code INTEGER,
+      output TEXT,
+      error TEXT,
+      created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      started_at TEXT,
+      finished_at TEXT
+    )
+  `);
+
+  // Create indexes
+  context.exec(`
+    CREATE UNIQUE INDEX IF NOT EXISTS index_cursor_jobs_on_request_id
+    ON cursor_jobs(request_id)
+  `);
+
+  context.exec(`
+    CREATE INDEX IF NOT EXISTS index_cursor_jobs_on_status
+    ON cursor_jobs(status)
+  `);
+
+  context.exec(`
+    CREATE INDEX IF NOT EXISTS index_cursor_jobs_on_repository
+    ON cursor_jobs(repository)
+  `);
+
+  context.exec(`
+    CREATE INDEX IF NOT EXISTS index_cursor_jobs_on_created_at
+    ON cursor_jobs(created_at)
+  `);
+}
+
+export async function down({ context }: { context: Database.Database }): Promise<void> {
+  context.exec('DROP INDEX IF EXISTS index_cursor_jobs_on_created_at');
+  context.exec('DROP INDEX IF EXISTS index_cursor_jobs_on_repository');
+  context.exec('DROP INDEX IF EXISTS index_cursor_jobs_on_status');
+  context.exec('DROP INDEX IF EXISTS index_cursor_jobs_on_request_id');
+  context.exec('DROP TABLE IF EXISTS cursor_jobs');
+}
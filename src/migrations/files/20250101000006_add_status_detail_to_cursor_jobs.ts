@@ -0,0 +1,27 @@
+import Database from 'better-sqlite3';
+
+/**
+ * Check whether cursor_jobs already has the status_detail column
+ */
+function hasStatusDetailColumn(context: Database.Database): boolean {
+  const columns = context.prepare('PRAGMA table_info(cursor_jobs)').all() as Array<{
+    name: string;
+  }>;
+  return columns.some((column) => column.name === 'status_detail');
+}
+
+/**
+ * Migration: Add status_detail column to cursor_jobs table
+ * Explains why a queued job has not started yet (e.g. waiting for its repository lock)
+ */
+export async function up({ context }: { context: Database.Database }): Promise<void> {
+  if (!hasStatusDetailColumn(context)) {
+    context.exec('ALTER TABLE cursor_jobs ADD COLUMN status_detail TEXT');
+  }
+}
+
+export async function down({ context }: { context: Database.Database }): Promise<void> {
+  if (hasStatusDetailColumn(context)) {
+    context.exec('ALTER TABLE cursor_jobs DROP COLUMN status_detail');
+  }
+}
@@ -0,0 +1,42 @@
+import Database from 'better-sqlite3';
+
+/**
+ * Migration: Create callback_deliveries table
+ * This table records every callback webhook delivery, its attempts and whether it was
+ * delivered or dead-lettered
+ */
+export async function up({ context }: { context: Database.Database }): Promise<void> {
+  context.exec(`
+    CREATE TABLE IF NOT EXISTS callback_deliveries (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      request_id TEXT NOT NULL,
+      callback_url TEXT NOT NULL,
+      payload TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending',
+      attempts INTEGER NOT NULL DEFAULT 0,
+      last_status_code INTEGER,
+      last_error TEXT,
+      next_attempt_at TEXT,
+      created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      delivered_at TEXT
+    )
+  `);
+
+  // Create indexes
+  context.exec(`
+    CREATE INDEX IF NOT EXISTS index_callback_deliveries_on_request_id
+    ON callback_deliveries(request_id)
+  `);
+
+  context.exec(`
+    CREATE INDEX IF NOT EXISTS index_callback_deliveries_on_status
+    ON callback_deliveries(status)
+  `);
+}
+
+export async function down({ context }: { context: Database.Database }): Promise<void> {
+  context.exec('DROP INDEX IF EXISTS index_callback_deliveries_on_status');
+  context.exec('DROP INDEX IF EXISTS index_callback_deliveries_on_request_id');
+  context.exec('DROP TABLE IF EXISTS callback_deliveries');
+}
@@ -0,0 +1,28 @@
+import Database from 'better-sqlite3';
+
+/**
+ * Migration: Create idempotency_keys table
+ * This table maps idempotency keys of execution requests to the job they started
+ */
+export async function up({ context }: { context: Database.Database }): Promise<void> {
+  context.exec(`
+    CREATE TABLE IF NOT EXISTS idempotency_keys (
+      key TEXT PRIMARY KEY,
+      request_id TEXT NOT NULL,
+      fingerprint TEXT NOT NULL,
+      created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      expires_at TEXT NOT NULL
+    )
+  `);
+
+  // Create indexes
+  context.exec(`
+    CREATE INDEX IF NOT EXISTS index_idempotency_keys_on_expires_at
+    ON idempotency_keys(expires_at)
+  `);
+}
+
+export async function down({ context }: { context: Database.Database }): Promise<void> {
+  context.exec('DROP INDEX IF EXISTS index_idempotency_keys_on_expires_at');
+  context.exec('DROP TABLE IF EXISTS idempotency_keys');
+}
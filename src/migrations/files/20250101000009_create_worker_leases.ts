@@ -0,0 +1,21 @@
+import Database from 'better-sqlite3';
+
+/**
+ * Migration: Create worker_leases table
+ * This table holds the leases that let only one cursor-runner instance run a background worker
+ * (e.g. the task operator) at a time
+ */
+export async function up({ context }: { context: Database.Database }): Promise<void> {
+  context.exec(`
+    CREATE TABLE IF NOT EXISTS worker_leases (
+      name TEXT PRIMARY KEY,
+      holder TEXT NOT NULL,
+      expires_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+}
+
+export async function down({ context }: { context: Database.Database }): Promise<void> {
+  context.exec('DROP TABLE IF EXISTS worker_leases');
+}
@@ -0,0 +1,41 @@
+import Database from 'better-sqlite3';
+
+/**
+ * Migration: Create task_runs table
+ * This table records every attempt at running a task: the request and conversation it ran
+ * under, when it started and finished, and its outcome
+ */
+export async function up({ context }: { context: Database.Database }): Promise<void> {
+  context.exec(`
+    CREATE TABLE IF NOT EXISTS task_runs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      task_id INTEGER NOT NULL,
+      request_id TEXT NOT NULL,
+      conversation_id TEXT,
+      repository TEXT,
+      status TEXT NOT NULL DEFAULT 'running',
+      started_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      finished_at TEXT,
+      exit_code INTEGER,
+      output_excerpt TEXT,
+      error TEXT
+    )
+  `);
+
+  // Create indexes
+  context.exec(`
+    CREATE INDEX IF NOT EXISTS index_task_runs_on_task_id
+    ON task_runs(task_id)
+  `);
+
+  context.exec(`
+    CREATE INDEX IF NOT EXISTS index_task_runs_on_request_id
+    ON task_runs(request_id)
+  `);
+}
+
+export async function down({ context }: { context: Database.Database }): Promise<void> {
+  context.exec('DROP INDEX IF EXISTS index_task_runs_on_request_id');
+  context.exec('DROP INDEX IF EXISTS index_task_runs_on_task_id');
+  context.exec('DROP TABLE IF EXISTS task_runs');
+}
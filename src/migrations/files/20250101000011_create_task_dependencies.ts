@@ -0,0 +1,27 @@
+import Database from 'better-sqlite3';
+
+/**
+ * Migration: Create task_dependencies table
+ * Each row says a task may only run once the task it depends on is complete
+ */
+export async function up({ context }: { context: Database.Database }): Promise<void> {
+  context.exec(`
+    CREATE TABLE IF NOT EXISTS task_dependencies (
+      task_id INTEGER NOT NULL,
+      depends_on_task_id INTEGER NOT NULL,
+      created_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (task_id, depends_on_task_id)
+    )
+  `);
+
+  // Create indexes
+  context.exec(`
+    CREATE INDEX IF NOT EXISTS index_task_dependencies_on_depends_on_task_id
+    ON task_dependencies(depends_on_task_id)
+  `);
+}
+
+export async function down({ context }: { context: Database.Database }): Promise<void> {
+  context.exec('DROP INDEX IF EXISTS index_task_dependencies_on_depends_on_task_id');
+  context.exec('DROP TABLE IF EXISTS task_dependencies');
+}
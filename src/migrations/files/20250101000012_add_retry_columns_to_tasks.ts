@@ -0,0 +1,42 @@
+import Database from 'better-sqlite3';
+
+/**
+ * Retry columns added to the tasks table, with their definitions
+ */
+const RETRY_COLUMNS: Array<[name: string, definition: string]> = [
+  ['max_attempts', 'INTEGER NOT NULL DEFAULT 3'],
+  ['attempt_count', 'INTEGER NOT NULL DEFAULT 0'],
+  ['last_error', 'TEXT'],
+  ['next_attempt_at', 'TEXT'],
+];
+
+/**
+ * Get the names of the columns tasks already has
+ */
+function getTaskColumns(context: Database.Database): Set<string> {
+  const columns = context.prepare('PRAGMA table_info(tasks)').all() as Array<{ name: string }>;
+  return new Set(columns.map((column) => column.name));
+}
+
+/**
+ * Migration: Add retry columns to tasks table
+ * Tracks how often a task has been attempted, why the last attempt failed and when it may be
+ * retried
+ */
+export async function up({ context }: { context: Database.Database }): Promise<void> {
+  const existing = getTaskColumns(context);
+  for (const [name, definition] of RETRY_COLUMNS) {
+    if (!existing.has(name)) {
+      context.exec(`ALTER TABLE tasks ADD COLUMN ${name} ${definition}`);
+    }
+  }
+}
+
+export async function down({ context }: { context: Database.Database }): Promise<void> {
+  const existing = getTaskColumns(context);
+  for (const [name] of [...RETRY_COLUMNS].reverse()) {
+    if (existing.has(name)) {
+      context.exec(`ALTER TABLE tasks DROP COLUMN ${name}`);
+    }
+  }
+}
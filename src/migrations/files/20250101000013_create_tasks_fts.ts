@@ -0,0 +1,47 @@
+import Database from 'better-sqlite3';
+
+/**
+ * Migration: Create tasks_fts full-text index
+ * An FTS5 index over task prompts, kept in sync with the tasks table by triggers
+ */
+export async function up({ context }: { context: Database.Database }): Promise<void> {
+  const exists = context
+    .prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'tasks_fts'")
+    .get();
+
+  context.exec(`
+    CREATE VIRTUAL TABLE IF NOT EXISTS tasks_fts
+    USING fts5(prompt, content='tasks', content_rowid='id')
+  `);
+
+  context.exec(`
+    CREATE TRIGGER IF NOT EXISTS tasks_fts_after_insert AFTER INSERT ON tasks BEGIN
+      INSERT INTO tasks_fts (rowid, prompt) VALUES (new.id, new.prompt);
+    END
+  `);
+
+  context.exec(`
+    CREATE TRIGGER IF NOT EXISTS tasks_fts_after_delete AFTER DELETE ON tasks BEGIN
+      INSERT INTO tasks_fts (tasks_fts, rowid, prompt) VALUES ('delete', old.id, old.prompt);
+    END
+  `);
+
+  context.exec(`
+    CREATE TRIGGER IF NOT EXISTS tasks_fts_after_update AFTER UPDATE OF prompt ON tasks BEGIN
+      INSERT INTO tasks_fts (tasks_fts, rowid, prompt) VALUES ('delete', old.id, old.prompt);
+      INSERT INTO tasks_fts (rowid, prompt) VALUES (new.id, new.prompt);
+    END
+  `);
+
+  // Index the tasks that existed before the index was created
+  if (!exists) {
+    context.exec("INSERT INTO tasks_fts (tasks_fts) VALUES ('rebuild')");
+  }
+}
+
+export async function down({ context }: { context: Database.Database }): Promise<void> {
+  context.exec('DROP TRIGGER IF EXISTS tasks_fts_after_update');
+  context.exec('DROP TRIGGER IF EXISTS tasks_fts_after_delete');
+  context.exec('DROP TRIGGER IF EXISTS tasks_fts_after_insert');
+  context.exec('DROP TABLE IF EXISTS tasks_fts');
+}
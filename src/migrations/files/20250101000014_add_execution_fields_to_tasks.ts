@@ -0,0 +1,45 @@
+import Database from 'better-sqlite3';
+
+/**
+ * Columns added to the tasks table, with their definitions
+ * labels and metadata hold JSON (an array of strings and an object)
+ */
+const TASK_COLUMNS: Array<[name: string, definition: string]> = [
+  ['repository', 'TEXT'],
+  ['branch_name', 'TEXT'],
+  ['priority', 'INTEGER NOT NULL DEFAULT 0'],
+  ['due_at', 'TEXT'],
+  ['labels', 'TEXT'],
+  ['metadata', 'TEXT'],
+];
+
+/**
+ * Get the names of the columns tasks already has
+ */
+function getTaskColumns(context: Database.Database): Set<string> {
+  const columns = context.prepare('PRAGMA table_info(tasks)').all() as Array<{ name: string }>;
+  return new Set(columns.map((column) => column.name));
+}
+
+/**
+ * Migration: Add execution target and metadata columns to tasks table
+ * Tells the task operator which repository and branch a task runs on, and lets clients
+ * prioritize, schedule, label and annotate tasks
+ */
+export async function up({ context }: { context: Database.Database }): Promise<void> {
+  const existing = getTaskColumns(context);
+  for (const [name, definition] of TASK_COLUMNS) {
+    if (!existing.has(name)) {
+      context.exec(`ALTER TABLE tasks ADD COLUMN ${name} ${definition}`);
+    }
+  }
+}
+
+export async function down({ context }: { context: Database.Database }): Promise<void> {
+  const existing = getTaskColumns(context);
+  for (const [name] of [...TASK_COLUMNS].reverse()) {
+    if (existing.has(name)) {
+      context.exec(`ALTER TABLE tasks DROP COLUMN ${name}`);
+    }
+  }
+}
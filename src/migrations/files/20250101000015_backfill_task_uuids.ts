@@ -0,0 +1,21 @@
+import { randomUUID } from 'crypto';
+import Database from 'better-sqlite3';
+
+/**
+ * Migration: Give every task a UUID
+ * Tasks are matched by UUID when they are imported, so tasks created before UUIDs were assigned
+ * get one here
+ */
+export async function up({ context }: { context: Database.Database }): Promise<void> {
+  const rows = context.prepare('SELECT id FROM tasks WHERE uuid IS NULL').all() as Array<{
+    id: number;
+  }>;
+  const update = context.prepare('UPDATE tasks SET uuid = ? WHERE id = ?');
+  for (const row of rows) {
+    update.run(randomUUID(), row.id);
+  }
+}
+
+export async function down(): Promise<void> {
+  // The assigned UUIDs are kept: they cannot be told apart from UUIDs set since
+}
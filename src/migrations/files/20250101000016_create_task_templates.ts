@@ -0,0 +1,43 @@
+import Database from 'better-sqlite3';
+
+/**
+ * Migration: Create task_templates table
+ * This table stores recurring tasks: a prompt (with the fields of the tasks it creates), the cron
+ * schedule and time zone it runs on, what to do about runs missed while no scheduler was running,
+ * and when it next runs
+ */
+export async function up({ context }: { context: Database.Database }): Promise<void> {
+  context.exec(`
+    CREATE TABLE IF NOT EXISTS task_templates (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL,
+      prompt TEXT NOT NULL,
+      schedule TEXT NOT NULL,
+      timezone TEXT NOT NULL DEFAULT 'UTC',
+      catch_up TEXT NOT NULL DEFAULT 'once',
+      enabled INTEGER NOT NULL DEFAULT 1,
+      repository TEXT,
+      branch_name TEXT,
+      priority INTEGER NOT NULL DEFAULT 0,
+      labels TEXT,
+      metadata TEXT,
+      max_attempts INTEGER NOT NULL DEFAULT 3,
+      next_run_at TEXT,
+      last_run_at TEXT,
+      last_task_id INTEGER,
+      createdat TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      updatedat TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  // Create indexes
+  context.exec(`
+    CREATE INDEX IF NOT EXISTS index_task_templates_on_enabled_and_next_run_at
+    ON task_templates(enabled, next_run_at)
+  `);
+}
+
+export async function down({ context }: { context: Database.Database }): Promise<void> {
+  context.exec('DROP INDEX IF EXISTS index_task_templates_on_enabled_and_next_run_at');
+  context.exec('DROP TABLE IF EXISTS task_templates');
+}
@@ -0,0 +1,28 @@
+import Database from 'better-sqlite3';
+
+/**
+ * Migration: Create execution_presets table
+ * This table stores named sets of execution options (repository, branch, model, timeout, MCP
+ * connections and a prompt preamble) that execution requests can refer to by name
+ */
+export async function up({ context }: { context: Database.Database }): Promise<void> {
+  context.exec(`
+    CREATE TABLE IF NOT EXISTS execution_presets (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL UNIQUE,
+      description TEXT,
+      repository TEXT,
+      branch_name TEXT,
+      model TEXT,
+      timeout INTEGER,
+      mcps TEXT,
+      prompt_preamble TEXT,
+      createdat TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      updatedat TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+}
+
+export async function down({ context }: { context: Database.Database }): Promise<void> {
+  context.exec('DROP TABLE IF EXISTS execution_presets');
+}
@@ -0,0 +1,25 @@
+import Database from 'better-sqlite3';
+
+/**
+ * Migration: Create prompt_templates table
+ * This table stores named prompt templates: the template text with its `{{variable}}`
+ * placeholders and the variables it declares (with descriptions, defaults and whether they are
+ * required)
+ */
+export async function up({ context }: { context: Database.Database }): Promise<void> {
+  context.exec(`
+    CREATE TABLE IF NOT EXISTS prompt_templates (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL UNIQUE,
+      description TEXT,
+      template TEXT NOT NULL,
+      variables TEXT,
+      createdat TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      updatedat TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+}
+
+export async function down({ context }: { context: Database.Database }): Promise<void> {
+  context.exec('DROP TABLE IF EXISTS prompt_templates');
+}
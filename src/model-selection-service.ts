@@ -0,0 +1,188 @@
+import { logger } from './logger.js';
+import type { CommandResult } from './cursor-cli.js';
+import type { QueueType } from './conversation-service.js';
+
+/**
+ * Model used when no default model is configured (lets cursor-agent pick)
+ */
+export const DEFAULT_CURSOR_MODEL = 'auto';
+
+/**
+ * Model names are passed to cursor-agent as an argument, so only allow plain identifiers
+ */
+const MODEL_NAME_PATTERN = /^[A-Za-z0-9][\w.:-]*$/;
+
+/**
+ * Output of a failed run that means the model could not serve the request
+ */
+const MODEL_UNAVAILABLE_PATTERNS = [
+  /model.{0,40}(?:not available|unavailable|not found|not supported|does not exist)/i,
+  /(?:invalid|unknown|unsupported) model/i,
+  /rate[ -]?limit/i,
+  /too many requests/i,
+  /usage limit/i,
+  /quota exceeded/i,
+];
+
+/**
+ * Options for ModelSelectionService
+ */
+export interface ModelSelectionServiceOptions {
+  defaultModel?: string;
+  /**
+   * Models requests may ask for (any model name is accepted when empty)
+   */
+  allowedModels?: readonly string[];
+  /**
+   * Model to retry with when the requested model is unavailable or rate-limited
+   */
+  fallbackModel?: string | null;
+  repositoryDefaults?: Record<string, string>;
+  queueDefaults?: Partial<Record<QueueType, string>>;
+}
+
+/**
+ * What a run's model is chosen from
+ */
+export interface ModelSelectionContext {
+  model?: string | null;
+  repository?: string | null;
+  queueType?: QueueType;
+}
+
+/**
+ * Result of a command run with model fallback
+ */
+export interface ModelRunResult {
+  result: CommandResult;
+  /**
+   * Model the returned result was produced by
+   */
+  model: string;
+}
+
+/**
+ * Read a comma-separated list from an environment variable
+ */
+function getListEnv(name: string): string[] {
+  return (process.env[name] || '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter((entry) => entry !== '');
+}
+
+/**
+ * Read "name=model" pairs from an environment variable
+ * Format: "my-app=gpt-5,docs=auto" - entries without a name or model are ignored.
+ */
+function getModelMapEnv(name: string): Record<string, string> {
+  const models: Record<string, string> = {};
+  for (const entry of getListEnv(name)) {
+    const separator = entry.indexOf('=');
+    const key = entry.slice(0, separator).trim();
+    const model = entry.slice(separator + 1).trim();
+    if (separator > 0 && model) {
+      models[key] = model;
+    }
+  }
+  return models;
+}
+
+/**
+ * ModelSelectionService - Chooses the model cursor-agent runs with
+ *
+ * A request's model comes from the request itself, then the repository's default model
+ * (CURSOR_MODEL_REPOSITORY_DEFAULTS), then the queue's default model (CURSOR_MODEL_QUEUE_DEFAULTS),
+ * then CURSOR_MODEL_DEFAULT. Models requested explicitly must be in CURSOR_MODEL_ALLOWLIST when it
+ * is set. Runs that fail because the model is unavailable or rate-limited are retried once with
+ * CURSOR_MODEL_FALLBACK.
+ */
+export class ModelSelectionService {
+  private readonly defaultModel: string;
+  private readonly allowedModels: readonly string[];
+  private readonly fallbackModel: string | null;
+  private readonly repositoryDefaults: Record<string, string>;
+  private readonly queueDefaults: Partial<Record<QueueType, string>>;
+
+  constructor(options: ModelSelectionServiceOptions = {}) {
+    this.defaultModel =
+      options.defaultModel ?? (process.env.CURSOR_MODEL_DEFAULT?.trim() || DEFAULT_CURSOR_MODEL);
+    this.allowedModels = options.allowedModels ?? getListEnv('CURSOR_MODEL_ALLOWLIST');
+    this.fallbackModel =
+      options.fallbackModel !== undefined
+        ? options.fallbackModel
+        : process.env.CURSOR_MODEL_FALLBACK?.trim() || null;
+    this.repositoryDefaults =
+      options.repositoryDefaults ?? getModelMapEnv('CURSOR_MODEL_REPOSITORY_DEFAULTS');
+    this.queueDefaults = options.queueDefaults ?? getModelMapEnv('CURSOR_MODEL_QUEUE_DEFAULTS');
+  }
+
+  /**
+   * Validate a model requested by a caller
+   * @param model - Requested model
+   * @returns Error message, or null if the model may be used
+   */
+  validateModel(model: unknown): string | null {
+    if (typeof model !== 'string' || !MODEL_NAME_PATTERN.test(model)) {
+      return 'model must be a model name, such as auto';
+    }
+    if (this.allowedModels.length > 0 && !this.allowedModels.includes(model)) {
+      return `model must be one of: ${this.allowedModels.join(', ')}`;
+    }
+    return null;
+  }
+
+  /**
+   * Choose the model for a run
+   * @param context - Requested model, repository and queue of the run
+   * @returns Model name
+   */
+  resolveModel(context: ModelSelectionContext = {}): string {
+    return (
+      context.model ||
+      (context.repository ? this.repositoryDefaults[context.repository] : undefined) ||
+      (context.queueType ? this.queueDefaults[context.queueType] : undefined) ||
+      this.defaultModel
+    );
+  }
+
+  /**
+   * Check whether a run failed because its model is unavailable or rate-limited
+   * Successful runs are never treated as unavailable, even if their output mentions rate limits.
+   * @param result - Command result
+   */
+  isModelUnavailable(result: CommandResult): boolean {
+    if (result.success) {
+      return false;
+    }
+    const output = `${result.stdout || ''}\n${result.stderr || ''}`;
+    return MODEL_UNAVAILABLE_PATTERNS.some((pattern) => pattern.test(output));
+  }
+
+  /**
+   * Run a command with a model, retrying once with the fallback model if it is unavailable
+   * @param model - Model to run with first
+   * @param run - Runs the command with the given model
+   * @param logContext - Extra fields for the fallback log entry
+   * @returns The last result and the model that produced it
+   */
+  async runWithFallback(
+    model: string,
+    run: (model: string) => Promise<CommandResult>,
+    logContext: Record<string, unknown> = {}
+  ): Promise<ModelRunResult> {
+    const result = await run(model);
+    const fallbackModel = this.fallbackModel;
+    if (!fallbackModel || fallbackModel === model || !this.isModelUnavailable(result)) {
+      return { result, model };
+    }
+
+    logger.warn('Model unavailable, retrying with fallback model', {
+      ...logContext,
+      model,
+      fallbackModel,
+      exitCode: result.exitCode,
+    });
+    return { result: await run(fallbackModel), model: fallbackModel };
+  }
+}
@@ -0,0 +1,386 @@
+import Database from 'better-sqlite3';
+import { logger } from './logger.js';
+import { getErrorMessage } from './error-utils.js';
+import {
+  PROMPT_TEMPLATE_VARIABLE_PATTERN,
+  renderPromptTemplate,
+  validatePromptTemplate,
+  type PromptTemplateValue,
+  type PromptTemplateVariable,
+} from './utils/prompt-template.js';
+import { getSharedDbPath } from './utils/path-resolver.js';
+
+/**
+ * Template names are used in URLs and request bodies
+ */
+const TEMPLATE_NAME_PATTERN = /^[A-Za-z0-9][\w.-]*$/;
+
+/**
+ * Prompt template interface matching the database schema
+ */
+export interface PromptTemplate {
+  id: number;
+  name: string;
+  description: string | null;
+  /**
+   * Template text with `{{variable}}` placeholders and `{{#if variable}}` conditionals
+   */
+  template: string;
+  variables: PromptTemplateVariable[];
+  createdat: string;
+  updatedat: string;
+}
+
+/**
+ * Prompt template row as stored in the prompt_templates table
+ */
+interface PromptTemplateRow extends Omit<PromptTemplate, 'variables'> {
+  variables: string | null;
+}
+
+/**
+ * Fields that can be set on a prompt template
+ */
+export interface PromptTemplateInput {
+  name?: string;
+  description?: string | null;
+  template?: string;
+  variables?: PromptTemplateVariable[];
+}
+
+/**
+ * Map database row to PromptTemplate interface
+ */
+function mapPromptTemplateRow(row: PromptTemplateRow): PromptTemplate {
+  return {
+    ...row,
+    variables: row.variables ? (JSON.parse(row.variables) as PromptTemplateVariable[]) : [],
+  };
+}
+
+/**
+ * Check whether a value can be substituted into a template
+ */
+function isTemplateValue(value: unknown): value is PromptTemplateValue {
+  return typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+}
+
+/**
+ * Validate the variables of a render request
+ * @param value - Variables from the request body
+ * @returns The variables, or an error message
+ */
+export function parsePromptTemplateValues(
+  value: unknown
+): { values: Record<string, PromptTemplateValue> } | { error: string } {
+  if (value === undefined) {
+    return { values: {} };
+  }
+  if (
+    typeof value !== 'object' ||
+    value === null ||
+    Array.isArray(value) ||
+    !Object.values(value).every(isTemplateValue)
+  ) {
+    return { error: 'variables must be an object of strings, numbers or booleans' };
+  }
+  return { values: value as Record<string, PromptTemplateValue> };
+}
+
+/**
+ * Validate the declared variables of a template
+ */
+function parseVariableDefinitions(
+  value: unknown
+): { variables: PromptTemplateVariable[] } | { error: string } {
+  if (!Array.isArray(value)) {
+    return { error: 'variables must be a list' };
+  }
+
+  const variables: PromptTemplateVariable[] = [];
+  for (const entry of value as unknown[]) {
+    const definition = (entry ?? {}) as Record<string, unknown>;
+    const name = definition.name;
+    if (typeof name !== 'string' || !PROMPT_TEMPLATE_VARIABLE_PATTERN.test(name)) {
+      return {
+        error:
+          'each variable needs a name made of letters, digits and "_" (not starting with a digit)',
+      };
+    }
+    if (variables.some((variable) => variable.name === name)) {
+      return { error: `variable ${name} is declared more than once` };
+    }
+    if (definition.description !== undefined && typeof definition.description !== 'string') {
+      return { error: `description of variable ${name} must be a string` };
+    }
+    if (definition.required !== undefined && typeof definition.required !== 'boolean') {
+      return { error: `required of variable ${name} must be a boolean` };
+    }
+    if (definition.default !== undefined && !isTemplateValue(definition.default)) {
+      return { error: `default of variable ${name} must be a string, number or boolean` };
+    }
+    if (definition.required && definition.default !== undefined) {
+      return { error: `variable ${name} cannot be required and have a default` };
+    }
+
+    const variable: PromptTemplateVariable = { name };
+    if (definition.description !== undefined) {
+      variable.description = definition.description as string;
+    }
+    if (definition.required !== undefined) {
+      variable.required = definition.required as boolean;
+    }
+    if (definition.default !== undefined) {
+      variable.default = definition.default as PromptTemplateValue;
+    }
+    variables.push(variable);
+  }
+  return { variables };
+}
+
+/**
+ * Validate a prompt template create/update body; absent fields are left out
+ * @param body - Request body (name, description, template, variables)
+ * @param required - Whether name and template must be present (on create)
+ * @returns The fields to store, or an error message
+ */
+export function parsePromptTemplateInput(
+  body: Record<string, unknown>,
+  required: boolean
+): { input: PromptTemplateInput } | { error: string } {
+  const input: PromptTemplateInput = {};
+
+  if (required || body.name !== undefined) {
+    if (typeof body.name !== 'string' || !TEMPLATE_NAME_PATTERN.test(body.name)) {
+      return {
+        error:
+          'name must start with a letter or digit and contain only letters, digits, ".", "_" and "-"',
+      };
+    }
+    input.name = body.name;
+  }
+
+  if (body.description !== undefined) {
+    if (body.description !== null && typeof body.description !== 'string') {
+      return { error: 'description must be a string' };
+    }
+    input.description = body.description || null;
+  }
+
+  if (required || body.template !== undefined) {
+    if (typeof body.template !== 'string' || !body.template.trim()) {
+      return {
+        error: required
+          ? 'template is required and must be a non-empty string'
+          : 'template must be a non-empty string',
+      };
+    }
+    const templateError = validatePromptTemplate(body.template);
+    if (templateError) {
+      return { error: `template is invalid: ${templateError}` };
+    }
+    input.template = body.template;
+  }
+
+  if (body.variables !== undefined) {
+    const parsed = parseVariableDefinitions(body.variables);
+    if ('error' in parsed) {
+      return parsed;
+    }
+    input.variables = parsed.variables;
+  }
+
+  return { input };
+}
+
+/**
+ * PromptTemplateService - Manages prompt templates in the shared SQLite database
+ *
+ * Execution requests can send a template name and variables instead of a prompt; the rendered
+ * template becomes the request's prompt.
+ */
+export class PromptTemplateService {
+  private db: Database.Database | null = null;
+
+  /**
+   * Get database connection (lazy initialization)
+   */
+  private getDatabase(): Database.Database {
+    if (!this.db) {
+      try {
+        const dbPath = getSharedDbPath();
+        this.db = new Database(dbPath);
+        // Enable WAL mode for better concurrency
+        this.db.pragma('journal_mode = WAL');
+        logger.debug('Database connection established for prompt templates', { path: dbPath });
+      } catch (error) {
+        logger.error('Failed to connect to database for prompt templates', {
+          path: getSharedDbPath(),
+          error: getErrorMessage(error),
+        });
+        throw error;
+      }
+    }
+    return this.db;
+  }
+
+  /**
+   * List all templates
+   */
+  listTemplates(): PromptTemplate[] {
+    try {
+      const rows = this.getDatabase()
+        .prepare('SELECT * FROM prompt_templates ORDER BY name ASC')
+        .all() as PromptTemplateRow[];
+      return rows.map(mapPromptTemplateRow);
+    } catch (error) {
+      logger.error('Failed to list prompt templates', { error: getErrorMessage(error) });
+      throw error;
+    }
+  }
+
+  /**
+   * Get a template by name
+   */
+  getTemplateByName(name: string): PromptTemplate | null {
+    try {
+      const row = this.getDatabase()
+        .prepare('SELECT * FROM prompt_templates WHERE name = ?')
+        .get(name) as PromptTemplateRow | undefined;
+      return row ? mapPromptTemplateRow(row) : null;
+    } catch (error) {
+      logger.error('Failed to get prompt template', { error: getErrorMessage(error), name });
+      throw error;
+    }
+  }
+
+  /**
+   * Create a template
+   * @returns The created template, or null if a template with the name already exists
+   */
+  createTemplate(
+    input: PromptTemplateInput & { name: string; template: string }
+  ): PromptTemplate | null {
+    try {
+      if (this.getTemplateByName(input.name)) {
+        return null;
+      }
+
+      const now = new Date().toISOString();
+      const columns: Array<[string, unknown]> = [
+        ...this.getInputColumns(input),
+        ['createdat', now],
+        ['updatedat', now],
+      ];
+      this.getDatabase()
+        .prepare(
+          `INSERT INTO prompt_templates (${columns.map(([column]) => column).join(', ')})
+           VALUES (${columns.map(() => '?').join(', ')})`
+        )
+        .run(...columns.map(([, value]) => value));
+
+      logger.info('Prompt template created', { name: input.name });
+      return this.getTemplateByName(input.name);
+    } catch (error) {
+      logger.error('Failed to create prompt template', {
+        error: getErrorMessage(error),
+        name: input.name,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Update a template
+   * @returns The updated template, or null if it does not exist
+   */
+  updateTemplate(name: string, input: PromptTemplateInput): PromptTemplate | null {
+    try {
+      const existing = this.getTemplateByName(name);
+      if (!existing) {
+        return null;
+      }
+
+      const columns = this.getInputColumns(input);
+      if (columns.length === 0) {
+        return existing;
+      }
+      columns.push(['updatedat', new Date().toISOString()]);
+
+      this.getDatabase()
+        .prepare(
+          `UPDATE prompt_templates SET ${columns.map(([column]) => `${column} = ?`).join(', ')}
+           WHERE id = ?`
+        )
+        .run(...columns.map(([, value]) => value), existing.id);
+
+      return this.getTemplateByName(input.name ?? name);
+    } catch (error) {
+      logger.error('Failed to update prompt template', { error: getErrorMessage(error), name });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a template
+   */
+  deleteTemplate(name: string): boolean {
+    try {
+      return (
+        this.getDatabase().prepare('DELETE FROM prompt_templates WHERE name = ?').run(name)
+          .changes > 0
+      );
+    } catch (error) {
+      logger.error('Failed to delete prompt template', { error: getErrorMessage(error), name });
+      throw error;
+    }
+  }
+
+  /**
+   * Render a template with the given variables
+   * @param name - Template name
+   * @param variables - Variables from the request body
+   * @returns The rendered prompt, or an error message (null if the template does not exist)
+   */
+  renderTemplate(name: string, variables: unknown): { prompt: string } | { error: string } | null {
+    const template = this.getTemplateByName(name);
+    if (!template) {
+      return null;
+    }
+    const parsed = parsePromptTemplateValues(variables);
+    if ('error' in parsed) {
+      return parsed;
+    }
+
+    try {
+      return {
+        prompt: renderPromptTemplate(template.template, parsed.values, template.variables),
+      };
+    } catch (error) {
+      return { error: getErrorMessage(error) };
+    }
+  }
+
+  /**
+   * Get the column values for the template fields that are set
+   */
+  private getInputColumns(input: PromptTemplateInput): Array<[string, unknown]> {
+    const columns: Array<[string, unknown]> = [
+      ['name', input.name],
+      ['description', input.description],
+      ['template', input.template],
+      ['variables', input.variables === undefined ? undefined : JSON.stringify(input.variables)],
+    ];
+    return columns.filter(([, value]) => value !== undefined);
+  }
+
+  /**
+   * Close database connection
+   */
+  close(): void {
+    if (this.db) {
+      this.db.close();
+      this.db = null;
+    }
+  }
+}
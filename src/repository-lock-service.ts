@@ -0,0 +1,394 @@
+import { randomUUID } from 'crypto';
+import Redis from 'ioredis';
+import { logger } from './logger.js';
+import { getErrorMessage } from './error-utils.js';
+import { getPositiveIntEnv } from './utils/env.js';
+
+/**
+ * Where repository locks are coordinated
+ * - memory: within this process only
+ * - redis: across all cursor-runner instances sharing the same Redis
+ */
+export type RepositoryLockBackend = 'memory' | 'redis';
+
+/**
+ * Lock state for a single repository
+ */
+export interface RepositoryLockState {
+  repository: string;
+  /**
+   * Request currently running against the repository (null while waiting on another instance)
+   */
+  holder: string | null;
+  /**
+   * Requests waiting for the lock, in the order they will be served
+   */
+  waiting: string[];
+}
+
+/**
+ * Repository lock overview reported by /health/queue
+ */
+export interface RepositoryLockStatus {
+  backend: RepositoryLockBackend;
+  locks: RepositoryLockState[];
+}
+
+/**
+ * Options for acquiring a repository lock
+ */
+export interface AcquireRepositoryLockOptions {
+  requestId: string;
+  /**
+   * Aborting this signal stops waiting for the lock
+   */
+  signal?: AbortSignal;
+  /**
+   * Invoked once if the repository is locked by another run and the caller has to wait
+   */
+  onWait?: () => void;
+}
+
+/**
+ * Releases an acquired repository lock
+ */
+export type ReleaseRepositoryLock = () => Promise<void>;
+
+/**
+ * Options for RepositoryLockService
+ */
+export interface RepositoryLockServiceOptions {
+  backend?: RepositoryLockBackend;
+  redisClient?: Redis;
+  ttlMs?: number;
+  pollIntervalMs?: number;
+}
+
+interface LockWaiter {
+  requestId: string;
+  grant: () => void;
+}
+
+interface LocalLock {
+  holder: string;
+  waiters: LockWaiter[];
+}
+
+const REDIS_KEY_PREFIX = 'cursor:repository_lock:';
+
+/**
+ * Delete the lock key only if it still holds our token
+ */
+const RELEASE_SCRIPT = `if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('del', KEYS[1])
+end
+return 0`;
+
+/**
+ * Extend the lock key only if it still holds our token
+ */
+const REFRESH_SCRIPT = `if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('pexpire', KEYS[1], ARGV[2])
+end
+return 0`;
+
+/**
+ * Get the configured lock backend (REPOSITORY_LOCK_BACKEND, default: memory)
+ */
+function getLockBackend(): RepositoryLockBackend {
+  return process.env.REPOSITORY_LOCK_BACKEND === 'redis' ? 'redis' : 'memory';
+}
+
+/**
+ * Create the error used to reject a cancelled lock wait
+ * Flagged like cursor-cli cancellations so callers can handle both the same way.
+ */
+function createLockCancelledError(): Error {
+  const error = new Error('Repository lock wait cancelled') as Error & { cancelled: boolean };
+  error.cancelled = true;
+  return error;
+}
+
+/**
+ * Wait for the given time, rejecting early if the signal is aborted
+ */
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = (): void => {
+      clearTimeout(timer);
+      reject(createLockCancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * RepositoryLockService - Serializes cursor runs that target the same repository
+ *
+ * Runs against the same repository share a working tree, so they are served one at a time in
+ * arrival order; runs against different repositories proceed in parallel. With the redis
+ * backend the lock is additionally held in Redis (SET NX with a refreshed TTL) so multiple
+ * cursor-runner instances serialize too. If Redis is unreachable, locking degrades to
+ * in-process only rather than blocking executions.
+ */
+export class RepositoryLockService {
+  private readonly backend: RepositoryLockBackend;
+  private readonly redis: Redis | null = null;
+  private readonly ttlMs: number;
+  private readonly pollIntervalMs: number;
+  private readonly locks = new Map<string, LocalLock>();
+  /**
+   * Repositories whose local holder is still waiting for the Redis lock
+   */
+  private readonly remoteWaits = new Set<string>();
+
+  constructor(options: RepositoryLockServiceOptions = {}) {
+    this.backend = options.backend ?? getLockBackend();
+    this.ttlMs = options.ttlMs ?? getPositiveIntEnv('REPOSITORY_LOCK_TTL_MS', 60000);
+    this.pollIntervalMs =
+      options.pollIntervalMs ?? getPositiveIntEnv('REPOSITORY_LOCK_POLL_INTERVAL_MS', 1000);
+
+    if (this.backend === 'redis') {
+      if (options.redisClient) {
+        this.redis = options.redisClient;
+      } else {
+        const redisUrl = process.env.REDIS_URL || 'redis://redis:6379/0';
+        this.redis = new Redis(redisUrl, {
+          lazyConnect: true,
+          enableOfflineQueue: false,
+        });
+        this.redis.on('error', (error) => {
+          logger.error('Redis connection error for repository locks', { error: error.message });
+        });
+        this.redis.connect().catch((error) => {
+          logger.warn('Redis connection failed, repository locks are in-process only', {
+            error: error.message,
+          });
+        });
+      }
+    }
+  }
+
+  /**
+   * Wait until the repository is free and lock it
+   * @param repository - Repository name (the lock key)
+   * @param options - Requesting request ID, abort signal and wait notification
+   * @returns Function that releases the lock
+   */
+  async acquire(
+    repository: string,
+    options: AcquireRepositoryLockOptions
+  ): Promise<ReleaseRepositoryLock> {
+    let waited = false;
+    const notifyWait = (): void => {
+      if (!waited) {
+        waited = true;
+        options.onWait?.();
+      }
+    };
+
+    await this.acquireLocal(repository, options, notifyWait);
+
+    if (!this.redis) {
+      return async () => this.releaseLocal(repository);
+    }
+
+    let token: string | null;
+    this.remoteWaits.add(repository);
+    try {
+      token = await this.acquireRemote(repository, options, notifyWait);
+    } catch (error) {
+      this.releaseLocal(repository);
+      throw error;
+    } finally {
+      this.remoteWaits.delete(repository);
+    }
+
+    if (!token) {
+      return async () => this.releaseLocal(repository);
+    }
+
+    const refreshTimer = setInterval(
+      () => {
+        this.refreshRemote(repository, token);
+      },
+      Math.max(1, Math.floor(this.ttlMs / 3))
+    );
+    refreshTimer.unref();
+
+    return async () => {
+      clearInterval(refreshTimer);
+      await this.releaseRemote(repository, token);
+      this.releaseLocal(repository);
+    };
+  }
+
+  /**
+   * Get held and awaited repository locks known to this instance
+   */
+  getStatus(): RepositoryLockStatus {
+    const locks: RepositoryLockState[] = [];
+    for (const [repository, lock] of this.locks) {
+      const waitingRemotely = this.remoteWaits.has(repository);
+      locks.push({
+        repository,
+        holder: waitingRemotely ? null : lock.holder,
+        waiting: [
+          ...(waitingRemotely ? [lock.holder] : []),
+          ...lock.waiters.map((waiter) => waiter.requestId),
+        ],
+      });
+    }
+    return { backend: this.backend, locks };
+  }
+
+  /**
+   * Take the in-process lock, queueing behind other local runs for the same repository
+   */
+  private acquireLocal(
+    repository: string,
+    options: AcquireRepositoryLockOptions,
+    notifyWait: () => void
+  ): Promise<void> {
+    const { requestId, signal } = options;
+    if (signal?.aborted) {
+      return Promise.reject(createLockCancelledError());
+    }
+
+    const lock = this.locks.get(repository);
+    if (!lock) {
+      this.locks.set(repository, { holder: requestId, waiters: [] });
+      return Promise.resolve();
+    }
+
+    logger.info('Waiting for repository lock', {
+      requestId,
+      repository,
+      holder: lock.holder,
+      position: lock.waiters.length + 1,
+    });
+    notifyWait();
+
+    return new Promise<void>((resolve, reject) => {
+      const onAbort = (): void => {
+        // Leave the queue so the lock goes to the next waiter instead
+        const index = lock.waiters.indexOf(waiter);
+        if (index !== -1) {
+          lock.waiters.splice(index, 1);
+          reject(createLockCancelledError());
+        }
+      };
+      const waiter: LockWaiter = {
+        requestId,
+        grant: () => {
+          signal?.removeEventListener('abort', onAbort);
+          lock.holder = requestId;
+          resolve();
+        },
+      };
+      lock.waiters.push(waiter);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Hand the in-process lock to the next waiter, or drop it if nobody is waiting
+   */
+  private releaseLocal(repository: string): void {
+    const lock = this.locks.get(repository);
+    if (!lock) {
+      return;
+    }
+
+    const next = lock.waiters.shift();
+    if (next) {
+      next.grant();
+    } else {
+      this.locks.delete(repository);
+    }
+  }
+
+  /**
+   * Take the Redis lock, polling while another instance holds it
+   * @returns Lock token, or null if Redis is unavailable
+   */
+  private async acquireRemote(
+    repository: string,
+    options: AcquireRepositoryLockOptions,
+    notifyWait: () => void
+  ): Promise<string | null> {
+    const redis = this.redis!;
+    const key = `${REDIS_KEY_PREFIX}${repository}`;
+    const token = `${options.requestId}:${randomUUID()}`;
+    let loggedWait = false;
+
+    for (;;) {
+      if (options.signal?.aborted) {
+        throw createLockCancelledError();
+      }
+
+      let acquired: string | null;
+      try {
+        acquired = await redis.set(key, token, 'PX', this.ttlMs, 'NX');
+      } catch (error) {
+        logger.warn('Redis repository lock unavailable, using in-process lock only', {
+          requestId: options.requestId,
+          repository,
+          error: getErrorMessage(error),
+        });
+        return null;
+      }
+
+      if (acquired === 'OK') {
+        return token;
+      }
+
+      if (!loggedWait) {
+        loggedWait = true;
+        logger.info('Waiting for repository lock held by another instance', {
+          requestId: options.requestId,
+          repository,
+        });
+        notifyWait();
+      }
+      await delay(this.pollIntervalMs, options.signal);
+    }
+  }
+
+  /**
+   * Extend the Redis lock TTL while the run is still going
+   */
+  private refreshRemote(repository: string, token: string): void {
+    this.redis!.eval(
+      REFRESH_SCRIPT,
+      1,
+      `${REDIS_KEY_PREFIX}${repository}`,
+      token,
+      this.ttlMs
+    ).catch((error: unknown) => {
+      logger.warn('Failed to refresh repository lock', {
+        repository,
+        error: getErrorMessage(error),
+      });
+    });
+  }
+
+  /**
+   * Delete the Redis lock if it is still ours
+   */
+  private async releaseRemote(repository: string, token: string): Promise<void> {
+    try {
+      await this.redis!.eval(RELEASE_SCRIPT, 1, `${REDIS_KEY_PREFIX}${repository}`, token);
+    } catch (error) {
+      // The TTL expires the lock eventually
+      logger.warn('Failed to release repository lock', {
+        repository,
+        error: getErrorMessage(error),
+      });
+    }
+  }
+}
@@ -0,0 +1,85 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import type { Request, Response, NextFunction } from 'express';
+
+/**
+ * Header carrying the request ID between cursor-runner and its callers
+ * Inbound values are reused as the request ID; responses and callbacks echo it.
+ */
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+/**
+ * Fields identifying the request a piece of work belongs to
+ * The logger adds them to every entry logged while the request is being handled.
+ */
+export interface RequestContext {
+  requestId?: string;
+  conversationId?: string;
+  repository?: string | null;
+  queueType?: string;
+}
+
+/**
+ * Inbound request IDs that are reused: they end up in job registry keys and branch and worktree
+ * names, so anything else (including dot-only and dash-led values) gets a generated ID instead
+ */
+const INBOUND_REQUEST_ID_PATTERN = /^\w[\w.-]{0,127}$/;
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Generate a request ID for requests that did not send one
+ */
+export function generateRequestId(): string {
+  return `req-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Get the context of the request currently being handled, if any
+ */
+export function getRequestContext(): RequestContext | undefined {
+  return storage.getStore();
+}
+
+/**
+ * Run a function in a request context
+ * Fields that are not given are inherited from the current context.
+ * @param context - Fields identifying the request
+ * @param fn - Function to run
+ * @returns The function's result
+ */
+export function runWithRequestContext<T>(context: RequestContext, fn: () => T): T {
+  const defined = Object.fromEntries(
+    Object.entries(context).filter(([, value]) => value !== undefined)
+  ) as RequestContext;
+  return storage.run({ ...storage.getStore(), ...defined }, fn);
+}
+
+/**
+ * Set fields of the current request context once they are known (e.g. a resolved conversation ID)
+ * Does nothing outside a request context.
+ */
+export function updateRequestContext(context: RequestContext): void {
+  const store = storage.getStore();
+  if (store) {
+    for (const [key, value] of Object.entries(context)) {
+      if (value !== undefined) {
+        (store as Record<string, unknown>)[key] = value;
+      }
+    }
+  }
+}
+
+/**
+ * Express middleware that handles each request in its own request context
+ * Uses the inbound X-Request-Id header as the request ID (generating one if it is missing or not
+ * 1-128 letters, digits, `_`, `.` and `-`) and echoes the ID in the response.
+ */
+export function requestContextMiddleware(req: Request, res: Response, next: NextFunction): void {
+  const inboundRequestId = req.get(REQUEST_ID_HEADER)?.trim();
+  const requestId =
+    inboundRequestId && INBOUND_REQUEST_ID_PATTERN.test(inboundRequestId)
+      ? inboundRequestId
+      : generateRequestId();
+  res.setHeader(REQUEST_ID_HEADER, requestId);
+  runWithRequestContext({ requestId }, next);
+}
@@ -0,0 +1,226 @@
+import { logger } from './logger.js';
+import { getErrorMessage } from './error-utils.js';
+import { isCancellationError, type CursorCLI } from './cursor-cli.js';
+import type { QueueType } from './conversation-service.js';
+import { ModelSelectionService } from './model-selection-service.js';
+
+/**
+ * Assessment returned by the review agent
+ */
+export interface ReviewResult {
+  code_complete: boolean;
+  break_iteration: boolean;
+  justification: string;
+}
+
+/**
+ * Review outcome, including the raw text used to produce it and the model that produced it
+ * result is null when the review agent failed or did not return a usable assessment.
+ */
+export interface ReviewResponse {
+  result: ReviewResult | null;
+  rawOutput: string;
+  model: string;
+}
+
+/**
+ * Maximum number of characters of worker output included in the review prompt
+ * Keeps the review prompt bounded for very chatty runs (the tail is the most relevant part).
+ */
+const MAX_REVIEW_OUTPUT_LENGTH = 50000;
+
+/**
+ * Strip ANSI escape sequences and normalize line endings
+ */
+function cleanOutput(output: string): string {
+  return (
+    output
+      // eslint-disable-next-line no-control-regex
+      .replace(/\u001b\[[0-9;?]*[A-Za-z]/g, '')
+      .replace(/\r\n?/g, '\n')
+  );
+}
+
+/**
+ * Extract the first complete JSON object from text using brace matching
+ * @returns The JSON object text, or null if no balanced object is found
+ */
+function extractFirstJsonObject(text: string): string | null {
+  const start = text.indexOf('{');
+  if (start === -1) {
+    return null;
+  }
+
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}') {
+      depth--;
+      if (depth === 0) {
+        return text.substring(start, i + 1);
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * ReviewAgentService - Asks cursor-cli to assess whether a worker run completed its task
+ *
+ * Used by the iterate flow to decide whether to stop, re-prompt the worker, or give up.
+ */
+export class ReviewAgentService {
+  private cursorCLI: CursorCLI;
+  private modelSelection: ModelSelectionService;
+
+  constructor(
+    cursorCLI: CursorCLI,
+    modelSelection: ModelSelectionService = new ModelSelectionService()
+  ) {
+    this.cursorCLI = cursorCLI;
+    this.modelSelection = modelSelection;
+  }
+
+  /**
+   * Build the prompt sent to the review agent
+   */
+  private buildReviewPrompt(output: string): string {
+    const reviewedOutput =
+      output.length > MAX_REVIEW_OUTPUT_LENGTH
+        ? `...${output.substring(output.length - MAX_REVIEW_OUTPUT_LENGTH)}`
+        : output;
+
+    return `You are reviewing the output of another coding agent. Do NOT modify any files.
+
+Decide whether the agent fully completed its task, based on the output below and the current state of the repository.
+
+Respond with ONLY a JSON object in this exact format:
+{"code_complete": true|false, "break_iteration": true|false, "justification": "short explanation"}
+
+- code_complete: true only if the task is fully done.
+- break_iteration: true if retrying cannot help (e.g. missing permissions, workspace trust prompts, authentication failures, or the task is impossible).
+- justification: what is missing or why the work is complete. This is passed back to the agent as feedback.
+
+Agent output:
+${reviewedOutput}`;
+  }
+
+  /**
+   * Parse the review agent's stdout into a ReviewResult
+   */
+  private parseReview(stdout: string): Omit<ReviewResponse, 'model'> {
+    const cleaned = cleanOutput(stdout);
+    const jsonText = extractFirstJsonObject(cleaned);
+
+    if (!jsonText) {
+      return { result: null, rawOutput: cleaned.trim() };
+    }
+
+    try {
+      const parsed = JSON.parse(jsonText) as Partial<ReviewResult>;
+      if (typeof parsed.code_complete !== 'boolean') {
+        return { result: null, rawOutput: jsonText };
+      }
+
+      return {
+        result: {
+          code_complete: parsed.code_complete,
+          break_iteration: parsed.break_iteration === true,
+          justification: typeof parsed.justification === 'string' ? parsed.justification : '',
+        },
+        rawOutput: jsonText,
+      };
+    } catch {
+      return { result: null, rawOutput: jsonText };
+    }
+  }
+
+  /**
+   * Review a worker run's output
+   * @param output - Output produced by the worker run
+   * @param cwd - Repository path the worker ran in
+   * @param options.queueType - Scheduling priority of the request being reviewed
+   * @param options.model - Model to review with (default: the configured model for the queue type)
+   * @param options.signal - Aborting this signal cancels the review (the cancellation is rethrown)
+   * @returns Parsed review result (null on failure), the raw review output and the review model
+   */
+  async reviewOutput(
+    output: string,
+    cwd: string,
+    options: { queueType?: QueueType; model?: string; signal?: AbortSignal } = {}
+  ): Promise<ReviewResponse> {
+    const { queueType, signal } = options;
+    let model = options.model ?? this.modelSelection.resolveModel({ queueType });
+    try {
+      const prompt = this.buildReviewPrompt(output);
+      const run = await this.modelSelection.runWithFallback(
+        model,
+        // No --force: the reviewer only reads the repository
+        (reviewModel) =>
+          this.cursorCLI.executeCommand(['--model', reviewModel, '--print', prompt], {
+            cwd,
+            queueType,
+            signal,
+          }),
+        { cwd }
+      );
+      const result = run.result;
+      model = run.model;
+
+      if (!result?.stdout) {
+        logger.warn('Review agent returned no output', {
+          cwd,
+          exitCode: result?.exitCode,
+          stderr: result?.stderr,
+        });
+        return {
+          result: null,
+          rawOutput: 'Review agent error: executeCommand returned invalid result (missing stdout)',
+          model,
+        };
+      }
+
+      const review = this.parseReview(result.stdout);
+      if (!review.result) {
+        logger.warn('Review agent output could not be parsed', {
+          cwd,
+          rawOutput: review.rawOutput.substring(0, 500),
+        });
+      }
+      return { ...review, model };
+    } catch (error) {
+      if (isCancellationError(error)) {
+        throw error;
+      }
+      logger.error('Review agent execution failed', {
+        cwd,
+        error: getErrorMessage(error),
+      });
+      return {
+        result: null,
+        rawOutput: `Review agent error: ${getErrorMessage(error)}`,
+        model,
+      };
+    }
+  }
+}
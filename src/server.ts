@@ -6,18 +6,73 @@ import express, {
   type Router,
 } from 'express';
 import type { Server as HttpServer } from 'http';
-import type { IncomingMessage } from 'http';
+import type { IncomingHttpHeaders, IncomingMessage } from 'http';
 import path from 'path';
+import { existsSync } from 'fs';
 import { logger } from './logger.js';
 import { GitService } from './git-service.js';
-import { CursorCLI } from './cursor-cli.js';
+import { CursorCLI, getMaxTimeout, validateTimeout, type OutputStream } from './cursor-cli.js';
 import { CommandParserService } from './command-parser-service.js';
-import { CursorExecutionService } from './cursor-execution-service.js';
+import {
+  CursorExecutionService,
+  DEFAULT_MAX_ITERATIONS,
+  type CallbackWebhookPayload,
+} from './cursor-execution-service.js';
 import { FilesystemService } from './filesystem-service.js';
-import { getWebhookSecret } from './callback-url-builder.js';
+import { getDiffArtifactPath } from './git-diff-service.js';
+import {
+  CALLBACK_DELIVERY_STATUSES,
+  isCallbackDeliveryStatus,
+  maskCallbackUrl,
+  type CallbackDelivery,
+  type CallbackDeliveryStatus,
+} from './callback-delivery-service.js';
+import { buildCallbackUrl, getWebhookSecret } from './callback-url-builder.js';
 import { FileTreeService } from './file-tree-service.js';
 import { AgentConversationService } from './agent-conversation-service.js';
-import { TaskService } from './task-service.js';
+import {
+  TaskService,
+  TaskStatus,
+  TASK_SORT_FIELDS,
+  parseTaskFields,
+  type TaskQuery,
+  type TaskSortField,
+} from './task-service.js';
+import { TaskOperatorService } from './task-operator-service.js';
+import { formatTasksCsv, parseTasksCsv } from './task-transfer.js';
+import { TaskTemplateService, parseTaskTemplateInput } from './task-template-service.js';
+import { ExecutionPresetService, parseExecutionPresetInput } from './execution-preset-service.js';
+import { PromptTemplateService, parsePromptTemplateInput } from './prompt-template-service.js';
+import { metrics } from './metrics-service.js';
+import {
+  REQUEST_ID_HEADER,
+  generateRequestId,
+  getRequestContext,
+  requestContextMiddleware,
+  updateRequestContext,
+} from './request-context.js';
+import { validateMcpNames } from './mcp-selection-service.js';
+import { TaskSchedulerService } from './task-scheduler-service.js';
+import {
+  JobRegistryService,
+  isJobStatus,
+  isTerminalJobStatus,
+  JOB_STATUSES,
+  type CreateJobParams,
+  type JobOutcome,
+  type JobStatus,
+} from './job-registry-service.js';
+import {
+  ExecutionStreamService,
+  type ExecutionOutputEvent,
+  type ExecutionStreamEvent,
+  type ExecutionStreamSnapshot,
+} from './execution-stream-service.js';
+import {
+  IdempotencyService,
+  fingerprintRequest,
+  type IdempotencyClaim,
+} from './idempotency-service.js';
 import type Redis from 'ioredis';
 import { getRepositoriesPath, getTargetAppPath } from './utils/path-resolver.js';
 import { WebSocketServer, type WebSocket } from 'ws';
@@ -36,6 +91,21 @@ interface CursorExecuteRequest {
   conversationId?: string;
   conversation_id?: string;
   queueType?: 'default' | 'telegram' | 'api';
+  /**
+   * Name of an execution preset supplying defaults for the other fields
+   */
+  preset?: string;
+  /**
+   * Name of a prompt template to render as the prompt (instead of sending prompt)
+   */
+  template?: string;
+  variables?: Record<string, unknown>;
+  model?: string;
+  timeout?: number;
+  mcps?: string[];
+  worktree?: boolean;
+  keepWorktree?: boolean;
+  includeDiff?: boolean;
 }
 
 /**
@@ -57,6 +127,23 @@ interface HttpError extends Error {
   name: string;
 }
 
+/**
+ * Get the webhook secret a request provides (X-Webhook-Secret or X-Cursor-Runner-Secret header,
+ * or ?secret= query parameter)
+ */
+function getProvidedWebhookSecret(headers: IncomingHttpHeaders, querySecret: unknown): unknown {
+  return headers['x-webhook-secret'] || headers['x-cursor-runner-secret'] || querySecret;
+}
+
+/**
+ * Check a provided webhook secret against WEBHOOK_SECRET
+ * @returns True if the secret matches, or if WEBHOOK_SECRET is not configured (development)
+ */
+function isValidWebhookSecret(providedSecret: unknown): boolean {
+  const expectedSecret = getWebhookSecret();
+  return !expectedSecret || providedSecret === expectedSecret;
+}
+
 /**
  * Options for Server constructor
  */
@@ -83,11 +170,21 @@ export class Server {
   public cursorExecution: CursorExecutionService;
   public agentConversationService: AgentConversationService;
   public taskService: TaskService;
+  public taskOperator: TaskOperatorService;
+  public taskTemplates: TaskTemplateService;
+  public taskScheduler: TaskSchedulerService;
+  public presets: ExecutionPresetService;
+  public promptTemplates: PromptTemplateService;
+  public jobRegistry: JobRegistryService;
+  public executionStreams: ExecutionStreamService;
+  public idempotency: IdempotencyService;
   public server?: HttpServer;
   private readonly disableBackgroundWorkers: boolean;
   private wsServer?: WebSocketServer;
   private readonly wsClientsByTopic = new Map<string, Set<WebSocket>>();
   private readonly wsUnsubscribers: Array<() => void> = [];
+  // Abort controllers for async executions in flight, keyed by requestId (used for cancellation)
+  private readonly activeJobControllers = new Map<string, AbortController>();
 
   constructor(redisClient?: Redis, options: ServerOptions = {}) {
     this.disableBackgroundWorkers = options.disableBackgroundWorkers ?? false;
@@ -109,6 +206,14 @@ export class Server {
     // Allow dependency injection of Redis for testing
     this.agentConversationService = new AgentConversationService(redisClient);
     this.taskService = new TaskService();
+    this.taskOperator = new TaskOperatorService(this.taskService, this.cursorExecution);
+    this.taskTemplates = new TaskTemplateService();
+    this.presets = new ExecutionPresetService();
+    this.promptTemplates = new PromptTemplateService();
+    this.taskScheduler = new TaskSchedulerService(this.taskTemplates, this.taskService);
+    this.jobRegistry = new JobRegistryService();
+    this.executionStreams = new ExecutionStreamService();
+    this.idempotency = new IdempotencyService({ redisClient });
 
     // Hook realtime broadcasts to Redis-backed updates (no-op until websocket clients subscribe)
     this.wsUnsubscribers.push(
@@ -140,6 +245,12 @@ export class Server {
       })
     );
 
+    this.wsUnsubscribers.push(
+      this.executionStreams.onExecutionEvent((event) => {
+        this.broadcastWs(`execution:${event.requestId}`, event);
+      })
+    );
+
     this.setupMiddleware();
     this.setupRoutes();
   }
@@ -148,6 +259,9 @@ export class Server {
    * Setup Express middleware
    */
   setupMiddleware(): void {
+    // Request context (request ID for logs, responses and callbacks)
+    this.app.use(requestContextMiddleware);
+
     // CORS middleware - allow requests from frontend
     this.app.use((req: Request, res: Response, next: NextFunction) => {
       const origin = req.get('origin');
@@ -164,7 +278,11 @@ export class Server {
         res.setHeader('Access-Control-Allow-Origin', origin);
       }
       res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
-      res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+      res.setHeader(
+        'Access-Control-Allow-Headers',
+        `Content-Type, Authorization, ${REQUEST_ID_HEADER}`
+      );
+      res.setHeader('Access-Control-Expose-Headers', REQUEST_ID_HEADER);
       res.setHeader('Access-Control-Allow-Credentials', 'true');
 
       // Handle preflight requests
@@ -212,16 +330,20 @@ export class Server {
     // Diagnostic endpoint for execution queue status
     this.app.get('/health/queue', (req: Request, res: Response) => {
       const queueStatus = this.cursorCLI.getQueueStatus();
+      const repositoryLocks = this.cursorExecution.repositoryLock.getStatus();
       logger.info('Queue status requested', {
         ip: req.ip,
         userAgent: req.get('user-agent'),
         service: 'cursor-runner',
         queueStatus,
+        repositoryLocks,
       });
       res.json({
         status: 'ok',
         service: 'cursor-runner',
         queue: queueStatus,
+        // Requests listed under `waiting` are waiting for repository lock
+        repositoryLocks,
         warning:
           queueStatus.available === 0 && queueStatus.waiting > 0
             ? 'All execution slots are occupied. Requests are queued. If this persists, cursor-cli processes may be hung.'
@@ -229,6 +351,16 @@ export class Server {
       });
     });
 
+    // Prometheus metrics
+    this.app.get('/metrics', (req: Request, res: Response) => {
+      res.type('text/plain; version=0.0.4').send(
+        metrics.render({
+          queue: this.cursorCLI.getQueueStatus(),
+          redisAvailable: this.cursorExecution.conversationService.isRedisAvailable(),
+        })
+      );
+    });
+
     // Telegram webhook endpoint (forwarded from jarek-va)
     this.setupTelegramRoutes();
 
@@ -245,6 +377,11 @@ export class Server {
     // Must be before conversation routes to avoid /api/tasks being caught by /api/:conversationId
     this.setupTaskRoutes();
 
+    // Task template API endpoints
+    this.setupTaskTemplateRoutes();
+    this.setupPresetRoutes();
+    this.setupPromptTemplateRoutes();
+
     // Conversation history API endpoints (UI is served by jarek-va-ui)
     // Must be after other routes to avoid conflicts
     // IMPORTANT: This has a catch-all /:conversationId route, so more specific routes must come first
@@ -280,6 +417,42 @@ export class Server {
     });
   }
 
+  /**
+   * Get the request ID of an execution request (the body's id, falling back to the X-Request-Id
+   * header or a generated ID), making it the request context's ID and echoing it in the response
+   * A header ID that already belongs to a job (e.g. a proxy or retry header sent twice) is
+   * replaced with a generated ID, so that it cannot take over that job's registry entry.
+   */
+  private resolveRequestId(
+    req: Request<unknown, unknown, CursorExecuteRequest>,
+    res: Response
+  ): string {
+    const bodyId = (req.body as CursorExecuteRequest | undefined)?.id;
+    let requestId = bodyId || getRequestContext()?.requestId || generateRequestId();
+    if (!bodyId && this.isRegisteredJob(requestId)) {
+      requestId = generateRequestId();
+    }
+    updateRequestContext({ requestId });
+    res.setHeader(REQUEST_ID_HEADER, requestId);
+    return requestId;
+  }
+
+  /**
+   * Check whether the job registry already has a job with the given request ID
+   * Registry failures count as not registered.
+   */
+  private isRegisteredJob(requestId: string): boolean {
+    try {
+      return this.jobRegistry.getJob(requestId) !== null;
+    } catch (error) {
+      logger.warn('Failed to look up cursor job', {
+        requestId,
+        error: (error as Error).message,
+      });
+      return false;
+    }
+  }
+
   /**
    * Detect if a request is from telegram based on requestId pattern
    * Telegram requests have requestId starting with "telegram-"
@@ -288,6 +461,245 @@ export class Server {
     return requestId.startsWith('telegram-') ? 'telegram' : 'default';
   }
 
+  /**
+   * Run a job registry operation without letting registry failures affect execution
+   */
+  private trackJob(requestId: string, action: string, operation: () => void): void {
+    try {
+      operation();
+    } catch (error) {
+      const err = error as Error;
+      logger.warn('Failed to update cursor job registry', {
+        requestId,
+        action,
+        error: err.message,
+      });
+    }
+  }
+
+  /**
+   * Derive the job outcome from an execution result
+   */
+  private getJobOutcome(result: { status: number; body: unknown }): JobOutcome {
+    const body = result.body as {
+      success?: boolean;
+      status?: string;
+      exitCode?: number;
+      output?: string;
+      error?: string | null;
+    };
+    if (body.status === 'cancelled') {
+      return { status: 'cancelled', error: body.error ?? null };
+    }
+    const exitCode = body.exitCode ?? (body.success ? 0 : 1);
+    return {
+      status: body.success && exitCode === 0 ? 'succeeded' : 'failed',
+      exitCode,
+      output: body.output ?? null,
+      error: body.error ?? null,
+    };
+  }
+
+  /**
+   * Run an execution in the background, recording it in the job registry
+   * Keeps an abort handle so the job can be cancelled via /cursor/jobs/:requestId/cancel,
+   * and publishes cursor-cli output to /cursor/jobs/:requestId/stream subscribers.
+   * @param job - Job details recorded in the registry
+   * @param run - Starts the execution with the registry start hook, repository lock hook,
+   *   output hook and abort signal
+   * @param buildErrorCallback - Builds the callback payload sent if the execution throws
+   * @param requestBody - Original request body (for error logging)
+   */
+  private runBackgroundJob(
+    job: CreateJobParams,
+    run: (hooks: {
+      onStart: () => void;
+      onRepositoryLock: (state: 'waiting' | 'acquired') => void;
+      onOutput: (chunk: string, stream: OutputStream) => void;
+      signal: AbortSignal;
+    }) => Promise<{ status: number; body: unknown }>,
+    buildErrorCallback: (error: Error) => CallbackWebhookPayload,
+    requestBody: unknown
+  ): void {
+    const { requestId, callbackUrl } = job;
+
+    // Record the job so its outcome can be polled via /cursor/jobs/:requestId
+    this.trackJob(requestId, 'create', () => this.jobRegistry.createJob(job));
+    this.executionStreams.start(requestId);
+
+    const abortController = new AbortController();
+    this.activeJobControllers.set(requestId, abortController);
+
+    run({
+      onStart: () =>
+        this.trackJob(requestId, 'start', () => this.jobRegistry.markRunning(requestId)),
+      onRepositoryLock: (state) =>
+        this.trackJob(requestId, 'repository-lock', () =>
+          this.jobRegistry.setStatusDetail(
+            requestId,
+            state === 'waiting' ? 'Waiting for repository lock' : null
+          )
+        ),
+      onOutput: (chunk, stream) => this.executionStreams.append(requestId, chunk, stream),
+      signal: abortController.signal,
+    })
+      .then((result) => {
+        const outcome = this.getJobOutcome(result);
+        this.trackJob(requestId, 'complete', () =>
+          this.jobRegistry.completeJob(requestId, outcome)
+        );
+        this.executionStreams.complete(requestId, outcome.status);
+      })
+      .catch((error: Error) => {
+        logger.error('Cursor execution processing failed', {
+          requestId: requestId || 'unknown',
+          error: error.message,
+          stack: error.stack,
+          body: requestBody,
+        });
+        this.trackJob(requestId, 'complete', () =>
+          this.jobRegistry.completeJob(requestId, {
+            status: 'failed',
+            exitCode: 1,
+            error: error.message,
+          })
+        );
+        this.executionStreams.complete(requestId, 'failed');
+        // Try to notify about the error via callback
+        if (callbackUrl) {
+          this.cursorExecution
+            .callbackWebhook(callbackUrl, buildErrorCallback(error), requestId)
+            .catch((webhookError: Error) => {
+              logger.error('Failed to send error callback', {
+                requestId,
+                error: webhookError.message,
+              });
+            });
+        }
+      })
+      .finally(() => {
+        if (this.activeJobControllers.get(requestId) === abortController) {
+          this.activeJobControllers.delete(requestId);
+        }
+      });
+  }
+
+  /**
+   * Claim the idempotency key of an async execution request (Idempotency-Key header, falling
+   * back to the request id) and respond on its behalf if it repeats an earlier request
+   * Duplicates get the original job instead of starting another run; reusing a key for a
+   * different request is rejected. If the key store is unavailable, the request just runs.
+   * @param scope - Endpoint the key belongs to
+   * @returns True if a response was sent and the request must not run
+   */
+  private async respondToDuplicateRequest(
+    scope: string,
+    req: Request<unknown, unknown, CursorExecuteRequest>,
+    res: Response,
+    requestId: string
+  ): Promise<boolean> {
+    const body = req.body;
+    const key = req.get('Idempotency-Key') || body.id;
+    if (!key) {
+      return false;
+    }
+
+    let claim: IdempotencyClaim;
+    try {
+      claim = await this.idempotency.claim(scope, key, requestId, fingerprintRequest(body));
+    } catch (error) {
+      logger.warn('Failed to check idempotency key, processing request', {
+        requestId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return false;
+    }
+
+    if (claim.status === 'claimed') {
+      return false;
+    }
+
+    if (claim.status === 'mismatch') {
+      res.status(422).json({
+        success: false,
+        error: 'Idempotency key was already used for a different request',
+        requestId: claim.originalRequestId,
+        timestamp: new Date().toISOString(),
+      });
+      return true;
+    }
+
+    let job = null;
+    try {
+      job = this.jobRegistry.getJob(claim.originalRequestId);
+    } catch (error) {
+      logger.warn('Failed to look up original job for duplicate request', {
+        requestId: claim.originalRequestId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+
+    res.status(200).set('Idempotent-Replayed', 'true').json({
+      success: true,
+      message: 'Duplicate request, returning the original job',
+      requestId: claim.originalRequestId,
+      duplicate: true,
+      job,
+      timestamp: new Date().toISOString(),
+    });
+    return true;
+  }
+
+  /**
+   * Format a callback delivery for API responses (secret masked, payload parsed)
+   */
+  private serializeCallbackDelivery(
+    delivery: CallbackDelivery
+  ): Omit<CallbackDelivery, 'payload'> & { payload: unknown } {
+    let payload: unknown = delivery.payload;
+    try {
+      payload = JSON.parse(delivery.payload);
+    } catch {
+      // Keep the raw payload
+    }
+    return { ...delivery, callback_url: maskCallbackUrl(delivery.callback_url), payload };
+  }
+
+  /**
+   * Get output to replay to a new stream subscriber
+   * Falls back to the outcome recorded in the job registry once the in-memory buffer is gone.
+   * @returns Snapshot, or null if the request is unknown or running on another instance
+   */
+  private getExecutionReplay(
+    requestId: string,
+    afterSeq: number = 0
+  ): ExecutionStreamSnapshot | null {
+    const snapshot = this.executionStreams.getSnapshot(requestId, afterSeq);
+    if (snapshot) {
+      return snapshot;
+    }
+
+    const job = this.jobRegistry.getJob(requestId);
+    if (!job || !isTerminalJobStatus(job.status)) {
+      return null;
+    }
+
+    const events: ExecutionOutputEvent[] =
+      job.output && afterSeq < 1
+        ? [
+            {
+              type: 'execution.output',
+              requestId,
+              seq: 1,
+              stream: 'stdout',
+              chunk: job.output,
+              timestamp: job.finished_at || job.updated_at,
+            },
+          ]
+        : [];
+    return { requestId, events, truncated: false, status: job.status };
+  }
+
   /**
    * Setup cursor execution routes
    */
@@ -299,21 +711,11 @@ export class Server {
      * Validates WEBHOOK_SECRET if configured
      */
     const authenticateWebhook = (req: Request, res: Response, next: NextFunction): void => {
-      const expectedSecret = getWebhookSecret();
-
-      // If WEBHOOK_SECRET is not configured, allow access (for development)
-      if (!expectedSecret) {
-        next();
-        return;
-      }
-
-      // Check for secret in headers or query parameter
-      const providedSecret =
-        req.headers['x-webhook-secret'] ||
-        req.headers['x-cursor-runner-secret'] ||
-        (req.query as { secret?: string }).secret;
-
-      if (providedSecret !== expectedSecret) {
+      const providedSecret = getProvidedWebhookSecret(
+        req.headers,
+        (req.query as { secret?: string }).secret
+      );
+      if (!isValidWebhookSecret(providedSecret)) {
         const secretStatus = providedSecret ? '[present]' : '[missing]';
         logger.warn('Unauthorized cursor execution request - invalid secret', {
           providedSecret: secretStatus,
@@ -331,18 +733,87 @@ export class Server {
       next();
     };
 
+    /**
+     * Render an execution request's prompt template, apply its preset and validate its execution
+     * options
+     * Fields set on the request override the preset's; the preset's prompt preamble is prepended
+     * to the prompt. A preset's timeout is capped at the current CURSOR_CLI_TIMEOUT, since that
+     * limit may have been lowered after the preset was saved.
+     * @returns The request to run, or an error message
+     */
+    const resolveExecuteRequest = (
+      request: CursorExecuteRequest
+    ): { body: CursorExecuteRequest } | { error: string } => {
+      let body = request;
+      if (request.template !== undefined) {
+        if (request.prompt !== undefined) {
+          return { error: 'Send either prompt or template, not both' };
+        }
+        const rendered =
+          typeof request.template === 'string'
+            ? this.promptTemplates.renderTemplate(request.template, request.variables)
+            : null;
+        if (!rendered) {
+          return { error: `Prompt template not found: ${String(request.template)}` };
+        }
+        if ('error' in rendered) {
+          return rendered;
+        }
+        body = { ...request, prompt: rendered.prompt };
+      }
+
+      // Only the request's own timeout is validated; a preset's is capped at the current limit
+      const timeoutError = body.timeout === undefined ? null : validateTimeout(body.timeout);
+      if (timeoutError) {
+        return { error: timeoutError };
+      }
+
+      if (body.preset !== undefined) {
+        const preset =
+          typeof body.preset === 'string' ? this.presets.getPresetByName(body.preset) : null;
+        if (!preset) {
+          return { error: `Preset not found: ${String(body.preset)}` };
+        }
+        body = {
+          ...body,
+          repository: body.repository ?? preset.repository ?? undefined,
+          branchName: body.branchName ?? preset.branch_name ?? undefined,
+          model: body.model ?? preset.model ?? undefined,
+          timeout:
+            body.timeout ??
+            (preset.timeout === null ? undefined : Math.min(preset.timeout, getMaxTimeout())),
+          mcps: body.mcps ?? preset.mcps ?? undefined,
+          prompt:
+            preset.prompt_preamble && typeof body.prompt === 'string' && body.prompt.trim()
+              ? `${preset.prompt_preamble}\n\n${body.prompt}`
+              : body.prompt,
+        };
+      }
+
+      const error =
+        (body.model === undefined
+          ? null
+          : this.cursorExecution.modelSelection.validateModel(body.model)) ??
+        (body.mcps === undefined ? null : validateMcpNames(body.mcps));
+      return error ? { error } : { body };
+    };
+
     /**
      * POST /cursor/execute
      * Execute cursor-cli command synchronously - waits for completion before responding
      * Body: { repository?: string, branchName?: string, prompt: string }
      * If repository is not provided, uses the repositories directory as working directory
      * Prompt is required and will be used to construct the cursor command internally.
+     * Set worktree: true to run in an isolated git worktree (keepWorktree: true leaves it on disk).
+     * Set includeDiff: true to include the unified diff of the run's changes in the response.
+     * Set model to run with a specific model instead of the configured default.
+     * Set preset to the name of an execution preset to fill in fields the request leaves out.
+     * Send template and variables instead of prompt to run a rendered prompt template.
      */
     router.post(
       '/execute',
       async (req: Request<unknown, unknown, CursorExecuteRequest>, res: Response) => {
-        const body = req.body as CursorExecuteRequest;
-        const requestId = body.id || `req-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+        const requestId = this.resolveRequestId(req, res);
 
         try {
           logger.info('Cursor execution request received (synchronous)', {
@@ -352,6 +823,13 @@ export class Server {
             userAgent: req.get('user-agent'),
           });
 
+          const resolved = resolveExecuteRequest(req.body as CursorExecuteRequest);
+          if ('error' in resolved) {
+            res.status(400).json({ success: false, error: resolved.error, requestId });
+            return;
+          }
+          const body = resolved.body;
+
           // Use queueType from request body if provided, otherwise detect from requestId pattern
           const queueType = body.queueType || this.detectQueueType(requestId);
 
@@ -359,6 +837,12 @@ export class Server {
           const result = (await this.cursorExecution.execute({
             repository: body.repository,
             branchName: body.branchName,
+            worktree: body.worktree === true,
+            keepWorktree: body.keepWorktree === true,
+            includeDiff: body.includeDiff === true,
+            model: body.model,
+            timeout: body.timeout,
+            mcps: body.mcps,
             prompt: body.prompt,
             requestId,
             conversationId: body.conversationId || body.conversation_id,
@@ -403,8 +887,7 @@ export class Server {
       '/execute/async',
       authenticateWebhook,
       async (req: Request<unknown, unknown, CursorExecuteRequest>, res: Response) => {
-        const body = req.body as CursorExecuteRequest;
-        const requestId = body.id || `req-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+        const requestId = this.resolveRequestId(req, res);
 
         try {
           logger.info('Cursor execution request received (async)', {
@@ -414,6 +897,17 @@ export class Server {
             userAgent: req.get('user-agent'),
           });
 
+          const resolved = resolveExecuteRequest(req.body as CursorExecuteRequest);
+          if ('error' in resolved) {
+            res.status(400).json({ success: false, error: resolved.error, requestId });
+            return;
+          }
+          const body = resolved.body;
+
+          if (await this.respondToDuplicateRequest('execute', req, res, requestId)) {
+            return;
+          }
+
           // Get callbackUrl if provided (optional)
           const callbackUrl = body.callbackUrl || body.callback_url;
 
@@ -427,46 +921,47 @@ export class Server {
 
           // Use queueType from request body if provided, otherwise detect from requestId pattern
           const queueType = body.queueType || this.detectQueueType(requestId);
+          const conversationId = body.conversationId || body.conversation_id;
 
           // Process execution asynchronously
-          this.cursorExecution
-            .execute({
+          this.runBackgroundJob(
+            {
+              requestId,
+              prompt: typeof body.prompt === 'string' ? body.prompt : '',
               repository: body.repository,
               branchName: body.branchName,
-              prompt: body.prompt,
-              requestId,
-              callbackUrl,
-              conversationId: body.conversationId || body.conversation_id,
               queueType,
-            })
-            .catch((error: Error) => {
-              logger.error('Cursor execution processing failed', {
-                requestId: requestId || 'unknown',
-                error: error.message,
-                stack: error.stack,
-                body: req.body,
-              });
-              // Try to notify about the error via callback
-              if (callbackUrl) {
-                this.cursorExecution
-                  .callbackWebhook(
-                    callbackUrl,
-                    {
-                      success: false,
-                      requestId,
-                      error: error.message,
-                      timestamp: new Date().toISOString(),
-                    },
-                    requestId
-                  )
-                  .catch((webhookError: Error) => {
-                    logger.error('Failed to send error callback', {
-                      requestId,
-                      error: webhookError.message,
-                    });
-                  });
-              }
-            });
+              conversationId,
+              callbackUrl,
+            },
+            ({ onStart, onRepositoryLock, onOutput, signal }) =>
+              this.cursorExecution.execute({
+                repository: body.repository,
+                branchName: body.branchName,
+                worktree: body.worktree === true,
+                keepWorktree: body.keepWorktree === true,
+                includeDiff: body.includeDiff === true,
+                model: body.model,
+                timeout: body.timeout,
+                mcps: body.mcps,
+                prompt: body.prompt,
+                requestId,
+                callbackUrl,
+                conversationId,
+                queueType,
+                onStart,
+                onRepositoryLock,
+                onOutput,
+                signal,
+              }),
+            (error) => ({
+              success: false,
+              requestId,
+              error: error.message,
+              timestamp: new Date().toISOString(),
+            }),
+            req.body
+          );
         } catch (error) {
           const err = error as Error;
           logger.error('Cursor execution request setup failed', {
@@ -490,169 +985,236 @@ export class Server {
     );
 
     /**
-     * POST /cursor/conversation/new
-     * Force create a new conversation ID
-     * Returns the new conversation ID that will be used for subsequent requests
-     * Body: { queueType?: 'default' | 'telegram' | 'api' } (optional, defaults to 'default')
+     * Validate the maxIterations field of an iterate request
+     * @returns Error message, or null if the value is valid (or omitted)
      */
-    router.post('/conversation/new', async (req: Request, res: Response) => {
-      try {
-        const body = req.body as { queueType?: 'default' | 'telegram' | 'api' };
-        const queueType = body.queueType || 'default';
+    const validateMaxIterations = (value: unknown): string | null => {
+      if (value === undefined || (Number.isInteger(value) && (value as number) >= 1)) {
+        return null;
+      }
+      return 'maxIterations must be a positive integer';
+    };
 
-        logger.info('Force new conversation request received', {
-          ip: req.ip,
-          userAgent: req.get('user-agent'),
-          queueType,
-        });
+    /**
+     * POST /cursor/iterate
+     * Execute cursor-cli command with a review loop synchronously - waits for completion
+     * Body: { repository?: string, branchName?: string, prompt: string, maxIterations?: number }
+     * After each run a review agent decides whether the work is complete; if not, cursor is
+     * re-prompted with the reviewer's feedback until complete or maxIterations (default 5) is hit.
+     */
+    router.post(
+      '/iterate',
+      async (req: Request<unknown, unknown, CursorExecuteRequest>, res: Response) => {
+        const requestId = this.resolveRequestId(req, res);
 
-        const conversationId =
-          await this.cursorExecution.conversationService.forceNewConversation(queueType);
+        try {
+          logger.info('Cursor iterate request received (synchronous)', {
+            requestId,
+            body: req.body,
+            ip: req.ip,
+            userAgent: req.get('user-agent'),
+          });
 
-        res.status(200).json({
-          success: true,
-          conversationId,
-          message: 'New conversation created',
-          queueType,
-        });
-      } catch (error) {
-        const err = error as Error;
-        logger.error('Force new conversation request failed', {
-          error: err.message,
-          stack: err.stack,
-        });
+          const resolved = resolveExecuteRequest(req.body as CursorExecuteRequest);
+          if ('error' in resolved) {
+            res.status(400).json({ success: false, error: resolved.error, requestId });
+            return;
+          }
+          const body = resolved.body;
 
-        res.status(500).json({
-          success: false,
-          error: err.message,
-          timestamp: new Date().toISOString(),
-        });
-      }
-    });
+          const maxIterationsError = validateMaxIterations(body.maxIterations);
+          if (maxIterationsError) {
+            res.status(400).json({ success: false, error: maxIterationsError, requestId });
+            return;
+          }
 
-    // Mount cursor routes
-    this.app.use('/cursor', router);
-  }
+          const queueType = body.queueType || this.detectQueueType(requestId);
 
-  /**
-   * Setup Telegram webhook routes
-   */
-  setupTelegramRoutes(): void {
-    const router: Router = express.Router();
+          const result = (await this.cursorExecution.iterate({
+            repository: body.repository,
+            branchName: body.branchName,
+            worktree: body.worktree === true,
+            keepWorktree: body.keepWorktree === true,
+            includeDiff: body.includeDiff === true,
+            model: body.model,
+            timeout: body.timeout,
+            mcps: body.mcps,
+            prompt: body.prompt,
+            requestId,
+            maxIterations: body.maxIterations ?? DEFAULT_MAX_ITERATIONS,
+            conversationId: body.conversationId || body.conversation_id,
+            queueType,
+          })) as { status: number; body: unknown };
+
+          res.status(result.status).json(result.body);
+        } catch (error) {
+          const err = error as Error;
+          logger.error('Cursor iterate request failed', {
+            requestId: requestId || 'unknown',
+            error: err.message,
+            stack: err.stack,
+            body: req.body,
+          });
+
+          // If we haven't sent a response yet, send error
+          if (!res.headersSent) {
+            res.status(500).json({
+              success: false,
+              error: err.message,
+              requestId: requestId || 'unknown',
+              timestamp: new Date().toISOString(),
+            });
+          }
+        }
+      }
+    );
 
     /**
-     * POST /telegram/webhook
-     * Receive forwarded Telegram webhook requests from jarek-va
-     * Body: Telegram update object (message, edited_message, callback_query, etc.)
+     * POST /cursor/iterate/async
+     * Execute cursor-cli command with a review loop asynchronously - returns immediately
+     * Body: { repository?: string, branchName?: string, prompt: string, maxIterations?: number,
+     *         callbackUrl?: string }
+     * If callbackUrl is not provided, it is constructed from JAREK_VA_URL (see buildCallbackUrl).
+     * The result, including the per-iteration trail, is sent to the callback URL when complete.
+     *
+     * Authentication: Requires WEBHOOK_SECRET in header (X-Webhook-Secret or X-Cursor-Runner-Secret)
+     * or query parameter (?secret=...) if WEBHOOK_SECRET environment variable is set.
      */
-    router.post('/webhook', (req: Request<unknown, unknown, TelegramUpdate>, res: Response) => {
-      try {
-        logger.info('Telegram webhook received', {
-          update: req.body,
-          ip: req.ip,
-          userAgent: req.get('user-agent'),
-        });
+    router.post(
+      '/iterate/async',
+      authenticateWebhook,
+      async (req: Request<unknown, unknown, CursorExecuteRequest>, res: Response) => {
+        const requestId = this.resolveRequestId(req, res);
 
-        // Basic request forwarding - just log and acknowledge
-        // Future: Add actual Telegram message processing here
-        const update = req.body as TelegramUpdate;
-        const updateType = update.message
-          ? 'message'
-          : update.edited_message
-            ? 'edited_message'
-            : update.callback_query
-              ? 'callback_query'
-              : 'unknown';
+        try {
+          logger.info('Cursor iterate request received (async)', {
+            requestId,
+            body: req.body,
+            ip: req.ip,
+            userAgent: req.get('user-agent'),
+          });
 
-        logger.info('Telegram update type', { updateType });
+          const resolved = resolveExecuteRequest(req.body as CursorExecuteRequest);
+          if ('error' in resolved) {
+            res.status(400).json({ success: false, error: resolved.error, requestId });
+            return;
+          }
+          const body = resolved.body;
 
-        // Return 200 OK to acknowledge receipt
-        res.status(200).json({
-          success: true,
-          received: true,
-          updateType,
-          timestamp: new Date().toISOString(),
-        });
-      } catch (error) {
-        const err = error as Error;
-        logger.error('Telegram webhook processing failed', {
-          error: err.message,
-          stack: err.stack,
-          body: req.body,
-        });
+          const maxIterationsError = validateMaxIterations(body.maxIterations);
+          if (maxIterationsError) {
+            res.status(400).json({ success: false, error: maxIterationsError, requestId });
+            return;
+          }
+          const maxIterations = body.maxIterations ?? DEFAULT_MAX_ITERATIONS;
 
-        // Still return 200 to avoid retries from jarek-va
-        res.status(200).json({
-          success: false,
-          error: err.message,
-          timestamp: new Date().toISOString(),
-        });
-      }
-    });
+          if (await this.respondToDuplicateRequest('iterate', req, res, requestId)) {
+            return;
+          }
 
-    // Mount telegram routes
-    this.app.use('/telegram', router);
-  }
+          let callbackUrl = body.callbackUrl || body.callback_url;
+          if (!callbackUrl) {
+            callbackUrl = buildCallbackUrl();
+            logger.info('Auto-constructed callback URL for iterate request', {
+              requestId,
+              source: process.env.JAREK_VA_URL
+                ? 'JAREK_VA_URL env var'
+                : 'Docker network default (app:3000)',
+            });
+          }
 
-  /**
-   * Setup conversation history API routes
-   * UI is served by jarek-va-ui at /conversations
-   * API endpoints are at /conversations/api/* (routed to cursor-runner via Traefik)
-   */
-  setupConversationRoutes(): void {
-    const router: Router = express.Router();
+          // Return 200 OK immediately and process asynchronously
+          res.status(200).json({
+            success: true,
+            message: 'Request accepted, processing asynchronously',
+            requestId,
+            timestamp: new Date().toISOString(),
+          });
 
-    // Middleware to prevent browser caching of API responses
-    // This prevents browsers from caching HTML responses during deployments
-    router.use((req: Request, res: Response, next: NextFunction) => {
-      res.setHeader('Cache-Control', 'no-store, no-cache, must-revalidate, proxy-revalidate');
-      res.setHeader('Pragma', 'no-cache');
-      res.setHeader('Expires', '0');
-      next();
-    });
+          const queueType = body.queueType || this.detectQueueType(requestId);
+          const conversationId = body.conversationId || body.conversation_id;
 
-    /**
-     * GET /conversations/api/list
-     * Get list of all conversations
-     */
-    router.get('/list', async (req: Request, res: Response) => {
-      logger.info('List conversations request received', {
-        ip: req.ip,
-        userAgent: req.get('user-agent'),
-        path: req.path,
-        url: req.url,
-      });
-      try {
-        const conversations = await this.cursorExecution.conversationService.listConversations();
-        logger.info('List conversations success', {
-          count: conversations.length,
-        });
-        res.json(conversations);
-      } catch (error) {
-        const err = error as Error;
-        logger.error('Failed to list conversations', {
-          error: err.message,
-          stack: err.stack,
-        });
-        res.status(500).json({
-          success: false,
-          error: err.message,
-        });
+          this.runBackgroundJob(
+            {
+              requestId,
+              prompt: typeof body.prompt === 'string' ? body.prompt : '',
+              repository: body.repository,
+              branchName: body.branchName,
+              queueType,
+              conversationId,
+              callbackUrl,
+            },
+            ({ onStart, onRepositoryLock, onOutput, signal }) =>
+              this.cursorExecution.iterate({
+                repository: body.repository,
+                branchName: body.branchName,
+                worktree: body.worktree === true,
+                keepWorktree: body.keepWorktree === true,
+                includeDiff: body.includeDiff === true,
+                model: body.model,
+                timeout: body.timeout,
+                mcps: body.mcps,
+                prompt: body.prompt,
+                requestId,
+                maxIterations,
+                callbackUrl,
+                conversationId,
+                queueType,
+                onStart,
+                onRepositoryLock,
+                onOutput,
+                signal,
+              }),
+            (error) => {
+              const commandError = error as Error & { stdout?: string; exitCode?: number | null };
+              return {
+                success: false,
+                requestId,
+                repository: body.repository,
+                error: error.message,
+                exitCode: commandError.exitCode ?? 1,
+                timestamp: new Date().toISOString(),
+                iterations: 0,
+                maxIterations,
+                output: commandError.stdout,
+              };
+            },
+            req.body
+          );
+        } catch (error) {
+          const err = error as Error;
+          logger.error('Cursor iterate request setup failed', {
+            requestId: requestId || 'unknown',
+            error: err.message,
+            stack: err.stack,
+            body: req.body,
+          });
+
+          // If we haven't sent a response yet, send error
+          if (!res.headersSent) {
+            res.status(500).json({
+              success: false,
+              error: err.message,
+              requestId: requestId || 'unknown',
+              timestamp: new Date().toISOString(),
+            });
+          }
+        }
       }
-    });
+    );
 
     /**
-     * POST /conversations/api/new
-     * Create a new conversation
-     * Body: { queueType?: 'default' | 'telegram' | 'api' } (optional, defaults to 'api')
-     * IMPORTANT: This route must come before /:conversationId to avoid route conflicts
+     * POST /cursor/conversation/new
+     * Force create a new conversation ID
+     * Returns the new conversation ID that will be used for subsequent requests
+     * Body: { queueType?: 'default' | 'telegram' | 'api' } (optional, defaults to 'default')
      */
-    router.post('/new', async (req: Request, res: Response) => {
+    router.post('/conversation/new', async (req: Request, res: Response) => {
       try {
         const body = req.body as { queueType?: 'default' | 'telegram' | 'api' };
-        const queueType = body.queueType || 'api';
+        const queueType = body.queueType || 'default';
 
-        logger.info('New conversation request received', {
+        logger.info('Force new conversation request received', {
           ip: req.ip,
           userAgent: req.get('user-agent'),
           queueType,
@@ -669,10 +1231,11 @@ export class Server {
         });
       } catch (error) {
         const err = error as Error;
-        logger.error('Failed to create new conversation', {
+        logger.error('Force new conversation request failed', {
           error: err.message,
           stack: err.stack,
         });
+
         res.status(500).json({
           success: false,
           error: err.message,
@@ -682,121 +1245,92 @@ export class Server {
     });
 
     /**
-     * GET /api/working-directory/files
-     * Get file tree for the cursor working directory
-     * Uses REPOSITORIES_PATH parent directory (/cursor) to show full structure
-     * Returns a FileNode[] tree structure
-     * IMPORTANT: This route must come before /:conversationId to avoid route conflicts
+     * GET /cursor/jobs
+     * List recorded async execution jobs, newest first
+     * Query params: ?status=queued|running|succeeded|failed&repository=...&queueType=...&limit=100
      */
-    router.get('/working-directory/files', async (req: Request, res: Response) => {
+    router.get('/jobs', authenticateWebhook, (req: Request, res: Response) => {
       try {
-        const fileTreeService = new FileTreeService();
-
-        // Determine working directory path
-        // Priority: Use REPOSITORIES_PATH parent directory, fallback to TARGET_APP_PATH
-        // REPOSITORIES_PATH is now relative to TARGET_APP_PATH (e.g., TARGET_APP_PATH/repositories)
-        // So the parent directory of REPOSITORIES_PATH is TARGET_APP_PATH
-        let workingDirectoryPath: string | undefined;
-
-        const repositoriesPath = getRepositoriesPath();
-        if (repositoriesPath) {
-          // Use parent directory of REPOSITORIES_PATH to show full structure
-          // e.g., TARGET_APP_PATH/repositories -> TARGET_APP_PATH
-          const parentDir = path.dirname(repositoriesPath);
-          // If parent is root (/), use repositoriesPath itself
-          // Otherwise use parent to show full structure
-          if (parentDir === '/' || parentDir === repositoriesPath) {
-            workingDirectoryPath = repositoriesPath;
-          } else {
-            workingDirectoryPath = parentDir;
-          }
-        }
+        const query = req.query as {
+          status?: string;
+          repository?: string;
+          queueType?: string;
+          limit?: string;
+        };
 
-        // Fallback to TARGET_APP_PATH if REPOSITORIES_PATH not available
-        if (!workingDirectoryPath) {
-          workingDirectoryPath = getTargetAppPath();
+        if (query.status !== undefined && !isJobStatus(query.status)) {
+          res.status(400).json({
+            success: false,
+            error: `Invalid status parameter. Must be one of: ${JOB_STATUSES.join(', ')}`,
+          });
+          return;
         }
 
-        if (!workingDirectoryPath) {
-          res.status(500).json({
+        if (
+          query.queueType !== undefined &&
+          !['default', 'telegram', 'api'].includes(query.queueType)
+        ) {
+          res.status(400).json({
             success: false,
-            error: 'Neither REPOSITORIES_PATH nor TARGET_APP_PATH configured',
-            timestamp: new Date().toISOString(),
+            error: 'Invalid queueType parameter. Must be one of: default, telegram, api',
           });
           return;
         }
 
-        // Check if working directory exists
-        if (!this.filesystem.exists(workingDirectoryPath)) {
-          res.status(404).json({
+        const limit = query.limit !== undefined ? parseInt(String(query.limit), 10) : undefined;
+        if (limit !== undefined && (isNaN(limit) || limit <= 0)) {
+          res.status(400).json({
             success: false,
-            error: `Working directory not found: ${workingDirectoryPath}`,
-            timestamp: new Date().toISOString(),
+            error: 'Invalid limit parameter. Must be a positive number.',
           });
           return;
         }
 
-        logger.info('Working directory file tree request received', {
-          path: workingDirectoryPath,
-          repositoriesPath,
-          targetAppPath: getTargetAppPath(),
-          ip: req.ip,
-          userAgent: req.get('user-agent'),
+        const jobs = this.jobRegistry.listJobs({
+          status: query.status as JobStatus | undefined,
+          repository: query.repository,
+          queueType: query.queueType as CursorExecuteRequest['queueType'],
+          limit,
         });
 
-        // Build file tree
-        const fileTree = fileTreeService.buildFileTree(workingDirectoryPath);
-
-        res.json(fileTree);
+        res.json({ success: true, jobs });
       } catch (error) {
         const err = error as Error;
-        logger.error('Failed to get working directory file tree', {
+        logger.error('Failed to list cursor jobs', {
           error: err.message,
           stack: err.stack,
+          query: req.query,
         });
-
         res.status(500).json({
           success: false,
           error: err.message,
-          timestamp: new Date().toISOString(),
         });
       }
     });
 
     /**
-     * GET /conversations/api/:conversationId
-     * Get a specific conversation by ID
-     * IMPORTANT: This route must come after /new, /list, and /working-directory/files to avoid route conflicts
-     * IMPORTANT: Skip reserved paths like "tasks" and "agent" that are handled by other routers
+     * GET /cursor/jobs/:requestId
+     * Get the status and outcome of an async execution job
      */
-    router.get('/:conversationId', async (req: Request, res: Response, next: NextFunction) => {
+    router.get('/jobs/:requestId', authenticateWebhook, (req: Request, res: Response) => {
       try {
-        const { conversationId } = req.params;
-
-        // Skip reserved paths that are handled by other routers
-        const reservedPaths = ['tasks', 'agent', 'working-directory'];
-        if (reservedPaths.includes(conversationId)) {
-          return next(); // Let it fall through to other routers
-        }
-
-        const conversation =
-          await this.cursorExecution.conversationService.getConversationById(conversationId);
-
-        if (!conversation) {
+        const job = this.jobRegistry.getJob(req.params.requestId);
+        if (!job) {
           res.status(404).json({
             success: false,
-            error: 'Conversation not found',
+            error: 'Job not found',
+            requestId: req.params.requestId,
           });
           return;
         }
 
-        res.json(conversation);
+        res.json({ success: true, job });
       } catch (error) {
         const err = error as Error;
-        logger.error('Failed to get conversation', {
+        logger.error('Failed to get cursor job', {
           error: err.message,
           stack: err.stack,
-          conversationId: req.params.conversationId,
+          requestId: req.params.requestId,
         });
         res.status(500).json({
           success: false,
@@ -806,163 +1340,357 @@ export class Server {
     });
 
     /**
-     * POST /conversations/api/:conversationId/message
-     * Send a message to a conversation and trigger cursor execution
-     * Body: { message: string, repository?: string, branchName?: string }
+     * GET /cursor/jobs/:requestId/diff
+     * Download the full diff of a run whose inline diff was truncated
      */
-    router.post('/:conversationId/message', async (req: Request, res: Response) => {
-      try {
-        const { conversationId } = req.params;
-        const body = req.body as { message: string; repository?: string; branchName?: string };
-        const { message, repository, branchName } = body;
+    router.get('/jobs/:requestId/diff', authenticateWebhook, (req: Request, res: Response) => {
+      const artifactPath = path.resolve(getDiffArtifactPath(req.params.requestId));
+      if (!existsSync(artifactPath)) {
+        res.status(404).json({
+          success: false,
+          error: 'No diff artifact for job',
+          requestId: req.params.requestId,
+        });
+        return;
+      }
 
-        if (!message || typeof message !== 'string' || message.trim().length === 0) {
-          res.status(400).json({
-            success: false,
-            error: 'Message is required and must be a non-empty string',
+      res.type('text/x-diff').sendFile(artifactPath, (error) => {
+        if (error) {
+          logger.error('Failed to send diff artifact', {
+            error: error.message,
+            requestId: req.params.requestId,
           });
-          return;
+          if (!res.headersSent) {
+            res.status(500).json({ success: false, error: error.message });
+          }
         }
+      });
+    });
 
-        // Verify conversation exists
-        const conversation =
-          await this.cursorExecution.conversationService.getConversationById(conversationId);
+    /**
+     * GET /cursor/jobs/:requestId/stream
+     * Stream cursor-cli output of an async execution as Server-Sent Events
+     * Buffered output is replayed first (after Last-Event-ID when reconnecting), followed by live
+     * `output` events and a final `completed` event, after which the stream is closed.
+     */
+    router.get('/jobs/:requestId/stream', authenticateWebhook, (req: Request, res: Response) => {
+      const requestId = req.params.requestId;
 
-        if (!conversation) {
+      try {
+        const lastEventId = parseInt(req.get('last-event-id') || '0', 10);
+        const snapshot = this.getExecutionReplay(requestId, isNaN(lastEventId) ? 0 : lastEventId);
+        if (!snapshot) {
           res.status(404).json({
             success: false,
-            error: 'Conversation not found',
+            error: this.jobRegistry.getJob(requestId)
+              ? 'No output stream available for job'
+              : 'Job not found',
+            requestId,
           });
           return;
         }
 
-        const requestId = `ui-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-
-        logger.info('Message send request received', {
-          requestId,
-          conversationId,
-          messageLength: message.length,
-          repository,
-          branchName,
-          ip: req.ip,
-          userAgent: req.get('user-agent'),
+        res.status(200).set({
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+          Connection: 'keep-alive',
+          'X-Accel-Buffering': 'no',
         });
+        res.flushHeaders();
 
-        // Return 200 OK immediately
-        res.status(200).json({
-          success: true,
-          message: 'Message accepted, processing asynchronously',
-          requestId,
-          conversationId,
-          timestamp: new Date().toISOString(),
-        });
+        const writeEvent = (event: ExecutionStreamEvent): void => {
+          if (event.type === 'execution.output') {
+            res.write(`id: ${event.seq}\nevent: output\ndata: ${JSON.stringify(event)}\n\n`);
+          } else {
+            res.write(`event: completed\ndata: ${JSON.stringify(event)}\n\n`);
+          }
+        };
 
-        // Process message asynchronously (fire and forget)
-        this.cursorExecution
-          .execute({
-            repository,
-            branchName,
-            prompt: message,
+        if (snapshot.truncated) {
+          res.write(`event: truncated\ndata: ${JSON.stringify({ requestId })}\n\n`);
+        }
+        for (const event of snapshot.events) {
+          writeEvent(event);
+        }
+        if (snapshot.status) {
+          writeEvent({
+            type: 'execution.completed',
             requestId,
-            conversationId,
-            queueType: 'api',
-          })
-          .catch((error: Error) => {
-            logger.error('Message processing failed', {
-              requestId,
-              conversationId,
-              error: error.message,
-              stack: error.stack,
-            });
+            status: snapshot.status,
+            timestamp: new Date().toISOString(),
           });
+          res.end();
+          return;
+        }
+
+        // Comment lines keep proxies from closing an idle stream during long runs
+        const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), 15000);
+        const unsubscribe = this.executionStreams.onExecutionEvent((event) => {
+          if (event.requestId !== requestId) return;
+          writeEvent(event);
+          if (event.type === 'execution.completed') {
+            cleanup();
+            res.end();
+          }
+        });
+        const cleanup = (): void => {
+          clearInterval(heartbeat);
+          unsubscribe();
+        };
+        req.on('close', cleanup);
       } catch (error) {
         const err = error as Error;
-        logger.error('Message send request failed', {
+        logger.error('Failed to stream cursor job output', {
           error: err.message,
           stack: err.stack,
-          conversationId: req.params.conversationId,
+          requestId,
         });
-
-        // If we haven't sent a response yet, send error
         if (!res.headersSent) {
           res.status(500).json({
             success: false,
             error: err.message,
-            timestamp: new Date().toISOString(),
+            requestId,
           });
+        } else {
+          res.end();
         }
       }
     });
 
-    // Mount conversation API routes at /api (for Traefik routing)
-    // Traefik routes /conversations/api/* to cursor-runner (priority 20, higher than jarek-va-ui)
-    // Traefik strips /conversations prefix, so /conversations/api/list becomes /api/list
-    // Router mounted at /api with routes /list and /:conversationId
-    // Final routes: /api/list and /api/:conversationId (accessible as /conversations/api/list from frontend)
-    this.app.use('/api', router);
+    /**
+     * POST /cursor/jobs/:requestId/cancel
+     * Cancel a queued or running async execution
+     * Waiting requests are removed from the execution queue; running cursor-cli processes are
+     * terminated (SIGTERM, escalating to SIGKILL).
+     */
+    router.post('/jobs/:requestId/cancel', authenticateWebhook, (req: Request, res: Response) => {
+      const requestId = req.params.requestId;
 
-    // Also mount at /conversations/api for direct access (bypassing Traefik)
-    // This allows the frontend to access the API directly when running locally
-    // e.g., http://localhost:3001/conversations/api/list
-    this.app.use('/conversations/api', router);
-  }
+      try {
+        const job = this.jobRegistry.getJob(requestId);
+        if (!job) {
+          res.status(404).json({
+            success: false,
+            error: 'Job not found',
+            requestId,
+          });
+          return;
+        }
 
-  /**
-   * Setup repository file browser API routes
-   */
-  setupRepositoryRoutes(): void {
-    const router: Router = express.Router();
-    const fileTreeService = new FileTreeService();
+        if (isTerminalJobStatus(job.status)) {
+          res.status(409).json({
+            success: false,
+            error: `Job is already ${job.status}`,
+            requestId,
+            job,
+          });
+          return;
+        }
+
+        logger.info('Cursor job cancellation requested', {
+          requestId,
+          status: job.status,
+          ip: req.ip,
+        });
+
+        const cancelledJob = this.jobRegistry.cancelJob(requestId);
+        const abortController = this.activeJobControllers.get(requestId);
+        if (abortController) {
+          // The execution service records the conversation note and sends the callback
+          abortController.abort();
+          this.executionStreams.complete(requestId, 'cancelled');
+        } else if (job.callback_url) {
+          // No execution in flight (e.g. lost on restart) - notify the caller directly
+          this.cursorExecution
+            .callbackWebhook(
+              job.callback_url,
+              {
+                success: false,
+                status: 'cancelled',
+                requestId,
+                repository: job.repository,
+                error: 'Execution cancelled',
+                timestamp: new Date().toISOString(),
+              },
+              requestId
+            )
+            .catch((webhookError: Error) => {
+              logger.error('Failed to send cancellation callback', {
+                requestId,
+                error: webhookError.message,
+              });
+            });
+        }
+
+        res.json({ success: true, job: cancelledJob ?? this.jobRegistry.getJob(requestId) });
+      } catch (error) {
+        const err = error as Error;
+        logger.error('Failed to cancel cursor job', {
+          error: err.message,
+          stack: err.stack,
+          requestId,
+        });
+        res.status(500).json({
+          success: false,
+          error: err.message,
+          requestId,
+        });
+      }
+    });
 
     /**
-     * GET /repositories/api/:repository/files
-     * Get file tree for a repository
-     * Returns a FileNode[] tree structure
+     * GET /cursor/callbacks
+     * List callback deliveries, newest first (status=failed lists the dead letters)
+     * Query params: ?status=pending|delivered|failed&requestId=...&limit=100
      */
-    router.get('/:repository/files', async (req: Request, res: Response) => {
+    router.get('/callbacks', authenticateWebhook, (req: Request, res: Response) => {
       try {
-        const { repository } = req.params;
+        const query = req.query as { status?: string; requestId?: string; limit?: string };
 
-        if (!repository) {
+        if (query.status !== undefined && !isCallbackDeliveryStatus(query.status)) {
           res.status(400).json({
             success: false,
-            error: 'Repository name is required',
+            error: `Invalid status parameter. Must be one of: ${CALLBACK_DELIVERY_STATUSES.join(', ')}`,
           });
           return;
         }
 
-        // Build repository path
-        const repositoryPath = path.join(this.gitService.repositoriesPath, repository);
-
-        // Check if repository exists
-        if (!this.filesystem.exists(repositoryPath)) {
-          res.status(404).json({
+        const limit = query.limit !== undefined ? parseInt(String(query.limit), 10) : undefined;
+        if (limit !== undefined && (isNaN(limit) || limit <= 0)) {
+          res.status(400).json({
             success: false,
-            error: `Repository '${repository}' not found`,
+            error: 'Invalid limit parameter. Must be a positive number.',
           });
           return;
         }
 
-        logger.info('File tree request received', {
-          repository,
-          path: repositoryPath,
+        const deliveries = this.cursorExecution.callbackDelivery.listDeliveries({
+          status: query.status as CallbackDeliveryStatus | undefined,
+          requestId: query.requestId,
+          limit,
+        });
+
+        res.json({
+          success: true,
+          deliveries: deliveries.map((delivery) => this.serializeCallbackDelivery(delivery)),
+        });
+      } catch (error) {
+        const err = error as Error;
+        logger.error('Failed to list callback deliveries', {
+          error: err.message,
+          stack: err.stack,
+          query: req.query,
+        });
+        res.status(500).json({
+          success: false,
+          error: err.message,
+        });
+      }
+    });
+
+    /**
+     * POST /cursor/callbacks/:id/replay
+     * Deliver a failed (dead-lettered) callback again, with a fresh round of retries
+     */
+    router.post(
+      '/callbacks/:id/replay',
+      authenticateWebhook,
+      async (req: Request, res: Response) => {
+        const id = parseInt(req.params.id, 10);
+
+        try {
+          const delivery = isNaN(id) ? null : this.cursorExecution.callbackDelivery.getDelivery(id);
+          if (!delivery) {
+            res.status(404).json({
+              success: false,
+              error: 'Callback delivery not found',
+              id: req.params.id,
+            });
+            return;
+          }
+
+          if (delivery.status !== 'failed') {
+            res.status(409).json({
+              success: false,
+              error: `Only failed callback deliveries can be replayed (status: ${delivery.status})`,
+              delivery: this.serializeCallbackDelivery(delivery),
+            });
+            return;
+          }
+
+          const replayed = await this.cursorExecution.callbackDelivery.replay(id);
+          res.json({
+            success: true,
+            delivery: replayed ? this.serializeCallbackDelivery(replayed) : null,
+          });
+        } catch (error) {
+          const err = error as Error;
+          logger.error('Failed to replay callback delivery', {
+            error: err.message,
+            stack: err.stack,
+            id: req.params.id,
+          });
+          res.status(500).json({
+            success: false,
+            error: err.message,
+          });
+        }
+      }
+    );
+
+    // Mount cursor routes
+    this.app.use('/cursor', router);
+  }
+
+  /**
+   * Setup Telegram webhook routes
+   */
+  setupTelegramRoutes(): void {
+    const router: Router = express.Router();
+
+    /**
+     * POST /telegram/webhook
+     * Receive forwarded Telegram webhook requests from jarek-va
+     * Body: Telegram update object (message, edited_message, callback_query, etc.)
+     */
+    router.post('/webhook', (req: Request<unknown, unknown, TelegramUpdate>, res: Response) => {
+      try {
+        logger.info('Telegram webhook received', {
+          update: req.body,
           ip: req.ip,
           userAgent: req.get('user-agent'),
         });
 
-        // Build file tree
-        const fileTree = fileTreeService.buildFileTree(repositoryPath);
+        // Basic request forwarding - just log and acknowledge
+        // Future: Add actual Telegram message processing here
+        const update = req.body as TelegramUpdate;
+        const updateType = update.message
+          ? 'message'
+          : update.edited_message
+            ? 'edited_message'
+            : update.callback_query
+              ? 'callback_query'
+              : 'unknown';
 
-        res.json(fileTree);
+        logger.info('Telegram update type', { updateType });
+
+        // Return 200 OK to acknowledge receipt
+        res.status(200).json({
+          success: true,
+          received: true,
+          updateType,
+          timestamp: new Date().toISOString(),
+        });
       } catch (error) {
         const err = error as Error;
-        logger.error('Failed to get repository file tree', {
+        logger.error('Telegram webhook processing failed', {
           error: err.message,
           stack: err.stack,
-          repository: req.params.repository,
+          body: req.body,
         });
 
-        res.status(500).json({
+        // Still return 200 to avoid retries from jarek-va
+        res.status(200).json({
           success: false,
           error: err.message,
           timestamp: new Date().toISOString(),
@@ -970,20 +1698,20 @@ export class Server {
       }
     });
 
-    // Mount repository API routes at /repositories/api
-    this.app.use('/repositories/api', router);
+    // Mount telegram routes
+    this.app.use('/telegram', router);
   }
 
   /**
-   * Setup agent conversation API routes
-   * Agent conversations are separate from regular conversations and are used for voice-based interactions
-   * API endpoints are at /agent-conversations/api/* (routed to cursor-runner via Traefik)
-   * Traefik strips /agent-conversations prefix, so /agent-conversations/api/list becomes /api/agent/list
+   * Setup conversation history API routes
+   * UI is served by jarek-va-ui at /conversations
+   * API endpoints are at /conversations/api/* (routed to cursor-runner via Traefik)
    */
-  setupAgentConversationRoutes(): void {
+  setupConversationRoutes(): void {
     const router: Router = express.Router();
 
     // Middleware to prevent browser caching of API responses
+    // This prevents browsers from caching HTML responses during deployments
     router.use((req: Request, res: Response, next: NextFunction) => {
       res.setHeader('Cache-Control', 'no-store, no-cache, must-revalidate, proxy-revalidate');
       res.setHeader('Pragma', 'no-cache');
@@ -992,14 +1720,394 @@ export class Server {
     });
 
     /**
-     * GET /agent-conversations/api/list
-     * Get list of all agent conversations with optional pagination
-     * Query params: limit (default: all), offset (default: 0)
-     * Note: Router is mounted at /api/agent, so route is /list
+     * GET /conversations/api/list
+     * Get list of all conversations
      */
     router.get('/list', async (req: Request, res: Response) => {
+      logger.info('List conversations request received', {
+        ip: req.ip,
+        userAgent: req.get('user-agent'),
+        path: req.path,
+        url: req.url,
+      });
       try {
-        const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : undefined;
+        const conversations = await this.cursorExecution.conversationService.listConversations();
+        logger.info('List conversations success', {
+          count: conversations.length,
+        });
+        res.json(conversations);
+      } catch (error) {
+        const err = error as Error;
+        logger.error('Failed to list conversations', {
+          error: err.message,
+          stack: err.stack,
+        });
+        res.status(500).json({
+          success: false,
+          error: err.message,
+        });
+      }
+    });
+
+    /**
+     * POST /conversations/api/new
+     * Create a new conversation
+     * Body: { queueType?: 'default' | 'telegram' | 'api' } (optional, defaults to 'api')
+     * IMPORTANT: This route must come before /:conversationId to avoid route conflicts
+     */
+    router.post('/new', async (req: Request, res: Response) => {
+      try {
+        const body = req.body as { queueType?: 'default' | 'telegram' | 'api' };
+        const queueType = body.queueType || 'api';
+
+        logger.info('New conversation request received', {
+          ip: req.ip,
+          userAgent: req.get('user-agent'),
+          queueType,
+        });
+
+        const conversationId =
+          await this.cursorExecution.conversationService.forceNewConversation(queueType);
+
+        res.status(200).json({
+          success: true,
+          conversationId,
+          message: 'New conversation created',
+          queueType,
+        });
+      } catch (error) {
+        const err = error as Error;
+        logger.error('Failed to create new conversation', {
+          error: err.message,
+          stack: err.stack,
+        });
+        res.status(500).json({
+          success: false,
+          error: err.message,
+          timestamp: new Date().toISOString(),
+        });
+      }
+    });
+
+    /**
+     * GET /api/working-directory/files
+     * Get file tree for the cursor working directory
+     * Uses REPOSITORIES_PATH parent directory (/cursor) to show full structure
+     * Returns a FileNode[] tree structure
+     * IMPORTANT: This route must come before /:conversationId to avoid route conflicts
+     */
+    router.get('/working-directory/files', async (req: Request, res: Response) => {
+      try {
+        const fileTreeService = new FileTreeService();
+
+        // Determine working directory path
+        // Priority: Use REPOSITORIES_PATH parent directory, fallback to TARGET_APP_PATH
+        // REPOSITORIES_PATH is now relative to TARGET_APP_PATH (e.g., TARGET_APP_PATH/repositories)
+        // So the parent directory of REPOSITORIES_PATH is TARGET_APP_PATH
+        let workingDirectoryPath: string | undefined;
+
+        const repositoriesPath = getRepositoriesPath();
+        if (repositoriesPath) {
+          // Use parent directory of REPOSITORIES_PATH to show full structure
+          // e.g., TARGET_APP_PATH/repositories -> TARGET_APP_PATH
+          const parentDir = path.dirname(repositoriesPath);
+          // If parent is root (/), use repositoriesPath itself
+          // Otherwise use parent to show full structure
+          if (parentDir === '/' || parentDir === repositoriesPath) {
+            workingDirectoryPath = repositoriesPath;
+          } else {
+            workingDirectoryPath = parentDir;
+          }
+        }
+
+        // Fallback to TARGET_APP_PATH if REPOSITORIES_PATH not available
+        if (!workingDirectoryPath) {
+          workingDirectoryPath = getTargetAppPath();
+        }
+
+        if (!workingDirectoryPath) {
+          res.status(500).json({
+            success: false,
+            error: 'Neither REPOSITORIES_PATH nor TARGET_APP_PATH configured',
+            timestamp: new Date().toISOString(),
+          });
+          return;
+        }
+
+        // Check if working directory exists
+        if (!this.filesystem.exists(workingDirectoryPath)) {
+          res.status(404).json({
+            success: false,
+            error: `Working directory not found: ${workingDirectoryPath}`,
+            timestamp: new Date().toISOString(),
+          });
+          return;
+        }
+
+        logger.info('Working directory file tree request received', {
+          path: workingDirectoryPath,
+          repositoriesPath,
+          targetAppPath: getTargetAppPath(),
+          ip: req.ip,
+          userAgent: req.get('user-agent'),
+        });
+
+        // Build file tree
+        const fileTree = fileTreeService.buildFileTree(workingDirectoryPath);
+
+        res.json(fileTree);
+      } catch (error) {
+        const err = error as Error;
+        logger.error('Failed to get working directory file tree', {
+          error: err.message,
+          stack: err.stack,
+        });
+
+        res.status(500).json({
+          success: false,
+          error: err.message,
+          timestamp: new Date().toISOString(),
+        });
+      }
+    });
+
+    /**
+     * GET /conversations/api/:conversationId
+     * Get a specific conversation by ID
+     * IMPORTANT: This route must come after /new, /list, and /working-directory/files to avoid route conflicts
+     * IMPORTANT: Skip reserved paths like "tasks" and "agent" that are handled by other routers
+     */
+    router.get('/:conversationId', async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const { conversationId } = req.params;
+
+        // Skip reserved paths that are handled by other routers
+        const reservedPaths = ['tasks', 'agent', 'working-directory'];
+        if (reservedPaths.includes(conversationId)) {
+          return next(); // Let it fall through to other routers
+        }
+
+        const conversation =
+          await this.cursorExecution.conversationService.getConversationById(conversationId);
+
+        if (!conversation) {
+          res.status(404).json({
+            success: false,
+            error: 'Conversation not found',
+          });
+          return;
+        }
+
+        res.json(conversation);
+      } catch (error) {
+        const err = error as Error;
+        logger.error('Failed to get conversation', {
+          error: err.message,
+          stack: err.stack,
+          conversationId: req.params.conversationId,
+        });
+        res.status(500).json({
+          success: false,
+          error: err.message,
+        });
+      }
+    });
+
+    /**
+     * POST /conversations/api/:conversationId/message
+     * Send a message to a conversation and trigger cursor execution
+     * Body: { message: string, repository?: string, branchName?: string }
+     */
+    router.post('/:conversationId/message', async (req: Request, res: Response) => {
+      try {
+        const { conversationId } = req.params;
+        const body = req.body as { message: string; repository?: string; branchName?: string };
+        const { message, repository, branchName } = body;
+
+        if (!message || typeof message !== 'string' || message.trim().length === 0) {
+          res.status(400).json({
+            success: false,
+            error: 'Message is required and must be a non-empty string',
+          });
+          return;
+        }
+
+        // Verify conversation exists
+        const conversation =
+          await this.cursorExecution.conversationService.getConversationById(conversationId);
+
+        if (!conversation) {
+          res.status(404).json({
+            success: false,
+            error: 'Conversation not found',
+          });
+          return;
+        }
+
+        const requestId = `ui-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+        logger.info('Message send request received', {
+          requestId,
+          conversationId,
+          messageLength: message.length,
+          repository,
+          branchName,
+          ip: req.ip,
+          userAgent: req.get('user-agent'),
+        });
+
+        // Return 200 OK immediately
+        res.status(200).json({
+          success: true,
+          message: 'Message accepted, processing asynchronously',
+          requestId,
+          conversationId,
+          timestamp: new Date().toISOString(),
+        });
+
+        // Process message asynchronously (fire and forget)
+        this.cursorExecution
+          .execute({
+            repository,
+            branchName,
+            prompt: message,
+            requestId,
+            conversationId,
+            queueType: 'api',
+          })
+          .catch((error: Error) => {
+            logger.error('Message processing failed', {
+              requestId,
+              conversationId,
+              error: error.message,
+              stack: error.stack,
+            });
+          });
+      } catch (error) {
+        const err = error as Error;
+        logger.error('Message send request failed', {
+          error: err.message,
+          stack: err.stack,
+          conversationId: req.params.conversationId,
+        });
+
+        // If we haven't sent a response yet, send error
+        if (!res.headersSent) {
+          res.status(500).json({
+            success: false,
+            error: err.message,
+            timestamp: new Date().toISOString(),
+          });
+        }
+      }
+    });
+
+    // Mount conversation API routes at /api (for Traefik routing)
+    // Traefik routes /conversations/api/* to cursor-runner (priority 20, higher than jarek-va-ui)
+    // Traefik strips /conversations prefix, so /conversations/api/list becomes /api/list
+    // Router mounted at /api with routes /list and /:conversationId
+    // Final routes: /api/list and /api/:conversationId (accessible as /conversations/api/list from frontend)
+    this.app.use('/api', router);
+
+    // Also mount at /conversations/api for direct access (bypassing Traefik)
+    // This allows the frontend to access the API directly when running locally
+    // e.g., http://localhost:3001/conversations/api/list
+    this.app.use('/conversations/api', router);
+  }
+
+  /**
+   * Setup repository file browser API routes
+   */
+  setupRepositoryRoutes(): void {
+    const router: Router = express.Router();
+    const fileTreeService = new FileTreeService();
+
+    /**
+     * GET /repositories/api/:repository/files
+     * Get file tree for a repository
+     * Returns a FileNode[] tree structure
+     */
+    router.get('/:repository/files', async (req: Request, res: Response) => {
+      try {
+        const { repository } = req.params;
+
+        if (!repository) {
+          res.status(400).json({
+            success: false,
+            error: 'Repository name is required',
+          });
+          return;
+        }
+
+        // Build repository path
+        const repositoryPath = path.join(this.gitService.repositoriesPath, repository);
+
+        // Check if repository exists
+        if (!this.filesystem.exists(repositoryPath)) {
+          res.status(404).json({
+            success: false,
+            error: `Repository '${repository}' not found`,
+          });
+          return;
+        }
+
+        logger.info('File tree request received', {
+          repository,
+          path: repositoryPath,
+          ip: req.ip,
+          userAgent: req.get('user-agent'),
+        });
+
+        // Build file tree
+        const fileTree = fileTreeService.buildFileTree(repositoryPath);
+
+        res.json(fileTree);
+      } catch (error) {
+        const err = error as Error;
+        logger.error('Failed to get repository file tree', {
+          error: err.message,
+          stack: err.stack,
+          repository: req.params.repository,
+        });
+
+        res.status(500).json({
+          success: false,
+          error: err.message,
+          timestamp: new Date().toISOString(),
+        });
+      }
+    });
+
+    // Mount repository API routes at /repositories/api
+    this.app.use('/repositories/api', router);
+  }
+
+  /**
+   * Setup agent conversation API routes
+   * Agent conversations are separate from regular conversations and are used for voice-based interactions
+   * API endpoints are at /agent-conversations/api/* (routed to cursor-runner via Traefik)
+   * Traefik strips /agent-conversations prefix, so /agent-conversations/api/list becomes /api/agent/list
+   */
+  setupAgentConversationRoutes(): void {
+    const router: Router = express.Router();
+
+    // Middleware to prevent browser caching of API responses
+    router.use((req: Request, res: Response, next: NextFunction) => {
+      res.setHeader('Cache-Control', 'no-store, no-cache, must-revalidate, proxy-revalidate');
+      res.setHeader('Pragma', 'no-cache');
+      res.setHeader('Expires', '0');
+      next();
+    });
+
+    /**
+     * GET /agent-conversations/api/list
+     * Get list of all agent conversations with optional pagination
+     * Query params: limit (default: all), offset (default: 0)
+     * Note: Router is mounted at /api/agent, so route is /list
+     */
+    router.get('/list', async (req: Request, res: Response) => {
+      try {
+        const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : undefined;
         const offset = req.query.offset ? parseInt(req.query.offset as string, 10) : undefined;
         const sortBy = req.query.sortBy as
           | 'createdAt'
@@ -1008,58 +2116,1141 @@ export class Server {
           | undefined;
         const sortOrder = req.query.sortOrder as 'asc' | 'desc' | undefined;
 
-        // Validate pagination parameters
-        if (limit !== undefined && (isNaN(limit) || limit < 1)) {
+        // Validate pagination parameters
+        if (limit !== undefined && (isNaN(limit) || limit < 1)) {
+          res.status(400).json({
+            success: false,
+            error: 'limit must be a positive integer',
+          });
+          return;
+        }
+        if (offset !== undefined && (isNaN(offset) || offset < 0)) {
+          res.status(400).json({
+            success: false,
+            error: 'offset must be a non-negative integer',
+          });
+          return;
+        }
+
+        // Validate sorting parameters
+        if (sortBy && !['createdAt', 'lastAccessedAt', 'messageCount'].includes(sortBy)) {
+          res.status(400).json({
+            success: false,
+            error: 'sortBy must be one of: createdAt, lastAccessedAt, messageCount',
+          });
+          return;
+        }
+        if (sortOrder && !['asc', 'desc'].includes(sortOrder)) {
+          res.status(400).json({
+            success: false,
+            error: 'sortOrder must be one of: asc, desc',
+          });
+          return;
+        }
+
+        const result = await this.agentConversationService.listConversations({
+          limit,
+          offset,
+          sortBy,
+          sortOrder,
+        });
+
+        res.json({
+          conversations: result.conversations,
+          pagination: {
+            total: result.total,
+            limit: limit ?? result.total,
+            offset: offset ?? 0,
+            hasMore:
+              offset !== undefined && limit !== undefined ? offset + limit < result.total : false,
+          },
+        });
+      } catch (error) {
+        const err = error as Error;
+        logger.error('Failed to list agent conversations', {
+          error: err.message,
+          stack: err.stack,
+        });
+        res.status(500).json({
+          success: false,
+          error: err.message,
+        });
+      }
+    });
+
+    /**
+     * POST /agent-conversations/api/new
+     * Create a new agent conversation
+     * Body: { agentId?: string, metadata?: Record<string, unknown> } (optional)
+     * Note: Router is mounted at /api/agent, so route is /new
+     */
+    router.post('/new', async (req: Request, res: Response) => {
+      try {
+        const body = req.body as { agentId?: string; metadata?: Record<string, unknown> };
+
+        logger.info('New agent conversation request received', {
+          ip: req.ip,
+          userAgent: req.get('user-agent'),
+          agentId: body.agentId,
+        });
+
+        const conversation = await this.agentConversationService.createConversation(body.agentId);
+
+        if (body.metadata) {
+          conversation.metadata = body.metadata;
+          // Save again with metadata
+          await this.agentConversationService.updateConversation(conversation);
+        }
+
+        res.status(200).json({
+          success: true,
+          conversationId: conversation.conversationId,
+          message: 'New agent conversation created',
+        });
+      } catch (error) {
+        const err = error as Error;
+        logger.error('Failed to create new agent conversation', {
+          error: err.message,
+          stack: err.stack,
+        });
+        res.status(500).json({
+          success: false,
+          error: err.message,
+          timestamp: new Date().toISOString(),
+        });
+      }
+    });
+
+    /**
+     * POST /agent-conversations/api/:id/message
+     * Send a message to an agent conversation
+     * Body: { role: 'user' | 'assistant', content: string, source?: 'voice' | 'text' }
+     * Note: Router is mounted at /api/agent, so route is /:id/message
+     */
+    router.post('/:id/message', async (req: Request, res: Response) => {
+      try {
+        const { id } = req.params;
+        const body = req.body as {
+          role: 'user' | 'assistant';
+          content: string;
+          source?: 'voice' | 'text';
+        };
+
+        if (!body.content || !body.role) {
+          res.status(400).json({
+            success: false,
+            error: 'Missing required fields: role, content',
+          });
+          return;
+        }
+
+        const message: import('./agent-conversation-service.js').AgentMessage = {
+          role: body.role,
+          content: body.content,
+          timestamp: new Date().toISOString(),
+          source: body.source || 'text',
+        };
+
+        await this.agentConversationService.addMessage(id, message);
+
+        const conversation = await this.agentConversationService.getConversation(id);
+
+        res.status(200).json({
+          success: true,
+          conversationId: conversation?.conversationId || id,
+          message: 'Message added to conversation',
+        });
+      } catch (error) {
+        const err = error as Error;
+        logger.error('Failed to add message to agent conversation', {
+          error: err.message,
+          stack: err.stack,
+          id: req.params.id,
+        });
+        res.status(500).json({
+          success: false,
+          error: err.message,
+        });
+      }
+    });
+
+    /**
+     * GET /agent-conversations/api/:id
+     * Get a specific agent conversation by ID
+     * Note: Router is mounted at /api/agent, so route is /:id
+     */
+    router.get('/:id', async (req: Request, res: Response) => {
+      try {
+        const { id } = req.params;
+        const conversation = await this.agentConversationService.getConversation(id);
+
+        if (!conversation) {
+          res.status(404).json({
+            success: false,
+            error: 'Agent conversation not found',
+          });
+          return;
+        }
+
+        res.json(conversation);
+      } catch (error) {
+        const err = error as Error;
+        logger.error('Failed to get agent conversation', {
+          error: err.message,
+          stack: err.stack,
+          id: req.params.id,
+        });
+        res.status(500).json({
+          success: false,
+          error: err.message,
+        });
+      }
+    });
+
+    // Mount agent conversation API routes at /api/agent
+    // Traefik strips /agent-conversations prefix, so /agent-conversations/api/list becomes /api/list
+    // But we mount at /api/agent to avoid conflicts with regular conversation API routes at /api
+    // So /agent-conversations/api/list becomes /api/agent/list
+    this.app.use('/api/agent', router);
+  }
+
+  /**
+   * Setup tasks API routes
+   * Provides endpoints for managing agent tasks in the shared SQLite database
+   */
+  setupTaskRoutes(): void {
+    const router: Router = express.Router();
+
+    /**
+     * Read a non-empty list of task IDs from a bulk request body
+     */
+    const parseTaskIds = (value: unknown): number[] | null =>
+      Array.isArray(value) && value.length > 0 && value.every((id) => Number.isInteger(id))
+        ? (value as number[])
+        : null;
+
+    /**
+     * GET /api/tasks
+     * Search tasks; the total number of matches is returned in the X-Total-Count header
+     * Query params (all optional):
+     *   ?q=text - full-text search on the prompt
+     *   ?status=0,3 - one or more statuses
+     *   ?created_after, created_before, updated_after, updated_before - ISO dates
+     *   ?sort=order|created|updated|priority|due (default: order), direction=asc|desc
+     *   (default: asc)
+     *   ?limit, offset - pagination
+     */
+    router.get('/', async (req: Request, res: Response) => {
+      try {
+        const query: TaskQuery = {};
+        const statusParam = req.query.status;
+        if (statusParam !== undefined) {
+          const statuses = String(statusParam)
+            .split(',')
+            .map((value) => parseInt(value, 10));
+          if (statuses.some((status) => isNaN(status))) {
+            res.status(400).json({
+              success: false,
+              error: 'Invalid status parameter. Must be a number.',
+            });
+            return;
+          }
+          query.statuses = statuses;
+        }
+
+        if (typeof req.query.q === 'string' && req.query.q.trim().length > 0) {
+          query.search = req.query.q;
+        }
+
+        const dateParams = {
+          created_after: 'createdAfter',
+          created_before: 'createdBefore',
+          updated_after: 'updatedAfter',
+          updated_before: 'updatedBefore',
+        } as const;
+        for (const [param, field] of Object.entries(dateParams)) {
+          const value = req.query[param];
+          if (value === undefined) {
+            continue;
+          }
+          const date = new Date(String(value));
+          if (isNaN(date.getTime())) {
+            res.status(400).json({
+              success: false,
+              error: `Invalid ${param} parameter. Must be a date.`,
+            });
+            return;
+          }
+          query[field] = date.toISOString();
+        }
+
+        if (req.query.sort !== undefined) {
+          const sort = String(req.query.sort);
+          if (!(TASK_SORT_FIELDS as readonly string[]).includes(sort)) {
+            res.status(400).json({
+              success: false,
+              error: `Invalid sort parameter. Must be one of: ${TASK_SORT_FIELDS.join(', ')}`,
+            });
+            return;
+          }
+          query.sort = sort as TaskSortField;
+        }
+
+        if (req.query.direction !== undefined) {
+          const direction = String(req.query.direction);
+          if (direction !== 'asc' && direction !== 'desc') {
+            res.status(400).json({
+              success: false,
+              error: 'Invalid direction parameter. Must be asc or desc.',
+            });
+            return;
+          }
+          query.direction = direction;
+        }
+
+        if (req.query.limit !== undefined) {
+          const limit = parseInt(String(req.query.limit), 10);
+          if (isNaN(limit) || limit < 1) {
+            res.status(400).json({
+              success: false,
+              error: 'Invalid limit parameter. Must be a positive number.',
+            });
+            return;
+          }
+          query.limit = limit;
+        }
+
+        if (req.query.offset !== undefined) {
+          const offset = parseInt(String(req.query.offset), 10);
+          if (isNaN(offset) || offset < 0) {
+            res.status(400).json({
+              success: false,
+              error: 'Invalid offset parameter. Must be a non-negative number.',
+            });
+            return;
+          }
+          query.offset = offset;
+        }
+
+        const { tasks, total } = this.taskService.searchTasks(query);
+        res.setHeader('X-Total-Count', String(total));
+        res.json(tasks);
+      } catch (error) {
+        const err = error as Error;
+        logger.error('Failed to list tasks', {
+          error: err.message,
+          stack: err.stack,
+          query: req.query,
+        });
+        res.status(500).json({
+          success: false,
+          error: err.message,
+        });
+      }
+    });
+
+    /**
+     * PUT /api/tasks/order
+     * Reorder tasks: each task gets its position in the list as its order
+     * Body: { ids: number[] }
+     */
+    router.put('/order', async (req: Request, res: Response) => {
+      try {
+        const ids = parseTaskIds((req.body as { ids?: unknown }).ids);
+        if (!ids || new Set(ids).size !== ids.length) {
+          res.status(400).json({
+            success: false,
+            error: 'ids must be a non-empty list of distinct task IDs',
+          });
+          return;
+        }
+
+        const missing = this.taskService.getMissingTaskIds(ids);
+        if (missing.length > 0) {
+          res.status(404).json({
+            success: false,
+            error: `Tasks not found: ${missing.join(', ')}`,
+          });
+          return;
+        }
+
+        res.json(this.taskService.reorderTasks(ids));
+      } catch (error) {
+        const err = error as Error;
+        logger.error('Failed to reorder tasks', {
+          error: err.message,
+          stack: err.stack,
+          body: req.body,
+        });
+        res.status(500).json({
+          success: false,
+          error: err.message,
+        });
+      }
+    });
+
+    /**
+     * PUT /api/tasks/status
+     * Set the status of several tasks
+     * Body: { ids: number[], status: number }
+     */
+    router.put('/status', async (req: Request, res: Response) => {
+      try {
+        const body = req.body as { ids?: unknown; status?: unknown };
+        const ids = parseTaskIds(body.ids);
+        if (!ids) {
+          res.status(400).json({
+            success: false,
+            error: 'ids must be a non-empty list of task IDs',
+          });
+          return;
+        }
+
+        if (typeof body.status !== 'number' || TaskStatus[body.status] === undefined) {
+          res.status(400).json({
+            success: false,
+            error: 'Status must be a valid task status',
+          });
+          return;
+        }
+
+        const updated = this.taskService.updateTaskStatuses(ids, body.status);
+        res.json({ success: true, updated });
+      } catch (error) {
+        const err = error as Error;
+        logger.error('Failed to update task statuses', {
+          error: err.message,
+          stack: err.stack,
+          body: req.body,
+        });
+        res.status(500).json({
+          success: false,
+          error: err.message,
+        });
+      }
+    });
+
+    /**
+     * DELETE /api/tasks
+     * Delete several tasks
+     * Body: { ids: number[] }
+     */
+    router.delete('/', async (req: Request, res: Response) => {
+      try {
+        const ids = parseTaskIds((req.body as { ids?: unknown } | undefined)?.ids);
+        if (!ids) {
+          res.status(400).json({
+            success: false,
+            error: 'ids must be a non-empty list of task IDs',
+          });
+          return;
+        }
+
+        const deleted = this.taskService.deleteTasks(ids);
+        res.json({ success: true, deleted });
+      } catch (error) {
+        const err = error as Error;
+        logger.error('Failed to delete tasks', {
+          error: err.message,
+          stack: err.stack,
+          body: req.body,
+        });
+        res.status(500).json({
+          success: false,
+          error: err.message,
+        });
+      }
+    });
+
+    /**
+     * GET /api/tasks/export
+     * Export every task, with dependencies referenced by UUID
+     * Query params:
+     *   ?format=json|csv (default: json)
+     */
+    router.get('/export', async (req: Request, res: Response) => {
+      try {
+        const format = req.query.format === undefined ? 'json' : String(req.query.format);
+        if (format !== 'json' && format !== 'csv') {
+          res.status(400).json({
+            success: false,
+            error: 'Invalid format parameter. Must be json or csv.',
+          });
+          return;
+        }
+
+        const records = this.taskService.exportTasks();
+        if (format === 'csv') {
+          res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+          res.setHeader('Content-Disposition', 'attachment; filename="tasks.csv"');
+          res.send(formatTasksCsv(records));
+          return;
+        }
+        res.json(records);
+      } catch (error) {
+        const err = error as Error;
+        logger.error('Failed to export tasks', {
+          error: err.message,
+          stack: err.stack,
+          query: req.query,
+        });
+        res.status(500).json({
+          success: false,
+          error: err.message,
+        });
+      }
+    });
+
+    /**
+     * POST /api/tasks/import
+     * Import tasks as exported by GET /api/tasks/export: tasks are matched by uuid and updated,
+     * other records create tasks. Nothing is imported if any record is invalid.
+     * Body: a JSON array of tasks (or { tasks: [...] }), or CSV with Content-Type: text/csv
+     */
+    router.post(
+      '/import',
+      express.text({ type: 'text/csv' }),
+      async (req: Request, res: Response) => {
+        try {
+          let records: unknown[];
+          if (typeof req.body === 'string') {
+            const parsed = parseTasksCsv(req.body);
+            if ('error' in parsed) {
+              res.status(400).json({ success: false, error: parsed.error });
+              return;
+            }
+            records = parsed.records;
+          } else {
+            const body = req.body as unknown;
+            const tasks = Array.isArray(body)
+              ? body
+              : (body as { tasks?: unknown } | undefined)?.tasks;
+            if (!Array.isArray(tasks)) {
+              res.status(400).json({
+                success: false,
+                error: 'Body must be a list of tasks',
+              });
+              return;
+            }
+            records = tasks;
+          }
+
+          const { created, updated, errors } = this.taskService.importTasks(records);
+          if (errors.length > 0) {
+            res.status(400).json({
+              success: false,
+              error: 'Some tasks are invalid; nothing was imported',
+              errors,
+            });
+            return;
+          }
+          res.json({ success: true, created, updated });
+        } catch (error) {
+          const err = error as Error;
+          logger.error('Failed to import tasks', {
+            error: err.message,
+            stack: err.stack,
+          });
+          res.status(500).json({
+            success: false,
+            error: err.message,
+          });
+        }
+      }
+    );
+
+    /**
+     * GET /api/tasks/:id
+     * Get a specific task by ID
+     */
+    router.get('/:id', async (req: Request, res: Response) => {
+      try {
+        const id = parseInt(req.params.id, 10);
+        if (isNaN(id)) {
+          res.status(400).json({
+            success: false,
+            error: 'Invalid task ID. Must be a number.',
+          });
+          return;
+        }
+
+        const task = this.taskService.getTaskById(id);
+        if (!task) {
+          res.status(404).json({
+            success: false,
+            error: 'Task not found',
+          });
+          return;
+        }
+
+        res.json(task);
+      } catch (error) {
+        const err = error as Error;
+        logger.error('Failed to get task', {
+          error: err.message,
+          stack: err.stack,
+          id: req.params.id,
+        });
+        res.status(500).json({
+          success: false,
+          error: err.message,
+        });
+      }
+    });
+
+    /**
+     * GET /api/tasks/:id/runs
+     * List the runs of a task (most recent first) with their outcome and output excerpt
+     */
+    router.get('/:id/runs', async (req: Request, res: Response) => {
+      try {
+        const id = parseInt(req.params.id, 10);
+        if (isNaN(id)) {
+          res.status(400).json({
+            success: false,
+            error: 'Invalid task ID. Must be a number.',
+          });
+          return;
+        }
+
+        if (!this.taskService.getTaskById(id)) {
+          res.status(404).json({
+            success: false,
+            error: 'Task not found',
+          });
+          return;
+        }
+
+        res.json(this.taskService.listTaskRuns(id));
+      } catch (error) {
+        const err = error as Error;
+        logger.error('Failed to list task runs', {
+          error: err.message,
+          stack: err.stack,
+          id: req.params.id,
+        });
+        res.status(500).json({
+          success: false,
+          error: err.message,
+        });
+      }
+    });
+
+    /**
+     * POST /api/tasks
+     * Create a new task
+     * Body: { prompt: string, order?: number, status?: number, depends_on?: number[],
+     *         max_attempts?: number, repository?: string, branch_name?: string, priority?: number,
+     *         due_at?: string, labels?: string[], metadata?: object }
+     */
+    router.post('/', async (req: Request, res: Response) => {
+      try {
+        const body = req.body as {
+          prompt: string;
+          order?: number;
+          status?: number;
+          depends_on?: number[];
+          max_attempts?: number;
+        };
+        const { prompt, order, status } = body;
+
+        if (!prompt || typeof prompt !== 'string' || prompt.trim().length === 0) {
+          res.status(400).json({
+            success: false,
+            error: 'Prompt is required and must be a non-empty string',
+          });
+          return;
+        }
+
+        if (
+          body.max_attempts !== undefined &&
+          (!Number.isInteger(body.max_attempts) || body.max_attempts < 1)
+        ) {
+          res.status(400).json({
+            success: false,
+            error: 'max_attempts must be a positive integer',
+          });
+          return;
+        }
+
+        const parsed = parseTaskFields(req.body as Record<string, unknown>);
+        if ('error' in parsed) {
+          res.status(400).json({
+            success: false,
+            error: parsed.error,
+          });
+          return;
+        }
+
+        const dependsOn = body.depends_on ?? [];
+        const dependencyError = this.taskService.getDependencyError(null, dependsOn);
+        if (dependencyError) {
+          res.status(400).json({
+            success: false,
+            error: dependencyError,
+          });
+          return;
+        }
+
+        const task = this.taskService.createTask(
+          prompt.trim(),
+          order ?? 0,
+          (status as number | undefined) ?? 0,
+          { ...parsed.fields, dependsOn, maxAttempts: body.max_attempts }
+        );
+
+        res.status(201).json(task);
+      } catch (error) {
+        const err = error as Error;
+        logger.error('Failed to create task', {
+          error: err.message,
+          stack: err.stack,
+          body: req.body,
+        });
+        res.status(500).json({
+          success: false,
+          error: err.message,
+        });
+      }
+    });
+
+    /**
+     * PUT /api/tasks/:id
+     * Update a task
+     * Body: { prompt?: string, status?: number, order?: number, depends_on?: number[],
+     *         max_attempts?: number, repository?: string, branch_name?: string, priority?: number,
+     *         due_at?: string, labels?: string[], metadata?: object }
+     * depends_on replaces the task's dependencies
+     */
+    router.put('/:id', async (req: Request, res: Response) => {
+      try {
+        const id = parseInt(req.params.id, 10);
+        if (isNaN(id)) {
+          res.status(400).json({
+            success: false,
+            error: 'Invalid task ID. Must be a number.',
+          });
+          return;
+        }
+
+        const body = req.body as {
+          prompt?: string;
+          status?: number;
+          order?: number;
+          depends_on?: number[];
+          max_attempts?: number;
+        };
+        const updates: {
+          prompt?: string;
+          status?: number;
+          order?: number;
+          maxAttempts?: number;
+        } = {};
+
+        if (body.prompt !== undefined) {
+          if (typeof body.prompt !== 'string' || body.prompt.trim().length === 0) {
+            res.status(400).json({
+              success: false,
+              error: 'Prompt must be a non-empty string',
+            });
+            return;
+          }
+          updates.prompt = body.prompt.trim();
+        }
+
+        if (body.status !== undefined) {
+          if (typeof body.status !== 'number' || isNaN(body.status)) {
+            res.status(400).json({
+              success: false,
+              error: 'Status must be a number',
+            });
+            return;
+          }
+          updates.status = body.status;
+        }
+
+        if (body.order !== undefined) {
+          if (typeof body.order !== 'number' || isNaN(body.order)) {
+            res.status(400).json({
+              success: false,
+              error: 'Order must be a number',
+            });
+            return;
+          }
+          updates.order = body.order;
+        }
+
+        if (body.max_attempts !== undefined) {
+          if (!Number.isInteger(body.max_attempts) || body.max_attempts < 1) {
+            res.status(400).json({
+              success: false,
+              error: 'max_attempts must be a positive integer',
+            });
+            return;
+          }
+          updates.maxAttempts = body.max_attempts;
+        }
+
+        const parsed = parseTaskFields(req.body as Record<string, unknown>);
+        if ('error' in parsed) {
+          res.status(400).json({
+            success: false,
+            error: parsed.error,
+          });
+          return;
+        }
+
+        if (!this.taskService.getTaskById(id)) {
+          res.status(404).json({
+            success: false,
+            error: 'Task not found',
+          });
+          return;
+        }
+
+        if (body.depends_on !== undefined) {
+          const dependencyError = this.taskService.getDependencyError(id, body.depends_on);
+          if (dependencyError) {
+            res.status(400).json({
+              success: false,
+              error: dependencyError,
+            });
+            return;
+          }
+          this.taskService.setTaskDependencies(id, body.depends_on);
+        }
+
+        const task = this.taskService.updateTask(id, { ...updates, ...parsed.fields });
+        if (!task) {
+          res.status(404).json({
+            success: false,
+            error: 'Task not found',
+          });
+          return;
+        }
+
+        res.json(task);
+      } catch (error) {
+        const err = error as Error;
+        logger.error('Failed to update task', {
+          error: err.message,
+          stack: err.stack,
+          id: req.params.id,
+          body: req.body,
+        });
+        res.status(500).json({
+          success: false,
+          error: err.message,
+        });
+      }
+    });
+
+    /**
+     * POST /api/tasks/:id/retry
+     * Reset a task's attempts and requeue it (e.g. after it was backlogged)
+     */
+    router.post('/:id/retry', async (req: Request, res: Response) => {
+      try {
+        const id = parseInt(req.params.id, 10);
+        if (isNaN(id)) {
           res.status(400).json({
             success: false,
-            error: 'limit must be a positive integer',
+            error: 'Invalid task ID. Must be a number.',
           });
           return;
         }
-        if (offset !== undefined && (isNaN(offset) || offset < 0)) {
+
+        const existing = this.taskService.getTaskById(id);
+        if (!existing) {
+          res.status(404).json({
+            success: false,
+            error: 'Task not found',
+          });
+          return;
+        }
+
+        if (existing.status === TaskStatus.IN_PROGRESS) {
+          res.status(409).json({
+            success: false,
+            error: 'Task is in progress',
+          });
+          return;
+        }
+
+        res.json(this.taskService.retryTask(id));
+      } catch (error) {
+        const err = error as Error;
+        logger.error('Failed to retry task', {
+          error: err.message,
+          stack: err.stack,
+          id: req.params.id,
+        });
+        res.status(500).json({
+          success: false,
+          error: err.message,
+        });
+      }
+    });
+
+    /**
+     * DELETE /api/tasks/:id
+     * Delete a task
+     */
+    router.delete('/:id', async (req: Request, res: Response) => {
+      try {
+        const id = parseInt(req.params.id, 10);
+        if (isNaN(id)) {
           res.status(400).json({
             success: false,
-            error: 'offset must be a non-negative integer',
+            error: 'Invalid task ID. Must be a number.',
           });
           return;
         }
 
-        // Validate sorting parameters
-        if (sortBy && !['createdAt', 'lastAccessedAt', 'messageCount'].includes(sortBy)) {
+        const deleted = this.taskService.deleteTask(id);
+        if (!deleted) {
+          res.status(404).json({
+            success: false,
+            error: 'Task not found',
+          });
+          return;
+        }
+
+        res.json({ success: true, message: 'Task deleted' });
+      } catch (error) {
+        const err = error as Error;
+        logger.error('Failed to delete task', {
+          error: err.message,
+          stack: err.stack,
+          id: req.params.id,
+        });
+        res.status(500).json({
+          success: false,
+          error: err.message,
+        });
+      }
+    });
+
+    // Mount tasks API routes at /api/tasks
+    this.app.use('/api/tasks', router);
+  }
+
+  /**
+   * Setup task template API routes
+   * Templates create a task on a cron schedule (see TaskSchedulerService)
+   */
+  setupTaskTemplateRoutes(): void {
+    const router: Router = express.Router();
+
+    /**
+     * Read the template ID route param, responding with a 400 if it is not a number
+     */
+    const parseTemplateId = (req: Request, res: Response): number | null => {
+      const id = parseInt(req.params.id, 10);
+      if (isNaN(id)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid task template ID. Must be a number.',
+        });
+        return null;
+      }
+      return id;
+    };
+
+    /**
+     * GET /api/task-templates
+     * List all task templates
+     */
+    router.get('/', async (req: Request, res: Response) => {
+      try {
+        res.json(this.taskTemplates.listTemplates());
+      } catch (error) {
+        const err = error as Error;
+        logger.error('Failed to list task templates', {
+          error: err.message,
+          stack: err.stack,
+        });
+        res.status(500).json({
+          success: false,
+          error: err.message,
+        });
+      }
+    });
+
+    /**
+     * GET /api/task-templates/:id
+     * Get a specific task template by ID
+     */
+    router.get('/:id', async (req: Request, res: Response) => {
+      try {
+        const id = parseTemplateId(req, res);
+        if (id === null) {
+          return;
+        }
+
+        const template = this.taskTemplates.getTemplateById(id);
+        if (!template) {
+          res.status(404).json({
+            success: false,
+            error: 'Task template not found',
+          });
+          return;
+        }
+
+        res.json(template);
+      } catch (error) {
+        const err = error as Error;
+        logger.error('Failed to get task template', {
+          error: err.message,
+          stack: err.stack,
+          id: req.params.id,
+        });
+        res.status(500).json({
+          success: false,
+          error: err.message,
+        });
+      }
+    });
+
+    /**
+     * POST /api/task-templates
+     * Create a task template
+     * Body: { name: string, prompt: string, schedule: string (cron), timezone?: string,
+     *         catch_up?: 'skip'|'once'|'all', enabled?: boolean, max_attempts?: number,
+     *         repository?, branch_name?, priority?, labels?, metadata? }
+     */
+    router.post('/', async (req: Request, res: Response) => {
+      try {
+        const parsed = parseTaskTemplateInput((req.body ?? {}) as Record<string, unknown>, true);
+        if ('error' in parsed) {
           res.status(400).json({
             success: false,
-            error: 'sortBy must be one of: createdAt, lastAccessedAt, messageCount',
+            error: parsed.error,
           });
           return;
         }
-        if (sortOrder && !['asc', 'desc'].includes(sortOrder)) {
+
+        const { input } = parsed;
+        const template = this.taskTemplates.createTemplate({
+          ...input,
+          name: input.name as string,
+          prompt: input.prompt as string,
+          schedule: input.schedule as string,
+        });
+        res.status(201).json(template);
+      } catch (error) {
+        const err = error as Error;
+        logger.error('Failed to create task template', {
+          error: err.message,
+          stack: err.stack,
+          body: req.body,
+        });
+        res.status(500).json({
+          success: false,
+          error: err.message,
+        });
+      }
+    });
+
+    /**
+     * PUT /api/task-templates/:id
+     * Update a task template (same fields as POST, all optional)
+     * Set enabled to false to pause a template; re-enabling it schedules it from now.
+     */
+    router.put('/:id', async (req: Request, res: Response) => {
+      try {
+        const id = parseTemplateId(req, res);
+        if (id === null) {
+          return;
+        }
+
+        if (!this.taskTemplates.getTemplateById(id)) {
+          res.status(404).json({
+            success: false,
+            error: 'Task template not found',
+          });
+          return;
+        }
+
+        const parsed = parseTaskTemplateInput((req.body ?? {}) as Record<string, unknown>, false);
+        if ('error' in parsed) {
           res.status(400).json({
             success: false,
-            error: 'sortOrder must be one of: asc, desc',
+            error: parsed.error,
           });
           return;
         }
 
-        const result = await this.agentConversationService.listConversations({
-          limit,
-          offset,
-          sortBy,
-          sortOrder,
+        res.json(this.taskTemplates.updateTemplate(id, parsed.input));
+      } catch (error) {
+        const err = error as Error;
+        logger.error('Failed to update task template', {
+          error: err.message,
+          stack: err.stack,
+          id: req.params.id,
+          body: req.body,
+        });
+        res.status(500).json({
+          success: false,
+          error: err.message,
         });
+      }
+    });
 
-        res.json({
-          conversations: result.conversations,
-          pagination: {
-            total: result.total,
-            limit: limit ?? result.total,
-            offset: offset ?? 0,
-            hasMore:
-              offset !== undefined && limit !== undefined ? offset + limit < result.total : false,
-          },
+    /**
+     * DELETE /api/task-templates/:id
+     * Delete a task template (tasks it already created are kept)
+     */
+    router.delete('/:id', async (req: Request, res: Response) => {
+      try {
+        const id = parseTemplateId(req, res);
+        if (id === null) {
+          return;
+        }
+
+        if (!this.taskTemplates.deleteTemplate(id)) {
+          res.status(404).json({
+            success: false,
+            error: 'Task template not found',
+          });
+          return;
+        }
+
+        res.json({ success: true, message: 'Task template deleted' });
+      } catch (error) {
+        const err = error as Error;
+        logger.error('Failed to delete task template', {
+          error: err.message,
+          stack: err.stack,
+          id: req.params.id,
+        });
+        res.status(500).json({
+          success: false,
+          error: err.message,
         });
+      }
+    });
+
+    this.app.use('/api/task-templates', router);
+  }
+
+  /**
+   * Setup execution preset API routes
+   * Presets are named execution options that /cursor requests refer to with `preset`
+   */
+  setupPresetRoutes(): void {
+    const router: Router = express.Router();
+
+    /**
+     * GET /api/presets
+     * List all presets
+     */
+    router.get('/', async (req: Request, res: Response) => {
+      try {
+        res.json(this.presets.listPresets());
       } catch (error) {
         const err = error as Error;
-        logger.error('Failed to list agent conversations', {
+        logger.error('Failed to list execution presets', {
           error: err.message,
           stack: err.stack,
         });
@@ -1071,93 +3262,126 @@ export class Server {
     });
 
     /**
-     * POST /agent-conversations/api/new
-     * Create a new agent conversation
-     * Body: { agentId?: string, metadata?: Record<string, unknown> } (optional)
-     * Note: Router is mounted at /api/agent, so route is /new
+     * GET /api/presets/:name
+     * Get a preset by name
      */
-    router.post('/new', async (req: Request, res: Response) => {
+    router.get('/:name', async (req: Request, res: Response) => {
       try {
-        const body = req.body as { agentId?: string; metadata?: Record<string, unknown> };
+        const preset = this.presets.getPresetByName(req.params.name);
+        if (!preset) {
+          res.status(404).json({
+            success: false,
+            error: 'Preset not found',
+          });
+          return;
+        }
 
-        logger.info('New agent conversation request received', {
-          ip: req.ip,
-          userAgent: req.get('user-agent'),
-          agentId: body.agentId,
+        res.json(preset);
+      } catch (error) {
+        const err = error as Error;
+        logger.error('Failed to get execution preset', {
+          error: err.message,
+          stack: err.stack,
+          name: req.params.name,
+        });
+        res.status(500).json({
+          success: false,
+          error: err.message,
         });
+      }
+    });
 
-        const conversation = await this.agentConversationService.createConversation(body.agentId);
+    /**
+     * POST /api/presets
+     * Create a preset
+     * Body: { name: string, description?, repository?, branch_name?, model?, timeout?: number (ms),
+     *         mcps?: string[], prompt_preamble? }
+     */
+    router.post('/', async (req: Request, res: Response) => {
+      try {
+        const parsed = parseExecutionPresetInput(
+          (req.body ?? {}) as Record<string, unknown>,
+          true,
+          this.cursorExecution.modelSelection
+        );
+        if ('error' in parsed) {
+          res.status(400).json({
+            success: false,
+            error: parsed.error,
+          });
+          return;
+        }
 
-        if (body.metadata) {
-          conversation.metadata = body.metadata;
-          // Save again with metadata
-          await this.agentConversationService.updateConversation(conversation);
+        const name = parsed.input.name as string;
+        const preset = this.presets.createPreset({ ...parsed.input, name });
+        if (!preset) {
+          res.status(409).json({
+            success: false,
+            error: `Preset ${name} already exists`,
+          });
+          return;
         }
 
-        res.status(200).json({
-          success: true,
-          conversationId: conversation.conversationId,
-          message: 'New agent conversation created',
-        });
+        res.status(201).json(preset);
       } catch (error) {
         const err = error as Error;
-        logger.error('Failed to create new agent conversation', {
+        logger.error('Failed to create execution preset', {
           error: err.message,
           stack: err.stack,
+          body: req.body,
         });
         res.status(500).json({
           success: false,
           error: err.message,
-          timestamp: new Date().toISOString(),
         });
       }
     });
 
     /**
-     * POST /agent-conversations/api/:id/message
-     * Send a message to an agent conversation
-     * Body: { role: 'user' | 'assistant', content: string, source?: 'voice' | 'text' }
-     * Note: Router is mounted at /api/agent, so route is /:id/message
+     * PUT /api/presets/:name
+     * Update a preset (same fields as POST, all optional; null clears a field)
      */
-    router.post('/:id/message', async (req: Request, res: Response) => {
+    router.put('/:name', async (req: Request, res: Response) => {
       try {
-        const { id } = req.params;
-        const body = req.body as {
-          role: 'user' | 'assistant';
-          content: string;
-          source?: 'voice' | 'text';
-        };
+        const { name } = req.params;
+        if (!this.presets.getPresetByName(name)) {
+          res.status(404).json({
+            success: false,
+            error: 'Preset not found',
+          });
+          return;
+        }
 
-        if (!body.content || !body.role) {
+        const parsed = parseExecutionPresetInput(
+          (req.body ?? {}) as Record<string, unknown>,
+          false,
+          this.cursorExecution.modelSelection
+        );
+        if ('error' in parsed) {
           res.status(400).json({
             success: false,
-            error: 'Missing required fields: role, content',
+            error: parsed.error,
           });
           return;
         }
 
-        const message: import('./agent-conversation-service.js').AgentMessage = {
-          role: body.role,
-          content: body.content,
-          timestamp: new Date().toISOString(),
-          source: body.source || 'text',
-        };
-
-        await this.agentConversationService.addMessage(id, message);
-
-        const conversation = await this.agentConversationService.getConversation(id);
+        const newName = parsed.input.name;
+        if (newName !== undefined && newName !== name && this.presets.getPresetByName(newName)) {
+          res.status(409).json({
+            success: false,
+            error: `Preset ${newName} already exists`,
+          });
+          return;
+        }
 
-        res.status(200).json({
-          success: true,
-          conversationId: conversation?.conversationId || id,
-          message: 'Message added to conversation',
-        });
+        res.json(this.presets.updatePreset(name, parsed.input));
       } catch (error) {
         const err = error as Error;
-        logger.error('Failed to add message to agent conversation', {
+        logger.error('Failed to update execution preset', {
           error: err.message,
           stack: err.stack,
-          id: req.params.id,
+          name: req.params.name,
+          body: req.body,
         });
         res.status(500).json({
           success: false,
@@ -1167,30 +3391,26 @@ export class Server {
     });
 
     /**
-     * GET /agent-conversations/api/:id
-     * Get a specific agent conversation by ID
-     * Note: Router is mounted at /api/agent, so route is /:id
+     * DELETE /api/presets/:name
+     * Delete a preset
      */
-    router.get('/:id', async (req: Request, res: Response) => {
+    router.delete('/:name', async (req: Request, res: Response) => {
       try {
-        const { id } = req.params;
-        const conversation = await this.agentConversationService.getConversation(id);
-
-        if (!conversation) {
+        if (!this.presets.deletePreset(req.params.name)) {
           res.status(404).json({
             success: false,
-            error: 'Agent conversation not found',
+            error: 'Preset not found',
           });
           return;
         }
 
-        res.json(conversation);
+        res.json({ success: true, message: 'Preset deleted' });
       } catch (error) {
         const err = error as Error;
-        logger.error('Failed to get agent conversation', {
+        logger.error('Failed to delete execution preset', {
           error: err.message,
           stack: err.stack,
-          id: req.params.id,
+          name: req.params.name,
         });
         res.status(500).json({
           success: false,
@@ -1199,46 +3419,58 @@ export class Server {
       }
     });
 
-    // Mount agent conversation API routes at /api/agent
-    // Traefik strips /agent-conversations prefix, so /agent-conversations/api/list becomes /api/list
-    // But we mount at /api/agent to avoid conflicts with regular conversation API routes at /api
-    // So /agent-conversations/api/list becomes /api/agent/list
-    this.app.use('/api/agent', router);
+    this.app.use('/api/presets', router);
   }
 
   /**
-   * Setup tasks API routes
-   * Provides endpoints for managing agent tasks in the shared SQLite database
+   * Setup prompt template API routes
+   * /cursor requests can send `template` and `variables` instead of a prompt
    */
-  setupTaskRoutes(): void {
+  setupPromptTemplateRoutes(): void {
     const router: Router = express.Router();
 
     /**
-     * GET /api/tasks
-     * List all tasks, optionally filtered by status
-     * Query params: ?status=0 (optional, filters by status)
+     * GET /api/prompt-templates
+     * List all prompt templates
      */
     router.get('/', async (req: Request, res: Response) => {
       try {
-        const statusParam = req.query.status;
-        const status = statusParam !== undefined ? parseInt(String(statusParam), 10) : undefined;
+        res.json(this.promptTemplates.listTemplates());
+      } catch (error) {
+        const err = error as Error;
+        logger.error('Failed to list prompt templates', {
+          error: err.message,
+          stack: err.stack,
+        });
+        res.status(500).json({
+          success: false,
+          error: err.message,
+        });
+      }
+    });
 
-        if (status !== undefined && isNaN(status)) {
-          res.status(400).json({
+    /**
+     * GET /api/prompt-templates/:name
+     * Get a prompt template by name
+     */
+    router.get('/:name', async (req: Request, res: Response) => {
+      try {
+        const template = this.promptTemplates.getTemplateByName(req.params.name);
+        if (!template) {
+          res.status(404).json({
             success: false,
-            error: 'Invalid status parameter. Must be a number.',
+            error: 'Prompt template not found',
           });
           return;
         }
 
-        const tasks = this.taskService.listTasks(status);
-        res.json(tasks);
+        res.json(template);
       } catch (error) {
         const err = error as Error;
-        logger.error('Failed to list tasks', {
+        logger.error('Failed to get prompt template', {
           error: err.message,
           stack: err.stack,
-          query: req.query,
+          name: req.params.name,
         });
         res.status(500).json({
           success: false,
@@ -1248,36 +3480,44 @@ export class Server {
     });
 
     /**
-     * GET /api/tasks/:id
-     * Get a specific task by ID
+     * POST /api/prompt-templates
+     * Create a prompt template
+     * Body: { name: string, template: string, description?: string,
+     *         variables?: [{ name, description?, required?: boolean, default? }] }
      */
-    router.get('/:id', async (req: Request, res: Response) => {
+    router.post('/', async (req: Request, res: Response) => {
       try {
-        const id = parseInt(req.params.id, 10);
-        if (isNaN(id)) {
+        const parsed = parsePromptTemplateInput((req.body ?? {}) as Record<string, unknown>, true);
+        if ('error' in parsed) {
           res.status(400).json({
             success: false,
-            error: 'Invalid task ID. Must be a number.',
+            error: parsed.error,
           });
           return;
         }
 
-        const task = this.taskService.getTaskById(id);
-        if (!task) {
-          res.status(404).json({
+        const { input } = parsed;
+        const name = input.name as string;
+        const template = this.promptTemplates.createTemplate({
+          ...input,
+          name,
+          template: input.template as string,
+        });
+        if (!template) {
+          res.status(409).json({
             success: false,
-            error: 'Task not found',
+            error: `Prompt template ${name} already exists`,
           });
           return;
         }
 
-        res.json(task);
+        res.status(201).json(template);
       } catch (error) {
         const err = error as Error;
-        logger.error('Failed to get task', {
+        logger.error('Failed to create prompt template', {
           error: err.message,
           stack: err.stack,
-          id: req.params.id,
+          body: req.body,
         });
         res.status(500).json({
           success: false,
@@ -1287,36 +3527,38 @@ export class Server {
     });
 
     /**
-     * POST /api/tasks
-     * Create a new task
-     * Body: { prompt: string, order?: number, status?: number }
+     * POST /api/prompt-templates/:name/render
+     * Render a prompt template without running it
+     * Body: { variables?: object }
      */
-    router.post('/', async (req: Request, res: Response) => {
+    router.post('/:name/render', async (req: Request, res: Response) => {
       try {
-        const body = req.body as { prompt: string; order?: number; status?: number };
-        const { prompt, order, status } = body;
-
-        if (!prompt || typeof prompt !== 'string' || prompt.trim().length === 0) {
+        const rendered = this.promptTemplates.renderTemplate(
+          req.params.name,
+          (req.body ?? {}).variables
+        );
+        if (!rendered) {
+          res.status(404).json({
+            success: false,
+            error: 'Prompt template not found',
+          });
+          return;
+        }
+        if ('error' in rendered) {
           res.status(400).json({
             success: false,
-            error: 'Prompt is required and must be a non-empty string',
+            error: rendered.error,
           });
           return;
         }
 
-        const task = this.taskService.createTask(
-          prompt.trim(),
-          order ?? 0,
-          (status as number | undefined) ?? 0
-        );
-
-        res.status(201).json(task);
+        res.json({ success: true, prompt: rendered.prompt });
       } catch (error) {
         const err = error as Error;
-        logger.error('Failed to create task', {
+        logger.error('Failed to render prompt template', {
           error: err.message,
           stack: err.stack,
-          body: req.body,
+          name: req.params.name,
         });
         res.status(500).json({
           success: false,
@@ -1326,73 +3568,49 @@ export class Server {
     });
 
     /**
-     * PUT /api/tasks/:id
-     * Update a task
-     * Body: { prompt?: string, status?: number, order?: number }
+     * PUT /api/prompt-templates/:name
+     * Update a prompt template (same fields as POST, all optional)
      */
-    router.put('/:id', async (req: Request, res: Response) => {
+    router.put('/:name', async (req: Request, res: Response) => {
       try {
-        const id = parseInt(req.params.id, 10);
-        if (isNaN(id)) {
-          res.status(400).json({
+        const { name } = req.params;
+        if (!this.promptTemplates.getTemplateByName(name)) {
+          res.status(404).json({
             success: false,
-            error: 'Invalid task ID. Must be a number.',
+            error: 'Prompt template not found',
           });
           return;
         }
 
-        const body = req.body as { prompt?: string; status?: number; order?: number };
-        const updates: { prompt?: string; status?: number; order?: number } = {};
-
-        if (body.prompt !== undefined) {
-          if (typeof body.prompt !== 'string' || body.prompt.trim().length === 0) {
-            res.status(400).json({
-              success: false,
-              error: 'Prompt must be a non-empty string',
-            });
-            return;
-          }
-          updates.prompt = body.prompt.trim();
-        }
-
-        if (body.status !== undefined) {
-          if (typeof body.status !== 'number' || isNaN(body.status)) {
-            res.status(400).json({
-              success: false,
-              error: 'Status must be a number',
-            });
-            return;
-          }
-          updates.status = body.status;
-        }
-
-        if (body.order !== undefined) {
-          if (typeof body.order !== 'number' || isNaN(body.order)) {
-            res.status(400).json({
-              success: false,
-              error: 'Order must be a number',
-            });
-            return;
-          }
-          updates.order = body.order;
+        const parsed = parsePromptTemplateInput((req.body ?? {}) as Record<string, unknown>, false);
+        if ('error' in parsed) {
+          res.status(400).json({
+            success: false,
+            error: parsed.error,
+          });
+          return;
         }
 
-        const task = this.taskService.updateTask(id, updates);
-        if (!task) {
-          res.status(404).json({
+        const newName = parsed.input.name;
+        if (
+          newName !== undefined &&
+          newName !== name &&
+          this.promptTemplates.getTemplateByName(newName)
+        ) {
+          res.status(409).json({
             success: false,
-            error: 'Task not found',
+            error: `Prompt template ${newName} already exists`,
           });
           return;
         }
 
-        res.json(task);
+        res.json(this.promptTemplates.updateTemplate(name, parsed.input));
       } catch (error) {
         const err = error as Error;
-        logger.error('Failed to update task', {
+        logger.error('Failed to update prompt template', {
           error: err.message,
           stack: err.stack,
-          id: req.params.id,
+          name: req.params.name,
           body: req.body,
         });
         res.status(500).json({
@@ -1403,36 +3621,26 @@ export class Server {
     });
 
     /**
-     * DELETE /api/tasks/:id
-     * Delete a task
+     * DELETE /api/prompt-templates/:name
+     * Delete a prompt template
      */
-    router.delete('/:id', async (req: Request, res: Response) => {
+    router.delete('/:name', async (req: Request, res: Response) => {
       try {
-        const id = parseInt(req.params.id, 10);
-        if (isNaN(id)) {
-          res.status(400).json({
-            success: false,
-            error: 'Invalid task ID. Must be a number.',
-          });
-          return;
-        }
-
-        const deleted = this.taskService.deleteTask(id);
-        if (!deleted) {
+        if (!this.promptTemplates.deleteTemplate(req.params.name)) {
           res.status(404).json({
             success: false,
-            error: 'Task not found',
+            error: 'Prompt template not found',
           });
           return;
         }
 
-        res.json({ success: true, message: 'Task deleted' });
+        res.json({ success: true, message: 'Prompt template deleted' });
       } catch (error) {
         const err = error as Error;
-        logger.error('Failed to delete task', {
+        logger.error('Failed to delete prompt template', {
           error: err.message,
           stack: err.stack,
-          id: req.params.id,
+          name: req.params.name,
         });
         res.status(500).json({
           success: false,
@@ -1441,8 +3649,7 @@ export class Server {
       }
     });
 
-    // Mount tasks API routes at /api/tasks
-    this.app.use('/api/tasks', router);
+    this.app.use('/api/prompt-templates', router);
   }
 
   /**
@@ -1560,6 +3767,20 @@ export class Server {
             })
           );
         }
+      } else if (topic.startsWith('execution:')) {
+        const requestId = topic.substring('execution:'.length);
+        const snapshot = this.getExecutionReplay(requestId);
+        if (snapshot) {
+          ws.send(JSON.stringify({ type: 'execution.snapshot', ...snapshot }));
+        } else {
+          ws.send(
+            JSON.stringify({
+              type: 'error',
+              error: 'Execution not found or output not available',
+              requestId,
+            })
+          );
+        }
       } else if (topic.startsWith('agent_conversation:')) {
         const conversationId = topic.substring('agent_conversation:'.length);
         const conversation = await this.agentConversationService.getConversation(conversationId);
@@ -1610,9 +3831,13 @@ export class Server {
         const url = new URL(request.url || '/', `http://${host}`);
 
         const pathname = url.pathname;
-        const conversationId = url.searchParams.get('conversationId') || url.searchParams.get('id');
+        const isExecutionEndpoint = pathname === '/api/execution/ws';
+        const conversationId = isExecutionEndpoint
+          ? url.searchParams.get('requestId') || url.searchParams.get('id')
+          : url.searchParams.get('conversationId') || url.searchParams.get('id');
         if (!conversationId) {
-          socket.write('HTTP/1.1 400 Bad Request\r\n\r\nMissing conversationId');
+          const missingParam = isExecutionEndpoint ? 'requestId' : 'conversationId';
+          socket.write(`HTTP/1.1 400 Bad Request\r\n\r\nMissing ${missingParam}`);
           socket.destroy();
           return;
         }
@@ -1620,8 +3845,24 @@ export class Server {
         // Supported websocket endpoints:
         // - Note-taking conversations: /conversations/api/ws (Traefik -> /api/ws) and /api/ws (direct)
         // - Agent conversations: /agent-conversations/api/ws (Traefik -> /api/agent/ws) and /api/agent/ws (direct)
+        // - Live cursor-cli output of async executions: /api/execution/ws?requestId=...
         let topic: string | null = null;
-        if (pathname === '/api/ws' || pathname === '/conversations/api/ws') {
+        if (isExecutionEndpoint) {
+          // Execution output is protected like GET /cursor/jobs/:requestId/stream
+          const providedSecret = getProvidedWebhookSecret(
+            request.headers,
+            url.searchParams.get('secret')
+          );
+          if (!isValidWebhookSecret(providedSecret)) {
+            logger.warn('Unauthorized execution websocket request - invalid secret', {
+              requestId: conversationId,
+            });
+            socket.write('HTTP/1.1 401 Unauthorized\r\n\r\n');
+            socket.destroy();
+            return;
+          }
+          topic = `execution:${conversationId}`;
+        } else if (pathname === '/api/ws' || pathname === '/conversations/api/ws') {
           topic = `conversation:${conversationId}`;
         } else if (pathname === '/api/agent/ws' || pathname === '/agent-conversations/api/ws') {
           topic = `agent_conversation:${conversationId}`;
@@ -1655,7 +3896,7 @@ export class Server {
     });
 
     logger.info('WebSocket server ready', {
-      endpoints: ['/api/ws', '/api/agent/ws'],
+      endpoints: ['/api/ws', '/api/agent/ws', '/api/execution/ws'],
     });
   }
 
@@ -1670,6 +3911,11 @@ export class Server {
           environment: process.env.NODE_ENV || 'development',
         });
         this.setupWebSockets();
+        if (!this.disableBackgroundWorkers) {
+          this.cursorExecution.callbackDelivery.resumePending();
+          this.taskOperator.start();
+          this.taskScheduler.start();
+        }
         resolve();
       });
     });
@@ -1679,6 +3925,10 @@ export class Server {
    * Stop the server
    */
   async stop(): Promise<void> {
+    // Let the task operator hand its task back before the server goes away
+    await this.taskOperator.stop();
+    this.taskScheduler.stop();
+
     return new Promise<void>((resolve) => {
       if (this.server) {
         this.server.close(() => {
@@ -1726,8 +3976,9 @@ export class Server {
     // use the injected Redis client, which will be closed externally
     // But we should ensure they're not holding any references
 
-    // Clear any intervals/timeouts if we had any
-    // (Currently Server doesn't create any, but this is a safe place to add cleanup)
+    // Cancel scheduled callback retries (they stay pending and resume on the next start)
+    this.cursorExecution.callbackDelivery.stop();
+    this.idempotency.close();
 
     logger.info('Server shutdown complete');
   }
@@ -0,0 +1,306 @@
+import { randomUUID } from 'crypto';
+import { logger } from './logger.js';
+import { getErrorMessage } from './error-utils.js';
+import { isSystemSettingEnabled } from './system-settings.js';
+import { TaskService, type Task, type TaskRunResult } from './task-service.js';
+import { WorkerLeaseService } from './worker-lease-service.js';
+import type { CursorExecutionService } from './cursor-execution-service.js';
+import { getPositiveIntEnv } from './utils/env.js';
+
+/**
+ * Name of the system setting that turns the task operator on
+ */
+export const TASK_OPERATOR_SETTING = 'task_operator';
+
+/**
+ * Name of the lease that elects the instance running the task operator
+ */
+export const TASK_OPERATOR_LEASE = 'task_operator';
+
+/**
+ * Options for TaskOperatorService
+ */
+export interface TaskOperatorServiceOptions {
+  pollIntervalMs?: number;
+  leaseTtlMs?: number;
+  /**
+   * Whether the operator should pick up tasks (default: the task_operator system setting)
+   */
+  isEnabled?: () => boolean;
+  leaseService?: WorkerLeaseService;
+}
+
+/**
+ * Outcome of a task run, kept until it has been recorded
+ */
+interface TaskOutcome {
+  task: Task;
+  requestId: string;
+  runId: number | null;
+  result: TaskRunResult;
+}
+
+/**
+ * TaskOperatorService - Drains the tasks table by running ready tasks through cursor
+ *
+ * While the task_operator system setting is on, the operator polls for the next ready task
+ * (lowest order first), marks it in progress and executes its prompt. Tasks whose run succeeds
+ * are completed; failed runs are retried with backoff until the task's max_attempts are used up,
+ * after which it is backlogged. Every attempt is recorded in task_runs. A lease in the shared
+ * database makes sure only one instance processes tasks at a time; when an instance takes the
+ * lease, tasks left in progress by an instance that died mid-run are failed.
+ */
+export class TaskOperatorService {
+  private readonly taskService: TaskService;
+  private readonly cursorExecution: CursorExecutionService;
+  private readonly leases: WorkerLeaseService;
+  private readonly pollIntervalMs: number;
+  private readonly leaseTtlMs: number;
+  private readonly isEnabled: () => boolean;
+  private readonly holder = randomUUID();
+  private timer: NodeJS.Timeout | null = null;
+  private running: Promise<void> | null = null;
+  private controller: AbortController | null = null;
+  private holdsLease = false;
+  // Set until tasks left in progress have been failed since this instance took the lease
+  private needsRecovery = true;
+  private pendingOutcome: TaskOutcome | null = null;
+
+  constructor(
+    taskService: TaskService,
+    cursorExecution: CursorExecutionService,
+    options: TaskOperatorServiceOptions = {}
+  ) {
+    this.taskService = taskService;
+    this.cursorExecution = cursorExecution;
+    this.leases = options.leaseService ?? new WorkerLeaseService();
+    this.pollIntervalMs =
+      options.pollIntervalMs ?? getPositiveIntEnv('TASK_OPERATOR_POLL_INTERVAL_MS', 10000);
+    this.leaseTtlMs = options.leaseTtlMs ?? getPositiveIntEnv('TASK_OPERATOR_LOCK_TTL_MS', 60000);
+    this.isEnabled = options.isEnabled ?? (() => isSystemSettingEnabled(TASK_OPERATOR_SETTING));
+  }
+
+  /**
+   * Start polling for ready tasks
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      void this.tick();
+    }, this.pollIntervalMs);
+    this.timer.unref();
+    logger.info('Task operator started', { pollIntervalMs: this.pollIntervalMs });
+  }
+
+  /**
+   * Process the next ready task unless a task is already being processed
+   */
+  async tick(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+    this.running = this.processNextTask()
+      .catch((error) => {
+        logger.error('Task operator failed to process tasks', { error: getErrorMessage(error) });
+      })
+      .finally(() => {
+        this.running = null;
+      });
+    await this.running;
+  }
+
+  /**
+   * Claim and run the next ready task, if enabled and this instance holds the lease
+   */
+  private async processNextTask(): Promise<void> {
+    if (!this.isEnabled()) {
+      this.releaseLease();
+      return;
+    }
+
+    if (!this.leases.acquire(TASK_OPERATOR_LEASE, this.holder, this.leaseTtlMs)) {
+      this.holdsLease = false;
+      this.needsRecovery = true;
+      return;
+    }
+    this.holdsLease = true;
+
+    if (this.pendingOutcome && !this.recordOutcome(this.pendingOutcome)) {
+      return;
+    }
+
+    if (this.needsRecovery) {
+      // Only the lease holder runs tasks, so tasks left in progress have no live owner
+      const interrupted = this.taskService.failInterruptedTasks(
+        'Task run was interrupted before it finished'
+      );
+      this.needsRecovery = false;
+      if (interrupted.length > 0) {
+        logger.warn('Task operator failed interrupted tasks', {
+          taskIds: interrupted.map((task) => task.id),
+        });
+      }
+    }
+
+    const task = this.taskService.claimNextReadyTask();
+    if (task) {
+      await this.runTask(task);
+    }
+  }
+
+  /**
+   * Execute a claimed task and record the outcome on its status
+   */
+  private async runTask(task: Task): Promise<void> {
+    const requestId = `task-${task.id}-${Date.now()}`;
+    const controller = new AbortController();
+    this.controller = controller;
+    // Keep the lease while the run takes longer than its TTL
+    const renewal = setInterval(
+      () => {
+        try {
+          this.leases.acquire(TASK_OPERATOR_LEASE, this.holder, this.leaseTtlMs);
+        } catch (error) {
+          logger.warn('Failed to renew task operator lease', { error: getErrorMessage(error) });
+        }
+      },
+      Math.max(1000, Math.floor(this.leaseTtlMs / 2))
+    );
+    renewal.unref();
+
+    logger.info('Task operator running task', { taskId: task.id, requestId });
+
+    let runResult: TaskRunResult;
+    let runId: number | null = null;
+    try {
+      // Resolve the conversation up front so the run history can link to it
+      const conversationId = await this.cursorExecution.conversationService.getConversationId(
+        undefined,
+        'default'
+      );
+      runId = this.taskService.startTaskRun(task.id, {
+        requestId,
+        conversationId,
+        repository: task.repository,
+      }).id;
+
+      const result = await this.cursorExecution.execute({
+        repository: task.repository,
+        branchName: task.branch_name ?? undefined,
+        prompt: task.prompt,
+        requestId,
+        conversationId,
+        queueType: 'default',
+        signal: controller.signal,
+      });
+      const body = result.body as {
+        success?: boolean;
+        repository?: string | null;
+        exitCode?: number;
+        output?: string;
+        error?: string | null;
+      };
+      const succeeded = result.status === 200 && body.success === true && body.exitCode === 0;
+      runResult = {
+        status: succeeded ? 'succeeded' : 'failed',
+        repository: body.repository,
+        exitCode: body.exitCode,
+        output: body.output,
+        error: succeeded
+          ? body.error
+          : body.error || `cursor-cli exited with code ${body.exitCode ?? 'unknown'}`,
+      };
+    } catch (error) {
+      runResult = { status: 'failed', error: getErrorMessage(error) };
+    } finally {
+      clearInterval(renewal);
+      this.controller = null;
+    }
+
+    // A run cut short by shutdown did not fail; put the task back for the next run
+    if (controller.signal.aborted) {
+      runResult = { ...runResult, status: 'cancelled' };
+    }
+
+    this.recordOutcome({ task, requestId, runId, result: runResult });
+  }
+
+  /**
+   * Record a run's outcome in the run history and on the task's status
+   * @returns Whether it was recorded; if not, it is retried on the next tick
+   */
+  private recordOutcome(outcome: TaskOutcome): boolean {
+    const { task, requestId, runId, result } = outcome;
+    try {
+      if (runId !== null) {
+        this.taskService.finishTaskRun(runId, result);
+      }
+
+      let updated: Task | null;
+      if (result.status === 'cancelled') {
+        updated = this.taskService.requeueTask(task.id);
+      } else if (result.status === 'succeeded') {
+        updated = this.taskService.completeTask(task.id);
+      } else {
+        updated = this.taskService.failTask(task.id, result.error ?? 'Task run failed');
+        logger.warn('Task run failed', {
+          taskId: task.id,
+          requestId,
+          error: result.error,
+          attempts: updated?.attempt_count,
+          maxAttempts: updated?.max_attempts,
+          nextAttemptAt: updated?.next_attempt_at,
+        });
+      }
+      this.pendingOutcome = null;
+      logger.info('Task operator finished task', {
+        taskId: task.id,
+        requestId,
+        status: updated?.status_label,
+      });
+      return true;
+    } catch (error) {
+      this.pendingOutcome = outcome;
+      logger.error('Failed to record task outcome, retrying on the next tick', {
+        taskId: task.id,
+        requestId,
+        error: getErrorMessage(error),
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Give up the lease so another instance can take over
+   */
+  private releaseLease(): void {
+    if (!this.holdsLease) {
+      return;
+    }
+    this.holdsLease = false;
+    this.needsRecovery = true;
+    try {
+      this.leases.release(TASK_OPERATOR_LEASE, this.holder);
+    } catch (error) {
+      logger.warn('Failed to release task operator lease', { error: getErrorMessage(error) });
+    }
+  }
+
+  /**
+   * Stop polling, cancel the task in progress (it goes back to ready) and release the lease
+   */
+  async stop(): Promise<void> {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.controller?.abort();
+    if (this.running) {
+      await this.running;
+    }
+    this.releaseLease();
+    this.leases.close();
+  }
+}
@@ -0,0 +1,145 @@
+import { randomUUID } from 'crypto';
+import { logger } from './logger.js';
+import { getErrorMessage } from './error-utils.js';
+import { TaskService, type Task } from './task-service.js';
+import { TaskTemplateService, type TaskTemplate } from './task-template-service.js';
+import { WorkerLeaseService } from './worker-lease-service.js';
+import { getPositiveIntEnv } from './utils/env.js';
+
+/**
+ * Name of the lease that elects the instance running the task scheduler
+ */
+export const TASK_SCHEDULER_LEASE = 'task_scheduler';
+
+/**
+ * Options for TaskSchedulerService
+ */
+export interface TaskSchedulerServiceOptions {
+  pollIntervalMs?: number;
+  leaseTtlMs?: number;
+  /**
+   * How late a run may be picked up and still count as on time rather than missed
+   */
+  misfireGraceMs?: number;
+  leaseService?: WorkerLeaseService;
+}
+
+/**
+ * TaskSchedulerService - Creates tasks from task templates on their cron schedules
+ *
+ * The scheduler polls for enabled templates whose next run has come due and creates a ready
+ * task for each run, which the task operator then picks up. Runs that came due more than the
+ * misfire grace period ago (e.g. while no instance was up) are handled by the template's
+ * catch_up policy. A lease in the shared database makes sure only one instance schedules tasks
+ * at a time.
+ */
+export class TaskSchedulerService {
+  private readonly templates: TaskTemplateService;
+  private readonly taskService: TaskService;
+  private readonly leases: WorkerLeaseService;
+  private readonly pollIntervalMs: number;
+  private readonly leaseTtlMs: number;
+  private readonly misfireGraceMs: number;
+  private readonly holder = randomUUID();
+  private timer: NodeJS.Timeout | null = null;
+  private holdsLease = false;
+
+  constructor(
+    templates: TaskTemplateService,
+    taskService: TaskService,
+    options: TaskSchedulerServiceOptions = {}
+  ) {
+    this.templates = templates;
+    this.taskService = taskService;
+    this.leases = options.leaseService ?? new WorkerLeaseService();
+    this.pollIntervalMs =
+      options.pollIntervalMs ?? getPositiveIntEnv('TASK_SCHEDULER_POLL_INTERVAL_MS', 30000);
+    this.leaseTtlMs = options.leaseTtlMs ?? getPositiveIntEnv('TASK_SCHEDULER_LOCK_TTL_MS', 60000);
+    this.misfireGraceMs =
+      options.misfireGraceMs ?? getPositiveIntEnv('TASK_SCHEDULER_MISFIRE_GRACE_MS', 300000);
+  }
+
+  /**
+   * Start polling for due templates
+   */
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      this.tick();
+    }, this.pollIntervalMs);
+    this.timer.unref();
+    logger.info('Task scheduler started', { pollIntervalMs: this.pollIntervalMs });
+  }
+
+  /**
+   * Create the tasks of every template that has come due, if this instance holds the lease
+   * @param now - Current time
+   * @returns The tasks created
+   */
+  tick(now: Date = new Date()): Task[] {
+    const created: Task[] = [];
+    try {
+      if (!this.leases.acquire(TASK_SCHEDULER_LEASE, this.holder, this.leaseTtlMs)) {
+        this.holdsLease = false;
+        return created;
+      }
+      this.holdsLease = true;
+
+      const claimed = this.templates.claimDueTemplates(now, (template, runs) =>
+        this.getRunsToCreate(template, runs, now)
+      );
+      for (const { template, tasks } of claimed) {
+        for (const { run, taskId } of tasks) {
+          const task = this.taskService.getTaskById(taskId);
+          if (task) {
+            created.push(task);
+          }
+          logger.info('Task scheduler created task from template', {
+            templateId: template.id,
+            taskId,
+            scheduledFor: run,
+          });
+        }
+      }
+    } catch (error) {
+      logger.error('Task scheduler failed to create tasks', { error: getErrorMessage(error) });
+    }
+    return created;
+  }
+
+  /**
+   * Apply a template's catch_up policy to the runs that came due
+   */
+  private getRunsToCreate(template: TaskTemplate, runs: string[], now: Date): string[] {
+    switch (template.catch_up) {
+      case 'all':
+        return runs;
+      case 'skip':
+        return runs.filter((run) => now.getTime() - Date.parse(run) <= this.misfireGraceMs);
+      case 'once':
+      default:
+        return runs.slice(-1);
+    }
+  }
+
+  /**
+   * Stop polling and release the lease
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    if (this.holdsLease) {
+      this.holdsLease = false;
+      try {
+        this.leases.release(TASK_SCHEDULER_LEASE, this.holder);
+      } catch (error) {
+        logger.warn('Failed to release task scheduler lease', { error: getErrorMessage(error) });
+      }
+    }
+    this.leases.close();
+  }
+}
@@ -1,13 +1,9 @@
+import { randomUUID } from 'crypto';
+import path from 'path';
 import Database from 'better-sqlite3';
 import { logger } from './logger.js';
-
-/**
- * Get the path to the shared SQLite database
- * Reads from process.env dynamically to support testing with different DB paths
- */
-function getSharedDbPath(): string {
-  return process.env.SHARED_DB_PATH || '/app/shared_db/shared.sqlite3';
-}
+import { getSharedDbPath } from './utils/path-resolver.js';
+import { getPositiveIntEnv } from './utils/env.js';
 
 /**
  * Task status enum values
@@ -20,6 +16,18 @@ export enum TaskStatus {
   IN_PROGRESS = 4,
 }
 
+/**
+ * Task status label; 'blocked' is derived for ready tasks waiting on dependencies
+ */
+export type TaskStatusLabel =
+  | 'ready'
+  | 'complete'
+  | 'archived'
+  | 'backlogged'
+  | 'in_progress'
+  | 'blocked'
+  | 'unknown';
+
 /**
  * Task interface matching the database schema
  */
@@ -27,19 +35,549 @@ export interface Task {
   id: number;
   prompt: string;
   status: TaskStatus;
-  status_label: 'ready' | 'complete' | 'archived' | 'backlogged' | 'in_progress' | 'unknown';
+  status_label: TaskStatusLabel;
   createdat: string;
   updatedat: string;
   order: number;
   uuid: string | null;
+  /**
+   * IDs of the tasks that must be complete before this task can run
+   */
+  depends_on: number[];
+  /**
+   * Dependencies that are not complete yet
+   */
+  blocked_by: number[];
+  /**
+   * How many runs the task gets before it is moved to the backlog
+   */
+  max_attempts: number;
+  attempt_count: number;
+  last_error: string | null;
+  /**
+   * Earliest time a failed task is run again
+   */
+  next_attempt_at: string | null;
+  /**
+   * Repository (under the repositories directory) and branch the task runs on
+   */
+  repository: string | null;
+  branch_name: string | null;
+  priority: number;
+  due_at: string | null;
+  labels: string[];
+  metadata: Record<string, unknown> | null;
+}
+
+/**
+ * Task row as stored in the tasks table
+ */
+interface TaskRow {
+  id: number;
+  prompt: string;
+  status: number;
+  createdat: string;
+  updatedat: string;
+  order: number;
+  uuid: string | null;
+  max_attempts: number;
+  attempt_count: number;
+  last_error: string | null;
+  next_attempt_at: string | null;
+  repository: string | null;
+  branch_name: string | null;
+  priority: number;
+  due_at: string | null;
+  labels: string | null;
+  metadata: string | null;
+}
+
+/**
+ * Execution target and metadata fields that can be set on a task
+ */
+export interface TaskFields {
+  repository?: string | null;
+  branchName?: string | null;
+  priority?: number;
+  dueAt?: string | null;
+  labels?: string[];
+  metadata?: Record<string, unknown> | null;
+}
+
+/**
+ * Options for creating a task
+ */
+export interface CreateTaskOptions extends TaskFields {
+  /**
+   * IDs of existing tasks that must be complete before this task can run
+   */
+  dependsOn?: number[];
+  maxAttempts?: number;
+  /**
+   * UUID to give the task (a random one by default)
+   */
+  uuid?: string;
+}
+
+/**
+ * Fields tasks can be sorted by
+ */
+export const TASK_SORT_FIELDS = ['order', 'created', 'updated', 'priority', 'due'] as const;
+export type TaskSortField = (typeof TASK_SORT_FIELDS)[number];
+
+/**
+ * Filters, sorting and pagination for searching tasks
+ */
+export interface TaskQuery {
+  /**
+   * Full-text search on the prompt (every word must match, as a word prefix)
+   */
+  search?: string;
+  statuses?: TaskStatus[];
+  createdAfter?: string;
+  createdBefore?: string;
+  updatedAfter?: string;
+  updatedBefore?: string;
+  sort?: TaskSortField;
+  direction?: 'asc' | 'desc';
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * A page of task search results
+ */
+export interface TaskPage {
+  tasks: Task[];
+  /**
+   * Number of tasks matching the filters (across all pages)
+   */
+  total: number;
+}
+
+/**
+ * A task as exported and imported, with dependencies referenced by UUID
+ * Task IDs are local to a database, so tasks are matched by UUID on import.
+ */
+export interface TaskTransferRecord {
+  uuid: string | null;
+  prompt: string;
+  /**
+   * Stored status label (never the derived 'blocked')
+   */
+  status: TaskStatusLabel;
+  order: number;
+  priority: number;
+  repository: string | null;
+  branch_name: string | null;
+  due_at: string | null;
+  labels: string[];
+  metadata: Record<string, unknown> | null;
+  max_attempts: number;
+  attempt_count: number;
+  last_error: string | null;
+  next_attempt_at: string | null;
+  /**
+   * UUIDs of the tasks that must be complete before this task can run
+   */
+  depends_on: string[];
+  createdat: string;
+  updatedat: string;
+}
+
+/**
+ * Why a record could not be imported
+ */
+export interface TaskImportError {
+  /**
+   * Position of the record in the import (starting at 1)
+   */
+  row: number;
+  error: string;
+}
+
+/**
+ * Outcome of an import; when there are errors nothing is imported
+ */
+export interface TaskImportResult {
+  created: number;
+  updated: number;
+  errors: TaskImportError[];
+}
+
+/**
+ * A validated import record
+ */
+interface TaskImportRecord {
+  uuid?: string;
+  prompt: string;
+  status?: TaskStatus;
+  order?: number;
+  maxAttempts?: number;
+  attemptCount?: number;
+  lastError?: string | null;
+  nextAttemptAt?: string | null;
+  createdat?: string;
+  fields: TaskFields;
+  dependsOn?: string[];
+}
+
+/**
+ * Task columns for each sort field
+ */
+const SORT_COLUMNS: Record<TaskSortField, string> = {
+  order: '"order"',
+  created: 'createdat',
+  updated: 'updatedat',
+  priority: 'priority',
+  due: 'due_at',
+};
+
+/**
+ * Get the column values for the task fields that are set
+ */
+export function getTaskFieldColumns(fields: TaskFields): Array<[column: string, value: unknown]> {
+  const columns: Array<[string, unknown]> = [];
+  if (fields.repository !== undefined) {
+    columns.push(['repository', fields.repository]);
+  }
+  if (fields.branchName !== undefined) {
+    columns.push(['branch_name', fields.branchName]);
+  }
+  if (fields.priority !== undefined) {
+    columns.push(['priority', fields.priority]);
+  }
+  if (fields.dueAt !== undefined) {
+    columns.push(['due_at', fields.dueAt]);
+  }
+  if (fields.labels !== undefined) {
+    columns.push(['labels', JSON.stringify(fields.labels)]);
+  }
+  if (fields.metadata !== undefined) {
+    columns.push(['metadata', fields.metadata === null ? null : JSON.stringify(fields.metadata)]);
+  }
+  return columns;
+}
+
+/**
+ * Get the column values of a new task (its dependencies are stored separately)
+ */
+export function getNewTaskColumns(
+  prompt: string,
+  order: number,
+  status: TaskStatus,
+  options: Omit<CreateTaskOptions, 'dependsOn'> = {}
+): Array<[column: string, value: unknown]> {
+  const now = new Date().toISOString();
+  return [
+    ['prompt', prompt],
+    ['"order"', order],
+    ['status', status],
+    ['uuid', options.uuid ?? randomUUID()],
+    ['max_attempts', options.maxAttempts ?? DEFAULT_TASK_MAX_ATTEMPTS],
+    ['createdat', now],
+    ['updatedat', now],
+    ...getTaskFieldColumns(options),
+  ];
+}
+
+/**
+ * Validate the execution target and metadata fields of a task create/update body
+ * (repository, branch_name, priority, due_at, labels, metadata); absent fields are left out
+ * @returns The fields to store, or an error message
+ */
+export function parseTaskFields(
+  body: Record<string, unknown>
+): { fields: TaskFields } | { error: string } {
+  const fields: TaskFields = {};
+
+  if (body.repository !== undefined) {
+    const repository = body.repository;
+    if (
+      repository !== null &&
+      (typeof repository !== 'string' ||
+        repository.trim().length === 0 ||
+        path.isAbsolute(repository) ||
+        repository.split(/[\\/]/).includes('..'))
+    ) {
+      return { error: 'repository must be a repository name under the repositories directory' };
+    }
+    fields.repository = repository === null ? null : repository.trim();
+  }
+
+  if (body.branch_name !== undefined) {
+    const branchName = body.branch_name;
+    if (
+      branchName !== null &&
+      (typeof branchName !== 'string' ||
+        !/^[^\s~^:?*[\\]+$/.test(branchName) ||
+        branchName.startsWith('-') ||
+        branchName.includes('..') ||
+        branchName.endsWith('/') ||
+        branchName.endsWith('.lock'))
+    ) {
+      return { error: 'branch_name must be a valid git branch name' };
+    }
+    fields.branchName = branchName;
+  }
+
+  if (body.priority !== undefined) {
+    if (!Number.isInteger(body.priority)) {
+      return { error: 'priority must be an integer' };
+    }
+    fields.priority = body.priority as number;
+  }
+
+  if (body.due_at !== undefined) {
+    if (body.due_at === null) {
+      fields.dueAt = null;
+    } else {
+      const dueAt = typeof body.due_at === 'string' ? new Date(body.due_at) : null;
+      if (!dueAt || isNaN(dueAt.getTime())) {
+        return { error: 'due_at must be a date' };
+      }
+      fields.dueAt = dueAt.toISOString();
+    }
+  }
+
+  if (body.labels !== undefined) {
+    const labels = body.labels;
+    if (
+      !Array.isArray(labels) ||
+      !labels.every((label) => typeof label === 'string' && label.trim().length > 0)
+    ) {
+      return { error: 'labels must be a list of non-empty strings' };
+    }
+    // CSV exports join labels with commas
+    if ((labels as string[]).some((label) => label.includes(','))) {
+      return { error: 'labels must not contain commas' };
+    }
+    fields.labels = [...new Set((labels as string[]).map((label) => label.trim()))];
+  }
+
+  if (body.metadata !== undefined) {
+    const metadata = body.metadata;
+    if (metadata !== null && (typeof metadata !== 'object' || Array.isArray(metadata))) {
+      return { error: 'metadata must be a JSON object' };
+    }
+    fields.metadata = metadata as Record<string, unknown> | null;
+  }
+
+  return { fields };
+}
+
+/**
+ * Read a date as an ISO string
+ * @returns The date, or null if the value is not a date
+ */
+function toIsoDate(value: unknown): string | null {
+  const date = typeof value === 'string' ? new Date(value) : null;
+  return date && !isNaN(date.getTime()) ? date.toISOString() : null;
+}
+
+/**
+ * Validate a task import record (as produced by TaskService.exportTasks); absent fields are left
+ * out
+ * @returns The record to import, or an error message
+ */
+function parseTaskImportRecord(value: unknown): { record: TaskImportRecord } | { error: string } {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { error: 'Task must be an object' };
+  }
+  const body = value as Record<string, unknown>;
+
+  if (typeof body.prompt !== 'string' || body.prompt.trim().length === 0) {
+    return { error: 'Prompt is required and must be a non-empty string' };
+  }
+
+  const parsedFields = parseTaskFields(body);
+  if ('error' in parsedFields) {
+    return parsedFields;
+  }
+  const record: TaskImportRecord = { prompt: body.prompt, fields: parsedFields.fields };
+
+  if (body.uuid !== undefined && body.uuid !== null) {
+    if (typeof body.uuid !== 'string' || body.uuid.trim().length === 0) {
+      return { error: 'uuid must be a non-empty string' };
+    }
+    record.uuid = body.uuid.trim();
+  }
+
+  if (body.status !== undefined) {
+    const status = IMPORT_STATUSES.find(
+      (candidate) => candidate === body.status || getStatusLabel(candidate) === body.status
+    );
+    if (status === undefined) {
+      return {
+        error: `status must be one of: ${IMPORT_STATUSES.map(getStatusLabel).join(', ')}`,
+      };
+    }
+    // Tasks exported mid-run come back ready, since no run owns them here
+    record.status = status === TaskStatus.IN_PROGRESS ? TaskStatus.READY : status;
+  }
+
+  if (body.order !== undefined) {
+    if (!Number.isInteger(body.order)) {
+      return { error: 'order must be an integer' };
+    }
+    record.order = body.order as number;
+  }
+
+  if (body.max_attempts !== undefined) {
+    if (!Number.isInteger(body.max_attempts) || (body.max_attempts as number) < 1) {
+      return { error: 'max_attempts must be a positive integer' };
+    }
+    record.maxAttempts = body.max_attempts as number;
+  }
+
+  if (body.attempt_count !== undefined) {
+    if (!Number.isInteger(body.attempt_count) || (body.attempt_count as number) < 0) {
+      return { error: 'attempt_count must be a non-negative integer' };
+    }
+    record.attemptCount = body.attempt_count as number;
+  }
+
+  if (body.last_error !== undefined) {
+    if (body.last_error !== null && typeof body.last_error !== 'string') {
+      return { error: 'last_error must be a string' };
+    }
+    record.lastError = body.last_error;
+  }
+
+  if (body.next_attempt_at !== undefined) {
+    const nextAttemptAt = body.next_attempt_at === null ? null : toIsoDate(body.next_attempt_at);
+    if (body.next_attempt_at !== null && nextAttemptAt === null) {
+      return { error: 'next_attempt_at must be a date' };
+    }
+    record.nextAttemptAt = nextAttemptAt;
+  }
+
+  if (body.createdat !== undefined) {
+    const createdat = toIsoDate(body.createdat);
+    if (createdat === null) {
+      return { error: 'createdat must be a date' };
+    }
+    record.createdat = createdat;
+  }
+
+  if (body.depends_on !== undefined) {
+    const dependsOn = body.depends_on;
+    if (
+      !Array.isArray(dependsOn) ||
+      !dependsOn.every((uuid) => typeof uuid === 'string' && uuid.trim().length > 0)
+    ) {
+      return { error: 'depends_on must be a list of task UUIDs' };
+    }
+    record.dependsOn = [...new Set((dependsOn as string[]).map((uuid) => uuid.trim()))];
+  }
+
+  return { record };
+}
+
+/**
+ * Get the task columns an import record sets
+ */
+function getImportColumns(record: TaskImportRecord): Array<[string, unknown]> {
+  const columns: Array<[string, unknown]> = [['prompt', record.prompt]];
+  const optional: Array<[string, unknown]> = [
+    ['status', record.status],
+    ['"order"', record.order],
+    ['max_attempts', record.maxAttempts],
+    ['attempt_count', record.attemptCount],
+    ['last_error', record.lastError],
+    ['next_attempt_at', record.nextAttemptAt],
+  ];
+  columns.push(...optional.filter(([, value]) => value !== undefined));
+  return [...columns, ...getTaskFieldColumns(record.fields)];
+}
+
+/**
+ * Turn a search string into an FTS5 query matching every word as a prefix
+ * Words are quoted so FTS5 syntax in the input is matched literally.
+ */
+function toFtsQuery(search: string): string {
+  return search
+    .split(/\s+/)
+    .filter((word) => word.length > 0)
+    .map((word) => `"${word.replace(/"/g, '""')}"*`)
+    .join(' ');
+}
+
+/**
+ * Options for TaskService
+ */
+export interface TaskServiceOptions {
+  retryBaseDelayMs?: number;
+  retryMaxDelayMs?: number;
+}
+
+/**
+ * Number of runs a task gets unless it sets max_attempts
+ */
+export const DEFAULT_TASK_MAX_ATTEMPTS = 3;
+
+/**
+ * A dependency of a task and the dependency's current status
+ */
+interface TaskDependency {
+  id: number;
+  status: TaskStatus | null;
+}
+
+/**
+ * Outcome of a task run
+ */
+export type TaskRunStatus = 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+/**
+ * Task run interface matching the task_runs table
+ */
+export interface TaskRun {
+  id: number;
+  task_id: number;
+  request_id: string;
+  conversation_id: string | null;
+  repository: string | null;
+  status: TaskRunStatus;
+  started_at: string;
+  finished_at: string | null;
+  exit_code: number | null;
+  output_excerpt: string | null;
+  error: string | null;
+}
+
+/**
+ * Result of a finished task run
+ */
+export interface TaskRunResult {
+  status: Exclude<TaskRunStatus, 'running'>;
+  repository?: string | null;
+  exitCode?: number | null;
+  output?: string | null;
+  error?: string | null;
+}
+
+/**
+ * Maximum number of output characters kept per run (the end of the output is kept)
+ */
+export const TASK_RUN_OUTPUT_EXCERPT_LENGTH = 4000;
+
+/**
+ * Get the delay before a failed task is run again: exponential backoff capped at maxDelayMs
+ * @param attempt - Number of attempts made so far (1 after the first failure)
+ */
+export function getTaskRetryDelay(
+  attempt: number,
+  baseDelayMs: number,
+  maxDelayMs: number
+): number {
+  return Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
 }
 
 /**
  * Convert task status number to label
  */
-function getStatusLabel(
-  status: TaskStatus
-): 'ready' | 'complete' | 'archived' | 'backlogged' | 'in_progress' | 'unknown' {
+function getStatusLabel(status: TaskStatus): TaskStatusLabel {
   switch (status) {
     case TaskStatus.READY:
       return 'ready';
@@ -57,21 +595,33 @@ function getStatusLabel(
 }
 
 /**
- * Map database row to Task interface with status_label
+ * Statuses a task can be imported with (in_progress is imported as ready)
  */
-function mapTaskRow(row: {
-  id: number;
-  prompt: string;
-  status: number;
-  createdat: string;
-  updatedat: string;
-  order: number;
-  uuid: string | null;
-}): Task {
+const IMPORT_STATUSES = [
+  TaskStatus.READY,
+  TaskStatus.COMPLETE,
+  TaskStatus.ARCHIVED,
+  TaskStatus.BACKLOGGED,
+  TaskStatus.IN_PROGRESS,
+];
+
+/**
+ * Map database row to Task interface with status_label and dependencies
+ */
+function mapTaskRow(row: TaskRow, dependencies: TaskDependency[] = []): Task {
+  const status = row.status as TaskStatus;
+  const blockedBy = dependencies
+    .filter((dependency) => dependency.status !== TaskStatus.COMPLETE)
+    .map((dependency) => dependency.id);
   return {
     ...row,
-    status: row.status as TaskStatus,
-    status_label: getStatusLabel(row.status as TaskStatus),
+    labels: row.labels ? (JSON.parse(row.labels) as string[]) : [],
+    metadata: row.metadata ? (JSON.parse(row.metadata) as Record<string, unknown>) : null,
+    status,
+    status_label:
+      status === TaskStatus.READY && blockedBy.length > 0 ? 'blocked' : getStatusLabel(status),
+    depends_on: dependencies.map((dependency) => dependency.id),
+    blocked_by: blockedBy,
   };
 }
 
@@ -80,6 +630,15 @@ function mapTaskRow(row: {
  */
 export class TaskService {
   private db: Database.Database | null = null;
+  private readonly retryBaseDelayMs: number;
+  private readonly retryMaxDelayMs: number;
+
+  constructor(options: TaskServiceOptions = {}) {
+    this.retryBaseDelayMs =
+      options.retryBaseDelayMs ?? getPositiveIntEnv('TASK_RETRY_BASE_DELAY_MS', 60000);
+    this.retryMaxDelayMs =
+      options.retryMaxDelayMs ?? getPositiveIntEnv('TASK_RETRY_MAX_DELAY_MS', 3600000);
+  }
 
   /**
    * Get database connection (lazy initialization)
@@ -108,55 +667,332 @@ export class TaskService {
    * List all tasks, optionally filtered by status
    */
   listTasks(status?: TaskStatus): Task[] {
+    return this.searchTasks({ statuses: status !== undefined ? [status] : undefined }).tasks;
+  }
+
+  /**
+   * Search tasks with filters, sorting and pagination
+   */
+  searchTasks(query: TaskQuery = {}): TaskPage {
     try {
       const db = this.getDatabase();
-      let query = 'SELECT * FROM tasks';
+      const conditions: string[] = [];
       const params: unknown[] = [];
 
-      if (status !== undefined) {
-        query += ' WHERE status = ?';
-        params.push(status);
+      const ftsQuery = query.search ? toFtsQuery(query.search) : '';
+      if (ftsQuery) {
+        conditions.push('id IN (SELECT rowid FROM tasks_fts WHERE tasks_fts MATCH ?)');
+        params.push(ftsQuery);
+      }
+
+      if (query.statuses && query.statuses.length > 0) {
+        conditions.push(`status IN (${query.statuses.map(() => '?').join(', ')})`);
+        params.push(...query.statuses);
+      }
+
+      const ranges: Array<[string | undefined, string]> = [
+        [query.createdAfter, 'createdat >= ?'],
+        [query.createdBefore, 'createdat <= ?'],
+        [query.updatedAfter, 'updatedat >= ?'],
+        [query.updatedBefore, 'updatedat <= ?'],
+      ];
+      for (const [value, condition] of ranges) {
+        if (value !== undefined) {
+          conditions.push(condition);
+          params.push(value);
+        }
+      }
+
+      const where = conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '';
+      const { total } = db
+        .prepare(`SELECT COUNT(*) AS total FROM tasks${where}`)
+        .get(...params) as {
+        total: number;
+      };
+
+      const direction = query.direction === 'desc' ? 'DESC' : 'ASC';
+      let sql = `SELECT * FROM tasks${where} ORDER BY ${SORT_COLUMNS[query.sort ?? 'order']} ${direction}, id ${direction}`;
+      const pageParams = [...params];
+      if (query.limit !== undefined || query.offset !== undefined) {
+        sql += ' LIMIT ? OFFSET ?';
+        pageParams.push(query.limit ?? -1, query.offset ?? 0);
       }
 
-      query += ' ORDER BY "order" ASC, id ASC';
-
-      const rows = db.prepare(query).all(...params) as Array<{
-        id: number;
-        prompt: string;
-        status: number;
-        createdat: string;
-        updatedat: string;
-        order: number;
-        uuid: string | null;
-      }>;
-      return rows.map(mapTaskRow);
+      const rows = db.prepare(sql).all(...pageParams) as TaskRow[];
+      const dependencies = this.getDependencies();
+      return { tasks: rows.map((row) => mapTaskRow(row, dependencies.get(row.id))), total };
+    } catch (error) {
+      logger.error('Failed to search tasks', {
+        error: error instanceof Error ? error.message : String(error),
+        query,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get the IDs in a list that do not belong to any task
+   */
+  getMissingTaskIds(ids: number[]): number[] {
+    const exists = this.getDatabase().prepare('SELECT 1 FROM tasks WHERE id = ?');
+    return ids.filter((id) => !exists.get(id));
+  }
+
+  /**
+   * Reorder tasks: each task gets its position in the list as its order
+   * @returns The reordered tasks, in their new order
+   */
+  reorderTasks(ids: number[]): Task[] {
+    try {
+      const db = this.getDatabase();
+      const now = new Date().toISOString();
+      const update = db.prepare('UPDATE tasks SET "order" = ?, updatedat = ? WHERE id = ?');
+      db.transaction(() => {
+        ids.forEach((id, index) => {
+          if (update.run(index, now, id).changes === 0) {
+            throw new Error(`Task ${id} not found`);
+          }
+        });
+      })();
+      return ids.map((id) => this.getTaskById(id) as Task);
+    } catch (error) {
+      logger.error('Failed to reorder tasks', {
+        error: error instanceof Error ? error.message : String(error),
+        ids,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Set the status of several tasks at once
+   * @returns Number of tasks updated
+   */
+  updateTaskStatuses(ids: number[], status: TaskStatus): number {
+    try {
+      const db = this.getDatabase();
+      const now = new Date().toISOString();
+      const update = db.prepare('UPDATE tasks SET status = ?, updatedat = ? WHERE id = ?');
+      return db.transaction(() =>
+        ids.reduce((count, id) => count + update.run(status, now, id).changes, 0)
+      )();
     } catch (error) {
-      logger.error('Failed to list tasks', {
+      logger.error('Failed to update task statuses', {
         error: error instanceof Error ? error.message : String(error),
+        ids,
         status,
       });
       throw error;
     }
   }
 
+  /**
+   * Delete several tasks at once (with their run history and dependency links)
+   * @returns Number of tasks deleted
+   */
+  deleteTasks(ids: number[]): number {
+    try {
+      const db = this.getDatabase();
+      return db.transaction(() => ids.reduce((count, id) => count + this.deleteTaskRows(id), 0))();
+    } catch (error) {
+      logger.error('Failed to delete tasks', {
+        error: error instanceof Error ? error.message : String(error),
+        ids,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Export every task (in order), with dependencies referenced by UUID
+   */
+  exportTasks(): TaskTransferRecord[] {
+    try {
+      const tasks = this.listTasks();
+      const uuids = new Map(tasks.map((task) => [task.id, task.uuid]));
+      return tasks.map((task) => ({
+        uuid: task.uuid,
+        prompt: task.prompt,
+        status: getStatusLabel(task.status),
+        order: task.order,
+        priority: task.priority,
+        repository: task.repository,
+        branch_name: task.branch_name,
+        due_at: task.due_at,
+        labels: task.labels,
+        metadata: task.metadata,
+        max_attempts: task.max_attempts,
+        attempt_count: task.attempt_count,
+        last_error: task.last_error,
+        next_attempt_at: task.next_attempt_at,
+        depends_on: task.depends_on
+          .map((id) => uuids.get(id))
+          .filter((uuid): uuid is string => typeof uuid === 'string'),
+        createdat: task.createdat,
+        updatedat: task.updatedat,
+      }));
+    } catch (error) {
+      logger.error('Failed to export tasks', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Import tasks in a single transaction: records whose UUID matches a task update it, others
+   * create a task
+   * Every record is validated first; if any record is invalid nothing is imported. depends_on
+   * (when given) replaces a task's dependencies and may reference tasks in the database or in
+   * the import.
+   * @param records - Records as produced by exportTasks (only prompt is required)
+   * @returns Numbers of tasks created and updated, or the errors of the invalid records
+   */
+  importTasks(records: unknown[]): TaskImportResult {
+    try {
+      const db = this.getDatabase();
+      const errors: TaskImportError[] = [];
+      const imports: Array<{ row: number; record: TaskImportRecord & { uuid: string } }> = [];
+      const uuids = new Set<string>();
+      records.forEach((value, index) => {
+        const row = index + 1;
+        const parsed = parseTaskImportRecord(value);
+        if ('error' in parsed) {
+          errors.push({ row, error: parsed.error });
+          return;
+        }
+        const uuid = parsed.record.uuid ?? randomUUID();
+        if (uuids.has(uuid)) {
+          errors.push({ row, error: `Task ${uuid} appears more than once` });
+          return;
+        }
+        uuids.add(uuid);
+        imports.push({ row, record: { ...parsed.record, uuid } });
+      });
+
+      const findTask = db.prepare('SELECT id FROM tasks WHERE uuid = ?');
+      const findRunningTask = db.prepare('SELECT id FROM tasks WHERE uuid = ? AND status = ?');
+      for (const { row, record } of imports) {
+        if (findRunningTask.get(record.uuid, TaskStatus.IN_PROGRESS)) {
+          errors.push({ row, error: `Task ${record.uuid} is in progress and cannot be updated` });
+          continue;
+        }
+        const missing = (record.dependsOn ?? []).find(
+          (uuid) => !uuids.has(uuid) && !findTask.get(uuid)
+        );
+        if (missing !== undefined) {
+          errors.push({ row, error: `Task ${missing} in depends_on does not exist` });
+        } else if (record.dependsOn?.includes(record.uuid)) {
+          errors.push({ row, error: 'A task cannot depend on itself' });
+        }
+      }
+      if (errors.length > 0) {
+        return { created: 0, updated: 0, errors: errors.sort((a, b) => a.row - b.row) };
+      }
+
+      let created = 0;
+      let updated = 0;
+      const rollback = new Error('Task import rolled back');
+      try {
+        db.transaction(() => {
+          const now = new Date().toISOString();
+          const ids = new Map<string, number>();
+          for (const { row, record } of imports) {
+            const columns = getImportColumns(record);
+            const existing = findTask.get(record.uuid) as { id: number } | undefined;
+            if (existing) {
+              // The operator may have claimed the task since it was validated
+              const result = db
+                .prepare(
+                  `UPDATE tasks SET ${columns.map(([column]) => `${column} = ?`).join(', ')},
+                   updatedat = ? WHERE id = ? AND status != ?`
+                )
+                .run(
+                  ...columns.map(([, value]) => value),
+                  now,
+                  existing.id,
+                  TaskStatus.IN_PROGRESS
+                );
+              if (result.changes === 0) {
+                errors.push({
+                  row,
+                  error: `Task ${record.uuid} is in progress and cannot be updated`,
+                });
+                throw rollback;
+              }
+              ids.set(record.uuid, existing.id);
+              updated++;
+            } else {
+              columns.push(
+                ['uuid', record.uuid],
+                ['createdat', record.createdat ?? now],
+                ['updatedat', now]
+              );
+              const result = db
+                .prepare(
+                  `INSERT INTO tasks (${columns.map(([column]) => column).join(', ')})
+                   VALUES (${columns.map(() => '?').join(', ')})`
+                )
+                .run(...columns.map(([, value]) => value));
+              ids.set(record.uuid, result.lastInsertRowid as number);
+              created++;
+            }
+          }
+
+          // Links are replaced once every task exists; the old links go first so cycles are
+          // checked against the dependencies being imported
+          const linked = imports.filter(({ record }) => record.dependsOn !== undefined);
+          for (const { record } of linked) {
+            db.prepare('DELETE FROM task_dependencies WHERE task_id = ?').run(ids.get(record.uuid));
+          }
+          for (const { row, record } of linked) {
+            const taskId = ids.get(record.uuid) as number;
+            const dependsOn = (record.dependsOn as string[]).map(
+              (uuid) => ids.get(uuid) ?? (findTask.get(uuid) as { id: number }).id
+            );
+            const cyclic = dependsOn.findIndex(
+              (dependencyId) => this.getDependencyError(taskId, [dependencyId]) !== null
+            );
+            if (cyclic !== -1) {
+              errors.push({
+                row,
+                error: `Depending on task ${(record.dependsOn as string[])[cyclic]} would create a cycle`,
+              });
+              continue;
+            }
+            this.insertDependencies(taskId, dependsOn);
+          }
+
+          if (errors.length > 0) {
+            throw rollback;
+          }
+        })();
+      } catch (error) {
+        if (error !== rollback) {
+          throw error;
+        }
+        return { created: 0, updated: 0, errors };
+      }
+
+      logger.info('Tasks imported', { created, updated });
+      return { created, updated, errors };
+    } catch (error) {
+      logger.error('Failed to import tasks', {
+        error: error instanceof Error ? error.message : String(error),
+        count: records.length,
+      });
+      throw error;
+    }
+  }
+
   /**
    * Get a task by ID
    */
   getTaskById(id: number): Task | null {
     try {
       const db = this.getDatabase();
-      const row = db.prepare('SELECT * FROM tasks WHERE id = ?').get(id) as
-        | {
-            id: number;
-            prompt: string;
-            status: number;
-            createdat: string;
-            updatedat: string;
-            order: number;
-            uuid: string | null;
-          }
-        | undefined;
-      return row ? mapTaskRow(row) : null;
+      const row = db.prepare('SELECT * FROM tasks WHERE id = ?').get(id) as TaskRow | undefined;
+      return row ? mapTaskRow(row, this.getDependencies(id).get(id)) : null;
     } catch (error) {
       logger.error('Failed to get task by ID', {
         error: error instanceof Error ? error.message : String(error),
@@ -169,17 +1005,34 @@ export class TaskService {
   /**
    * Create a new task
    */
-  createTask(prompt: string, order: number = 0, status: TaskStatus = TaskStatus.READY): Task {
+  createTask(
+    prompt: string,
+    order: number = 0,
+    status: TaskStatus = TaskStatus.READY,
+    options: CreateTaskOptions = {}
+  ): Task {
     try {
+      const dependsOn = options.dependsOn ?? [];
+      const dependencyError = this.getDependencyError(null, dependsOn);
+      if (dependencyError) {
+        throw new Error(dependencyError);
+      }
+
       const db = this.getDatabase();
-      const now = new Date().toISOString();
-      const result = db
-        .prepare(
-          'INSERT INTO tasks (prompt, "order", status, createdat, updatedat) VALUES (?, ?, ?, ?, ?)'
-        )
-        .run(prompt, order, status, now, now);
+      const columns = getNewTaskColumns(prompt, order, status, options);
+      const id = db.transaction(() => {
+        const result = db
+          .prepare(
+            `INSERT INTO tasks (${columns.map(([column]) => column).join(', ')})
+             VALUES (${columns.map(() => '?').join(', ')})`
+          )
+          .run(...columns.map(([, value]) => value));
+        const taskId = result.lastInsertRowid as number;
+        this.insertDependencies(taskId, dependsOn);
+        return taskId;
+      })();
 
-      const task = this.getTaskById(result.lastInsertRowid as number);
+      const task = this.getTaskById(id);
       if (!task) {
         throw new Error('Failed to retrieve created task');
       }
@@ -204,7 +1057,8 @@ export class TaskService {
       prompt?: string;
       status?: TaskStatus;
       order?: number;
-    }
+      maxAttempts?: number;
+    } & TaskFields
   ): Task | null {
     try {
       const db = this.getDatabase();
@@ -226,6 +1080,16 @@ export class TaskService {
         params.push(updates.order);
       }
 
+      if (updates.maxAttempts !== undefined) {
+        updatesList.push('max_attempts = ?');
+        params.push(updates.maxAttempts);
+      }
+
+      for (const [column, value] of getTaskFieldColumns(updates)) {
+        updatesList.push(`${column} = ?`);
+        params.push(value);
+      }
+
       if (updatesList.length === 0) {
         return this.getTaskById(id);
       }
@@ -248,13 +1112,420 @@ export class TaskService {
   }
 
   /**
-   * Delete a task
+   * Claim the next ready task (lowest order, then id) by marking it in progress
+   * Ready tasks are skipped while any of their dependencies is not complete, and failed tasks
+   * until their next attempt is due
+   * @returns The claimed task, or null if no task is ready
+   */
+  claimNextReadyTask(): Task | null {
+    try {
+      const db = this.getDatabase();
+      const claim = db.transaction((): number | null => {
+        const row = db
+          .prepare(
+            `SELECT id FROM tasks
+             WHERE status = ?
+               AND (next_attempt_at IS NULL OR next_attempt_at <= ?)
+               AND NOT EXISTS (
+                 SELECT 1 FROM task_dependencies d
+                 LEFT JOIN tasks dependency ON dependency.id = d.depends_on_task_id
+                 WHERE d.task_id = tasks.id
+                   AND (dependency.status IS NULL OR dependency.status != ?)
+               )
+             ORDER BY "order" ASC, id ASC
+             LIMIT 1`
+          )
+          .get(TaskStatus.READY, new Date().toISOString(), TaskStatus.COMPLETE) as
+          | { id: number }
+          | undefined;
+        if (!row) {
+          return null;
+        }
+        db.prepare('UPDATE tasks SET status = ?, updatedat = ? WHERE id = ? AND status = ?').run(
+          TaskStatus.IN_PROGRESS,
+          new Date().toISOString(),
+          row.id,
+          TaskStatus.READY
+        );
+        return row.id;
+      });
+
+      // IMMEDIATE takes the write lock up front so two processes cannot claim the same task
+      const id = claim.immediate();
+      return id === null ? null : this.getTaskById(id);
+    } catch (error) {
+      logger.error('Failed to claim next ready task', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Record a successful attempt: the task is complete
+   * Only tasks still in progress are updated, so a task archived or backlogged during its run
+   * keeps that status.
+   */
+  completeTask(id: number): Task | null {
+    try {
+      this.getDatabase()
+        .prepare(
+          `UPDATE tasks
+           SET status = ?, attempt_count = attempt_count + 1, last_error = NULL,
+               next_attempt_at = NULL, updatedat = ?
+           WHERE id = ? AND status = ?`
+        )
+        .run(TaskStatus.COMPLETE, new Date().toISOString(), id, TaskStatus.IN_PROGRESS);
+      return this.getTaskById(id);
+    } catch (error) {
+      logger.error('Failed to complete task', {
+        error: error instanceof Error ? error.message : String(error),
+        id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Record a failed attempt
+   * The task goes back to ready with its next attempt delayed by exponential backoff, or to the
+   * backlog once it has used up max_attempts. Only tasks still in progress are updated.
+   */
+  failTask(id: number, errorMessage: string): Task | null {
+    try {
+      const db = this.getDatabase();
+      db.transaction(() => {
+        const row = db
+          .prepare('SELECT attempt_count, max_attempts FROM tasks WHERE id = ? AND status = ?')
+          .get(id, TaskStatus.IN_PROGRESS) as
+          | { attempt_count: number; max_attempts: number }
+          | undefined;
+        if (!row) {
+          return;
+        }
+
+        const attempts = row.attempt_count + 1;
+        const exhausted = attempts >= row.max_attempts;
+        const now = Date.now();
+        const nextAttemptAt = exhausted
+          ? null
+          : new Date(
+              now + getTaskRetryDelay(attempts, this.retryBaseDelayMs, this.retryMaxDelayMs)
+            ).toISOString();
+        db.prepare(
+          `UPDATE tasks
+           SET status = ?, attempt_count = ?, last_error = ?, next_attempt_at = ?, updatedat = ?
+           WHERE id = ?`
+        ).run(
+          exhausted ? TaskStatus.BACKLOGGED : TaskStatus.READY,
+          attempts,
+          errorMessage,
+          nextAttemptAt,
+          new Date(now).toISOString(),
+          id
+        );
+      })();
+      return this.getTaskById(id);
+    } catch (error) {
+      logger.error('Failed to record task failure', {
+        error: error instanceof Error ? error.message : String(error),
+        id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Put a task in progress back in the queue without counting an attempt
+   */
+  requeueTask(id: number): Task | null {
+    try {
+      this.getDatabase()
+        .prepare('UPDATE tasks SET status = ?, updatedat = ? WHERE id = ? AND status = ?')
+        .run(TaskStatus.READY, new Date().toISOString(), id, TaskStatus.IN_PROGRESS);
+      return this.getTaskById(id);
+    } catch (error) {
+      logger.error('Failed to requeue task', {
+        error: error instanceof Error ? error.message : String(error),
+        id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Fail every task left in progress, along with its unfinished runs
+   * Each counts as a failed attempt, so a task that keeps taking its instance down ends up in the
+   * backlog instead of being retried forever.
+   * @param errorMessage - Error recorded on the tasks and their runs
+   * @returns The failed tasks
+   */
+  failInterruptedTasks(errorMessage: string): Task[] {
+    try {
+      const db = this.getDatabase();
+      const fail = db.transaction((): number[] => {
+        const rows = db
+          .prepare('SELECT id FROM tasks WHERE status = ? ORDER BY id ASC')
+          .all(TaskStatus.IN_PROGRESS) as Array<{ id: number }>;
+        db.prepare(
+          `UPDATE task_runs SET status = 'failed', finished_at = ?, error = ?
+           WHERE status = 'running'
+             AND task_id IN (SELECT id FROM tasks WHERE status = ?)`
+        ).run(new Date().toISOString(), errorMessage, TaskStatus.IN_PROGRESS);
+        for (const { id } of rows) {
+          this.failTask(id, errorMessage);
+        }
+        return rows.map(({ id }) => id);
+      });
+
+      return fail
+        .immediate()
+        .map((id) => this.getTaskById(id))
+        .filter((task): task is Task => task !== null);
+    } catch (error) {
+      logger.error('Failed to fail interrupted tasks', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Reset a task's attempts and put it back in the queue
+   */
+  retryTask(id: number): Task | null {
+    try {
+      this.getDatabase()
+        .prepare(
+          `UPDATE tasks
+           SET status = ?, attempt_count = 0, last_error = NULL, next_attempt_at = NULL,
+               updatedat = ?
+           WHERE id = ?`
+        )
+        .run(TaskStatus.READY, new Date().toISOString(), id);
+      return this.getTaskById(id);
+    } catch (error) {
+      logger.error('Failed to retry task', {
+        error: error instanceof Error ? error.message : String(error),
+        id,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Record the start of a task run
+   */
+  startTaskRun(
+    taskId: number,
+    run: { requestId: string; conversationId?: string | null; repository?: string | null }
+  ): TaskRun {
+    try {
+      const db = this.getDatabase();
+      const result = db
+        .prepare(
+          `INSERT INTO task_runs (task_id, request_id, conversation_id, repository, status, started_at)
+           VALUES (?, ?, ?, ?, 'running', ?)`
+        )
+        .run(
+          taskId,
+          run.requestId,
+          run.conversationId ?? null,
+          run.repository ?? null,
+          new Date().toISOString()
+        );
+      return db
+        .prepare('SELECT * FROM task_runs WHERE id = ?')
+        .get(result.lastInsertRowid) as TaskRun;
+    } catch (error) {
+      logger.error('Failed to record task run start', {
+        error: error instanceof Error ? error.message : String(error),
+        taskId,
+        requestId: run.requestId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Record the outcome of a task run
+   */
+  finishTaskRun(runId: number, result: TaskRunResult): TaskRun | null {
+    try {
+      const db = this.getDatabase();
+      const output = result.output ?? null;
+      db.prepare(
+        `UPDATE task_runs
+         SET status = ?, finished_at = ?, exit_code = ?, output_excerpt = ?, error = ?,
+             repository = COALESCE(?, repository)
+         WHERE id = ?`
+      ).run(
+        result.status,
+        new Date().toISOString(),
+        result.exitCode ?? null,
+        output !== null ? output.slice(-TASK_RUN_OUTPUT_EXCERPT_LENGTH) : null,
+        result.error ?? null,
+        result.repository ?? null,
+        runId
+      );
+      const row = db.prepare('SELECT * FROM task_runs WHERE id = ?').get(runId) as
+        | TaskRun
+        | undefined;
+      return row ?? null;
+    } catch (error) {
+      logger.error('Failed to record task run result', {
+        error: error instanceof Error ? error.message : String(error),
+        runId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * List the runs of a task, most recent first
+   */
+  listTaskRuns(taskId: number): TaskRun[] {
+    try {
+      const db = this.getDatabase();
+      return db
+        .prepare('SELECT * FROM task_runs WHERE task_id = ? ORDER BY started_at DESC, id DESC')
+        .all(taskId) as TaskRun[];
+    } catch (error) {
+      logger.error('Failed to list task runs', {
+        error: error instanceof Error ? error.message : String(error),
+        taskId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get why a set of dependencies cannot be given to a task, if it cannot
+   * @param taskId - Task the dependencies are for (null for a task that is being created)
+   * @param dependsOn - IDs of the tasks it would depend on
+   * @returns Error message, or null if the dependencies are valid
+   */
+  getDependencyError(taskId: number | null, dependsOn: unknown): string | null {
+    if (
+      !Array.isArray(dependsOn) ||
+      !dependsOn.every((dependencyId) => Number.isInteger(dependencyId))
+    ) {
+      return 'depends_on must be an array of task IDs';
+    }
+    if (taskId !== null && dependsOn.includes(taskId)) {
+      return 'A task cannot depend on itself';
+    }
+
+    const db = this.getDatabase();
+    for (const dependencyId of dependsOn as number[]) {
+      if (!db.prepare('SELECT 1 FROM tasks WHERE id = ?').get(dependencyId)) {
+        return `Task ${dependencyId} in depends_on does not exist`;
+      }
+    }
+
+    if (taskId === null) {
+      return null;
+    }
+
+    // Depending on a task that (transitively) depends on this task would close a cycle
+    const dependencies = this.getDependencies();
+    for (const dependencyId of dependsOn as number[]) {
+      const visited = new Set<number>();
+      const pending = [dependencyId];
+      while (pending.length > 0) {
+        const current = pending.pop() as number;
+        if (current === taskId) {
+          return `Depending on task ${dependencyId} would create a cycle`;
+        }
+        if (visited.has(current)) {
+          continue;
+        }
+        visited.add(current);
+        pending.push(...(dependencies.get(current) ?? []).map((dependency) => dependency.id));
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Replace the dependencies of a task
+   * @throws Error if a dependency does not exist or would create a cycle
+   */
+  setTaskDependencies(id: number, dependsOn: number[]): Task | null {
+    try {
+      const dependencyError = this.getDependencyError(id, dependsOn);
+      if (dependencyError) {
+        throw new Error(dependencyError);
+      }
+
+      const db = this.getDatabase();
+      db.transaction(() => {
+        db.prepare('DELETE FROM task_dependencies WHERE task_id = ?').run(id);
+        this.insertDependencies(id, dependsOn);
+        db.prepare('UPDATE tasks SET updatedat = ? WHERE id = ?').run(new Date().toISOString(), id);
+      })();
+
+      return this.getTaskById(id);
+    } catch (error) {
+      logger.error('Failed to set task dependencies', {
+        error: error instanceof Error ? error.message : String(error),
+        id,
+        dependsOn,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Store dependency rows for a task
+   */
+  private insertDependencies(taskId: number, dependsOn: number[]): void {
+    const insert = this.getDatabase().prepare(
+      'INSERT OR IGNORE INTO task_dependencies (task_id, depends_on_task_id) VALUES (?, ?)'
+    );
+    for (const dependencyId of dependsOn) {
+      insert.run(taskId, dependencyId);
+    }
+  }
+
+  /**
+   * Get the dependencies of one task (or of all tasks), keyed by task ID
+   */
+  private getDependencies(taskId?: number): Map<number, TaskDependency[]> {
+    let query = `SELECT d.task_id, d.depends_on_task_id, dependency.status
+       FROM task_dependencies d
+       LEFT JOIN tasks dependency ON dependency.id = d.depends_on_task_id`;
+    const params: unknown[] = [];
+    if (taskId !== undefined) {
+      query += ' WHERE d.task_id = ?';
+      params.push(taskId);
+    }
+    query += ' ORDER BY d.task_id ASC, d.depends_on_task_id ASC';
+
+    const rows = this.getDatabase()
+      .prepare(query)
+      .all(...params) as Array<{
+      task_id: number;
+      depends_on_task_id: number;
+      status: number | null;
+    }>;
+    const dependencies = new Map<number, TaskDependency[]>();
+    for (const row of rows) {
+      const list = dependencies.get(row.task_id) ?? [];
+      list.push({ id: row.depends_on_task_id, status: row.status as TaskStatus | null });
+      dependencies.set(row.task_id, list);
+    }
+    return dependencies;
+  }
+
+  /**
+   * Delete a task (with its run history and dependency links)
    */
   deleteTask(id: number): boolean {
     try {
       const db = this.getDatabase();
-      const result = db.prepare('DELETE FROM tasks WHERE id = ?').run(id);
-      return result.changes > 0;
+      return db.transaction(() => this.deleteTaskRows(id))() > 0;
     } catch (error) {
       logger.error('Failed to delete task', {
         error: error instanceof Error ? error.message : String(error),
@@ -264,6 +1535,20 @@ export class TaskService {
     }
   }
 
+  /**
+   * Delete a task's row, run history and dependency links (call inside a transaction)
+   * @returns Number of tasks deleted (0 or 1)
+   */
+  private deleteTaskRows(id: number): number {
+    const db = this.getDatabase();
+    db.prepare('DELETE FROM task_runs WHERE task_id = ?').run(id);
+    db.prepare('DELETE FROM task_dependencies WHERE task_id = ? OR depends_on_task_id = ?').run(
+      id,
+      id
+    );
+    return db.prepare('DELETE FROM tasks WHERE id = ?').run(id).changes;
+  }
+
   /**
    * Close database connection
    */
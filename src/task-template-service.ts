@@ -0,0 +1,518 @@
+import Database from 'better-sqlite3';
+import { logger } from './logger.js';
+import { getErrorMessage } from './error-utils.js';
+import {
+  TaskStatus,
+  getNewTaskColumns,
+  getTaskFieldColumns,
+  parseTaskFields,
+  type TaskFields,
+} from './task-service.js';
+import { getNextCronRun, isValidTimezone, parseCron, type CronSchedule } from './utils/cron.js';
+import { getSharedDbPath } from './utils/path-resolver.js';
+
+/**
+ * What the scheduler does about runs that came due while no scheduler was running:
+ * - skip: missed runs are dropped
+ * - once: missed runs are made up for with a single task
+ * - all: every missed run gets a task
+ */
+export const TASK_TEMPLATE_CATCH_UP_POLICIES = ['skip', 'once', 'all'] as const;
+export type TaskTemplateCatchUp = (typeof TASK_TEMPLATE_CATCH_UP_POLICIES)[number];
+
+/**
+ * Most runs of one template made up for at once
+ */
+export const MAX_TASK_TEMPLATE_CATCH_UP_RUNS = 100;
+
+/**
+ * Task template interface matching the database schema
+ */
+export interface TaskTemplate {
+  id: number;
+  name: string;
+  prompt: string;
+  /**
+   * Cron expression, evaluated in the template's time zone
+   */
+  schedule: string;
+  timezone: string;
+  catch_up: TaskTemplateCatchUp;
+  enabled: boolean;
+  repository: string | null;
+  branch_name: string | null;
+  priority: number;
+  labels: string[];
+  metadata: Record<string, unknown> | null;
+  max_attempts: number;
+  /**
+   * When the template next creates a task (null while disabled)
+   */
+  next_run_at: string | null;
+  last_run_at: string | null;
+  last_task_id: number | null;
+  createdat: string;
+  updatedat: string;
+}
+
+/**
+ * Task template row as stored in the task_templates table
+ */
+interface TaskTemplateRow extends Omit<
+  TaskTemplate,
+  'catch_up' | 'enabled' | 'labels' | 'metadata'
+> {
+  catch_up: string;
+  enabled: number;
+  labels: string | null;
+  metadata: string | null;
+}
+
+/**
+ * Fields that can be set on a task template
+ */
+export interface TaskTemplateInput extends Omit<TaskFields, 'dueAt'> {
+  name?: string;
+  prompt?: string;
+  schedule?: string;
+  timezone?: string;
+  catchUp?: TaskTemplateCatchUp;
+  enabled?: boolean;
+  maxAttempts?: number;
+}
+
+/**
+ * A template with the scheduled times that came due and the tasks created for them
+ */
+export interface DueTaskTemplate {
+  template: TaskTemplate;
+  /**
+   * Scheduled times (ISO strings), oldest first
+   */
+  runs: string[];
+  /**
+   * Task created for each selected run, oldest first
+   */
+  tasks: Array<{ run: string; taskId: number }>;
+}
+
+/**
+ * Map database row to TaskTemplate interface
+ */
+function mapTaskTemplateRow(row: TaskTemplateRow): TaskTemplate {
+  return {
+    ...row,
+    catch_up: row.catch_up as TaskTemplateCatchUp,
+    enabled: row.enabled === 1,
+    labels: row.labels ? (JSON.parse(row.labels) as string[]) : [],
+    metadata: row.metadata ? (JSON.parse(row.metadata) as Record<string, unknown>) : null,
+  };
+}
+
+/**
+ * Get the next run of a schedule after a date, as an ISO string
+ */
+function getNextRunAt(schedule: string, timezone: string, after: Date): string | null {
+  return getNextCronRun(parseCron(schedule), after, timezone)?.toISOString() ?? null;
+}
+
+/**
+ * Collect the runs of a schedule from its first due run up to now (the most recent
+ * MAX_TASK_TEMPLATE_CATCH_UP_RUNS) and the next run after now
+ * After a long outage a frequent schedule has missed a huge number of runs, so the search starts
+ * an hour before now and only looks further back (doubling the window) while it has found too few.
+ * @param first - The first run that came due
+ */
+function getDueRuns(
+  schedule: CronSchedule,
+  timezone: string,
+  first: Date,
+  now: Date
+): { runs: string[]; next: Date | null } {
+  for (let windowMs = 60 * 60 * 1000; ; windowMs *= 2) {
+    const windowStart = now.getTime() - windowMs;
+    const fromFirst = windowStart <= first.getTime();
+    const runs: string[] = fromFirst ? [first.toISOString()] : [];
+    let next = getNextCronRun(schedule, fromFirst ? first : new Date(windowStart), timezone);
+    while (next && next <= now) {
+      runs.push(next.toISOString());
+      next = getNextCronRun(schedule, next, timezone);
+    }
+    if (fromFirst || runs.length >= MAX_TASK_TEMPLATE_CATCH_UP_RUNS) {
+      return { runs: runs.slice(-MAX_TASK_TEMPLATE_CATCH_UP_RUNS), next };
+    }
+  }
+}
+
+/**
+ * Validate a task template create/update body; absent fields are left out
+ * @param body - Request body (name, prompt, schedule, timezone, catch_up, enabled, max_attempts
+ * and the task fields repository, branch_name, priority, labels and metadata)
+ * @param required - Whether name, prompt and schedule must be present (on create)
+ * @returns The fields to store, or an error message
+ */
+export function parseTaskTemplateInput(
+  body: Record<string, unknown>,
+  required: boolean
+): { input: TaskTemplateInput } | { error: string } {
+  for (const field of ['name', 'prompt', 'schedule'] as const) {
+    const value = body[field];
+    if ((required || value !== undefined) && (typeof value !== 'string' || !value.trim())) {
+      return {
+        error: required
+          ? `${field} is required and must be a non-empty string`
+          : `${field} must be a non-empty string`,
+      };
+    }
+  }
+
+  if (body.due_at !== undefined) {
+    return { error: 'due_at cannot be set on a template' };
+  }
+  const parsedFields = parseTaskFields(body);
+  if ('error' in parsedFields) {
+    return parsedFields;
+  }
+  const input: TaskTemplateInput = { ...parsedFields.fields };
+  if (body.name !== undefined) {
+    input.name = (body.name as string).trim();
+  }
+  if (body.prompt !== undefined) {
+    input.prompt = (body.prompt as string).trim();
+  }
+
+  if (body.timezone !== undefined) {
+    if (typeof body.timezone !== 'string' || !isValidTimezone(body.timezone)) {
+      return { error: 'timezone must be an IANA time zone, such as Europe/Berlin' };
+    }
+    input.timezone = body.timezone;
+  }
+
+  if (body.schedule !== undefined) {
+    const schedule = (body.schedule as string).trim();
+    try {
+      if (!getNextRunAt(schedule, input.timezone ?? 'UTC', new Date())) {
+        return { error: 'schedule never runs' };
+      }
+    } catch (error) {
+      return { error: `schedule must be a cron expression: ${getErrorMessage(error)}` };
+    }
+    input.schedule = schedule;
+  }
+
+  if (body.catch_up !== undefined) {
+    if (!(TASK_TEMPLATE_CATCH_UP_POLICIES as readonly unknown[]).includes(body.catch_up)) {
+      return {
+        error: `catch_up must be one of: ${TASK_TEMPLATE_CATCH_UP_POLICIES.join(', ')}`,
+      };
+    }
+    input.catchUp = body.catch_up as TaskTemplateCatchUp;
+  }
+
+  if (body.enabled !== undefined) {
+    if (typeof body.enabled !== 'boolean') {
+      return { error: 'enabled must be a boolean' };
+    }
+    input.enabled = body.enabled;
+  }
+
+  if (body.max_attempts !== undefined) {
+    if (!Number.isInteger(body.max_attempts) || (body.max_attempts as number) < 1) {
+      return { error: 'max_attempts must be a positive integer' };
+    }
+    input.maxAttempts = body.max_attempts as number;
+  }
+
+  return { input };
+}
+
+/**
+ * TaskTemplateService - Manages recurring task templates in the shared SQLite database
+ *
+ * A template creates a ready task with its prompt every time its cron schedule comes due (see
+ * TaskSchedulerService). next_run_at is kept up to date as templates are created, rescheduled,
+ * enabled and run.
+ */
+export class TaskTemplateService {
+  private db: Database.Database | null = null;
+
+  /**
+   * Get database connection (lazy initialization)
+   */
+  private getDatabase(): Database.Database {
+    if (!this.db) {
+      try {
+        const dbPath = getSharedDbPath();
+        this.db = new Database(dbPath);
+        // Enable WAL mode for better concurrency
+        this.db.pragma('journal_mode = WAL');
+        logger.debug('Database connection established for task templates', { path: dbPath });
+      } catch (error) {
+        logger.error('Failed to connect to database for task templates', {
+          path: getSharedDbPath(),
+          error: getErrorMessage(error),
+        });
+        throw error;
+      }
+    }
+    return this.db;
+  }
+
+  /**
+   * List all templates
+   */
+  listTemplates(): TaskTemplate[] {
+    try {
+      const rows = this.getDatabase()
+        .prepare('SELECT * FROM task_templates ORDER BY id ASC')
+        .all() as TaskTemplateRow[];
+      return rows.map(mapTaskTemplateRow);
+    } catch (error) {
+      logger.error('Failed to list task templates', { error: getErrorMessage(error) });
+      throw error;
+    }
+  }
+
+  /**
+   * Get a template by ID
+   */
+  getTemplateById(id: number): TaskTemplate | null {
+    try {
+      const row = this.getDatabase()
+        .prepare('SELECT * FROM task_templates WHERE id = ?')
+        .get(id) as TaskTemplateRow | undefined;
+      return row ? mapTaskTemplateRow(row) : null;
+    } catch (error) {
+      logger.error('Failed to get task template by ID', { error: getErrorMessage(error), id });
+      throw error;
+    }
+  }
+
+  /**
+   * Create a template; enabled templates are scheduled from now
+   */
+  createTemplate(
+    input: TaskTemplateInput & { name: string; prompt: string; schedule: string }
+  ): TaskTemplate {
+    try {
+      const now = new Date();
+      const timezone = input.timezone ?? 'UTC';
+      const enabled = input.enabled ?? true;
+      const columns: Array<[string, unknown]> = [
+        ...this.getInputColumns({ ...input, timezone, enabled }),
+        ['next_run_at', enabled ? getNextRunAt(input.schedule, timezone, now) : null],
+        ['createdat', now.toISOString()],
+        ['updatedat', now.toISOString()],
+      ];
+      const result = this.getDatabase()
+        .prepare(
+          `INSERT INTO task_templates (${columns.map(([column]) => column).join(', ')})
+           VALUES (${columns.map(() => '?').join(', ')})`
+        )
+        .run(...columns.map(([, value]) => value));
+
+      const template = this.getTemplateById(result.lastInsertRowid as number);
+      if (!template) {
+        throw new Error('Failed to retrieve created task template');
+      }
+      logger.info('Task template created', {
+        id: template.id,
+        name: template.name,
+        schedule: template.schedule,
+        nextRunAt: template.next_run_at,
+      });
+      return template;
+    } catch (error) {
+      logger.error('Failed to create task template', {
+        error: getErrorMessage(error),
+        name: input.name,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Update a template
+   * Changing the schedule or time zone, or enabling the template, schedules it from now (runs
+   * missed while it was disabled are not made up for); disabling it clears next_run_at.
+   */
+  updateTemplate(id: number, input: TaskTemplateInput): TaskTemplate | null {
+    try {
+      const existing = this.getTemplateById(id);
+      if (!existing) {
+        return null;
+      }
+
+      const columns = this.getInputColumns(input);
+      if (columns.length === 0) {
+        return existing;
+      }
+
+      const schedule = input.schedule ?? existing.schedule;
+      const timezone = input.timezone ?? existing.timezone;
+      const enabled = input.enabled ?? existing.enabled;
+      const rescheduled =
+        schedule !== existing.schedule ||
+        timezone !== existing.timezone ||
+        enabled !== existing.enabled;
+      const now = new Date();
+      if (rescheduled) {
+        columns.push(['next_run_at', enabled ? getNextRunAt(schedule, timezone, now) : null]);
+      }
+      columns.push(['updatedat', now.toISOString()]);
+
+      this.getDatabase()
+        .prepare(
+          `UPDATE task_templates SET ${columns.map(([column]) => `${column} = ?`).join(', ')}
+           WHERE id = ?`
+        )
+        .run(...columns.map(([, value]) => value), id);
+
+      return this.getTemplateById(id);
+    } catch (error) {
+      logger.error('Failed to update task template', { error: getErrorMessage(error), id });
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a template (tasks it created are kept)
+   */
+  deleteTemplate(id: number): boolean {
+    try {
+      return (
+        this.getDatabase().prepare('DELETE FROM task_templates WHERE id = ?').run(id).changes > 0
+      );
+    } catch (error) {
+      logger.error('Failed to delete task template', { error: getErrorMessage(error), id });
+      throw error;
+    }
+  }
+
+  /**
+   * Take the enabled templates whose next run has come due, create a ready task for each selected
+   * run and move each template on to its next run after now
+   * Each template is claimed and its tasks created in one transaction, so a failed task creation
+   * leaves that template due instead of losing its runs; the other templates are still claimed.
+   * A template is only returned to the caller that moved it on, so concurrent callers never both
+   * get the same runs.
+   * @param now - Current time
+   * @param selectRuns - Picks the runs that get a task (default: all of them)
+   * @returns The claimed templates, each with the runs that came due (at most
+   * MAX_TASK_TEMPLATE_CATCH_UP_RUNS, the most recent ones) and the tasks created
+   */
+  claimDueTemplates(
+    now: Date = new Date(),
+    selectRuns: (template: TaskTemplate, runs: string[]) => string[] = (_template, runs) => runs
+  ): DueTaskTemplate[] {
+    let rows: TaskTemplateRow[];
+    const db = this.getDatabase();
+    try {
+      rows = db
+        .prepare(
+          `SELECT * FROM task_templates
+           WHERE enabled = 1 AND next_run_at IS NOT NULL AND next_run_at <= ?
+           ORDER BY next_run_at ASC, id ASC`
+        )
+        .all(now.toISOString()) as TaskTemplateRow[];
+    } catch (error) {
+      logger.error('Failed to claim due task templates', { error: getErrorMessage(error) });
+      throw error;
+    }
+
+    const claim = db.transaction((row: TaskTemplateRow): DueTaskTemplate | null => {
+      const template = mapTaskTemplateRow(row);
+      const { runs, next } = getDueRuns(
+        parseCron(template.schedule),
+        template.timezone,
+        new Date(template.next_run_at as string),
+        now
+      );
+
+      const result = db
+        .prepare(
+          `UPDATE task_templates SET next_run_at = ?, last_run_at = ?, updatedat = ?
+           WHERE id = ? AND next_run_at = ?`
+        )
+        .run(
+          next?.toISOString() ?? null,
+          runs[runs.length - 1],
+          now.toISOString(),
+          template.id,
+          template.next_run_at
+        );
+      if (result.changes === 0) {
+        return null;
+      }
+
+      const tasks: DueTaskTemplate['tasks'] = [];
+      for (const run of selectRuns(template, runs)) {
+        const columns = getNewTaskColumns(template.prompt, 0, TaskStatus.READY, {
+          repository: template.repository,
+          branchName: template.branch_name,
+          priority: template.priority,
+          labels: template.labels,
+          metadata: template.metadata,
+          maxAttempts: template.max_attempts,
+        });
+        const taskId = db
+          .prepare(
+            `INSERT INTO tasks (${columns.map(([column]) => column).join(', ')})
+             VALUES (${columns.map(() => '?').join(', ')})`
+          )
+          .run(...columns.map(([, value]) => value)).lastInsertRowid as number;
+        tasks.push({ run, taskId });
+      }
+      if (tasks.length > 0) {
+        db.prepare('UPDATE task_templates SET last_task_id = ? WHERE id = ?').run(
+          tasks[tasks.length - 1].taskId,
+          template.id
+        );
+      }
+      return { template, runs, tasks };
+    });
+
+    const claimed: DueTaskTemplate[] = [];
+    for (const row of rows) {
+      try {
+        // IMMEDIATE takes the write lock up front so the template is read and moved on atomically
+        const due = claim.immediate(row);
+        if (due) {
+          claimed.push(due);
+        }
+      } catch (error) {
+        logger.error('Failed to create tasks for due task template', {
+          error: getErrorMessage(error),
+          id: row.id,
+        });
+      }
+    }
+    return claimed;
+  }
+
+  /**
+   * Get the column values for the template fields that are set
+   */
+  private getInputColumns(input: TaskTemplateInput): Array<[string, unknown]> {
+    const columns: Array<[string, unknown]> = [
+      ['name', input.name],
+      ['prompt', input.prompt],
+      ['schedule', input.schedule],
+      ['timezone', input.timezone],
+      ['catch_up', input.catchUp],
+      ['enabled', input.enabled === undefined ? undefined : input.enabled ? 1 : 0],
+      ['max_attempts', input.maxAttempts],
+    ];
+    return [...columns.filter(([, value]) => value !== undefined), ...getTaskFieldColumns(input)];
+  }
+
+  /**
+   * Close database connection
+   */
+  close(): void {
+    if (this.db) {
+      this.db.close();
+      this.db = null;
+    }
+  }
+}
@@ -0,0 +1,136 @@
+import type { TaskTransferRecord } from './task-service.js';
+import { formatCsv, parseCsv } from './utils/csv.js';
+
+/**
+ * CSV columns of a task export, in order
+ */
+export const TASK_CSV_COLUMNS = [
+  'uuid',
+  'prompt',
+  'status',
+  'order',
+  'priority',
+  'repository',
+  'branch_name',
+  'due_at',
+  'labels',
+  'metadata',
+  'max_attempts',
+  'attempt_count',
+  'last_error',
+  'next_attempt_at',
+  'depends_on',
+  'createdat',
+  'updatedat',
+] as const;
+type TaskCsvColumn = (typeof TASK_CSV_COLUMNS)[number];
+
+/**
+ * Columns holding integers
+ */
+const INTEGER_COLUMNS = new Set<TaskCsvColumn>([
+  'order',
+  'priority',
+  'max_attempts',
+  'attempt_count',
+]);
+
+/**
+ * Columns that can be null; an empty cell clears them, while other empty cells are left out
+ */
+const NULLABLE_COLUMNS = new Set<TaskCsvColumn>([
+  'repository',
+  'branch_name',
+  'due_at',
+  'metadata',
+  'last_error',
+  'next_attempt_at',
+]);
+
+/**
+ * Columns holding comma-separated lists
+ */
+const LIST_COLUMNS = new Set<TaskCsvColumn>(['labels', 'depends_on']);
+
+/**
+ * Format exported tasks as CSV
+ * labels and depends_on are comma-separated, metadata is JSON and null is an empty cell.
+ */
+export function formatTasksCsv(records: TaskTransferRecord[]): string {
+  const rows = records.map((record) =>
+    TASK_CSV_COLUMNS.map((column) => {
+      const value = record[column];
+      if (value === null) {
+        return '';
+      }
+      if (Array.isArray(value)) {
+        return value.join(',');
+      }
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+    })
+  );
+  return formatCsv([[...TASK_CSV_COLUMNS], ...rows]);
+}
+
+/**
+ * Read a CSV cell as an import record value
+ * Cells that cannot be converted are returned as text, so that validation reports them.
+ */
+function parseTaskCsvCell(column: TaskCsvColumn, cell: string): unknown {
+  if (cell === '') {
+    if (LIST_COLUMNS.has(column)) {
+      return [];
+    }
+    return NULLABLE_COLUMNS.has(column) ? null : undefined;
+  }
+  if (LIST_COLUMNS.has(column)) {
+    return cell
+      .split(',')
+      .map((item) => item.trim())
+      .filter((item) => item.length > 0);
+  }
+  if (INTEGER_COLUMNS.has(column) || (column === 'status' && /^\d+$/.test(cell))) {
+    return /^-?\d+$/.test(cell) ? Number(cell) : cell;
+  }
+  if (column === 'metadata') {
+    try {
+      return JSON.parse(cell) as unknown;
+    } catch {
+      return cell;
+    }
+  }
+  return cell;
+}
+
+/**
+ * Parse a CSV task export into import records (see TaskService.importTasks)
+ * The header row names the columns; only prompt is required.
+ * @returns The records (one per data row), or an error if the header is invalid
+ */
+export function parseTasksCsv(text: string): { records: unknown[] } | { error: string } {
+  const [header, ...rows] = parseCsv(text);
+  if (!header) {
+    return { error: 'CSV must have a header row' };
+  }
+
+  const columns = header.map((name) => name.trim());
+  const unknown = columns.find((name) => !(TASK_CSV_COLUMNS as readonly string[]).includes(name));
+  if (unknown !== undefined) {
+    return { error: `Unknown CSV column: ${unknown}` };
+  }
+  if (!columns.includes('prompt')) {
+    return { error: 'CSV must have a prompt column' };
+  }
+
+  const records = rows.map((row) => {
+    const record: Record<string, unknown> = {};
+    columns.forEach((column, index) => {
+      const value = parseTaskCsvCell(column as TaskCsvColumn, row[index] ?? '');
+      if (value !== undefined) {
+        record[column] = value;
+      }
+    });
+    return record;
+  });
+  return { records };
+}
@@ -7,6 +7,10 @@ import { logger } from './logger.js';
 export interface ExecuteCommandOptions {
   cwd?: string;
   timeout?: number;
+  /**
+   * Extra environment variables, merged over the current process environment
+   */
+  env?: Record<string, string>;
 }
 
 /**
@@ -53,6 +57,7 @@ export class TerminalService {
 
       const child: ChildProcess = spawn(command, [...args], {
         cwd,
+        env: options.env ? { ...process.env, ...options.env } : process.env,
         stdio: ['pipe', 'pipe', 'pipe'],
         shell: false, // Never use shell: true for security
       });
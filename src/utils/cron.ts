@@ -0,0 +1,251 @@
+/**
+ * Cron expressions: parsing and finding the next time a schedule fires in a time zone.
+ *
+ * Supports the five standard fields (minute, hour, day of month, month, day of week) with `*`,
+ * lists, ranges, steps and month/day names, and the @hourly, @daily, @weekly, @monthly and
+ * @yearly shorthands. As in cron, when both day of month and day of week are restricted a day
+ * matches if either does.
+ */
+
+/**
+ * A parsed cron expression: the values each field matches
+ */
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  /**
+   * 0 (Sunday) to 6 (Saturday)
+   */
+  daysOfWeek: Set<number>;
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+interface CronField {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const CRON_FIELDS: CronField[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  {
+    name: 'month',
+    min: 1,
+    max: 12,
+    names: ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'],
+  },
+  // 7 is accepted for Sunday, as in most crons
+  { name: 'day of week', min: 0, max: 7, names: ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] },
+];
+
+const CRON_SHORTHANDS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+};
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * How far ahead to look for the next run before deciding a schedule never fires (e.g. 30 February)
+ */
+const MAX_SEARCH_MS = 5 * 366 * 24 * 60 * 60 * 1000;
+
+/**
+ * Read one value of a field, as a number or a name
+ */
+function parseCronValue(value: string, field: CronField): number {
+  const nameIndex = field.names?.indexOf(value.toLowerCase()) ?? -1;
+  if (nameIndex !== -1) {
+    // Names count from the field's first value (jan is 1, sun is 0)
+    return nameIndex + field.min;
+  }
+  if (!/^\d+$/.test(value)) {
+    throw new Error(`Invalid ${field.name} value: ${value}`);
+  }
+  const number = parseInt(value, 10);
+  if (number < field.min || number > field.max) {
+    throw new Error(`${field.name} must be between ${field.min} and ${field.max}: ${value}`);
+  }
+  return number;
+}
+
+/**
+ * Get the values a field matches
+ */
+function parseCronField(text: string, field: CronField): Set<number> {
+  const values = new Set<number>();
+  for (const part of text.split(',')) {
+    const [range, stepText, ...rest] = part.split('/');
+    if (
+      rest.length > 0 ||
+      range === '' ||
+      (stepText !== undefined && !/^[1-9]\d*$/.test(stepText))
+    ) {
+      throw new Error(`Invalid ${field.name} field: ${text}`);
+    }
+    const step = stepText !== undefined ? parseInt(stepText, 10) : 1;
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = field.min;
+      end = field.max;
+    } else if (range.includes('-')) {
+      const [from, to, ...extra] = range.split('-');
+      if (extra.length > 0) {
+        throw new Error(`Invalid ${field.name} field: ${text}`);
+      }
+      start = parseCronValue(from, field);
+      end = parseCronValue(to, field);
+      if (start > end) {
+        throw new Error(`Invalid ${field.name} range: ${range}`);
+      }
+    } else {
+      start = parseCronValue(range, field);
+      // "5/15" means every 15 starting at 5
+      end = stepText !== undefined ? field.max : start;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+/**
+ * Parse a cron expression
+ * @throws Error describing what is wrong with the expression
+ */
+export function parseCron(expression: string): CronSchedule {
+  const trimmed = expression.trim();
+  const fields = (CRON_SHORTHANDS[trimmed.toLowerCase()] ?? trimmed).split(/\s+/);
+  if (fields.length !== CRON_FIELDS.length) {
+    throw new Error(
+      'Expected 5 fields (minute, hour, day of month, month, day of week) or a shorthand such as @daily'
+    );
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) =>
+    parseCronField(field, CRON_FIELDS[index])
+  );
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2] === '*',
+    anyDayOfWeek: fields[4] === '*',
+  };
+}
+
+/**
+ * Check whether a time zone is a valid IANA name (e.g. Europe/Berlin)
+ */
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Get the wall-clock time of a date in a time zone
+ */
+function getLocalTime(
+  date: Date,
+  timezone: string
+): { month: number; day: number; weekday: number; hour: number; minute: number } {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      month: 'numeric',
+      day: 'numeric',
+      weekday: 'short',
+      hour: 'numeric',
+      minute: 'numeric',
+    });
+    formatters.set(timezone, formatter);
+  }
+  const parts = Object.fromEntries(
+    formatter.formatToParts(date).map((part) => [part.type, part.value])
+  );
+  return {
+    month: parseInt(parts.month, 10),
+    day: parseInt(parts.day, 10),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+    hour: parseInt(parts.hour, 10),
+    minute: parseInt(parts.minute, 10),
+  };
+}
+
+/**
+ * Check whether a schedule fires on a (local) day
+ */
+function matchesDay(
+  schedule: CronSchedule,
+  local: { month: number; day: number; weekday: number }
+): boolean {
+  if (!schedule.months.has(local.month)) {
+    return false;
+  }
+  const dayOfMonth = schedule.daysOfMonth.has(local.day);
+  const dayOfWeek = schedule.daysOfWeek.has(local.weekday);
+  if (schedule.anyDayOfMonth || schedule.anyDayOfWeek) {
+    return dayOfMonth && dayOfWeek;
+  }
+  return dayOfMonth || dayOfWeek;
+}
+
+/**
+ * Find the next time a schedule fires, strictly after a date
+ * @param schedule - Parsed cron expression
+ * @param after - Date to search from
+ * @param timezone - IANA time zone the schedule is in (default: UTC)
+ * @returns The next run (on a whole minute), or null if the schedule never fires
+ */
+export function getNextCronRun(
+  schedule: CronSchedule,
+  after: Date,
+  timezone: string = 'UTC'
+): Date | null {
+  let time = Math.floor(after.getTime() / 60000) * 60000 + 60000;
+  const limit = after.getTime() + MAX_SEARCH_MS;
+  while (time <= limit) {
+    const local = getLocalTime(new Date(time), timezone);
+    if (!matchesDay(schedule, local)) {
+      // Skip to 23:00 local time (an hour early, in case a daylight saving change shortens the
+      // day), then on to the next day an hour at a time
+      time += Math.max(60 - local.minute, (23 - local.hour) * 60 - local.minute) * 60000;
+    } else if (!schedule.hours.has(local.hour)) {
+      // Skip to the start of the next local hour
+      time += (60 - local.minute) * 60000;
+    } else if (!schedule.minutes.has(local.minute)) {
+      time += 60000;
+    } else {
+      return new Date(time);
+    }
+  }
+  return null;
+}
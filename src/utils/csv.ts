@@ -0,0 +1,75 @@
+/**
+ * CSV utilities (RFC 4180: comma-separated, double-quoted fields, CRLF line endings).
+ */
+
+/**
+ * Quote a field if it contains a comma, quote or line break.
+ */
+function formatCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Format rows of fields as CSV.
+ * @param rows - Rows of fields, the first usually being the header
+ * @returns CSV text, with a line ending after every row
+ */
+export function formatCsv(rows: string[][]): string {
+  return rows.map((row) => row.map(formatCsvField).join(',') + '\r\n').join('');
+}
+
+/**
+ * Parse CSV text into rows of fields.
+ * Accepts LF or CRLF line endings and quoted fields spanning lines; blank lines are skipped.
+ *
+ * @param text - CSV text
+ * @returns Rows of fields
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const endRow = (): void => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  // Skip a byte order mark written by spreadsheet exports
+  const input = text.startsWith('\uFEFF') ? text.slice(1) : text;
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+  return rows;
+}
@@ -0,0 +1,13 @@
+/**
+ * Environment variable helpers
+ */
+
+/**
+ * Read a positive integer from an environment variable
+ * @param name - Environment variable to read
+ * @param defaultValue - Value used when the variable is unset or not a positive integer
+ */
+export function getPositiveIntEnv(name: string, defaultValue: number): number {
+  const value = parseInt(process.env[name] || '', 10);
+  return Number.isFinite(value) && value > 0 ? value : defaultValue;
+}
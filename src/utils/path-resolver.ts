@@ -59,6 +59,14 @@ export function getRepositoriesPath(): string {
   );
 }
 
+/**
+ * Get the path to the shared SQLite database (SHARED_DB_PATH)
+ * Reads from process.env on every call to support testing with different DB paths
+ */
+export function getSharedDbPath(): string {
+  return process.env.SHARED_DB_PATH || '/app/shared_db/shared.sqlite3';
+}
+
 /**
  * Get CURSOR_AGENTS_TOOLS_PATH relative to TARGET_APP_PATH
  * Explicit CURSOR_AGENTS_TOOLS_PATH env var takes precedence, otherwise resolves to TARGET_APP_PATH/tools/cursor-agents
@@ -70,3 +78,37 @@ export function getCursorAgentsToolsPath(): string {
     '/cursor/tools/cursor-agents'
   );
 }
+
+/**
+ * Get WORKTREES_PATH relative to TARGET_APP_PATH
+ * Explicit WORKTREES_PATH env var takes precedence, otherwise resolves to TARGET_APP_PATH/worktrees
+ * Kept outside the repositories directory so isolated checkouts don't show up as repositories.
+ */
+export function getWorktreesPath(): string {
+  return resolvePathRelativeToTargetApp(
+    'WORKTREES_PATH',
+    'worktrees',
+    path.join(process.cwd(), 'worktrees')
+  );
+}
+
+/**
+ * Get ARTIFACTS_PATH relative to TARGET_APP_PATH
+ * Explicit ARTIFACTS_PATH env var takes precedence, otherwise resolves to TARGET_APP_PATH/artifacts
+ */
+export function getArtifactsPath(): string {
+  return resolvePathRelativeToTargetApp(
+    'ARTIFACTS_PATH',
+    'artifacts',
+    path.join(process.cwd(), 'artifacts')
+  );
+}
+
+/**
+ * Make a value (e.g. a request ID) safe to use as a single path or branch name component
+ * Empty and dot-only values (`.`, `..`) would point at the parent directory, so they become dashes.
+ */
+export function toSafePathSegment(value: string): string {
+  const segment = value.replace(/[^A-Za-z0-9._-]/g, '-');
+  return /^\.*$/.test(segment) ? '-'.repeat(Math.max(segment.length, 1)) : segment;
+}
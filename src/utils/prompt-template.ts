@@ -0,0 +1,174 @@
+/**
+ * Prompt template rendering
+ *
+ * Templates are plain text with `{{name}}` placeholders and `{{#if name}}...{{else}}...{{/if}}`
+ * conditionals (which may be nested). Any other `{{...}}` text is left as it is, so prompts can
+ * still contain code that uses braces. Block tags on a line of their own don't leave a blank line.
+ */
+
+/**
+ * Values a template can be rendered with
+ */
+export type PromptTemplateValue = string | number | boolean;
+
+/**
+ * A variable a template declares
+ */
+export interface PromptTemplateVariable {
+  name: string;
+  description?: string;
+  /**
+   * Whether the variable must be given when rendering
+   */
+  required?: boolean;
+  /**
+   * Value used when the variable is not given
+   */
+  default?: PromptTemplateValue;
+}
+
+type PromptTemplateNode =
+  | { type: 'text'; text: string }
+  | { type: 'variable'; name: string }
+  | { type: 'if'; name: string; then: PromptTemplateNode[]; else: PromptTemplateNode[] };
+
+/**
+ * Variable names usable in placeholders
+ */
+export const PROMPT_TEMPLATE_VARIABLE_PATTERN = /^[A-Za-z_]\w*$/;
+
+const TAG_PATTERN = /\{\{\s*(?:#if\s+([A-Za-z_]\w*)|(else)|(\/if)|([A-Za-z_]\w*))\s*\}\}/g;
+const STANDALONE_BLOCK_TAG_PATTERN =
+  /^[ \t]*(\{\{\s*(?:#if\s+[A-Za-z_]\w*|else|\/if)\s*\}\})[ \t]*(?:\r?\n|$)/gm;
+
+/**
+ * Parse a template into nodes
+ * @throws Error if a conditional is not opened or closed properly
+ */
+function parse(template: string): PromptTemplateNode[] {
+  const source = template.replace(STANDALONE_BLOCK_TAG_PATTERN, '$1');
+  const root: PromptTemplateNode[] = [];
+  // Open conditionals, innermost last, with the branch currently being filled
+  const stack: Array<{
+    node: Extract<PromptTemplateNode, { type: 'if' }>;
+    branch: PromptTemplateNode[];
+  }> = [];
+  const current = (): PromptTemplateNode[] => stack[stack.length - 1]?.branch ?? root;
+
+  let position = 0;
+  for (const match of source.matchAll(TAG_PATTERN)) {
+    const [tag, ifName, elseTag, endIf, variableName] = match;
+    if (match.index > position) {
+      current().push({ type: 'text', text: source.slice(position, match.index) });
+    }
+    position = match.index + tag.length;
+
+    if (ifName) {
+      const node: Extract<PromptTemplateNode, { type: 'if' }> = {
+        type: 'if',
+        name: ifName,
+        then: [],
+        else: [],
+      };
+      current().push(node);
+      stack.push({ node, branch: node.then });
+    } else if (elseTag) {
+      const open = stack[stack.length - 1];
+      if (!open || open.branch === open.node.else) {
+        throw new Error('{{else}} without a matching {{#if}}');
+      }
+      open.branch = open.node.else;
+    } else if (endIf) {
+      if (!stack.pop()) {
+        throw new Error('{{/if}} without a matching {{#if}}');
+      }
+    } else {
+      current().push({ type: 'variable', name: variableName });
+    }
+  }
+  if (stack.length > 0) {
+    throw new Error(`{{#if ${stack[stack.length - 1].node.name}}} is not closed with {{/if}}`);
+  }
+  if (position < source.length) {
+    root.push({ type: 'text', text: source.slice(position) });
+  }
+  return root;
+}
+
+/**
+ * Check a template's syntax
+ * @param template - Template text
+ * @returns Error message, or null if the template is valid
+ */
+export function validatePromptTemplate(template: string): string | null {
+  try {
+    parse(template);
+    return null;
+  } catch (error) {
+    return (error as Error).message;
+  }
+}
+
+/**
+ * Check whether a value counts as set for a conditional
+ */
+function isTruthy(value: PromptTemplateValue | undefined): boolean {
+  return value !== undefined && value !== '' && value !== false && value !== 0;
+}
+
+/**
+ * Render a template with the given variables
+ * Declared defaults fill in variables that are not given. Required variables must be given, and
+ * every placeholder that ends up in the output needs a value; placeholders in branches that are
+ * not rendered don't.
+ * @param template - Template text
+ * @param values - Variable values
+ * @param variables - The template's declared variables
+ * @returns The rendered prompt
+ * @throws Error if the template is invalid or variables are missing
+ */
+export function renderPromptTemplate(
+  template: string,
+  values: Record<string, PromptTemplateValue>,
+  variables: readonly PromptTemplateVariable[] = []
+): string {
+  // A Map, so that names such as constructor or __proto__ never resolve to Object.prototype members
+  const given = new Map(Object.entries(values));
+  const resolved = new Map<string, PromptTemplateValue>();
+  const missing = new Set<string>();
+  for (const variable of variables) {
+    if (variable.default !== undefined) {
+      resolved.set(variable.name, variable.default);
+    }
+    if (variable.required && given.get(variable.name) === undefined) {
+      missing.add(variable.name);
+    }
+  }
+  for (const [name, value] of given) {
+    resolved.set(name, value);
+  }
+
+  const render = (nodes: PromptTemplateNode[]): string =>
+    nodes
+      .map((node) => {
+        switch (node.type) {
+          case 'text':
+            return node.text;
+          case 'variable':
+            if (resolved.get(node.name) === undefined) {
+              missing.add(node.name);
+              return '';
+            }
+            return String(resolved.get(node.name));
+          case 'if':
+            return render(isTruthy(resolved.get(node.name)) ? node.then : node.else);
+        }
+      })
+      .join('');
+
+  const output = render(parse(template));
+  if (missing.size > 0) {
+    throw new Error(`Missing required variables: ${[...missing].sort().join(', ')}`);
+  }
+  return output;
+}
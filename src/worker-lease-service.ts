@@ -0,0 +1,80 @@
+import Database from 'better-sqlite3';
+import { logger } from './logger.js';
+import { getErrorMessage } from './error-utils.js';
+import { getSharedDbPath } from './utils/path-resolver.js';
+
+/**
+ * WorkerLeaseService - Elects a single cursor-runner instance to run a background worker
+ *
+ * A lease is a row in the shared SQLite database naming its holder and when it expires. The
+ * holder renews it while working; if the holder stops renewing (e.g. it crashed), another
+ * instance can take the lease over once it has expired.
+ */
+export class WorkerLeaseService {
+  private db: Database.Database | null = null;
+
+  /**
+   * Get database connection (lazy initialization)
+   */
+  private getDatabase(): Database.Database {
+    if (!this.db) {
+      try {
+        const dbPath = getSharedDbPath();
+        this.db = new Database(dbPath);
+        // Enable WAL mode for better concurrency
+        this.db.pragma('journal_mode = WAL');
+        logger.debug('Database connection established for worker leases', { path: dbPath });
+      } catch (error) {
+        logger.error('Failed to connect to database for worker leases', {
+          path: getSharedDbPath(),
+          error: getErrorMessage(error),
+        });
+        throw error;
+      }
+    }
+    return this.db;
+  }
+
+  /**
+   * Take or renew a lease
+   * @param name - Lease name (one per worker)
+   * @param holder - Unique ID of the instance asking for the lease
+   * @param ttlMs - How long the lease lasts unless renewed
+   * @returns True if the caller now holds the lease
+   */
+  acquire(name: string, holder: string, ttlMs: number): boolean {
+    const now = new Date();
+    const result = this.getDatabase()
+      .prepare(
+        `INSERT INTO worker_leases (name, holder, expires_at, updated_at)
+         VALUES (?, ?, ?, ?)
+         ON CONFLICT(name) DO UPDATE SET
+           holder = excluded.holder,
+           expires_at = excluded.expires_at,
+           updated_at = excluded.updated_at
+         WHERE worker_leases.holder = excluded.holder
+           OR worker_leases.expires_at <= excluded.updated_at`
+      )
+      .run(name, holder, new Date(now.getTime() + ttlMs).toISOString(), now.toISOString());
+    return result.changes > 0;
+  }
+
+  /**
+   * Give up a lease, if the caller holds it
+   */
+  release(name: string, holder: string): void {
+    this.getDatabase()
+      .prepare('DELETE FROM worker_leases WHERE name = ? AND holder = ?')
+      .run(name, holder);
+  }
+
+  /**
+   * Close database connection
+   */
+  close(): void {
+    if (this.db) {
+      this.db.close();
+      this.db = null;
+    }
+  }
+}
@@ -0,0 +1,150 @@
+import path from 'path';
+import { mkdirSync } from 'fs';
+import { logger } from './logger.js';
+import { getErrorMessage } from './error-utils.js';
+import { TerminalService, type CommandResult } from './terminal-service.js';
+import { GitBranchService } from './git-branch-service.js';
+import { getWorktreesPath, toSafePathSegment } from './utils/path-resolver.js';
+
+/**
+ * Isolated checkout created for a single execution
+ */
+export interface Worktree {
+  path: string;
+  branch: string;
+  /**
+   * True when the branch was generated for this execution (no branchName requested)
+   */
+  generatedBranch: boolean;
+}
+
+/**
+ * Options for creating a worktree
+ */
+export interface CreateWorktreeOptions {
+  repository: string;
+  requestId: string;
+  /**
+   * Branch to check out; created from the default branch if it does not exist.
+   * Defaults to a generated cursor/<requestId> branch.
+   */
+  branchName?: string;
+}
+
+/**
+ * WorktreeService - Creates and removes per-execution git worktrees
+ *
+ * A worktree gives an execution its own working tree and branch while sharing the repository's
+ * object store, so several executions can work on one repository at the same time without
+ * touching the main checkout under the repositories directory.
+ */
+export class WorktreeService {
+  public readonly worktreesPath: string;
+  private terminalService: TerminalService;
+  private gitBranchService: GitBranchService;
+
+  constructor(terminalService: TerminalService | null = null) {
+    this.worktreesPath = getWorktreesPath();
+    this.terminalService = terminalService || new TerminalService();
+    this.gitBranchService = new GitBranchService(this.terminalService);
+  }
+
+  /**
+   * Run a git command in the given directory
+   */
+  private git(cwd: string, args: readonly string[]): Promise<CommandResult> {
+    return this.terminalService.executeCommand('git', args, { cwd });
+  }
+
+  /**
+   * Create a worktree for an execution
+   * @param repositoryPath - Path to the repository's main checkout
+   * @param options - Repository name, request ID and optional branch
+   * @returns The created worktree
+   * @throws Error if git cannot create the worktree (e.g. the branch is checked out elsewhere)
+   */
+  async createWorktree(repositoryPath: string, options: CreateWorktreeOptions): Promise<Worktree> {
+    const { repository, requestId } = options;
+    const worktreePath = path.join(this.worktreesPath, repository, toSafePathSegment(requestId));
+    const generatedBranch = !options.branchName;
+    const branch = options.branchName || `cursor/${toSafePathSegment(requestId)}`;
+
+    const branchExists = await this.gitBranchService.branchExists(repositoryPath, branch);
+    let args: string[];
+    if (branchExists) {
+      args = ['worktree', 'add', worktreePath, branch];
+    } else {
+      // Without a main or master branch, start from whatever the checkout is on
+      const startPoint = (await this.gitBranchService.getStartPoint(repositoryPath, branch)) || {
+        ref: 'HEAD',
+        track: false,
+      };
+      args = [
+        'worktree',
+        'add',
+        ...(startPoint.track ? ['--track'] : []),
+        '-b',
+        branch,
+        worktreePath,
+        startPoint.ref,
+      ];
+    }
+
+    mkdirSync(path.dirname(worktreePath), { recursive: true });
+    const result = await this.git(repositoryPath, args);
+    if (!result.success) {
+      throw new Error(result.stderr || `git worktree add exited with code ${result.exitCode}`);
+    }
+
+    logger.info('Created git worktree', {
+      requestId,
+      repository,
+      path: worktreePath,
+      branch,
+      newBranch: !branchExists,
+    });
+    return { path: worktreePath, branch, generatedBranch };
+  }
+
+  /**
+   * Remove an execution's worktree
+   * A generated branch is deleted too, unless it has commits that are not merged yet.
+   * Failures are logged rather than thrown so cleanup never fails the execution.
+   * @param repositoryPath - Path to the repository's main checkout
+   * @param worktree - Worktree returned by createWorktree
+   */
+  async removeWorktree(repositoryPath: string, worktree: Worktree): Promise<void> {
+    try {
+      const removeResult = await this.git(repositoryPath, [
+        'worktree',
+        'remove',
+        '--force',
+        worktree.path,
+      ]);
+      if (!removeResult.success) {
+        logger.warn('Failed to remove git worktree', {
+          path: worktree.path,
+          exitCode: removeResult.exitCode,
+          stderr: removeResult.stderr,
+        });
+        return;
+      }
+
+      if (worktree.generatedBranch) {
+        const branchResult = await this.git(repositoryPath, ['branch', '-d', worktree.branch]);
+        if (!branchResult.success) {
+          logger.info('Keeping generated worktree branch with unmerged commits', {
+            branch: worktree.branch,
+          });
+        }
+      }
+
+      logger.info('Removed git worktree', { path: worktree.path, branch: worktree.branch });
+    } catch (error) {
+      logger.warn('Failed to remove git worktree', {
+        path: worktree.path,
+        error: getErrorMessage(error),
+      });
+    }
+  }
+}
@@ -0,0 +1,214 @@
+/**
+ * Unit tests for CallbackDeliveryService
+ * Tests retries, dead-lettering and replay of callback webhooks
+ */
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  afterAll,
+  beforeEach,
+  afterEach,
+  jest,
+} from '@jest/globals';
+import {
+  CallbackDeliveryService,
+  getRetryDelay,
+  type CallbackDelivery,
+} from '../src/callback-delivery-service.js';
+import { verifyCallbackSignature } from '../src/callback-url-builder.js';
+import { createTempSqliteDb, type TempSqliteDb } from './test-utils.js';
+
+describe('CallbackDeliveryService', () => {
+  let tempDb: TempSqliteDb;
+  let originalSharedDbPath: string | undefined;
+  let callbackDelivery: CallbackDeliveryService;
+  let fetchSpy: jest.SpiedFunction<typeof fetch>;
+
+  /**
+   * Wait until the request's delivery is no longer pending (retries run in the background)
+   */
+  const waitForDelivery = async (requestId: string): Promise<CallbackDelivery> => {
+    for (let i = 0; i < 100; i++) {
+      const [delivery] = callbackDelivery.listDeliveries({ requestId });
+      if (delivery && delivery.status !== 'pending') {
+        return delivery;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    throw new Error(`Delivery for ${requestId} is still pending`);
+  };
+
+  beforeAll(async () => {
+    originalSharedDbPath = process.env.SHARED_DB_PATH;
+    tempDb = await createTempSqliteDb();
+    process.env.SHARED_DB_PATH = tempDb.dbPath;
+  });
+
+  afterAll(async () => {
+    if (originalSharedDbPath) {
+      process.env.SHARED_DB_PATH = originalSharedDbPath;
+    } else {
+      delete process.env.SHARED_DB_PATH;
+    }
+
+    if (tempDb && tempDb.cleanup) {
+      await tempDb.cleanup();
+    }
+  });
+
+  beforeEach(() => {
+    tempDb.db.prepare('DELETE FROM callback_deliveries').run();
+    callbackDelivery = new CallbackDeliveryService({
+      maxAttempts: 3,
+      baseDelayMs: 5,
+      maxDelayMs: 20,
+    });
+    fetchSpy = jest.spyOn(globalThis, 'fetch');
+  });
+
+  afterEach(() => {
+    callbackDelivery.close();
+    fetchSpy.mockRestore();
+  });
+
+  it('should deliver the payload with the secret in headers and log the delivery', async () => {
+    fetchSpy.mockResolvedValue(new Response(null, { status: 200 }));
+
+    await callbackDelivery.deliver(
+      'http://example.com/callback?secret=test-secret',
+      { success: true, requestId: 'req-1' },
+      'req-1'
+    );
+
+    const [url, init] = fetchSpy.mock.calls[0]!;
+    expect(url).toBe('http://example.com/callback');
+    expect((init?.headers as Record<string, string>)['X-Webhook-Secret']).toBe('test-secret');
+    expect((init?.headers as Record<string, string>)['X-Request-Id']).toBe('req-1');
+    expect(JSON.parse(init?.body as string)).toEqual({ success: true, requestId: 'req-1' });
+
+    const [delivery] = callbackDelivery.listDeliveries({ requestId: 'req-1' });
+    expect(delivery).toMatchObject({
+      status: 'delivered',
+      attempts: 1,
+      last_status_code: 200,
+      last_error: null,
+    });
+    expect(delivery!.delivered_at).not.toBeNull();
+  });
+
+  it('should sign each attempt and omit the secret when WEBHOOK_SEND_SECRET=false', async () => {
+    process.env.WEBHOOK_SEND_SECRET = 'false';
+    fetchSpy.mockResolvedValue(new Response(null, { status: 200 }));
+
+    try {
+      await callbackDelivery.deliver(
+        'http://example.com/callback?secret=test-secret',
+        { success: true },
+        'req-signed'
+      );
+    } finally {
+      delete process.env.WEBHOOK_SEND_SECRET;
+    }
+
+    const [url, init] = fetchSpy.mock.calls[0]!;
+    const headers = init?.headers as Record<string, string>;
+    expect(url).toBe('http://example.com/callback');
+    expect(headers['X-Webhook-Secret']).toBeUndefined();
+    expect(headers['X-Cursor-Runner-Secret']).toBeUndefined();
+    expect(
+      verifyCallbackSignature(init?.body as string, headers, { secrets: ['test-secret'] })
+    ).toEqual({ valid: true });
+  });
+
+  it('should retry failed deliveries until one succeeds', async () => {
+    fetchSpy
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockResolvedValueOnce(new Response('Service Unavailable', { status: 503 }))
+      .mockResolvedValue(new Response(null, { status: 200 }));
+
+    await expect(
+      callbackDelivery.deliver('http://example.com/callback', { success: true }, 'req-2')
+    ).rejects.toThrow('fetch failed');
+
+    const delivery = await waitForDelivery('req-2');
+    expect(fetchSpy).toHaveBeenCalledTimes(3);
+    expect(delivery).toMatchObject({ status: 'delivered', attempts: 3, last_status_code: 200 });
+  });
+
+  it('should dead-letter a delivery once all attempts have failed', async () => {
+    fetchSpy.mockImplementation(async () => new Response('Bad Gateway', { status: 502 }));
+
+    await expect(
+      callbackDelivery.deliver('http://example.com/callback', { success: true }, 'req-3')
+    ).rejects.toThrow('Webhook returned 502: Bad Gateway');
+
+    const delivery = await waitForDelivery('req-3');
+    expect(fetchSpy).toHaveBeenCalledTimes(3);
+    expect(delivery).toMatchObject({
+      status: 'failed',
+      attempts: 3,
+      last_status_code: 502,
+      last_error: 'Webhook returned 502: Bad Gateway',
+      next_attempt_at: null,
+    });
+    expect(callbackDelivery.listDeliveries({ status: 'failed' })).toHaveLength(1);
+  });
+
+  it('should not retry callbacks the receiver rejected', async () => {
+    fetchSpy.mockResolvedValue(new Response('Unauthorized', { status: 401 }));
+
+    await expect(
+      callbackDelivery.deliver('http://example.com/callback', { success: true }, 'req-4')
+    ).rejects.toThrow('Webhook returned 401');
+
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+    expect(callbackDelivery.listDeliveries({ requestId: 'req-4' })[0]).toMatchObject({
+      status: 'failed',
+      attempts: 1,
+      last_status_code: 401,
+    });
+  });
+
+  it('should replay a dead-lettered delivery', async () => {
+    fetchSpy.mockResolvedValueOnce(new Response('Unauthorized', { status: 401 }));
+    await callbackDelivery
+      .deliver('http://example.com/callback', { success: true }, 'req-5')
+      .catch(() => undefined);
+    const [failed] = callbackDelivery.listDeliveries({ requestId: 'req-5' });
+
+    fetchSpy.mockResolvedValue(new Response(null, { status: 200 }));
+    const replayed = await callbackDelivery.replay(failed!.id);
+
+    expect(replayed).toMatchObject({ id: failed!.id, status: 'delivered', attempts: 1 });
+    await expect(callbackDelivery.replay(failed!.id)).rejects.toThrow(
+      'Only failed callback deliveries can be replayed'
+    );
+    expect(await callbackDelivery.replay(9999)).toBeNull();
+  });
+
+  it('should resume deliveries left pending by a previous process', async () => {
+    tempDb.db
+      .prepare(
+        `INSERT INTO callback_deliveries (request_id, callback_url, payload, status, attempts)
+         VALUES ('req-6', 'http://example.com/callback', '{"success":true}', 'pending', 1)`
+      )
+      .run();
+    fetchSpy.mockResolvedValue(new Response(null, { status: 200 }));
+
+    expect(callbackDelivery.resumePending()).toBe(1);
+
+    expect(await waitForDelivery('req-6')).toMatchObject({ status: 'delivered', attempts: 2 });
+  });
+
+  it('should back off exponentially with jitter up to the maximum delay', () => {
+    const policy = { baseDelayMs: 1000, maxDelayMs: 10000 };
+
+    expect(getRetryDelay(1, policy, () => 0)).toBe(500);
+    expect(getRetryDelay(1, policy, () => 1)).toBe(1000);
+    expect(getRetryDelay(3, policy, () => 1)).toBe(4000);
+    expect(getRetryDelay(10, policy, () => 1)).toBe(10000);
+    expect(getRetryDelay(10, policy, () => 0)).toBe(5000);
+  });
+});
@@ -1,10 +1,20 @@
 // eslint-disable-next-line node/no-unpublished-import
 import { describe, it, expect, afterEach } from '@jest/globals';
-import { buildCallbackUrl, getWebhookSecret } from '../src/callback-url-builder.js';
+import {
+  buildCallbackUrl,
+  getWebhookSecret,
+  getWebhookSigningSecrets,
+  signCallbackPayload,
+  verifyCallbackSignature,
+  CALLBACK_SIGNATURE_HEADER,
+  CALLBACK_TIMESTAMP_HEADER,
+} from '../src/callback-url-builder.js';
 
 describe('callback-url-builder', () => {
   const originalJarekVaUrl = process.env.JAREK_VA_URL;
   const originalWebhookSecret = process.env.WEBHOOK_SECRET;
+  const originalSigningSecrets = process.env.WEBHOOK_SIGNING_SECRETS;
+  const originalSendSecret = process.env.WEBHOOK_SEND_SECRET;
 
   afterEach(() => {
     // Restore original environment variables
@@ -18,6 +28,16 @@ describe('callback-url-builder', () => {
     } else {
       delete process.env.WEBHOOK_SECRET;
     }
+    if (originalSigningSecrets) {
+      process.env.WEBHOOK_SIGNING_SECRETS = originalSigningSecrets;
+    } else {
+      delete process.env.WEBHOOK_SIGNING_SECRETS;
+    }
+    if (originalSendSecret) {
+      process.env.WEBHOOK_SEND_SECRET = originalSendSecret;
+    } else {
+      delete process.env.WEBHOOK_SEND_SECRET;
+    }
   });
 
   describe('buildCallbackUrl', () => {
@@ -50,6 +70,16 @@ describe('callback-url-builder', () => {
       expect(url).toContain('secret=test-secret-123');
     });
 
+    it('should leave the secret out of the URL when WEBHOOK_SEND_SECRET=false', () => {
+      process.env.JAREK_VA_URL = 'http://app:3000';
+      process.env.WEBHOOK_SECRET = 'test-secret-123';
+      process.env.WEBHOOK_SEND_SECRET = 'false';
+
+      const url = buildCallbackUrl();
+
+      expect(url).toBe('http://app:3000/cursor-runner/callback');
+    });
+
     it('should handle custom JAREK_VA_URL with path', () => {
       process.env.JAREK_VA_URL = 'https://example.com/api';
       delete process.env.WEBHOOK_SECRET;
@@ -78,4 +108,85 @@ describe('callback-url-builder', () => {
       expect(secret).toBeNull();
     });
   });
+
+  describe('getWebhookSigningSecrets', () => {
+    it('should use WEBHOOK_SIGNING_SECRETS, falling back to WEBHOOK_SECRET', () => {
+      process.env.WEBHOOK_SECRET = 'shared-secret';
+      delete process.env.WEBHOOK_SIGNING_SECRETS;
+      expect(getWebhookSigningSecrets()).toEqual(['shared-secret']);
+
+      process.env.WEBHOOK_SIGNING_SECRETS = 'new-key, old-key';
+      expect(getWebhookSigningSecrets()).toEqual(['new-key', 'old-key']);
+
+      delete process.env.WEBHOOK_SECRET;
+      delete process.env.WEBHOOK_SIGNING_SECRETS;
+      expect(getWebhookSigningSecrets()).toEqual([]);
+    });
+  });
+
+  describe('signCallbackPayload / verifyCallbackSignature', () => {
+    const body = JSON.stringify({ success: true, requestId: 'req-1' });
+    const now = 1_700_000_000;
+
+    it('should verify a payload signed with the same secret', () => {
+      const headers = signCallbackPayload(body, ['key-1'], now);
+
+      expect(headers[CALLBACK_TIMESTAMP_HEADER]).toBe(String(now));
+      expect(headers[CALLBACK_SIGNATURE_HEADER]).toMatch(/^v1=[0-9a-f]{64}$/);
+      expect(verifyCallbackSignature(body, headers, { secrets: ['key-1'], now })).toEqual({
+        valid: true,
+      });
+      // Node lowercases incoming header names
+      const lowercased = Object.fromEntries(
+        Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value])
+      );
+      expect(
+        verifyCallbackSignature(Buffer.from(body), lowercased, { secrets: ['key-1'], now }).valid
+      ).toBe(true);
+    });
+
+    it('should reject a tampered body or a different secret', () => {
+      const headers = signCallbackPayload(body, ['key-1'], now);
+
+      expect(
+        verifyCallbackSignature(body.replace('true', 'false'), headers, {
+          secrets: ['key-1'],
+          now,
+        })
+      ).toEqual({ valid: false, reason: 'Signature mismatch' });
+      expect(verifyCallbackSignature(body, headers, { secrets: ['key-2'], now }).valid).toBe(false);
+    });
+
+    it('should reject timestamps outside the replay window', () => {
+      const headers = signCallbackPayload(body, ['key-1'], now - 301);
+
+      expect(verifyCallbackSignature(body, headers, { secrets: ['key-1'], now })).toEqual({
+        valid: false,
+        reason: 'Timestamp outside the allowed window',
+      });
+      expect(
+        verifyCallbackSignature(body, headers, { secrets: ['key-1'], now, toleranceSeconds: 600 })
+          .valid
+      ).toBe(true);
+    });
+
+    it('should accept any active key while keys are rotated', () => {
+      const headers = signCallbackPayload(body, ['new-key', 'old-key'], now);
+
+      expect(verifyCallbackSignature(body, headers, { secrets: ['old-key'], now }).valid).toBe(
+        true
+      );
+      expect(verifyCallbackSignature(body, headers, { secrets: ['new-key'], now }).valid).toBe(
+        true
+      );
+    });
+
+    it('should reject callbacks without signature headers', () => {
+      expect(verifyCallbackSignature(body, {}, { secrets: ['key-1'], now })).toEqual({
+        valid: false,
+        reason: 'Missing signature or timestamp header',
+      });
+      expect(signCallbackPayload(body, [], now)).toEqual({});
+    });
+  });
 });
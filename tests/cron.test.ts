@@ -0,0 +1,85 @@
+/**
+ * Unit tests for cron expression parsing and scheduling
+ */
+import { describe, it, expect } from '@jest/globals';
+import { getNextCronRun, isValidTimezone, parseCron } from '../src/utils/cron.js';
+
+function nextRun(expression: string, after: string, timezone?: string): string | undefined {
+  return getNextCronRun(parseCron(expression), new Date(after), timezone)?.toISOString();
+}
+
+describe('parseCron', () => {
+  it('should parse lists, ranges, steps and names', () => {
+    const schedule = parseCron('0,30 9-17/4 * jan-mar MON-FRI');
+
+    expect([...schedule.minutes]).toEqual([0, 30]);
+    expect([...schedule.hours]).toEqual([9, 13, 17]);
+    expect([...schedule.months]).toEqual([1, 2, 3]);
+    expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+    expect(schedule.anyDayOfMonth).toBe(true);
+  });
+
+  it('should accept shorthands and 7 for Sunday', () => {
+    expect(parseCron('@daily')).toEqual(parseCron('0 0 * * *'));
+    expect([...parseCron('0 0 * * 7').daysOfWeek]).toEqual([0]);
+  });
+
+  it.each([
+    ['0 9 * *', /Expected 5 fields/],
+    ['60 * * * *', /minute must be between 0 and 59/],
+    ['* * * * funday', /Invalid day of week value/],
+    ['*/0 * * * *', /Invalid minute field/],
+    ['5-1 * * * *', /Invalid minute range/],
+  ])('should reject %j', (expression, error) => {
+    expect(() => parseCron(expression)).toThrow(error);
+  });
+});
+
+describe('getNextCronRun', () => {
+  it('should find the next run strictly after a date', () => {
+    expect(nextRun('*/15 * * * *', '2026-10-16T12:07:30Z')).toBe('2026-10-16T12:15:00.000Z');
+    expect(nextRun('*/15 * * * *', '2026-10-16T12:15:00Z')).toBe('2026-10-16T12:30:00.000Z');
+  });
+
+  it('should evaluate the schedule in a time zone', () => {
+    // Friday afternoon in Berlin; the next weekday 09:00 is Monday (UTC+2 in October)
+    expect(nextRun('0 9 * * mon-fri', '2026-10-16T12:00:00Z', 'Europe/Berlin')).toBe(
+      '2026-10-19T07:00:00.000Z'
+    );
+    expect(nextRun('0 9 * * *', '2026-10-16T12:00:00Z', 'Asia/Kolkata')).toBe(
+      '2026-10-17T03:30:00.000Z'
+    );
+  });
+
+  it('should follow daylight saving time changes', () => {
+    expect(nextRun('0 0 * * *', '2026-03-28T12:00:00Z', 'Europe/Berlin')).toBe(
+      '2026-03-28T23:00:00.000Z'
+    );
+    expect(nextRun('0 0 * * *', '2026-03-29T12:00:00Z', 'Europe/Berlin')).toBe(
+      '2026-03-29T22:00:00.000Z'
+    );
+    // 02:30 does not exist on the day clocks go forward
+    expect(nextRun('30 2 * * *', '2026-03-28T12:00:00Z', 'Europe/Berlin')).toBe(
+      '2026-03-30T00:30:00.000Z'
+    );
+  });
+
+  it('should match either day field when both are restricted', () => {
+    // The 1st of the month or a Monday, whichever comes first
+    expect(nextRun('0 0 1 * mon', '2026-10-20T00:00:00Z')).toBe('2026-10-26T00:00:00.000Z');
+    expect(nextRun('0 0 1 * mon', '2026-10-27T00:00:00Z')).toBe('2026-11-01T00:00:00.000Z');
+  });
+
+  it('should return null for a schedule that never runs', () => {
+    expect(nextRun('0 0 30 2 *', '2026-01-01T00:00:00Z')).toBeUndefined();
+    expect(nextRun('0 0 29 2 *', '2026-03-01T00:00:00Z')).toBe('2028-02-29T00:00:00.000Z');
+  });
+});
+
+describe('isValidTimezone', () => {
+  it('should accept IANA names and reject others', () => {
+    expect(isValidTimezone('Europe/Berlin')).toBe(true);
+    expect(isValidTimezone('UTC')).toBe(true);
+    expect(isValidTimezone('Mars/Olympus_Mons')).toBe(false);
+  });
+});
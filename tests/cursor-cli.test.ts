@@ -1,6 +1,6 @@
 // eslint-disable-next-line node/no-unpublished-import
 import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
-import { CursorCLI } from '../src/cursor-cli.js';
+import { CursorCLI, isCancellationError } from '../src/cursor-cli.js';
 
 describe('CursorCLI', () => {
   let cursorCLI: CursorCLI;
@@ -769,6 +769,195 @@ describe('CursorCLI', () => {
     });
   });
 
+  describe('Cancellation', () => {
+    let sleepCLI: CursorCLI;
+    let originalMaxConcurrent: string | undefined;
+
+    beforeEach(() => {
+      originalMaxConcurrent = process.env.CURSOR_CLI_MAX_CONCURRENT;
+      process.env.CURSOR_CLI_MAX_CONCURRENT = '1';
+      // Use `sleep` as a stand-in for a long-running cursor-agent process
+      sleepCLI = new CursorCLI('sleep');
+    });
+
+    afterEach(() => {
+      if (originalMaxConcurrent) {
+        process.env.CURSOR_CLI_MAX_CONCURRENT = originalMaxConcurrent;
+      } else {
+        delete process.env.CURSOR_CLI_MAX_CONCURRENT;
+      }
+    });
+
+    it('should reject immediately when the signal is already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+      const onStart = jest.fn();
+
+      const error = await sleepCLI
+        .executeCommand(['5'], { signal: controller.signal, onStart })
+        .catch((err: unknown) => err);
+
+      expect(isCancellationError(error)).toBe(true);
+      expect(onStart).not.toHaveBeenCalled();
+      expect(sleepCLI.getQueueStatus().available).toBe(1);
+    });
+
+    it('should terminate a running command and release its slot', async () => {
+      const controller = new AbortController();
+      let started = false;
+
+      const promise = sleepCLI
+        .executeCommand(['5'], {
+          signal: controller.signal,
+          onStart: () => {
+            started = true;
+          },
+        })
+        .catch((err: unknown) => err);
+
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      expect(started).toBe(true);
+      expect(sleepCLI.getQueueStatus().available).toBe(0);
+
+      const abortedAt = Date.now();
+      controller.abort();
+      const error = await promise;
+
+      expect(isCancellationError(error)).toBe(true);
+      expect(Date.now() - abortedAt).toBeLessThan(1000);
+      expect(sleepCLI.getQueueStatus().available).toBe(1);
+    }, 10000);
+
+    it('should remove a waiting request from the queue without affecting the running one', async () => {
+      const runningController = new AbortController();
+      const waitingController = new AbortController();
+      const waitingOnStart = jest.fn();
+
+      const running = sleepCLI
+        .executeCommand(['5'], { signal: runningController.signal })
+        .catch((err: unknown) => err);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      const waiting = sleepCLI
+        .executeCommand(['5'], { signal: waitingController.signal, onStart: waitingOnStart })
+        .catch((err: unknown) => err);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      expect(sleepCLI.getQueueStatus().waiting).toBe(1);
+
+      waitingController.abort();
+      const waitingError = await waiting;
+
+      expect(isCancellationError(waitingError)).toBe(true);
+      expect(waitingOnStart).not.toHaveBeenCalled();
+      expect(sleepCLI.getQueueStatus()).toMatchObject({ available: 0, waiting: 0 });
+
+      runningController.abort();
+      expect(isCancellationError(await running)).toBe(true);
+      expect(sleepCLI.getQueueStatus().available).toBe(1);
+    }, 10000);
+  });
+
+  describe('Priority scheduling', () => {
+    const envKeys = [
+      'CURSOR_CLI_MAX_CONCURRENT',
+      'CURSOR_CLI_QUEUE_WEIGHTS',
+      'CURSOR_CLI_QUEUE_STARVATION_MS',
+    ];
+    let originalEnv: Record<string, string | undefined>;
+
+    beforeEach(() => {
+      originalEnv = Object.fromEntries(envKeys.map((key) => [key, process.env[key]]));
+      process.env.CURSOR_CLI_MAX_CONCURRENT = '1';
+    });
+
+    afterEach(() => {
+      for (const key of envKeys) {
+        if (originalEnv[key] === undefined) {
+          delete process.env[key];
+        } else {
+          process.env[key] = originalEnv[key];
+        }
+      }
+    });
+
+    /**
+     * Queue a short `sleep` run and record when it gets an execution slot
+     */
+    const queueRun = (
+      cli: CursorCLI,
+      label: string,
+      queueType: 'default' | 'telegram' | 'api',
+      startOrder: string[]
+    ): Promise<unknown> =>
+      cli.executeCommand(['0.1'], { queueType, onStart: () => startOrder.push(label) });
+
+    it('should give freed slots to telegram and api requests before default work', async () => {
+      const sleepCLI = new CursorCLI('sleep');
+      const startOrder: string[] = [];
+
+      const runs = [queueRun(sleepCLI, 'running', 'default', startOrder)];
+      runs.push(queueRun(sleepCLI, 'default', 'default', startOrder));
+      runs.push(queueRun(sleepCLI, 'api', 'api', startOrder));
+      runs.push(queueRun(sleepCLI, 'telegram', 'telegram', startOrder));
+
+      const status = sleepCLI.getQueueStatus();
+      expect(status.waiting).toBe(3);
+      expect(status.byPriority.default).toMatchObject({ waiting: 1, running: 1, weight: 1 });
+      expect(status.byPriority.telegram).toMatchObject({ waiting: 1, running: 0, weight: 5 });
+
+      await Promise.all(runs);
+
+      expect(startOrder).toEqual(['running', 'telegram', 'api', 'default']);
+      expect(sleepCLI.getQueueStatus().byPriority.default.running).toBe(0);
+    }, 10000);
+
+    it('should serve a request that exceeded the starvation threshold first', async () => {
+      process.env.CURSOR_CLI_QUEUE_STARVATION_MS = '50';
+      const sleepCLI = new CursorCLI('sleep');
+      const startOrder: string[] = [];
+
+      const runs = [queueRun(sleepCLI, 'running', 'default', startOrder)];
+      runs.push(queueRun(sleepCLI, 'starved', 'default', startOrder));
+      await new Promise((resolve) => setTimeout(resolve, 60));
+      runs.push(queueRun(sleepCLI, 'telegram', 'telegram', startOrder));
+
+      await Promise.all(runs);
+
+      expect(startOrder).toEqual(['running', 'starved', 'telegram']);
+    }, 10000);
+
+    it('should read scheduling weights from the environment', () => {
+      process.env.CURSOR_CLI_QUEUE_WEIGHTS = 'telegram=8, default=2, api=oops';
+      const cli = new CursorCLI('sleep');
+
+      const { byPriority } = cli.getQueueStatus();
+
+      expect(byPriority.telegram.weight).toBe(8);
+      expect(byPriority.default.weight).toBe(2);
+      expect(byPriority.api.weight).toBe(5);
+    });
+  });
+
+  describe('Output streaming', () => {
+    it('should report stdout and stderr chunks as they are received', async () => {
+      // Use `sh` as a stand-in for cursor-agent writing to both streams
+      const shCLI = new CursorCLI('sh');
+      const chunks: Array<{ chunk: string; stream: string }> = [];
+
+      const result = await shCLI.executeCommand(['-c', 'echo out; echo err 1>&2'], {
+        onOutput: (chunk, stream) => chunks.push({ chunk, stream }),
+      });
+
+      expect(result.stdout).toContain('out');
+      expect(chunks).toEqual(
+        expect.arrayContaining([
+          { chunk: 'out\n', stream: 'stdout' },
+          { chunk: 'err\n', stream: 'stderr' },
+        ])
+      );
+    }, 10000);
+  });
+
   describe('extractFilesFromOutput - Additional Tests', () => {
     it('should extract files from various cursor-cli output formats', () => {
       // Test various output formats that cursor-cli might produce
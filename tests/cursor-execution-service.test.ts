@@ -302,3 +302,573 @@ describe('CursorExecutionService - System Instructions', () => {
 
   it('should not include system instructions in review agent prompts', async () => {});
 });
+
+describe('CursorExecutionService - Cancellation', () => {
+  let cursorCLI: CursorCLI;
+  let filesystem: FilesystemService;
+  let executionService: CursorExecutionService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    cursorCLI = new CursorCLI();
+    filesystem = new FilesystemService();
+    executionService = new CursorExecutionService(
+      new GitService(),
+      cursorCLI,
+      new CommandParserService(),
+      filesystem,
+      createMockRedisClient() as Redis
+    );
+
+    executionService['workspaceTrust'] = {
+      ensureWorkspaceTrust: jest.fn<() => Promise<void>>().mockResolvedValue(undefined as void),
+    } as unknown as WorkspaceTrustService;
+    jest.spyOn(filesystem, 'exists').mockReturnValue(true);
+    jest.spyOn(executionService['mcpSelectionService'], 'selectMcps').mockResolvedValue({
+      selectedMcps: [],
+      reasoning: 'Test reasoning',
+    });
+    jest.spyOn(executionService as any, 'writeFilteredMcpConfig').mockResolvedValue(undefined);
+
+    // Simulate cursor-cli rejecting because the execution was cancelled
+    jest
+      .spyOn(cursorCLI, 'executeCommand')
+      .mockRejectedValue(
+        Object.assign(new Error('cursor-cli execution cancelled'), { cancelled: true })
+      );
+  });
+
+  it('should pass the abort signal through to cursor-cli', async () => {
+    const controller = new AbortController();
+
+    await executionService.execute({
+      prompt: 'Test prompt',
+      requestId: 'test-cancel-1',
+      signal: controller.signal,
+    });
+
+    const executeSpy = jest.spyOn(cursorCLI, 'executeCommand');
+    expect(executeSpy.mock.calls[0]?.[1]).toMatchObject({ signal: controller.signal });
+  });
+
+  it('should return a cancelled response, note it in the conversation and notify the callback', async () => {
+    const addMessageSpy = jest.spyOn(executionService.conversationService, 'addMessage');
+    const callbackSpy = jest
+      .spyOn(executionService, 'callbackWebhook')
+      .mockResolvedValue(undefined as void);
+
+    const result = await executionService.execute({
+      prompt: 'Test prompt',
+      requestId: 'test-cancel-2',
+      callbackUrl: 'http://example.com/callback',
+    });
+
+    expect(result.status).toBe(409);
+    expect(result.body).toEqual({
+      success: false,
+      status: 'cancelled',
+      error: 'Execution cancelled',
+    });
+
+    const note = addMessageSpy.mock.calls.find(
+      (call) => call[1] === 'assistant' && String(call[2]).includes('[Execution cancelled]')
+    );
+    expect(note).toBeDefined();
+
+    expect(callbackSpy).toHaveBeenCalledWith(
+      'http://example.com/callback',
+      expect.objectContaining({
+        success: false,
+        status: 'cancelled',
+        requestId: 'test-cancel-2',
+      }),
+      'test-cancel-2'
+    );
+  });
+
+  it('should rethrow errors that are not cancellations', async () => {
+    jest.spyOn(cursorCLI, 'executeCommand').mockRejectedValue(new Error('spawn failed'));
+
+    await expect(
+      executionService.execute({ prompt: 'Test prompt', requestId: 'test-cancel-3' })
+    ).rejects.toThrow('spawn failed');
+  });
+});
+
+describe('CursorExecutionService - Iterate', () => {
+  let cursorCLI: CursorCLI;
+  let filesystem: FilesystemService;
+  let executionService: CursorExecutionService;
+
+  const workerResult = (stdout: string) => ({ success: true, exitCode: 0, stdout, stderr: '' });
+  const reviewResult = (codeComplete: boolean, justification: string, breakIteration = false) =>
+    workerResult(
+      JSON.stringify({
+        code_complete: codeComplete,
+        break_iteration: breakIteration,
+        justification,
+      })
+    );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    cursorCLI = new CursorCLI();
+    filesystem = new FilesystemService();
+    executionService = new CursorExecutionService(
+      new GitService(),
+      cursorCLI,
+      new CommandParserService(),
+      filesystem,
+      createMockRedisClient() as Redis
+    );
+
+    executionService['workspaceTrust'] = {
+      ensureWorkspaceTrust: jest.fn<() => Promise<void>>().mockResolvedValue(undefined as void),
+    } as unknown as WorkspaceTrustService;
+    jest.spyOn(filesystem, 'exists').mockReturnValue(true);
+    jest.spyOn(executionService['mcpSelectionService'], 'selectMcps').mockResolvedValue({
+      selectedMcps: [],
+      reasoning: 'Test reasoning',
+    });
+    jest.spyOn(executionService as any, 'writeFilteredMcpConfig').mockResolvedValue(undefined);
+  });
+
+  it('should re-prompt with the reviewer feedback until the work is complete', async () => {
+    const executeSpy = jest
+      .spyOn(cursorCLI, 'executeCommand')
+      .mockResolvedValueOnce(workerResult('First attempt'))
+      .mockResolvedValueOnce(reviewResult(false, 'Tests are missing'))
+      .mockResolvedValueOnce(workerResult('Added tests'))
+      .mockResolvedValueOnce(reviewResult(true, 'All done'));
+
+    const result = await executionService.iterate({
+      prompt: 'Add a feature',
+      requestId: 'test-iterate-1',
+    });
+
+    expect(result.status).toBe(200);
+    expect(result.body).toMatchObject({
+      success: true,
+      output: 'Added tests',
+      iterations: 1,
+      maxIterations: 5,
+      codeComplete: true,
+      reviewJustification: 'All done',
+    });
+    const body = result.body as { iterationHistory: Array<{ output: string }> };
+    expect(body.iterationHistory.map((entry) => entry.output)).toEqual([
+      'First attempt',
+      'Added tests',
+    ]);
+
+    // Third call is the second worker pass - it carries the feedback and the original prompt
+    const followUpPrompt = String(executeSpy.mock.calls[2]?.[0]?.at(-1));
+    expect(followUpPrompt).toContain('Tests are missing');
+    expect(followUpPrompt).toContain('Add a feature');
+  });
+
+  it('should stop once maxIterations follow-up passes have run', async () => {
+    const executeSpy = jest
+      .spyOn(cursorCLI, 'executeCommand')
+      .mockImplementation(async (args) =>
+        String(args?.at(-1)).includes('reviewing the output')
+          ? reviewResult(false, 'Still in progress')
+          : workerResult('Still working')
+      );
+
+    const result = await executionService.iterate({
+      prompt: 'Add a feature',
+      requestId: 'test-iterate-2',
+      maxIterations: 2,
+    });
+
+    expect(result.body).toMatchObject({ success: true, iterations: 2, codeComplete: false });
+    // Initial pass plus two follow-ups, each with a review
+    expect(executeSpy).toHaveBeenCalledTimes(6);
+  });
+
+  it('should stop without retrying when the reviewer asks to break', async () => {
+    jest
+      .spyOn(cursorCLI, 'executeCommand')
+      .mockResolvedValueOnce(workerResult('Needs credentials'))
+      .mockResolvedValueOnce(reviewResult(false, 'Authentication failed', true));
+
+    const result = await executionService.iterate({
+      prompt: 'Deploy',
+      requestId: 'test-iterate-3',
+    });
+
+    expect(result.status).toBe(422);
+    expect(result.body).toMatchObject({
+      success: false,
+      iterations: 0,
+      reviewJustification: 'Authentication failed',
+      originalOutput: 'Needs credentials',
+    });
+  });
+});
+
+describe('CursorExecutionService - Repository Lock', () => {
+  let cursorCLI: CursorCLI;
+  let filesystem: FilesystemService;
+  let executionService: CursorExecutionService;
+
+  const commandResult = { success: true, exitCode: 0, stdout: 'done', stderr: '' };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    cursorCLI = new CursorCLI();
+    filesystem = new FilesystemService();
+    executionService = new CursorExecutionService(
+      new GitService(),
+      cursorCLI,
+      new CommandParserService(),
+      filesystem,
+      createMockRedisClient() as Redis
+    );
+
+    executionService['workspaceTrust'] = {
+      ensureWorkspaceTrust: jest.fn<() => Promise<void>>().mockResolvedValue(undefined as void),
+    } as unknown as WorkspaceTrustService;
+    jest.spyOn(filesystem, 'exists').mockReturnValue(true);
+    jest.spyOn(executionService['mcpSelectionService'], 'selectMcps').mockResolvedValue({
+      selectedMcps: [],
+      reasoning: 'Test reasoning',
+    });
+    jest.spyOn(executionService as any, 'writeFilteredMcpConfig').mockResolvedValue(undefined);
+  });
+
+  it('should serialize runs against the same repository and report the wait', async () => {
+    let finishFirst: () => void = () => {};
+    const executeSpy = jest
+      .spyOn(cursorCLI, 'executeCommand')
+      .mockImplementationOnce(
+        () =>
+          new Promise((resolve) => {
+            finishFirst = () => resolve(commandResult);
+          })
+      )
+      .mockResolvedValue(commandResult);
+    const lockStates: string[] = [];
+
+    const first = executionService.execute({
+      repository: 'repo-a',
+      prompt: 'First change',
+      requestId: 'lock-1',
+    });
+    const second = executionService.execute({
+      repository: 'repo-a',
+      prompt: 'Second change',
+      requestId: 'lock-2',
+      onRepositoryLock: (state) => lockStates.push(state),
+    });
+    const other = executionService.execute({
+      repository: 'repo-b',
+      prompt: 'Unrelated change',
+      requestId: 'lock-3',
+    });
+
+    // Different repositories still run in parallel
+    await expect(other).resolves.toMatchObject({ status: 200 });
+    expect(executeSpy).toHaveBeenCalledTimes(2);
+    expect(lockStates).toEqual(['waiting']);
+    expect(executionService.repositoryLock.getStatus().locks).toEqual([
+      { repository: 'repo-a', holder: 'lock-1', waiting: ['lock-2'] },
+    ]);
+
+    finishFirst();
+
+    await expect(first).resolves.toMatchObject({ status: 200 });
+    await expect(second).resolves.toMatchObject({ status: 200 });
+    expect(executeSpy).toHaveBeenCalledTimes(3);
+    expect(lockStates).toEqual(['waiting', 'acquired']);
+    expect(executionService.repositoryLock.getStatus().locks).toEqual([]);
+  });
+
+  it('should return a cancelled response when aborted while waiting for the lock', async () => {
+    const executeSpy = jest.spyOn(cursorCLI, 'executeCommand').mockResolvedValue(commandResult);
+    const controller = new AbortController();
+
+    const first = executionService.execute({
+      repository: 'repo-a',
+      prompt: 'First change',
+      requestId: 'lock-1',
+    });
+    const second = executionService.execute({
+      repository: 'repo-a',
+      prompt: 'Second change',
+      requestId: 'lock-2',
+      signal: controller.signal,
+    });
+
+    controller.abort();
+
+    await expect(second).resolves.toMatchObject({
+      status: 409,
+      body: { status: 'cancelled' },
+    });
+    await expect(first).resolves.toMatchObject({ status: 200 });
+    expect(executeSpy).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('CursorExecutionService - Worktree Isolation', () => {
+  let cursorCLI: CursorCLI;
+  let filesystem: FilesystemService;
+  let executionService: CursorExecutionService;
+  let createWorktree: jest.Mock<(...args: unknown[]) => Promise<unknown>>;
+  let removeWorktree: jest.Mock<(...args: unknown[]) => Promise<void>>;
+
+  const worktree = {
+    path: '/worktrees/repo-a/wt-1',
+    branch: 'cursor/wt-1',
+    generatedBranch: true,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    cursorCLI = new CursorCLI();
+    filesystem = new FilesystemService();
+    executionService = new CursorExecutionService(
+      new GitService(),
+      cursorCLI,
+      new CommandParserService(),
+      filesystem,
+      createMockRedisClient() as Redis
+    );
+
+    executionService['workspaceTrust'] = {
+      ensureWorkspaceTrust: jest.fn<() => Promise<void>>().mockResolvedValue(undefined as void),
+    } as unknown as WorkspaceTrustService;
+    createWorktree = jest.fn<(...args: unknown[]) => Promise<unknown>>();
+    removeWorktree = jest.fn<(...args: unknown[]) => Promise<void>>().mockResolvedValue();
+    executionService['worktreeService'] = {
+      createWorktree,
+      removeWorktree,
+    } as unknown as (typeof executionService)['worktreeService'];
+    jest.spyOn(filesystem, 'exists').mockReturnValue(true);
+    jest.spyOn(executionService['mcpSelectionService'], 'selectMcps').mockResolvedValue({
+      selectedMcps: [],
+      reasoning: 'Test reasoning',
+    });
+    jest.spyOn(executionService as any, 'writeFilteredMcpConfig').mockResolvedValue(undefined);
+    jest
+      .spyOn(cursorCLI, 'executeCommand')
+      .mockResolvedValue({ success: true, exitCode: 0, stdout: 'done', stderr: '' });
+  });
+
+  it('should run cursor in the worktree and remove it afterwards', async () => {
+    createWorktree.mockResolvedValue(worktree);
+
+    const result = await executionService.execute({
+      repository: 'repo-a',
+      prompt: 'Test prompt',
+      requestId: 'wt-1',
+      worktree: true,
+    });
+
+    expect(result.status).toBe(200);
+    expect(result.body).toMatchObject({
+      worktree: { path: worktree.path, branch: 'cursor/wt-1', kept: false },
+    });
+    expect(createWorktree).toHaveBeenCalledWith(expect.stringContaining('repo-a'), {
+      repository: 'repo-a',
+      requestId: 'wt-1',
+      branchName: undefined,
+    });
+    expect(jest.mocked(cursorCLI.executeCommand).mock.calls[0]?.[1]).toMatchObject({
+      cwd: worktree.path,
+    });
+    expect(removeWorktree).toHaveBeenCalledWith(expect.stringContaining('repo-a'), worktree);
+    // Worktree runs don't take the shared checkout's lock
+    expect(executionService.repositoryLock.getStatus().locks).toEqual([]);
+  });
+
+  it('should keep the worktree when requested', async () => {
+    createWorktree.mockResolvedValue(worktree);
+
+    const result = await executionService.execute({
+      repository: 'repo-a',
+      prompt: 'Test prompt',
+      requestId: 'wt-1',
+      worktree: true,
+      keepWorktree: true,
+    });
+
+    expect(result.body).toMatchObject({ worktree: { kept: true } });
+    expect(removeWorktree).not.toHaveBeenCalled();
+  });
+
+  it('should fail without running cursor when the worktree cannot be created', async () => {
+    createWorktree.mockRejectedValue(new Error("fatal: 'main' is already checked out"));
+
+    const result = await executionService.execute({
+      repository: 'repo-a',
+      branchName: 'main',
+      prompt: 'Test prompt',
+      requestId: 'wt-2',
+      worktree: true,
+    });
+
+    expect(result.status).toBe(500);
+    expect(result.body.error).toBe(
+      "Failed to create worktree: fatal: 'main' is already checked out"
+    );
+    expect(cursorCLI.executeCommand).not.toHaveBeenCalled();
+  });
+
+  it('should require a repository', async () => {
+    const result = await executionService.execute({
+      prompt: 'Test prompt',
+      requestId: 'wt-3',
+      worktree: true,
+    });
+
+    expect(result.status).toBe(400);
+    expect(result.body.error).toBe('Worktree isolation requires a repository');
+    expect(createWorktree).not.toHaveBeenCalled();
+  });
+});
+
+describe('CursorExecutionService - Branch Checkout', () => {
+  let cursorCLI: CursorCLI;
+  let filesystem: FilesystemService;
+  let executionService: CursorExecutionService;
+  let checkoutBranch: jest.Mock<(...args: unknown[]) => Promise<void>>;
+  let getHead: jest.Mock<(...args: unknown[]) => Promise<unknown>>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+
+    cursorCLI = new CursorCLI();
+    filesystem = new FilesystemService();
+    executionService = new CursorExecutionService(
+      new GitService(),
+      cursorCLI,
+      new CommandParserService(),
+      filesystem,
+      createMockRedisClient() as Redis
+    );
+
+    executionService['workspaceTrust'] = {
+      ensureWorkspaceTrust: jest.fn<() => Promise<void>>().mockResolvedValue(undefined as void),
+    } as unknown as WorkspaceTrustService;
+    checkoutBranch = jest.fn<(...args: unknown[]) => Promise<void>>().mockResolvedValue();
+    getHead = jest
+      .fn<(...args: unknown[]) => Promise<unknown>>()
+      .mockResolvedValue({ branch: 'feature/x', commit: 'abc123' });
+    executionService['gitBranchService'] = {
+      isGitRepository: jest.fn<() => Promise<boolean>>().mockResolvedValue(true),
+      checkoutBranch,
+      getHead,
+    } as unknown as (typeof executionService)['gitBranchService'];
+    jest.spyOn(filesystem, 'exists').mockReturnValue(true);
+    jest.spyOn(executionService['mcpSelectionService'], 'selectMcps').mockResolvedValue({
+      selectedMcps: [],
+      reasoning: 'Test reasoning',
+    });
+    jest.spyOn(executionService as any, 'writeFilteredMcpConfig').mockResolvedValue(undefined);
+    jest
+      .spyOn(cursorCLI, 'executeCommand')
+      .mockResolvedValue({ success: true, exitCode: 0, stdout: 'done', stderr: '' });
+  });
+
+  it('should check out the branch before running and report the final branch and HEAD', async () => {
+    const callbackSpy = jest
+      .spyOn(executionService, 'callbackWebhook')
+      .mockResolvedValue(undefined as void);
+
+    const result = await executionService.execute({
+      repository: 'repo-a',
+      branchName: 'feature/x',
+      prompt: 'Test prompt',
+      requestId: 'branch-1',
+      callbackUrl: 'http://example.com/callback',
+    });
+
+    expect(checkoutBranch).toHaveBeenCalledWith(expect.stringContaining('repo-a'), 'feature/x');
+    expect(checkoutBranch.mock.invocationCallOrder[0]).toBeLessThan(
+      jest.mocked(cursorCLI.executeCommand).mock.invocationCallOrder[0]!
+    );
+    expect(result.body).toMatchObject({
+      branchName: 'feature/x',
+      finalBranch: 'feature/x',
+      headCommit: 'abc123',
+    });
+    expect(callbackSpy).toHaveBeenCalledWith(
+      'http://example.com/callback',
+      expect.objectContaining({ finalBranch: 'feature/x', headCommit: 'abc123' }),
+      'branch-1'
+    );
+  });
+
+  it('should fail without running cursor when the branch cannot be checked out', async () => {
+    checkoutBranch.mockRejectedValue(
+      new Error('branch does not exist and no default branch (main or master) was found')
+    );
+
+    const result = await executionService.execute({
+      repository: 'repo-a',
+      branchName: 'feature/x',
+      prompt: 'Test prompt',
+      requestId: 'branch-2',
+    });
+
+    expect(result.status).toBe(422);
+    expect(result.body.error).toBe(
+      'Failed to check out branch feature/x: branch does not exist and no default branch (main or master) was found'
+    );
+    expect(cursorCLI.executeCommand).not.toHaveBeenCalled();
+  });
+
+  it('should report the changes made since the run started', async () => {
+    const changes = {
+      baseCommit: 'base123',
+      changedFiles: [{ path: 'src/app.ts', status: 'modified' }],
+      diffstat: { filesChanged: 1, insertions: 2, deletions: 1 },
+      commits: [{ sha: 'abc123', subject: 'Update app' }],
+      diff: { content: 'diff --git a/src/app.ts b/src/app.ts', truncated: false, bytes: 36 },
+    };
+    const getChanges = jest
+      .fn<(...args: unknown[]) => Promise<unknown>>()
+      .mockResolvedValue(changes);
+    executionService['gitDiffService'] = {
+      getHeadCommit: jest.fn<() => Promise<string | null>>().mockResolvedValue('base123'),
+      getChanges,
+    } as unknown as (typeof executionService)['gitDiffService'];
+
+    const result = await executionService.execute({
+      repository: 'repo-a',
+      prompt: 'Test prompt',
+      requestId: 'branch-4',
+      includeDiff: true,
+    });
+
+    expect(getChanges).toHaveBeenCalledWith(expect.stringContaining('repo-a'), 'base123', {
+      requestId: 'branch-4',
+      includeDiff: true,
+    });
+    expect(result.body).toMatchObject({
+      changedFiles: changes.changedFiles,
+      diffstat: changes.diffstat,
+      commits: changes.commits,
+      diff: changes.diff,
+    });
+  });
+
+  it('should not touch branches when running without a repository', async () => {
+    const result = await executionService.execute({
+      branchName: 'feature/x',
+      prompt: 'Test prompt',
+      requestId: 'branch-3',
+    });
+
+    expect(result.status).toBe(200);
+    expect(checkoutBranch).not.toHaveBeenCalled();
+    expect(result.body).not.toHaveProperty('headCommit');
+  });
+});
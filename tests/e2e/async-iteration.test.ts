@@ -10,7 +10,7 @@ import { CommandParserService } from '../../src/command-parser-service.js';
 import type Redis from 'ioredis';
 import { createMockRedisClient } from '../test-utils.js';
 
-describe.skip('E2E: Async Iteration Flow', () => {
+describe('E2E: Async Iteration Flow', () => {
   let server: Server;
   let app: any;
   let callbackServer: Express;
@@ -0,0 +1,153 @@
+/**
+ * Unit tests for ExecutionPresetService
+ * Tests preset CRUD and validating preset fields
+ */
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import {
+  ExecutionPresetService,
+  parseExecutionPresetInput,
+} from '../src/execution-preset-service.js';
+import { ModelSelectionService } from '../src/model-selection-service.js';
+import { createTempSqliteDb, type TempSqliteDb } from './test-utils.js';
+
+describe('ExecutionPresetService', () => {
+  let tempDb: TempSqliteDb;
+  let originalSharedDbPath: string | undefined;
+  let presets: ExecutionPresetService;
+
+  beforeAll(async () => {
+    originalSharedDbPath = process.env.SHARED_DB_PATH;
+    tempDb = await createTempSqliteDb();
+    process.env.SHARED_DB_PATH = tempDb.dbPath;
+    presets = new ExecutionPresetService();
+  });
+
+  afterAll(async () => {
+    presets.close();
+
+    if (originalSharedDbPath) {
+      process.env.SHARED_DB_PATH = originalSharedDbPath;
+    } else {
+      delete process.env.SHARED_DB_PATH;
+    }
+
+    if (tempDb && tempDb.cleanup) {
+      await tempDb.cleanup();
+    }
+  });
+
+  beforeEach(() => {
+    tempDb.db.prepare('DELETE FROM execution_presets').run();
+  });
+
+  it('should create and get a preset', () => {
+    const preset = presets.createPreset({
+      name: 'my-app-fixes',
+      repository: 'my-app',
+      branchName: 'develop',
+      model: 'gpt-5',
+      timeout: 600000,
+      mcps: ['gmail'],
+      promptPreamble: 'Follow the style guide.',
+    });
+
+    expect(preset).toMatchObject({
+      name: 'my-app-fixes',
+      description: null,
+      repository: 'my-app',
+      branch_name: 'develop',
+      model: 'gpt-5',
+      timeout: 600000,
+      mcps: ['gmail'],
+      prompt_preamble: 'Follow the style guide.',
+    });
+    expect(presets.getPresetByName('my-app-fixes')).toEqual(preset);
+    expect(presets.getPresetByName('missing')).toBeNull();
+  });
+
+  it('should not create two presets with the same name', () => {
+    presets.createPreset({ name: 'docs' });
+
+    expect(presets.createPreset({ name: 'docs', model: 'auto' })).toBeNull();
+    expect(presets.listPresets()).toHaveLength(1);
+  });
+
+  it('should list presets by name', () => {
+    presets.createPreset({ name: 'zeta' });
+    presets.createPreset({ name: 'alpha' });
+
+    expect(presets.listPresets().map((preset) => preset.name)).toEqual(['alpha', 'zeta']);
+  });
+
+  it('should update, clear and rename fields', () => {
+    presets.createPreset({ name: 'docs', model: 'gpt-5', mcps: ['gmail'] });
+
+    const updated = presets.updatePreset('docs', {
+      name: 'documentation',
+      model: null,
+      mcps: null,
+    });
+
+    expect(updated).toMatchObject({ name: 'documentation', model: null, mcps: null });
+    expect(presets.getPresetByName('docs')).toBeNull();
+    expect(presets.updatePreset('missing', { model: 'auto' })).toBeNull();
+  });
+
+  it('should delete presets', () => {
+    presets.createPreset({ name: 'gone' });
+
+    expect(presets.deletePreset('gone')).toBe(true);
+    expect(presets.deletePreset('gone')).toBe(false);
+  });
+});
+
+describe('parseExecutionPresetInput', () => {
+  const models = new ModelSelectionService({ allowedModels: ['auto', 'gpt-5'] });
+
+  it('should map a request body to preset fields', () => {
+    expect(
+      parseExecutionPresetInput(
+        {
+          name: 'nightly',
+          description: 'Nightly maintenance',
+          repository: 'my-app',
+          branch_name: 'main',
+          model: 'gpt-5',
+          timeout: 60000,
+          mcps: ['cursor-runner-shared-sqlite'],
+          prompt_preamble: '  Be brief.  ',
+        },
+        true,
+        models
+      )
+    ).toEqual({
+      input: {
+        name: 'nightly',
+        description: 'Nightly maintenance',
+        repository: 'my-app',
+        branchName: 'main',
+        model: 'gpt-5',
+        timeout: 60000,
+        mcps: ['cursor-runner-shared-sqlite'],
+        promptPreamble: 'Be brief.',
+      },
+    });
+  });
+
+  it.each([
+    [{}, true, /^name must start with a letter or digit/],
+    [{ name: 'has space' }, false, /^name must start with a letter or digit/],
+    [{ model: 'o3' }, false, 'model must be one of: auto, gpt-5'],
+    [{ timeout: 0 }, false, 'timeout must be a positive integer (milliseconds)'],
+    [{ timeout: 2 ** 31 }, false, /^timeout must be at most \d+ milliseconds$/],
+    [{ mcps: ['slack'] }, false, /^mcps must be a list of MCP connections from: /],
+    [{ repository: '../etc' }, false, /^repository must be a repository name/],
+    [{ prompt_preamble: 42 }, false, 'prompt_preamble must be a string'],
+  ])('should reject %j', (body, required, error) => {
+    const result = parseExecutionPresetInput(body, required, models);
+
+    expect('error' in result && result.error).toEqual(
+      error instanceof RegExp ? expect.stringMatching(error) : error
+    );
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * Unit tests for ExecutionStreamService
+ * Tests output buffering, replay and completion events
+ */
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import {
+  ExecutionStreamService,
+  type ExecutionStreamEvent,
+} from '../src/execution-stream-service.js';
+
+describe('ExecutionStreamService', () => {
+  let streams: ExecutionStreamService;
+  let events: ExecutionStreamEvent[];
+
+  beforeEach(() => {
+    streams = new ExecutionStreamService();
+    events = [];
+    streams.onExecutionEvent((event) => events.push(event));
+  });
+
+  afterEach(() => {
+    streams.clear();
+  });
+
+  it('should publish and buffer output chunks with increasing sequence numbers', () => {
+    streams.start('req-1');
+    streams.append('req-1', 'hello ', 'stdout');
+    streams.append('req-1', 'oops', 'stderr');
+
+    expect(events).toEqual([
+      expect.objectContaining({ type: 'execution.output', seq: 1, chunk: 'hello ' }),
+      expect.objectContaining({ type: 'execution.output', seq: 2, stream: 'stderr' }),
+    ]);
+    expect(streams.getSnapshot('req-1')).toMatchObject({
+      requestId: 'req-1',
+      events: [{ chunk: 'hello ' }, { chunk: 'oops' }],
+      truncated: false,
+      status: null,
+    });
+  });
+
+  it('should only replay chunks after the given sequence number', () => {
+    streams.start('req-1');
+    streams.append('req-1', 'a', 'stdout');
+    streams.append('req-1', 'b', 'stdout');
+    streams.append('req-1', 'c', 'stdout');
+
+    const snapshot = streams.getSnapshot('req-1', 2);
+
+    expect(snapshot?.events.map((event) => event.chunk)).toEqual(['c']);
+  });
+
+  it('should ignore output for requests that were not started', () => {
+    streams.append('unknown', 'lost', 'stdout');
+
+    expect(events).toHaveLength(0);
+    expect(streams.getSnapshot('unknown')).toBeNull();
+  });
+
+  it('should publish completion once and ignore output afterwards', () => {
+    streams.start('req-1');
+    streams.append('req-1', 'done', 'stdout');
+    streams.complete('req-1', 'succeeded');
+    streams.complete('req-1', 'failed');
+    streams.append('req-1', 'late', 'stdout');
+
+    expect(events.map((event) => event.type)).toEqual(['execution.output', 'execution.completed']);
+    expect(events[1]).toMatchObject({ requestId: 'req-1', status: 'succeeded' });
+    expect(streams.getSnapshot('req-1')?.status).toBe('succeeded');
+    expect(streams.getSnapshot('req-1')?.events).toHaveLength(1);
+  });
+
+  it('should drop the oldest chunks once the buffer limit is exceeded', () => {
+    const largeChunk = 'x'.repeat(600 * 1024);
+    streams.start('req-1');
+    streams.append('req-1', largeChunk, 'stdout');
+    streams.append('req-1', largeChunk, 'stdout');
+
+    const snapshot = streams.getSnapshot('req-1');
+
+    expect(snapshot?.truncated).toBe(true);
+    expect(snapshot?.events.map((event) => event.seq)).toEqual([2]);
+  });
+
+  it('should reset the buffer when a request ID is started again', () => {
+    streams.start('req-1');
+    streams.append('req-1', 'first attempt', 'stdout');
+    streams.complete('req-1', 'failed');
+
+    streams.start('req-1');
+
+    expect(streams.getSnapshot('req-1')).toMatchObject({ events: [], status: null });
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Unit tests for GitBranchService
+ * Tests branch checkout and creation against real temporary git repositories
+ */
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { execSync } from 'child_process';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { GitBranchService } from '../src/git-branch-service.js';
+
+describe('GitBranchService', () => {
+  let tempDir: string;
+  let repositoryPath: string;
+  let gitBranchService: GitBranchService;
+
+  const git = (args: string, cwd: string = repositoryPath): string =>
+    execSync(`git -c user.name=test -c user.email=test@example.com ${args}`, {
+      cwd,
+      encoding: 'utf-8',
+      stdio: 'pipe',
+    }).trim();
+
+  const commitFile = (name: string, cwd: string = repositoryPath): void => {
+    writeFileSync(path.join(cwd, name), `${name}\n`);
+    git(`add ${name}`, cwd);
+    git(`commit -q -m "Add ${name}"`, cwd);
+  };
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(path.join(tmpdir(), 'git-branch-service-'));
+
+    // origin with a main branch, cloned into the repositories directory
+    const originPath = path.join(tempDir, 'origin');
+    git(`init -q -b main "${originPath}"`, tempDir);
+    commitFile('README.md', originPath);
+    git('branch remote-only', originPath);
+    repositoryPath = path.join(tempDir, 'repo-a');
+    git(`clone -q "${originPath}" "${repositoryPath}"`, tempDir);
+
+    gitBranchService = new GitBranchService();
+  });
+
+  afterEach(() => {
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should create a missing branch from the default branch', async () => {
+    // Start from another branch to prove the new branch is based on origin/main, not HEAD
+    git('checkout -q -b scratch');
+    commitFile('scratch.md');
+
+    await gitBranchService.checkoutBranch(repositoryPath, 'feature/new');
+
+    expect(git('branch --show-current')).toBe('feature/new');
+    expect(git('rev-parse HEAD')).toBe(git('rev-parse origin/main'));
+  });
+
+  it('should check out an existing local branch as is', async () => {
+    git('checkout -q -b feature/existing');
+    commitFile('feature.md');
+    const featureCommit = git('rev-parse HEAD');
+    git('checkout -q main');
+
+    await gitBranchService.checkoutBranch(repositoryPath, 'feature/existing');
+
+    expect(git('branch --show-current')).toBe('feature/existing');
+    expect(git('rev-parse HEAD')).toBe(featureCommit);
+  });
+
+  it('should track a branch that only exists on origin', async () => {
+    await gitBranchService.checkoutBranch(repositoryPath, 'remote-only');
+
+    expect(git('branch --show-current')).toBe('remote-only');
+    expect(git('rev-parse --abbrev-ref remote-only@{upstream}')).toBe('origin/remote-only');
+  });
+
+  it('should fail clearly when there is no default branch to create from', async () => {
+    const loneRepo = path.join(tempDir, 'lone');
+    git(`init -q -b trunk "${loneRepo}"`, tempDir);
+    commitFile('README.md', loneRepo);
+
+    await expect(gitBranchService.checkoutBranch(loneRepo, 'feature/new')).rejects.toThrow(
+      'no default branch (main or master) was found'
+    );
+  });
+
+  it('should fail when local changes would be overwritten', async () => {
+    git('checkout -q -b feature/conflict');
+    writeFileSync(path.join(repositoryPath, 'README.md'), 'changed on branch\n');
+    git('commit -q -am "Change README"');
+    git('checkout -q main');
+    writeFileSync(path.join(repositoryPath, 'README.md'), 'uncommitted change\n');
+
+    await expect(
+      gitBranchService.checkoutBranch(repositoryPath, 'feature/conflict')
+    ).rejects.toThrow(/would be overwritten/);
+    expect(git('branch --show-current')).toBe('main');
+  });
+
+  it('should only treat git working trees as repositories', async () => {
+    expect(await gitBranchService.isGitRepository(repositoryPath)).toBe(true);
+    expect(await gitBranchService.isGitRepository(tempDir)).toBe(false);
+    expect(await gitBranchService.isGitRepository(path.join(tempDir, 'missing'))).toBe(false);
+  });
+
+  it('should report the current branch and HEAD commit', async () => {
+    expect(await gitBranchService.getHead(repositoryPath)).toEqual({
+      branch: 'main',
+      commit: git('rev-parse HEAD'),
+    });
+
+    git('checkout -q --detach');
+    expect((await gitBranchService.getHead(repositoryPath)).branch).toBeNull();
+  });
+});
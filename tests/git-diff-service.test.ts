@@ -0,0 +1,185 @@
+/**
+ * Unit tests for GitDiffService
+ * Tests change reporting against a real temporary git repository
+ */
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { execSync } from 'child_process';
+import { existsSync, mkdtempSync, readFileSync, rmSync, unlinkSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { GitDiffService, getDiffArtifactPath } from '../src/git-diff-service.js';
+
+describe('GitDiffService', () => {
+  let tempDir: string;
+  let repositoryPath: string;
+  let baseCommit: string;
+  let originalArtifactsPath: string | undefined;
+  let originalInlineMaxBytes: string | undefined;
+  let gitDiffService: GitDiffService;
+
+  const git = (args: string): string =>
+    execSync(`git -c user.name=test -c user.email=test@example.com ${args}`, {
+      cwd: repositoryPath,
+      encoding: 'utf-8',
+      stdio: 'pipe',
+    }).trim();
+
+  const writeFile = (name: string, content: string): void => {
+    writeFileSync(path.join(repositoryPath, name), content);
+  };
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(path.join(tmpdir(), 'git-diff-service-'));
+    repositoryPath = path.join(tempDir, 'repo-a');
+    execSync(`git init -q "${repositoryPath}"`, { stdio: 'pipe' });
+    writeFile('README.md', '# repo-a\n');
+    writeFile('obsolete.txt', 'remove me\n');
+    writeFile('.gitignore', 'ignored.log\n');
+    git('add -A');
+    git('commit -q -m initial');
+    baseCommit = git('rev-parse HEAD');
+
+    originalArtifactsPath = process.env.ARTIFACTS_PATH;
+    originalInlineMaxBytes = process.env.CURSOR_DIFF_INLINE_MAX_BYTES;
+    process.env.ARTIFACTS_PATH = path.join(tempDir, 'artifacts');
+    delete process.env.CURSOR_DIFF_INLINE_MAX_BYTES;
+    gitDiffService = new GitDiffService();
+  });
+
+  afterEach(() => {
+    if (originalArtifactsPath) {
+      process.env.ARTIFACTS_PATH = originalArtifactsPath;
+    } else {
+      delete process.env.ARTIFACTS_PATH;
+    }
+    if (originalInlineMaxBytes) {
+      process.env.CURSOR_DIFF_INLINE_MAX_BYTES = originalInlineMaxBytes;
+    } else {
+      delete process.env.CURSOR_DIFF_INLINE_MAX_BYTES;
+    }
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should report committed, uncommitted and untracked changes since the base commit', async () => {
+    writeFile('feature.ts', 'export const feature = true;\n');
+    git('add feature.ts');
+    git('commit -q -m "Add feature"');
+    writeFile('README.md', '# repo-a\n\nUpdated\n');
+    unlinkSync(path.join(repositoryPath, 'obsolete.txt'));
+    writeFile('untracked.md', 'new\n');
+    writeFile('ignored.log', 'ignored\n');
+
+    const changes = await gitDiffService.getChanges(repositoryPath, baseCommit, {
+      requestId: 'req-1',
+    });
+
+    expect(changes).toEqual({
+      baseCommit,
+      changedFiles: [
+        { path: 'README.md', status: 'modified' },
+        { path: 'feature.ts', status: 'added' },
+        { path: 'obsolete.txt', status: 'deleted' },
+        { path: 'untracked.md', status: 'added' },
+      ],
+      diffstat: { filesChanged: 4, insertions: 4, deletions: 1 },
+      commits: [{ sha: git('rev-parse HEAD'), subject: 'Add feature' }],
+    });
+  });
+
+  it('should leave the repository index untouched', async () => {
+    writeFile('untracked.md', 'new\n');
+
+    await gitDiffService.getChanges(repositoryPath, baseCommit, { requestId: 'req-2' });
+
+    expect(git('status --porcelain')).toBe('?? untracked.md');
+  });
+
+  it('should include the diff inline when requested', async () => {
+    writeFile('README.md', '# repo-a\n\nUpdated\n');
+
+    const changes = await gitDiffService.getChanges(repositoryPath, baseCommit, {
+      requestId: 'req-3',
+      includeDiff: true,
+    });
+
+    expect(changes?.diff?.truncated).toBe(false);
+    expect(changes?.diff?.content).toContain('+Updated');
+    expect(changes?.diff?.content.endsWith('\n')).toBe(true);
+    expect(changes?.diff?.bytes).toBe(Buffer.byteLength(changes?.diff?.content ?? ''));
+    expect(changes?.diff?.artifactPath).toBeUndefined();
+  });
+
+  it('should truncate large diffs and store the full diff as an artifact', async () => {
+    process.env.CURSOR_DIFF_INLINE_MAX_BYTES = '50';
+    writeFile('large.txt', 'line\n'.repeat(100));
+
+    const changes = await gitDiffService.getChanges(repositoryPath, baseCommit, {
+      requestId: 'req/4',
+      includeDiff: true,
+    });
+
+    const artifactPath = getDiffArtifactPath('req/4');
+    expect(artifactPath).toBe(path.join(tempDir, 'artifacts', 'req-4', 'diff.patch'));
+    expect(changes?.diff?.truncated).toBe(true);
+    expect(changes?.diff?.content).toHaveLength(50);
+    expect(changes?.diff?.artifactPath).toBe(artifactPath);
+    expect(existsSync(artifactPath)).toBe(true);
+    expect(Buffer.byteLength(readFileSync(artifactPath, 'utf-8'))).toBe(changes?.diff?.bytes);
+  });
+
+  it('should store diffs larger than the terminal output limit in full', async () => {
+    const originalMaxOutputSize = process.env.TERMINAL_MAX_OUTPUT_SIZE;
+    process.env.TERMINAL_MAX_OUTPUT_SIZE = '1000';
+    process.env.CURSOR_DIFF_INLINE_MAX_BYTES = '100';
+    try {
+      gitDiffService = new GitDiffService();
+      writeFile('large.txt', 'line\n'.repeat(1000));
+      git('add large.txt');
+      git('commit -q -m "Add large file"');
+
+      const changes = await gitDiffService.getChanges(repositoryPath, baseCommit, {
+        requestId: 'req-large',
+        includeDiff: true,
+      });
+
+      expect(changes?.changedFiles).toEqual([{ path: 'large.txt', status: 'added' }]);
+      expect(changes?.diffstat).toEqual({ filesChanged: 1, insertions: 1000, deletions: 0 });
+      expect(changes?.commits).toHaveLength(1);
+      expect(changes?.diff?.truncated).toBe(true);
+      expect(changes?.diff?.content).toHaveLength(100);
+      expect(changes?.diff?.bytes).toBeGreaterThan(1000);
+
+      const artifact = readFileSync(getDiffArtifactPath('req-large'), 'utf-8');
+      expect(Buffer.byteLength(artifact)).toBe(changes?.diff?.bytes);
+      expect(artifact.endsWith('+line\n')).toBe(true);
+      expect(() =>
+        execSync(`git apply --check -R "${getDiffArtifactPath('req-large')}"`, {
+          cwd: repositoryPath,
+          stdio: 'pipe',
+        })
+      ).not.toThrow();
+    } finally {
+      if (originalMaxOutputSize) {
+        process.env.TERMINAL_MAX_OUTPUT_SIZE = originalMaxOutputSize;
+      } else {
+        delete process.env.TERMINAL_MAX_OUTPUT_SIZE;
+      }
+    }
+  });
+
+  it('should keep diff artifacts of dot request IDs inside their own directory', () => {
+    const artifactsPath = path.join(tempDir, 'artifacts');
+
+    expect(getDiffArtifactPath('..')).toBe(path.join(artifactsPath, '--', 'diff.patch'));
+    expect(getDiffArtifactPath('.')).toBe(path.join(artifactsPath, '-', 'diff.patch'));
+    expect(getDiffArtifactPath('')).toBe(path.join(artifactsPath, '-', 'diff.patch'));
+  });
+
+  it('should return null when changes cannot be determined', async () => {
+    const changes = await gitDiffService.getChanges(tempDir, baseCommit, { requestId: 'req-5' });
+
+    expect(changes).toBeNull();
+    expect(await gitDiffService.getHeadCommit(tempDir)).toBeNull();
+    expect(await gitDiffService.getHeadCommit(repositoryPath)).toBe(baseCommit);
+  });
+});
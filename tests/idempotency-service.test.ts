@@ -0,0 +1,117 @@
+/**
+ * Unit tests for IdempotencyService
+ * Tests claiming idempotency keys in SQLite and Redis
+ */
+import { describe, it, expect, beforeAll, afterAll, beforeEach, jest } from '@jest/globals';
+import type Redis from 'ioredis';
+import { IdempotencyService, fingerprintRequest } from '../src/idempotency-service.js';
+import { createTempSqliteDb, type TempSqliteDb } from './test-utils.js';
+
+describe('IdempotencyService', () => {
+  describe('sqlite backend', () => {
+    let tempDb: TempSqliteDb;
+    let originalSharedDbPath: string | undefined;
+    let idempotency: IdempotencyService;
+
+    beforeAll(async () => {
+      originalSharedDbPath = process.env.SHARED_DB_PATH;
+      tempDb = await createTempSqliteDb();
+      process.env.SHARED_DB_PATH = tempDb.dbPath;
+      idempotency = new IdempotencyService({ backend: 'sqlite', windowMs: 60000 });
+    });
+
+    afterAll(async () => {
+      idempotency.close();
+
+      if (originalSharedDbPath) {
+        process.env.SHARED_DB_PATH = originalSharedDbPath;
+      } else {
+        delete process.env.SHARED_DB_PATH;
+      }
+
+      if (tempDb && tempDb.cleanup) {
+        await tempDb.cleanup();
+      }
+    });
+
+    beforeEach(() => {
+      tempDb.db.prepare('DELETE FROM idempotency_keys').run();
+    });
+
+    it('should claim a new key and report repeats as duplicates of the first request', async () => {
+      const fingerprint = fingerprintRequest({ prompt: 'Add a README' });
+
+      expect(await idempotency.claim('execute', 'key-1', 'req-1', fingerprint)).toEqual({
+        status: 'claimed',
+      });
+      expect(await idempotency.claim('execute', 'key-1', 'req-2', fingerprint)).toEqual({
+        status: 'duplicate',
+        originalRequestId: 'req-1',
+      });
+    });
+
+    it('should report reuse of a key for a different request as a mismatch', async () => {
+      await idempotency.claim('execute', 'key-2', 'req-1', fingerprintRequest({ prompt: 'A' }));
+
+      expect(
+        await idempotency.claim('execute', 'key-2', 'req-2', fingerprintRequest({ prompt: 'B' }))
+      ).toEqual({ status: 'mismatch', originalRequestId: 'req-1' });
+    });
+
+    it('should keep keys of different endpoints apart', async () => {
+      const fingerprint = fingerprintRequest({ prompt: 'A' });
+      await idempotency.claim('execute', 'key-3', 'req-1', fingerprint);
+
+      expect(await idempotency.claim('iterate', 'key-3', 'req-2', fingerprint)).toEqual({
+        status: 'claimed',
+      });
+    });
+
+    it('should let a key be claimed again once its window has passed', async () => {
+      const fingerprint = fingerprintRequest({ prompt: 'A' });
+      await idempotency.claim('execute', 'key-4', 'req-1', fingerprint);
+      tempDb.db
+        .prepare('UPDATE idempotency_keys SET expires_at = ?')
+        .run(new Date(Date.now() - 1000).toISOString());
+
+      expect(await idempotency.claim('execute', 'key-4', 'req-2', fingerprint)).toEqual({
+        status: 'claimed',
+      });
+    });
+  });
+
+  describe('redis backend', () => {
+    it('should claim keys with SET NX and the window as expiry', async () => {
+      const fingerprint = fingerprintRequest({ prompt: 'A' });
+      const redis = {
+        set: jest
+          .fn<(...args: unknown[]) => Promise<'OK' | null>>()
+          .mockResolvedValueOnce('OK')
+          .mockResolvedValue(null),
+        get: jest
+          .fn<() => Promise<string | null>>()
+          .mockResolvedValue(JSON.stringify({ requestId: 'req-1', fingerprint })),
+      };
+      const idempotency = new IdempotencyService({
+        backend: 'redis',
+        redisClient: redis as unknown as Redis,
+        windowMs: 60000,
+      });
+
+      expect(await idempotency.claim('execute', 'key-1', 'req-1', fingerprint)).toEqual({
+        status: 'claimed',
+      });
+      expect(redis.set).toHaveBeenCalledWith(
+        'cursor:idempotency:execute:key-1',
+        JSON.stringify({ requestId: 'req-1', fingerprint }),
+        'PX',
+        60000,
+        'NX'
+      );
+      expect(await idempotency.claim('execute', 'key-1', 'req-2', fingerprint)).toEqual({
+        status: 'duplicate',
+        originalRequestId: 'req-1',
+      });
+    });
+  });
+});
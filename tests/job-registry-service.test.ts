@@ -0,0 +1,191 @@
+/**
+ * Unit tests for JobRegistryService
+ * Tests job lifecycle transitions and filtered listing
+ */
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import { JobRegistryService, isJobStatus } from '../src/job-registry-service.js';
+import { createTempSqliteDb, type TempSqliteDb } from './test-utils.js';
+
+describe('JobRegistryService', () => {
+  let tempDb: TempSqliteDb;
+  let originalSharedDbPath: string | undefined;
+  let jobRegistry: JobRegistryService;
+
+  beforeAll(async () => {
+    // Save original SHARED_DB_PATH
+    originalSharedDbPath = process.env.SHARED_DB_PATH;
+
+    // Create temp SQLite DB and run migrations
+    tempDb = await createTempSqliteDb();
+    process.env.SHARED_DB_PATH = tempDb.dbPath;
+
+    jobRegistry = new JobRegistryService();
+  });
+
+  afterAll(async () => {
+    jobRegistry.close();
+
+    if (originalSharedDbPath) {
+      process.env.SHARED_DB_PATH = originalSharedDbPath;
+    } else {
+      delete process.env.SHARED_DB_PATH;
+    }
+
+    if (tempDb && tempDb.cleanup) {
+      await tempDb.cleanup();
+    }
+  });
+
+  beforeEach(() => {
+    tempDb.db.prepare('DELETE FROM cursor_jobs').run();
+  });
+
+  it('should record a new job as queued', () => {
+    const job = jobRegistry.createJob({
+      requestId: 'req-1',
+      prompt: 'Add a README',
+      repository: 'repo-a',
+      branchName: 'main',
+      queueType: 'api',
+      callbackUrl: 'http://example.com/callback',
+    });
+
+    expect(job.request_id).toBe('req-1');
+    expect(job.status).toBe('queued');
+    expect(job.repository).toBe('repo-a');
+    expect(job.branch_name).toBe('main');
+    expect(job.queue_type).toBe('api');
+    expect(job.callback_url).toBe('http://example.com/callback');
+    expect(job.started_at).toBeNull();
+    expect(job.finished_at).toBeNull();
+  });
+
+  it('should default queue type to default', () => {
+    const job = jobRegistry.createJob({ requestId: 'req-1', prompt: 'test' });
+
+    expect(job.queue_type).toBe('default');
+    expect(job.repository).toBeNull();
+  });
+
+  it('should move a job through running to succeeded', () => {
+    jobRegistry.createJob({ requestId: 'req-1', prompt: 'test' });
+
+    const running = jobRegistry.markRunning('req-1');
+    expect(running?.status).toBe('running');
+    expect(running?.started_at).not.toBeNull();
+
+    const finished = jobRegistry.completeJob('req-1', {
+      status: 'succeeded',
+      exitCode: 0,
+      output: 'All done',
+    });
+    expect(finished?.status).toBe('succeeded');
+    expect(finished?.exit_code).toBe(0);
+    expect(finished?.output).toBe('All done');
+    expect(finished?.error).toBeNull();
+    expect(finished?.finished_at).not.toBeNull();
+  });
+
+  it('should record failures with exit code and error', () => {
+    jobRegistry.createJob({ requestId: 'req-1', prompt: 'test' });
+
+    const finished = jobRegistry.completeJob('req-1', {
+      status: 'failed',
+      exitCode: 2,
+      error: 'cursor-cli crashed',
+    });
+
+    expect(finished?.status).toBe('failed');
+    expect(finished?.exit_code).toBe(2);
+    expect(finished?.error).toBe('cursor-cli crashed');
+  });
+
+  it('should reset an existing job when the request ID is resubmitted', () => {
+    jobRegistry.createJob({ requestId: 'req-1', prompt: 'first' });
+    jobRegistry.completeJob('req-1', { status: 'failed', exitCode: 1, error: 'boom' });
+
+    const job = jobRegistry.createJob({ requestId: 'req-1', prompt: 'second' });
+
+    expect(job.status).toBe('queued');
+    expect(job.prompt).toBe('second');
+    expect(job.exit_code).toBeNull();
+    expect(job.error).toBeNull();
+    expect(jobRegistry.listJobs()).toHaveLength(1);
+  });
+
+  it('should cancel queued or running jobs only', () => {
+    jobRegistry.createJob({ requestId: 'req-1', prompt: 'test' });
+    jobRegistry.markRunning('req-1');
+
+    const cancelled = jobRegistry.cancelJob('req-1');
+    expect(cancelled?.status).toBe('cancelled');
+    expect(cancelled?.error).toBe('Execution cancelled');
+    expect(cancelled?.finished_at).not.toBeNull();
+
+    // A finished job cannot be cancelled, and a cancelled job is not overwritten on completion
+    expect(jobRegistry.cancelJob('req-1')).toBeNull();
+    jobRegistry.completeJob('req-1', { status: 'succeeded', exitCode: 0 });
+    jobRegistry.markRunning('req-1');
+    expect(jobRegistry.getJob('req-1')?.status).toBe('cancelled');
+  });
+
+  it('should record why a queued job is waiting until it starts', () => {
+    jobRegistry.createJob({ requestId: 'req-1', prompt: 'test' });
+
+    const waiting = jobRegistry.setStatusDetail('req-1', 'Waiting for repository lock');
+    expect(waiting?.status).toBe('queued');
+    expect(waiting?.status_detail).toBe('Waiting for repository lock');
+
+    expect(jobRegistry.markRunning('req-1')?.status_detail).toBeNull();
+
+    // Running jobs keep no detail
+    jobRegistry.setStatusDetail('req-1', 'Waiting for repository lock');
+    expect(jobRegistry.getJob('req-1')?.status_detail).toBeNull();
+  });
+
+  it('should return null for unknown jobs', () => {
+    expect(jobRegistry.getJob('missing')).toBeNull();
+    expect(jobRegistry.markRunning('missing')).toBeNull();
+  });
+
+  it('should filter jobs by status, repository and queue type', () => {
+    jobRegistry.createJob({ requestId: 'req-1', prompt: 'a', repository: 'repo-a' });
+    jobRegistry.createJob({
+      requestId: 'req-2',
+      prompt: 'b',
+      repository: 'repo-b',
+      queueType: 'telegram',
+    });
+    jobRegistry.createJob({ requestId: 'req-3', prompt: 'c', repository: 'repo-a' });
+    jobRegistry.completeJob('req-3', { status: 'succeeded', exitCode: 0 });
+
+    expect(jobRegistry.listJobs({ status: 'queued' }).map((j) => j.request_id)).toEqual(
+      expect.arrayContaining(['req-1', 'req-2'])
+    );
+    expect(jobRegistry.listJobs({ status: 'succeeded' }).map((j) => j.request_id)).toEqual([
+      'req-3',
+    ]);
+    expect(jobRegistry.listJobs({ repository: 'repo-a' })).toHaveLength(2);
+    expect(jobRegistry.listJobs({ queueType: 'telegram' }).map((j) => j.request_id)).toEqual([
+      'req-2',
+    ]);
+    expect(jobRegistry.listJobs({ repository: 'repo-a', status: 'queued' })).toHaveLength(1);
+  });
+
+  it('should list newest jobs first and honour the limit', () => {
+    jobRegistry.createJob({ requestId: 'req-1', prompt: 'a' });
+    jobRegistry.createJob({ requestId: 'req-2', prompt: 'b' });
+    jobRegistry.createJob({ requestId: 'req-3', prompt: 'c' });
+
+    const jobs = jobRegistry.listJobs({ limit: 2 });
+
+    expect(jobs.map((j) => j.request_id)).toEqual(['req-3', 'req-2']);
+  });
+
+  it('should recognise valid job statuses', () => {
+    expect(isJobStatus('queued')).toBe(true);
+    expect(isJobStatus('failed')).toBe(true);
+    expect(isJobStatus('done')).toBe(false);
+    expect(isJobStatus(undefined)).toBe(false);
+  });
+});
@@ -0,0 +1,612 @@
+/**
+ * Integration tests for the cursor job registry endpoints
+ * Tests that /cursor/execute/async records jobs and that /cursor/jobs exposes them
+ */
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  afterAll,
+  beforeEach,
+  afterEach,
+  jest,
+} from '@jest/globals';
+import request from 'supertest';
+import WebSocket from 'ws';
+import type { AddressInfo } from 'net';
+import { createTempSqliteDb, type TempSqliteDb } from './test-utils.js';
+import type { Server } from '../src/server.js';
+import type { ExecuteParams } from '../src/cursor-execution-service.js';
+import { isTerminalJobStatus } from '../src/job-registry-service.js';
+
+describe('Cursor Jobs API', () => {
+  let tempDb: TempSqliteDb;
+  let originalSharedDbPath: string | undefined;
+  let originalWebhookSecret: string | undefined;
+  let server: Server;
+  let cleanup: () => Promise<void>;
+
+  /**
+   * Wait until the job reaches a terminal state (execution runs in the background)
+   */
+  const waitForJob = async (requestId: string): Promise<void> => {
+    for (let i = 0; i < 50; i++) {
+      const job = server.jobRegistry.getJob(requestId);
+      if (job && isTerminalJobStatus(job.status)) {
+        return;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+  };
+
+  beforeAll(async () => {
+    originalSharedDbPath = process.env.SHARED_DB_PATH;
+    originalWebhookSecret = process.env.WEBHOOK_SECRET;
+    delete process.env.WEBHOOK_SECRET;
+
+    tempDb = await createTempSqliteDb();
+    process.env.SHARED_DB_PATH = tempDb.dbPath;
+
+    // eslint-disable-next-line node/no-unsupported-features/es-syntax
+    const { createMockServer } = await import('./test-utils.js');
+    const mockServerResult = createMockServer();
+    server = mockServerResult.server;
+    cleanup = mockServerResult.cleanup;
+  });
+
+  afterAll(async () => {
+    server.jobRegistry.close();
+    if (cleanup) {
+      await cleanup();
+    }
+
+    if (originalSharedDbPath !== undefined) {
+      process.env.SHARED_DB_PATH = originalSharedDbPath;
+    } else {
+      delete process.env.SHARED_DB_PATH;
+    }
+    if (originalWebhookSecret !== undefined) {
+      process.env.WEBHOOK_SECRET = originalWebhookSecret;
+    }
+
+    if (tempDb) {
+      await tempDb.cleanup();
+    }
+  });
+
+  beforeEach(() => {
+    tempDb.db.prepare('DELETE FROM cursor_jobs').run();
+    tempDb.db.prepare('DELETE FROM idempotency_keys').run();
+    jest.restoreAllMocks();
+  });
+
+  it('should record a successful async execution', async () => {
+    jest
+      .spyOn(server.cursorExecution, 'execute')
+      .mockImplementation(async (params: ExecuteParams) => {
+        params.onStart?.();
+        return {
+          status: 200,
+          body: {
+            success: true,
+            requestId: params.requestId,
+            output: 'Done',
+            error: null,
+            exitCode: 0,
+            duration: '5ms',
+            timestamp: new Date().toISOString(),
+          },
+        };
+      });
+
+    await request(server.app)
+      .post('/cursor/execute/async')
+      .send({ id: 'job-success', prompt: 'Do it', repository: 'repo-a', queueType: 'api' })
+      .expect(200);
+    await waitForJob('job-success');
+
+    const response = await request(server.app).get('/cursor/jobs/job-success').expect(200);
+
+    expect(response.body.success).toBe(true);
+    expect(response.body.job).toMatchObject({
+      request_id: 'job-success',
+      status: 'succeeded',
+      repository: 'repo-a',
+      queue_type: 'api',
+      exit_code: 0,
+      output: 'Done',
+    });
+    expect(response.body.job.started_at).not.toBeNull();
+    expect(response.body.job.finished_at).not.toBeNull();
+  });
+
+  it('should record a non-zero exit code as failed', async () => {
+    jest.spyOn(server.cursorExecution, 'execute').mockResolvedValue({
+      status: 200,
+      body: {
+        success: true,
+        requestId: 'job-exit',
+        output: '',
+        error: 'Something broke',
+        exitCode: 3,
+        duration: '5ms',
+        timestamp: new Date().toISOString(),
+      },
+    });
+
+    await request(server.app)
+      .post('/cursor/execute/async')
+      .send({ id: 'job-exit', prompt: 'Do it' })
+      .expect(200);
+    await waitForJob('job-exit');
+
+    const job = server.jobRegistry.getJob('job-exit');
+    expect(job?.status).toBe('failed');
+    expect(job?.exit_code).toBe(3);
+    expect(job?.error).toBe('Something broke');
+  });
+
+  it('should record a thrown execution error as failed', async () => {
+    jest.spyOn(server.cursorExecution, 'execute').mockRejectedValue(new Error('Exploded'));
+
+    await request(server.app)
+      .post('/cursor/execute/async')
+      .send({ id: 'job-throw', prompt: 'Do it' })
+      .expect(200);
+    await waitForJob('job-throw');
+
+    const job = server.jobRegistry.getJob('job-throw');
+    expect(job?.status).toBe('failed');
+    expect(job?.error).toBe('Exploded');
+  });
+
+  it('should not let a repeated X-Request-Id header replace an existing job', async () => {
+    jest.spyOn(server.cursorExecution, 'execute').mockRejectedValue(new Error('Exploded'));
+
+    const first = await request(server.app)
+      .post('/cursor/execute/async')
+      .set('X-Request-Id', 'upstream-1')
+      .send({ prompt: 'First' })
+      .expect(200);
+    await waitForJob('upstream-1');
+    const second = await request(server.app)
+      .post('/cursor/execute/async')
+      .set('X-Request-Id', 'upstream-1')
+      .send({ prompt: 'Second' })
+      .expect(200);
+    await waitForJob(second.body.requestId);
+
+    expect(first.body.requestId).toBe('upstream-1');
+    expect(second.body.requestId).toMatch(/^req-/);
+    expect(second.headers['x-request-id']).toBe(second.body.requestId);
+    expect(server.jobRegistry.getJob('upstream-1')?.prompt).toBe('First');
+    expect(server.jobRegistry.getJob(second.body.requestId)?.prompt).toBe('Second');
+  });
+
+  it('should return 404 for an unknown job', async () => {
+    const response = await request(server.app).get('/cursor/jobs/missing').expect(404);
+
+    expect(response.body).toEqual({
+      success: false,
+      error: 'Job not found',
+      requestId: 'missing',
+    });
+  });
+
+  it('should list jobs filtered by status, repository and queueType', async () => {
+    server.jobRegistry.createJob({ requestId: 'a', prompt: 'a', repository: 'repo-a' });
+    server.jobRegistry.createJob({
+      requestId: 'b',
+      prompt: 'b',
+      repository: 'repo-b',
+      queueType: 'telegram',
+    });
+    server.jobRegistry.createJob({ requestId: 'c', prompt: 'c', repository: 'repo-a' });
+    server.jobRegistry.completeJob('c', { status: 'succeeded', exitCode: 0 });
+
+    const all = await request(server.app).get('/cursor/jobs').expect(200);
+    expect(all.body.jobs).toHaveLength(3);
+
+    const byStatus = await request(server.app).get('/cursor/jobs?status=succeeded').expect(200);
+    expect(byStatus.body.jobs.map((j: { request_id: string }) => j.request_id)).toEqual(['c']);
+
+    const byRepo = await request(server.app)
+      .get('/cursor/jobs?repository=repo-a&status=queued')
+      .expect(200);
+    expect(byRepo.body.jobs.map((j: { request_id: string }) => j.request_id)).toEqual(['a']);
+
+    const byQueue = await request(server.app).get('/cursor/jobs?queueType=telegram').expect(200);
+    expect(byQueue.body.jobs.map((j: { request_id: string }) => j.request_id)).toEqual(['b']);
+  });
+
+  it('should reject invalid filters', async () => {
+    await request(server.app).get('/cursor/jobs?status=done').expect(400);
+    await request(server.app).get('/cursor/jobs?queueType=urgent').expect(400);
+    await request(server.app).get('/cursor/jobs?limit=0').expect(400);
+  });
+
+  describe('POST /cursor/jobs/:requestId/cancel', () => {
+    it('should abort an in-flight execution and record it as cancelled', async () => {
+      let receivedSignal: AbortSignal | undefined;
+      jest
+        .spyOn(server.cursorExecution, 'execute')
+        .mockImplementation(async (params: ExecuteParams) => {
+          receivedSignal = params.signal;
+          params.onStart?.();
+          await new Promise((resolve) => params.signal?.addEventListener('abort', resolve));
+          return {
+            status: 409,
+            body: { success: false, status: 'cancelled', error: 'Execution cancelled' },
+            requestId: params.requestId,
+          };
+        });
+
+      await request(server.app)
+        .post('/cursor/execute/async')
+        .send({ id: 'job-cancel', prompt: 'Long task' })
+        .expect(200);
+      expect(server.jobRegistry.getJob('job-cancel')?.status).toBe('running');
+
+      const response = await request(server.app).post('/cursor/jobs/job-cancel/cancel').expect(200);
+
+      expect(response.body.success).toBe(true);
+      expect(response.body.job.status).toBe('cancelled');
+      expect(receivedSignal?.aborted).toBe(true);
+
+      await waitForJob('job-cancel');
+      expect(server.jobRegistry.getJob('job-cancel')?.status).toBe('cancelled');
+    });
+
+    it('should keep the cancelled status when the execution finishes afterwards', async () => {
+      let finish: () => void = () => {};
+      jest.spyOn(server.cursorExecution, 'execute').mockImplementation(async (params) => {
+        await new Promise<void>((resolve) => {
+          finish = resolve;
+        });
+        return {
+          status: 200,
+          body: {
+            success: true,
+            requestId: params.requestId,
+            exitCode: 0,
+            duration: '1ms',
+            timestamp: new Date().toISOString(),
+          },
+        };
+      });
+
+      await request(server.app)
+        .post('/cursor/execute/async')
+        .send({ id: 'job-late', prompt: 'Task' })
+        .expect(200);
+      await request(server.app).post('/cursor/jobs/job-late/cancel').expect(200);
+
+      finish();
+      await new Promise((resolve) => setTimeout(resolve, 20));
+
+      expect(server.jobRegistry.getJob('job-late')?.status).toBe('cancelled');
+    });
+
+    it('should cancel a job with no active execution and notify its callback', async () => {
+      const callbackSpy = jest
+        .spyOn(server.cursorExecution, 'callbackWebhook')
+        .mockResolvedValue(undefined as void);
+      server.jobRegistry.createJob({
+        requestId: 'job-stale',
+        prompt: 'Task',
+        callbackUrl: 'http://example.com/callback',
+      });
+
+      const response = await request(server.app).post('/cursor/jobs/job-stale/cancel').expect(200);
+
+      expect(response.body.job.status).toBe('cancelled');
+      expect(callbackSpy).toHaveBeenCalledWith(
+        'http://example.com/callback',
+        expect.objectContaining({ success: false, status: 'cancelled', requestId: 'job-stale' }),
+        'job-stale'
+      );
+    });
+
+    it('should return 409 for a job that already finished', async () => {
+      server.jobRegistry.createJob({ requestId: 'job-done', prompt: 'Task' });
+      server.jobRegistry.completeJob('job-done', { status: 'succeeded', exitCode: 0 });
+
+      const response = await request(server.app).post('/cursor/jobs/job-done/cancel').expect(409);
+
+      expect(response.body.success).toBe(false);
+      expect(response.body.error).toBe('Job is already succeeded');
+    });
+
+    it('should return 404 for an unknown job', async () => {
+      await request(server.app).post('/cursor/jobs/missing/cancel').expect(404);
+    });
+  });
+
+  describe('GET /cursor/jobs/:requestId/stream', () => {
+    /**
+     * Parse a Server-Sent Events body into event names and JSON payloads
+     */
+    const parseSse = (text: string): Array<{ event: string; data: Record<string, unknown> }> =>
+      text
+        .split('\n\n')
+        .filter((block) => block.includes('data: '))
+        .map((block) => {
+          const lines = block.split('\n');
+          const event = lines.find((line) => line.startsWith('event: '))?.slice(7) ?? 'message';
+          const data = lines.find((line) => line.startsWith('data: '))?.slice(6) ?? '{}';
+          return { event, data: JSON.parse(data) as Record<string, unknown> };
+        });
+
+    it('should replay buffered output and stream live output until completion', async () => {
+      let finish: () => void = () => {};
+      let emit: (chunk: string) => void = () => {};
+      jest
+        .spyOn(server.cursorExecution, 'execute')
+        .mockImplementation(async (params: ExecuteParams) => {
+          emit = (chunk) => params.onOutput?.(chunk, 'stdout');
+          params.onOutput?.('first chunk\n', 'stdout');
+          await new Promise<void>((resolve) => {
+            finish = resolve;
+          });
+          return {
+            status: 200,
+            body: {
+              success: true,
+              requestId: params.requestId,
+              output: 'first chunk\nsecond chunk\n',
+              exitCode: 0,
+              duration: '1ms',
+              timestamp: new Date().toISOString(),
+            },
+          };
+        });
+
+      await request(server.app)
+        .post('/cursor/execute/async')
+        .send({ id: 'job-stream', prompt: 'Task' })
+        .expect(200);
+
+      const streamResponse = request(server.app).get('/cursor/jobs/job-stream/stream');
+      const pending = streamResponse.then((res) => res);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      emit('second chunk\n');
+      finish();
+
+      const response = await pending;
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toContain('text/event-stream');
+
+      const events = parseSse(response.text);
+      expect(events.map((e) => e.event)).toEqual(['output', 'output', 'completed']);
+      expect(events[0].data).toMatchObject({ chunk: 'first chunk\n', seq: 1 });
+      expect(events[1].data).toMatchObject({ chunk: 'second chunk\n', seq: 2 });
+      expect(events[2].data).toMatchObject({ requestId: 'job-stream', status: 'succeeded' });
+    });
+
+    it('should resume after Last-Event-ID for a finished job', async () => {
+      jest
+        .spyOn(server.cursorExecution, 'execute')
+        .mockImplementation(async (params: ExecuteParams) => {
+          params.onOutput?.('a', 'stdout');
+          params.onOutput?.('b', 'stderr');
+          return {
+            status: 200,
+            body: {
+              success: true,
+              requestId: params.requestId,
+              exitCode: 0,
+              duration: '1ms',
+              timestamp: new Date().toISOString(),
+            },
+          };
+        });
+
+      await request(server.app)
+        .post('/cursor/execute/async')
+        .send({ id: 'job-resume', prompt: 'Task' })
+        .expect(200);
+      await waitForJob('job-resume');
+
+      const response = await request(server.app)
+        .get('/cursor/jobs/job-resume/stream')
+        .set('Last-Event-ID', '1')
+        .expect(200);
+
+      const events = parseSse(response.text);
+      expect(events.map((e) => e.event)).toEqual(['output', 'completed']);
+      expect(events[0].data).toMatchObject({ chunk: 'b', stream: 'stderr' });
+    });
+
+    it('should fall back to the recorded output once the buffer is gone', async () => {
+      server.jobRegistry.createJob({ requestId: 'job-old', prompt: 'Task' });
+      server.jobRegistry.completeJob('job-old', {
+        status: 'failed',
+        exitCode: 1,
+        output: 'old output',
+      });
+
+      const response = await request(server.app).get('/cursor/jobs/job-old/stream').expect(200);
+
+      const events = parseSse(response.text);
+      expect(events.map((e) => e.event)).toEqual(['output', 'completed']);
+      expect(events[0].data).toMatchObject({ chunk: 'old output' });
+      expect(events[1].data).toMatchObject({ status: 'failed' });
+    });
+
+    it('should return 404 for an unknown job', async () => {
+      const response = await request(server.app).get('/cursor/jobs/missing/stream').expect(404);
+
+      expect(response.body.error).toBe('Job not found');
+    });
+  });
+
+  describe('idempotency keys', () => {
+    const mockExecute = (): ReturnType<typeof jest.spyOn> =>
+      jest.spyOn(server.cursorExecution, 'execute').mockImplementation(async (params) => ({
+        status: 200,
+        body: {
+          success: true,
+          requestId: params.requestId,
+          output: 'Done',
+          exitCode: 0,
+          duration: '5ms',
+          timestamp: new Date().toISOString(),
+        },
+      }));
+
+    it('should return the original job for a repeated Idempotency-Key', async () => {
+      const executeSpy = mockExecute();
+
+      const first = await request(server.app)
+        .post('/cursor/execute/async')
+        .set('Idempotency-Key', 'key-1')
+        .send({ prompt: 'Do it' })
+        .expect(200);
+      await waitForJob(first.body.requestId);
+
+      const second = await request(server.app)
+        .post('/cursor/execute/async')
+        .set('Idempotency-Key', 'key-1')
+        .send({ prompt: 'Do it' })
+        .expect(200);
+
+      expect(executeSpy).toHaveBeenCalledTimes(1);
+      expect(second.headers['idempotent-replayed']).toBe('true');
+      expect(second.body).toMatchObject({
+        success: true,
+        duplicate: true,
+        requestId: first.body.requestId,
+        job: { request_id: first.body.requestId, status: 'succeeded', output: 'Done' },
+      });
+    });
+
+    it('should fall back to the request id as the key', async () => {
+      const executeSpy = mockExecute();
+
+      await request(server.app)
+        .post('/cursor/execute/async')
+        .send({ id: 'job-idem', prompt: 'Do it' })
+        .expect(200);
+      await waitForJob('job-idem');
+      const second = await request(server.app)
+        .post('/cursor/execute/async')
+        .send({ id: 'job-idem', prompt: 'Do it' })
+        .expect(200);
+
+      expect(executeSpy).toHaveBeenCalledTimes(1);
+      expect(second.body.duplicate).toBe(true);
+    });
+
+    it('should reject a key reused for a different request', async () => {
+      mockExecute();
+
+      await request(server.app)
+        .post('/cursor/execute/async')
+        .set('Idempotency-Key', 'key-2')
+        .send({ prompt: 'Do it' })
+        .expect(200);
+      const response = await request(server.app)
+        .post('/cursor/execute/async')
+        .set('Idempotency-Key', 'key-2')
+        .send({ prompt: 'Do something else' })
+        .expect(422);
+
+      expect(response.body.error).toBe('Idempotency key was already used for a different request');
+    });
+  });
+
+  describe('callback deliveries', () => {
+    beforeEach(() => {
+      tempDb.db.prepare('DELETE FROM callback_deliveries').run();
+    });
+
+    afterEach(() => {
+      server.cursorExecution.callbackDelivery.stop();
+    });
+
+    it('should list dead-lettered callbacks and replay them', async () => {
+      const payload = {
+        success: true as const,
+        requestId: 'job-cb',
+        duration: '1ms',
+        timestamp: new Date().toISOString(),
+      };
+      const fetchSpy = jest
+        .spyOn(globalThis, 'fetch')
+        .mockResolvedValueOnce(new Response('Unauthorized', { status: 401 }));
+      await server.cursorExecution
+        .callbackWebhook('http://example.com/callback?secret=url-secret', payload, 'job-cb')
+        .catch(() => undefined);
+
+      const list = await request(server.app).get('/cursor/callbacks?status=failed').expect(200);
+      expect(list.body.deliveries).toHaveLength(1);
+      expect(list.body.deliveries[0]).toMatchObject({
+        request_id: 'job-cb',
+        callback_url: 'http://example.com/callback?secret=***',
+        payload,
+        attempts: 1,
+        last_status_code: 401,
+      });
+
+      fetchSpy.mockResolvedValue(new Response(null, { status: 200 }));
+      const id = list.body.deliveries[0].id;
+      const replay = await request(server.app).post(`/cursor/callbacks/${id}/replay`).expect(200);
+      expect(replay.body.delivery).toMatchObject({ id, status: 'delivered' });
+
+      const again = await request(server.app).post(`/cursor/callbacks/${id}/replay`).expect(409);
+      expect(again.body.error).toContain('Only failed callback deliveries can be replayed');
+    });
+
+    it('should reject invalid filters and unknown deliveries', async () => {
+      await request(server.app).get('/cursor/callbacks?status=dead').expect(400);
+      await request(server.app).get('/cursor/callbacks?limit=0').expect(400);
+      await request(server.app).post('/cursor/callbacks/9999/replay').expect(404);
+    });
+  });
+
+  it('should require the webhook secret for the execution websocket when configured', async () => {
+    server.port = 0;
+    await server.start();
+    const { port } = (server as any).server.address() as AddressInfo;
+
+    /**
+     * Open an execution websocket, resolving with 'open' or the rejected upgrade's status code
+     */
+    const connect = (query: string): Promise<'open' | number | undefined> =>
+      new Promise((resolve) => {
+        const ws = new WebSocket(`ws://127.0.0.1:${port}/api/execution/ws?${query}`);
+        ws.on('open', () => {
+          ws.close();
+          resolve('open');
+        });
+        ws.on('unexpected-response', (_req, res) => {
+          resolve(res.statusCode);
+          ws.terminate();
+        });
+        ws.on('error', () => resolve(undefined));
+      });
+
+    process.env.WEBHOOK_SECRET = 'test-secret';
+    try {
+      expect(await connect('requestId=job-ws')).toBe(401);
+      expect(await connect('requestId=job-ws&secret=wrong')).toBe(401);
+      expect(await connect('requestId=job-ws&secret=test-secret')).toBe('open');
+    } finally {
+      delete process.env.WEBHOOK_SECRET;
+    }
+  });
+
+  it('should require the webhook secret when configured', async () => {
+    process.env.WEBHOOK_SECRET = 'test-secret';
+    try {
+      await request(server.app).get('/cursor/jobs').expect(401);
+      await request(server.app)
+        .get('/cursor/jobs')
+        .set('X-Webhook-Secret', 'test-secret')
+        .expect(200);
+    } finally {
+      delete process.env.WEBHOOK_SECRET;
+    }
+  });
+});
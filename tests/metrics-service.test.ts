@@ -0,0 +1,143 @@
+/**
+ * Unit tests for MetricsService
+ * Tests recording metrics and rendering them in the Prometheus text format
+ */
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import { mkdirSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { MetricsService, type MetricsSnapshot } from '../src/metrics-service.js';
+
+const snapshot: MetricsSnapshot = {
+  queue: {
+    available: 1,
+    waiting: 2,
+    maxConcurrent: 3,
+    byPriority: {
+      telegram: { waiting: 0, running: 1, weight: 5, oldestWaitMs: null },
+      api: { waiting: 2, running: 1, weight: 5, oldestWaitMs: 1500 },
+      default: { waiting: 0, running: 0, weight: 1, oldestWaitMs: null },
+    },
+  },
+  redisAvailable: true,
+};
+
+describe('MetricsService', () => {
+  let metrics: MetricsService;
+  let repositoriesPath: string;
+  let originalRepositoriesPath: string | undefined;
+
+  beforeAll(() => {
+    originalRepositoriesPath = process.env.REPOSITORIES_PATH;
+    repositoriesPath = mkdtempSync(path.join(tmpdir(), 'metrics-repos-'));
+    mkdirSync(path.join(repositoriesPath, 'my-app'));
+    mkdirSync(path.join(repositoriesPath, 'a"b'));
+    process.env.REPOSITORIES_PATH = repositoriesPath;
+  });
+
+  afterAll(() => {
+    if (originalRepositoriesPath !== undefined) {
+      process.env.REPOSITORIES_PATH = originalRepositoriesPath;
+    } else {
+      delete process.env.REPOSITORIES_PATH;
+    }
+    rmSync(repositoriesPath, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    metrics = new MetricsService();
+  });
+
+  it('should count executions by outcome, queue type and repository', () => {
+    metrics.recordExecution('execute', 'success', { queueType: 'api', repository: 'my-app' }, 2000);
+    metrics.recordExecution('execute', 'success', { queueType: 'api', repository: 'my-app' }, 3000);
+    metrics.recordExecution('iterate', 'failure', {}, 500);
+
+    const output = metrics.render(snapshot);
+
+    expect(output).toContain('# TYPE cursor_runner_executions_total counter');
+    expect(output).toContain(
+      'cursor_runner_executions_total{mode="execute",outcome="success",queue_type="api",repository="my-app"} 2'
+    );
+    expect(output).toContain(
+      'cursor_runner_executions_total{mode="iterate",outcome="failure",queue_type="default",repository="none"} 1'
+    );
+  });
+
+  it('should label unknown repositories as other and unknown queue types as default', () => {
+    metrics.recordExecution('execute', 'failure', { repository: 'random-123' }, 1);
+    metrics.recordExecution('execute', 'failure', { repository: '..' }, 1);
+    metrics.recordExecution('execute', 'failure', { queueType: 'random-queue' }, 1);
+
+    const output = metrics.render(snapshot);
+
+    expect(output).toContain(
+      'cursor_runner_executions_total{mode="execute",outcome="failure",queue_type="default",repository="other"} 2'
+    );
+    expect(output).toContain(
+      'cursor_runner_executions_total{mode="execute",outcome="failure",queue_type="default",repository="none"} 1'
+    );
+    expect(output).not.toContain('random');
+  });
+
+  it('should render duration histograms with cumulative buckets', () => {
+    metrics.recordExecution('execute', 'success', {}, 2000);
+    metrics.recordExecution('execute', 'success', {}, 90000);
+
+    const output = metrics.render(snapshot);
+    const labels = 'mode="execute",outcome="success",queue_type="default"';
+
+    expect(output).toContain('# TYPE cursor_runner_execution_duration_seconds histogram');
+    expect(output).toContain(`cursor_runner_execution_duration_seconds_bucket{${labels},le="1"} 0`);
+    expect(output).toContain(`cursor_runner_execution_duration_seconds_bucket{${labels},le="5"} 1`);
+    expect(output).toContain(
+      `cursor_runner_execution_duration_seconds_bucket{${labels},le="120"} 2`
+    );
+    expect(output).toContain(
+      `cursor_runner_execution_duration_seconds_bucket{${labels},le="+Inf"} 2`
+    );
+    expect(output).toContain(`cursor_runner_execution_duration_seconds_sum{${labels}} 92`);
+    expect(output).toContain(`cursor_runner_execution_duration_seconds_count{${labels}} 2`);
+  });
+
+  it('should count callback attempts and deliveries', () => {
+    metrics.recordCallbackAttempt('failure');
+    metrics.recordCallbackAttempt('success');
+    metrics.recordCallbackDelivery('delivered');
+
+    const output = metrics.render(snapshot);
+
+    expect(output).toContain('cursor_runner_callback_attempts_total{result="failure"} 1');
+    expect(output).toContain('cursor_runner_callback_attempts_total{result="success"} 1');
+    expect(output).toContain('cursor_runner_callback_deliveries_total{status="delivered"} 1');
+  });
+
+  it('should count MCP selection outcomes per server', () => {
+    metrics.recordMcpSelection('keywords', ['gmail'], ['gmail', 'atlassian']);
+
+    const output = metrics.render(snapshot);
+
+    expect(output).toContain(
+      'cursor_runner_mcp_selections_total{mcp="gmail",method="keywords",outcome="selected"} 1'
+    );
+    expect(output).toContain(
+      'cursor_runner_mcp_selections_total{mcp="atlassian",method="keywords",outcome="skipped"} 1'
+    );
+  });
+
+  it('should render gauges from the snapshot', () => {
+    const output = metrics.render({ ...snapshot, redisAvailable: false });
+
+    expect(output).toContain('cursor_runner_semaphore_available 1');
+    expect(output).toContain('cursor_runner_semaphore_max_concurrent 3');
+    expect(output).toContain('cursor_runner_semaphore_waiting{queue_type="api"} 2');
+    expect(output).toContain('cursor_runner_redis_up 0');
+    expect(output).toMatch(/^cursor_runner_process_memory_bytes\{type="heapUsed"\} \d+$/m);
+  });
+
+  it('should escape label values', () => {
+    metrics.recordExecution('execute', 'success', { repository: 'a"b' }, 1);
+
+    expect(metrics.render(snapshot)).toContain('repository="a\\"b"');
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Unit tests for ModelSelectionService
+ * Tests model resolution, allowlist validation and falling back to another model
+ */
+import { describe, it, expect, jest } from '@jest/globals';
+import { ModelSelectionService, DEFAULT_CURSOR_MODEL } from '../src/model-selection-service.js';
+import type { CommandResult } from '../src/cursor-cli.js';
+
+function commandResult(success: boolean, stderr = ''): CommandResult {
+  return { success, exitCode: success ? 0 : 1, stdout: success ? 'ok' : '', stderr };
+}
+
+describe('ModelSelectionService', () => {
+  describe('resolveModel', () => {
+    const models = new ModelSelectionService({
+      defaultModel: 'sonnet-4',
+      repositoryDefaults: { 'my-app': 'gpt-5' },
+      queueDefaults: { telegram: 'auto' },
+    });
+
+    it('should prefer the requested, then repository, then queue, then default model', () => {
+      expect(
+        models.resolveModel({ model: 'o3', repository: 'my-app', queueType: 'telegram' })
+      ).toBe('o3');
+      expect(models.resolveModel({ repository: 'my-app', queueType: 'telegram' })).toBe('gpt-5');
+      expect(models.resolveModel({ repository: 'other', queueType: 'telegram' })).toBe('auto');
+      expect(models.resolveModel({ queueType: 'api' })).toBe('sonnet-4');
+    });
+
+    it('should read defaults from the environment', () => {
+      const originalEnv = { ...process.env };
+      process.env.CURSOR_MODEL_REPOSITORY_DEFAULTS = 'my-app=gpt-5, broken, docs = sonnet-4';
+      process.env.CURSOR_MODEL_QUEUE_DEFAULTS = 'api=o3';
+      delete process.env.CURSOR_MODEL_DEFAULT;
+
+      try {
+        const fromEnv = new ModelSelectionService();
+        expect(fromEnv.resolveModel({ repository: 'docs' })).toBe('sonnet-4');
+        expect(fromEnv.resolveModel({ queueType: 'api' })).toBe('o3');
+        expect(fromEnv.resolveModel()).toBe(DEFAULT_CURSOR_MODEL);
+      } finally {
+        process.env = originalEnv;
+      }
+    });
+  });
+
+  describe('validateModel', () => {
+    it('should accept any model name when no allowlist is configured', () => {
+      const models = new ModelSelectionService({ allowedModels: [] });
+
+      expect(models.validateModel('claude-4.5-sonnet')).toBeNull();
+      expect(models.validateModel('--force')).toBe('model must be a model name, such as auto');
+      expect(models.validateModel(42)).toBe('model must be a model name, such as auto');
+    });
+
+    it('should only accept allowed models when an allowlist is configured', () => {
+      const models = new ModelSelectionService({ allowedModels: ['auto', 'gpt-5'] });
+
+      expect(models.validateModel('gpt-5')).toBeNull();
+      expect(models.validateModel('o3')).toBe('model must be one of: auto, gpt-5');
+    });
+  });
+
+  describe('runWithFallback', () => {
+    it('should retry once with the fallback model when the model is unavailable', async () => {
+      const models = new ModelSelectionService({ fallbackModel: 'auto' });
+      const run = jest
+        .fn<(model: string) => Promise<CommandResult>>()
+        .mockResolvedValueOnce(commandResult(false, 'Rate limit exceeded for gpt-5'))
+        .mockResolvedValueOnce(commandResult(true));
+
+      const { result, model } = await models.runWithFallback('gpt-5', run);
+
+      expect(model).toBe('auto');
+      expect(result.success).toBe(true);
+      expect(run.mock.calls).toEqual([['gpt-5'], ['auto']]);
+    });
+
+    it.each([
+      ['other failures', 'gpt-5', commandResult(false, 'Segmentation fault')],
+      ['successful runs', 'gpt-5', { ...commandResult(true), stdout: 'Added rate limit handling' }],
+      ['the fallback model itself', 'auto', commandResult(false, 'Model is unavailable')],
+    ])('should not retry %s', async (_case, requested, first) => {
+      const models = new ModelSelectionService({ fallbackModel: 'auto' });
+      const run = jest.fn<(model: string) => Promise<CommandResult>>().mockResolvedValue(first);
+
+      const { model } = await models.runWithFallback(requested, run);
+
+      expect(model).toBe(requested);
+      expect(run).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not retry without a fallback model', async () => {
+      const models = new ModelSelectionService({ fallbackModel: null });
+      const run = jest
+        .fn<(model: string) => Promise<CommandResult>>()
+        .mockResolvedValue(commandResult(false, '429 Too Many Requests'));
+
+      await models.runWithFallback('gpt-5', run);
+
+      expect(run).toHaveBeenCalledTimes(1);
+    });
+  });
+});
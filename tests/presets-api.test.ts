@@ -0,0 +1,196 @@
+/**
+ * Integration tests for Execution Presets API endpoints
+ * Tests preset CRUD and applying presets to execution requests using a temporary SQLite database
+ */
+import { describe, it, expect, beforeAll, afterAll, beforeEach, jest } from '@jest/globals';
+import request from 'supertest';
+import { createTempSqliteDb, type TempSqliteDb } from './test-utils.js';
+import type { Server } from '../src/server.js';
+
+describe('Execution Presets API', () => {
+  let tempDb: TempSqliteDb;
+  let originalSharedDbPath: string | undefined;
+  let server: Server;
+  let cleanup: () => Promise<void>;
+
+  beforeAll(async () => {
+    originalSharedDbPath = process.env.SHARED_DB_PATH;
+    tempDb = await createTempSqliteDb();
+    process.env.SHARED_DB_PATH = tempDb.dbPath;
+
+    // eslint-disable-next-line node/no-unsupported-features/es-syntax
+    const { createMockServer } = await import('./test-utils.js');
+    const mockServerResult = createMockServer();
+    server = mockServerResult.server;
+    cleanup = mockServerResult.cleanup;
+
+    await server.start();
+  });
+
+  afterAll(async () => {
+    if (cleanup) {
+      await cleanup();
+    }
+
+    if (originalSharedDbPath !== undefined) {
+      process.env.SHARED_DB_PATH = originalSharedDbPath;
+    } else {
+      delete process.env.SHARED_DB_PATH;
+    }
+
+    if (tempDb) {
+      await tempDb.cleanup();
+    }
+  });
+
+  beforeEach(async () => {
+    tempDb.db.prepare('DELETE FROM execution_presets').run();
+  });
+
+  it('should create, list, get, update and delete a preset', async () => {
+    const created = await request(server.app)
+      .post('/api/presets')
+      .send({ name: 'my-app', repository: 'my-app', model: 'auto', mcps: ['gmail'] })
+      .expect(201);
+
+    expect(created.body).toMatchObject({
+      name: 'my-app',
+      repository: 'my-app',
+      model: 'auto',
+      mcps: ['gmail'],
+    });
+
+    const list = await request(server.app).get('/api/presets').expect(200);
+    expect(list.body.map((preset: { name: string }) => preset.name)).toEqual(['my-app']);
+
+    await request(server.app).get('/api/presets/my-app').expect(200);
+
+    const updated = await request(server.app)
+      .put('/api/presets/my-app')
+      .send({ mcps: null, timeout: 120000 })
+      .expect(200);
+    expect(updated.body).toMatchObject({ mcps: null, timeout: 120000 });
+
+    await request(server.app).delete('/api/presets/my-app').expect(200);
+    await request(server.app).get('/api/presets/my-app').expect(404);
+  });
+
+  it('should return 409 for a duplicate name and 400 for invalid presets', async () => {
+    await request(server.app).post('/api/presets').send({ name: 'docs' }).expect(201);
+    await request(server.app).post('/api/presets').send({ name: 'other' }).expect(201);
+
+    const duplicate = await request(server.app)
+      .post('/api/presets')
+      .send({ name: 'docs' })
+      .expect(409);
+    expect(duplicate.body.error).toBe('Preset docs already exists');
+    await request(server.app).put('/api/presets/other').send({ name: 'docs' }).expect(409);
+
+    const invalid = await request(server.app)
+      .post('/api/presets')
+      .send({ name: 'bad', timeout: -1 })
+      .expect(400);
+    expect(invalid.body).toEqual({
+      success: false,
+      error: 'timeout must be a positive integer (milliseconds)',
+    });
+    await request(server.app).put('/api/presets/missing').send({ model: 'auto' }).expect(404);
+    await request(server.app).delete('/api/presets/missing').expect(404);
+  });
+
+  it('should apply a preset to an execution, letting request fields override it', async () => {
+    await request(server.app)
+      .post('/api/presets')
+      .send({
+        name: 'my-app',
+        repository: 'my-app',
+        branch_name: 'develop',
+        model: 'gpt-5',
+        timeout: 60000,
+        mcps: ['gmail'],
+        prompt_preamble: 'Follow the style guide.',
+      })
+      .expect(201);
+    const executeSpy = jest
+      .spyOn(server.cursorExecution, 'execute')
+      .mockResolvedValue({ status: 200, body: { success: true } } as any);
+
+    try {
+      await request(server.app)
+        .post('/cursor/execute')
+        .send({ preset: 'my-app', prompt: 'Fix the login bug', model: 'auto' })
+        .expect(200);
+
+      expect(executeSpy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          repository: 'my-app',
+          branchName: 'develop',
+          model: 'auto',
+          timeout: 60000,
+          mcps: ['gmail'],
+          prompt: 'Follow the style guide.\n\nFix the login bug',
+        })
+      );
+    } finally {
+      executeSpy.mockRestore();
+    }
+  });
+
+  it('should reject timeouts above CURSOR_CLI_TIMEOUT', async () => {
+    const originalTimeout = process.env.CURSOR_CLI_TIMEOUT;
+    process.env.CURSOR_CLI_TIMEOUT = '600000';
+
+    try {
+      const response = await request(server.app)
+        .post('/cursor/execute')
+        .send({ prompt: 'Fix the login bug', timeout: 600001 })
+        .expect(400);
+      expect(response.body.error).toBe('timeout must be at most 600000 milliseconds');
+
+      await request(server.app)
+        .post('/api/presets')
+        .send({ name: 'slow', timeout: 2 ** 31 })
+        .expect(400);
+    } finally {
+      if (originalTimeout !== undefined) {
+        process.env.CURSOR_CLI_TIMEOUT = originalTimeout;
+      } else {
+        delete process.env.CURSOR_CLI_TIMEOUT;
+      }
+    }
+  });
+
+  it('should cap a preset timeout when CURSOR_CLI_TIMEOUT was lowered after it was saved', async () => {
+    await request(server.app).post('/api/presets').send({ name: 'long', timeout: 900000 });
+    const originalTimeout = process.env.CURSOR_CLI_TIMEOUT;
+    process.env.CURSOR_CLI_TIMEOUT = '600000';
+    const executeSpy = jest
+      .spyOn(server.cursorExecution, 'execute')
+      .mockResolvedValue({ status: 200, body: { success: true } } as any);
+
+    try {
+      await request(server.app)
+        .post('/cursor/execute')
+        .send({ preset: 'long', prompt: 'Fix the login bug' })
+        .expect(200);
+
+      expect(executeSpy).toHaveBeenCalledWith(expect.objectContaining({ timeout: 600000 }));
+    } finally {
+      executeSpy.mockRestore();
+      if (originalTimeout !== undefined) {
+        process.env.CURSOR_CLI_TIMEOUT = originalTimeout;
+      } else {
+        delete process.env.CURSOR_CLI_TIMEOUT;
+      }
+    }
+  });
+
+  it('should reject executions with an unknown preset', async () => {
+    const response = await request(server.app)
+      .post('/cursor/execute/async')
+      .send({ preset: 'missing', prompt: 'Fix the login bug' })
+      .expect(400);
+
+    expect(response.body.error).toBe('Preset not found: missing');
+  });
+});
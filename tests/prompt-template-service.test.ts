@@ -0,0 +1,156 @@
+/**
+ * Unit tests for PromptTemplateService
+ * Tests template CRUD, rendering and validating template fields
+ */
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import {
+  PromptTemplateService,
+  parsePromptTemplateInput,
+  parsePromptTemplateValues,
+} from '../src/prompt-template-service.js';
+import { createTempSqliteDb, type TempSqliteDb } from './test-utils.js';
+
+describe('PromptTemplateService', () => {
+  let tempDb: TempSqliteDb;
+  let originalSharedDbPath: string | undefined;
+  let templates: PromptTemplateService;
+
+  beforeAll(async () => {
+    originalSharedDbPath = process.env.SHARED_DB_PATH;
+    tempDb = await createTempSqliteDb();
+    process.env.SHARED_DB_PATH = tempDb.dbPath;
+    templates = new PromptTemplateService();
+  });
+
+  afterAll(async () => {
+    templates.close();
+
+    if (originalSharedDbPath) {
+      process.env.SHARED_DB_PATH = originalSharedDbPath;
+    } else {
+      delete process.env.SHARED_DB_PATH;
+    }
+
+    if (tempDb && tempDb.cleanup) {
+      await tempDb.cleanup();
+    }
+  });
+
+  beforeEach(() => {
+    tempDb.db.prepare('DELETE FROM prompt_templates').run();
+  });
+
+  it('should create and get a template', () => {
+    const template = templates.createTemplate({
+      name: 'fix-issue',
+      template: 'Fix {{issue}}',
+      variables: [{ name: 'issue', required: true }],
+    });
+
+    expect(template).toMatchObject({
+      name: 'fix-issue',
+      description: null,
+      template: 'Fix {{issue}}',
+      variables: [{ name: 'issue', required: true }],
+    });
+    expect(templates.getTemplateByName('fix-issue')).toEqual(template);
+    expect(templates.getTemplateByName('missing')).toBeNull();
+  });
+
+  it('should not create two templates with the same name', () => {
+    templates.createTemplate({ name: 'docs', template: 'Write docs' });
+
+    expect(templates.createTemplate({ name: 'docs', template: 'Other' })).toBeNull();
+    expect(templates.listTemplates()).toHaveLength(1);
+  });
+
+  it('should update, rename and delete templates', () => {
+    templates.createTemplate({ name: 'docs', template: 'Write docs' });
+
+    expect(
+      templates.updateTemplate('docs', { name: 'documentation', template: 'Write {{what}}' })
+    ).toMatchObject({ name: 'documentation', template: 'Write {{what}}', variables: [] });
+    expect(templates.getTemplateByName('docs')).toBeNull();
+    expect(templates.updateTemplate('missing', { template: 'x' })).toBeNull();
+
+    expect(templates.deleteTemplate('documentation')).toBe(true);
+    expect(templates.deleteTemplate('documentation')).toBe(false);
+  });
+
+  it('should render templates', () => {
+    templates.createTemplate({
+      name: 'fix-issue',
+      template: 'Fix {{issue}} in {{repo}}',
+      variables: [
+        { name: 'issue', required: true },
+        { name: 'repo', default: 'the app' },
+      ],
+    });
+
+    expect(templates.renderTemplate('fix-issue', { issue: 'bug #3' })).toEqual({
+      prompt: 'Fix bug #3 in the app',
+    });
+    expect(templates.renderTemplate('fix-issue', {})).toEqual({
+      error: 'Missing required variables: issue',
+    });
+    expect(templates.renderTemplate('fix-issue', { issue: ['x'] })).toEqual({
+      error: 'variables must be an object of strings, numbers or booleans',
+    });
+    expect(templates.renderTemplate('missing', {})).toBeNull();
+  });
+});
+
+describe('parsePromptTemplateInput', () => {
+  it('should map a request body to template fields', () => {
+    expect(
+      parsePromptTemplateInput(
+        {
+          name: 'fix-issue',
+          description: 'Fix an issue',
+          template: 'Fix {{issue}}',
+          variables: [{ name: 'issue', description: 'Issue to fix', required: true }],
+        },
+        true
+      )
+    ).toEqual({
+      input: {
+        name: 'fix-issue',
+        description: 'Fix an issue',
+        template: 'Fix {{issue}}',
+        variables: [{ name: 'issue', description: 'Issue to fix', required: true }],
+      },
+    });
+  });
+
+  it.each([
+    [{ template: 'x' }, true, /^name must start with a letter or digit/],
+    [{ name: 'a' }, true, 'template is required and must be a non-empty string'],
+    [{ template: '{{#if a}}' }, false, 'template is invalid: {{#if a}} is not closed with {{/if}}'],
+    [{ variables: {} }, false, 'variables must be a list'],
+    [{ variables: [{ name: '1x' }] }, false, /^each variable needs a name/],
+    [{ variables: [{ name: 'a' }, { name: 'a' }] }, false, 'variable a is declared more than once'],
+    [
+      { variables: [{ name: 'a', required: true, default: 'x' }] },
+      false,
+      'variable a cannot be required and have a default',
+    ],
+  ])('should reject %j', (body, required, error) => {
+    const result = parsePromptTemplateInput(body, required);
+
+    expect('error' in result && result.error).toEqual(
+      error instanceof RegExp ? expect.stringMatching(error) : error
+    );
+  });
+});
+
+describe('parsePromptTemplateValues', () => {
+  it('should accept missing variables and scalar values', () => {
+    expect(parsePromptTemplateValues(undefined)).toEqual({ values: {} });
+    expect(parsePromptTemplateValues({ a: 'x', b: 1, c: false })).toEqual({
+      values: { a: 'x', b: 1, c: false },
+    });
+    expect(parsePromptTemplateValues(['x'])).toEqual({
+      error: 'variables must be an object of strings, numbers or booleans',
+    });
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Unit tests for prompt template rendering
+ */
+import { describe, it, expect } from '@jest/globals';
+import { renderPromptTemplate, validatePromptTemplate } from '../src/utils/prompt-template.js';
+
+describe('renderPromptTemplate', () => {
+  it('should substitute variables', () => {
+    expect(
+      renderPromptTemplate('Fix {{ issue }} in {{repo}}', { issue: 'bug #12', repo: 'app' })
+    ).toBe('Fix bug #12 in app');
+  });
+
+  it('should use declared defaults for variables that are not given', () => {
+    expect(
+      renderPromptTemplate('Use {{style}} style', {}, [{ name: 'style', default: 'terse' }])
+    ).toBe('Use terse style');
+    expect(
+      renderPromptTemplate('Use {{style}} style', { style: 'verbose' }, [
+        { name: 'style', default: 'terse' },
+      ])
+    ).toBe('Use verbose style');
+  });
+
+  it('should render conditionals, dropping block tags on their own line', () => {
+    const template = [
+      'Fix the bug.',
+      '{{#if tests}}',
+      'Add tests{{#if coverage}} with {{coverage}}% coverage{{/if}}.',
+      '{{else}}',
+      'Skip tests.',
+      '{{/if}}',
+      'Done.',
+    ].join('\n');
+
+    expect(renderPromptTemplate(template, { tests: true, coverage: 90 })).toBe(
+      'Fix the bug.\nAdd tests with 90% coverage.\nDone.'
+    );
+    expect(renderPromptTemplate(template, { tests: false })).toBe(
+      'Fix the bug.\nSkip tests.\nDone.'
+    );
+  });
+
+  it('should leave other brace text as it is', () => {
+    expect(renderPromptTemplate('const x = {{ a: 1 }};', {})).toBe('const x = {{ a: 1 }};');
+  });
+
+  it('should report missing variables, ignoring branches that are not rendered', () => {
+    expect(() =>
+      renderPromptTemplate('{{a}} {{#if flag}}{{b}}{{/if}}', {}, [{ name: 'c', required: true }])
+    ).toThrow('Missing required variables: a, c');
+  });
+
+  it('should not resolve variables from the object prototype', () => {
+    expect(() =>
+      renderPromptTemplate('{{constructor}} {{#if toString}}x{{/if}}', {}, [
+        { name: 'hasOwnProperty', required: true },
+      ])
+    ).toThrow('Missing required variables: constructor, hasOwnProperty');
+    expect(renderPromptTemplate('{{__proto__}}', JSON.parse('{"__proto__": "value"}'))).toBe(
+      'value'
+    );
+  });
+});
+
+describe('validatePromptTemplate', () => {
+  it.each([
+    ['{{#if a}}x', '{{#if a}} is not closed with {{/if}}'],
+    ['x{{/if}}', '{{/if}} without a matching {{#if}}'],
+    ['{{else}}', '{{else}} without a matching {{#if}}'],
+    ['{{#if a}}x{{else}}y{{else}}z{{/if}}', '{{else}} without a matching {{#if}}'],
+  ])('should reject %j', (template, error) => {
+    expect(validatePromptTemplate(template)).toBe(error);
+  });
+
+  it('should accept valid templates', () => {
+    expect(validatePromptTemplate('{{#if a}}{{#if b}}{{c}}{{/if}}{{/if}}')).toBeNull();
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * Integration tests for Prompt Templates API endpoints
+ * Tests template CRUD and running rendered templates using a temporary SQLite database
+ */
+import { describe, it, expect, beforeAll, afterAll, beforeEach, jest } from '@jest/globals';
+import request from 'supertest';
+import { createTempSqliteDb, type TempSqliteDb } from './test-utils.js';
+import type { Server } from '../src/server.js';
+
+describe('Prompt Templates API', () => {
+  let tempDb: TempSqliteDb;
+  let originalSharedDbPath: string | undefined;
+  let server: Server;
+  let cleanup: () => Promise<void>;
+
+  beforeAll(async () => {
+    originalSharedDbPath = process.env.SHARED_DB_PATH;
+    tempDb = await createTempSqliteDb();
+    process.env.SHARED_DB_PATH = tempDb.dbPath;
+
+    // eslint-disable-next-line node/no-unsupported-features/es-syntax
+    const { createMockServer } = await import('./test-utils.js');
+    const mockServerResult = createMockServer();
+    server = mockServerResult.server;
+    cleanup = mockServerResult.cleanup;
+
+    await server.start();
+  });
+
+  afterAll(async () => {
+    if (cleanup) {
+      await cleanup();
+    }
+
+    if (originalSharedDbPath !== undefined) {
+      process.env.SHARED_DB_PATH = originalSharedDbPath;
+    } else {
+      delete process.env.SHARED_DB_PATH;
+    }
+
+    if (tempDb) {
+      await tempDb.cleanup();
+    }
+  });
+
+  beforeEach(async () => {
+    tempDb.db.prepare('DELETE FROM prompt_templates').run();
+    tempDb.db.prepare('DELETE FROM execution_presets').run();
+  });
+
+  it('should create, list, get, update, render and delete a template', async () => {
+    const created = await request(server.app)
+      .post('/api/prompt-templates')
+      .send({
+        name: 'fix-issue',
+        template: 'Fix {{issue}}{{#if tests}} and add tests{{/if}}',
+        variables: [{ name: 'issue', required: true }],
+      })
+      .expect(201);
+    expect(created.body).toMatchObject({ name: 'fix-issue', description: null });
+
+    const list = await request(server.app).get('/api/prompt-templates').expect(200);
+    expect(list.body.map((template: { name: string }) => template.name)).toEqual(['fix-issue']);
+
+    await request(server.app).get('/api/prompt-templates/fix-issue').expect(200);
+
+    const updated = await request(server.app)
+      .put('/api/prompt-templates/fix-issue')
+      .send({ description: 'Fix an issue' })
+      .expect(200);
+    expect(updated.body.description).toBe('Fix an issue');
+
+    const rendered = await request(server.app)
+      .post('/api/prompt-templates/fix-issue/render')
+      .send({ variables: { issue: 'bug #7', tests: true } })
+      .expect(200);
+    expect(rendered.body).toEqual({ success: true, prompt: 'Fix bug #7 and add tests' });
+
+    const missing = await request(server.app)
+      .post('/api/prompt-templates/fix-issue/render')
+      .send({})
+      .expect(400);
+    expect(missing.body.error).toBe('Missing required variables: issue');
+
+    await request(server.app).delete('/api/prompt-templates/fix-issue').expect(200);
+    await request(server.app).get('/api/prompt-templates/fix-issue').expect(404);
+  });
+
+  it('should return 409 for a duplicate name and 400 for invalid templates', async () => {
+    await request(server.app)
+      .post('/api/prompt-templates')
+      .send({ name: 'docs', template: 'Write docs' })
+      .expect(201);
+    await request(server.app)
+      .post('/api/prompt-templates')
+      .send({ name: 'other', template: 'Other' })
+      .expect(201);
+
+    const duplicate = await request(server.app)
+      .post('/api/prompt-templates')
+      .send({ name: 'docs', template: 'Write docs' })
+      .expect(409);
+    expect(duplicate.body.error).toBe('Prompt template docs already exists');
+    await request(server.app).put('/api/prompt-templates/other').send({ name: 'docs' }).expect(409);
+
+    const invalid = await request(server.app)
+      .post('/api/prompt-templates')
+      .send({ name: 'bad', template: '{{/if}}' })
+      .expect(400);
+    expect(invalid.body).toEqual({
+      success: false,
+      error: 'template is invalid: {{/if}} without a matching {{#if}}',
+    });
+    await request(server.app)
+      .put('/api/prompt-templates/missing')
+      .send({ template: 'x' })
+      .expect(404);
+    await request(server.app).post('/api/prompt-templates/missing/render').expect(404);
+    await request(server.app).delete('/api/prompt-templates/missing').expect(404);
+  });
+
+  it('should execute a rendered template, applying a preset preamble', async () => {
+    await request(server.app)
+      .post('/api/prompt-templates')
+      .send({
+        name: 'fix-issue',
+        template: 'Fix {{issue}}',
+        variables: [{ name: 'issue', required: true }],
+      })
+      .expect(201);
+    await request(server.app)
+      .post('/api/presets')
+      .send({ name: 'my-app', repository: 'my-app', prompt_preamble: 'Be careful.' })
+      .expect(201);
+    const executeSpy = jest
+      .spyOn(server.cursorExecution, 'execute')
+      .mockResolvedValue({ status: 200, body: { success: true } } as any);
+
+    try {
+      await request(server.app)
+        .post('/cursor/execute')
+        .send({ template: 'fix-issue', variables: { issue: 'bug #7' }, preset: 'my-app' })
+        .expect(200);
+
+      expect(executeSpy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          repository: 'my-app',
+          prompt: 'Be careful.\n\nFix bug #7',
+        })
+      );
+    } finally {
+      executeSpy.mockRestore();
+    }
+  });
+
+  it('should reject executions with invalid templates', async () => {
+    await request(server.app)
+      .post('/api/prompt-templates')
+      .send({ name: 'fix-issue', template: 'Fix {{issue}}' })
+      .expect(201);
+
+    const both = await request(server.app)
+      .post('/cursor/execute/async')
+      .send({ template: 'fix-issue', prompt: 'Fix it' })
+      .expect(400);
+    expect(both.body.error).toBe('Send either prompt or template, not both');
+
+    const unknown = await request(server.app)
+      .post('/cursor/execute/async')
+      .send({ template: 'missing' })
+      .expect(400);
+    expect(unknown.body.error).toBe('Prompt template not found: missing');
+
+    const missing = await request(server.app)
+      .post('/cursor/iterate')
+      .send({ template: 'fix-issue' })
+      .expect(400);
+    expect(missing.body.error).toBe('Missing required variables: issue');
+  });
+});
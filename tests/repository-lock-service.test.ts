@@ -0,0 +1,143 @@
+/**
+ * Unit tests for RepositoryLockService
+ * Tests per-repository serialization, cancellation and the Redis-backed variant
+ */
+import { describe, it, expect } from '@jest/globals';
+import type Redis from 'ioredis';
+import { RepositoryLockService } from '../src/repository-lock-service.js';
+import { isCancellationError } from '../src/cursor-cli.js';
+
+/**
+ * Minimal Redis stand-in supporting the commands used for locking
+ */
+function createLockRedis(options: { failing?: boolean } = {}) {
+  const keys = new Map<string, string>();
+  const redis = {
+    keys,
+    async set(key: string, value: string): Promise<'OK' | null> {
+      if (options.failing) {
+        throw new Error('Redis connection failed');
+      }
+      if (keys.has(key)) {
+        return null;
+      }
+      keys.set(key, value);
+      return 'OK';
+    },
+    async eval(script: string, _numKeys: number, key: string, token: string): Promise<number> {
+      if (keys.get(key) !== token) {
+        return 0;
+      }
+      if (script.includes("'del'")) {
+        keys.delete(key);
+      }
+      return 1;
+    },
+  };
+  return redis;
+}
+
+describe('RepositoryLockService', () => {
+  it('should serialize runs against the same repository in arrival order', async () => {
+    const locks = new RepositoryLockService({ backend: 'memory' });
+    const order: string[] = [];
+
+    const releaseFirst = await locks.acquire('repo-a', { requestId: 'req-1' });
+    const runAfterLock = async (requestId: string): Promise<void> => {
+      const release = await locks.acquire('repo-a', { requestId });
+      order.push(requestId);
+      await release();
+    };
+    const second = runAfterLock('req-2');
+    const third = runAfterLock('req-3');
+
+    expect(locks.getStatus()).toEqual({
+      backend: 'memory',
+      locks: [{ repository: 'repo-a', holder: 'req-1', waiting: ['req-2', 'req-3'] }],
+    });
+
+    await releaseFirst();
+    await Promise.all([third, second]);
+
+    expect(order).toEqual(['req-2', 'req-3']);
+    expect(locks.getStatus().locks).toEqual([]);
+  });
+
+  it('should let different repositories run in parallel', async () => {
+    const locks = new RepositoryLockService({ backend: 'memory' });
+
+    const releaseA = await locks.acquire('repo-a', { requestId: 'req-1' });
+    const releaseB = await locks.acquire('repo-b', { requestId: 'req-2' });
+
+    expect(locks.getStatus().locks.map((lock) => lock.holder)).toEqual(['req-1', 'req-2']);
+
+    await releaseA();
+    await releaseB();
+  });
+
+  it('should notify waiters once and drop them from the queue when cancelled', async () => {
+    const locks = new RepositoryLockService({ backend: 'memory' });
+    const controller = new AbortController();
+    let waits = 0;
+
+    const release = await locks.acquire('repo-a', { requestId: 'req-1' });
+    const waiting = locks.acquire('repo-a', {
+      requestId: 'req-2',
+      signal: controller.signal,
+      onWait: () => waits++,
+    });
+
+    controller.abort();
+
+    const error = await waiting.catch((err: unknown) => err);
+    expect(isCancellationError(error)).toBe(true);
+    expect(waits).toBe(1);
+    expect(locks.getStatus().locks).toEqual([
+      { repository: 'repo-a', holder: 'req-1', waiting: [] },
+    ]);
+
+    await release();
+    expect(locks.getStatus().locks).toEqual([]);
+  });
+
+  it('should wait for a lock held by another instance in Redis', async () => {
+    const redis = createLockRedis();
+    redis.keys.set('cursor:repository_lock:repo-a', 'other-instance');
+    const locks = new RepositoryLockService({
+      backend: 'redis',
+      redisClient: redis as unknown as Redis,
+      pollIntervalMs: 5,
+    });
+    let waits = 0;
+
+    const acquiring = locks.acquire('repo-a', { requestId: 'req-1', onWait: () => waits++ });
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    expect(waits).toBe(1);
+    expect(locks.getStatus().locks).toEqual([
+      { repository: 'repo-a', holder: null, waiting: ['req-1'] },
+    ]);
+
+    redis.keys.delete('cursor:repository_lock:repo-a');
+    const release = await acquiring;
+
+    expect(redis.keys.get('cursor:repository_lock:repo-a')).toMatch(/^req-1:/);
+    await release();
+    expect(redis.keys.has('cursor:repository_lock:repo-a')).toBe(false);
+  });
+
+  it('should fall back to the in-process lock when Redis is unavailable', async () => {
+    const locks = new RepositoryLockService({
+      backend: 'redis',
+      redisClient: createLockRedis({ failing: true }) as unknown as Redis,
+    });
+
+    const release = await locks.acquire('repo-a', { requestId: 'req-1' });
+
+    expect(locks.getStatus()).toEqual({
+      backend: 'redis',
+      locks: [{ repository: 'repo-a', holder: 'req-1', waiting: [] }],
+    });
+    await release();
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Unit tests for the request context
+ * Tests request ID propagation through Express and log entry enrichment
+ */
+import { describe, it, expect } from '@jest/globals';
+import { Writable } from 'stream';
+import express, { type Request, type Response } from 'express';
+import request from 'supertest';
+import winston from 'winston';
+import { logger } from '../src/logger.js';
+import {
+  getRequestContext,
+  requestContextMiddleware,
+  runWithRequestContext,
+  updateRequestContext,
+} from '../src/request-context.js';
+
+/**
+ * Capture the entries the logger writes while running a function
+ */
+async function captureLogs(fn: () => Promise<void> | void): Promise<Record<string, unknown>[]> {
+  const entries: Record<string, unknown>[] = [];
+  const transport = new winston.transports.Stream({
+    stream: new Writable({
+      write(chunk, _encoding, callback) {
+        entries.push(JSON.parse(chunk.toString()) as Record<string, unknown>);
+        callback();
+      },
+    }),
+  });
+  logger.add(transport);
+  try {
+    await fn();
+  } finally {
+    logger.remove(transport);
+  }
+  return entries;
+}
+
+describe('request context', () => {
+  it('should inherit and update fields of the enclosing context', () => {
+    expect(getRequestContext()).toBeUndefined();
+
+    runWithRequestContext({ requestId: 'req-1', queueType: 'api' }, () => {
+      runWithRequestContext({ repository: 'my-app', queueType: undefined }, () => {
+        updateRequestContext({ conversationId: 'conv-1' });
+
+        expect(getRequestContext()).toEqual({
+          requestId: 'req-1',
+          queueType: 'api',
+          repository: 'my-app',
+          conversationId: 'conv-1',
+        });
+      });
+
+      expect(getRequestContext()).toEqual({ requestId: 'req-1', queueType: 'api' });
+    });
+  });
+
+  it('should add the context to log entries without overriding their own fields', async () => {
+    const entries = await captureLogs(() =>
+      runWithRequestContext({ requestId: 'req-1', repository: 'my-app' }, () => {
+        logger.info('First entry');
+        logger.info('Second entry', { requestId: 'req-2' });
+      })
+    );
+
+    expect(entries).toEqual([
+      expect.objectContaining({ message: 'First entry', requestId: 'req-1', repository: 'my-app' }),
+      expect.objectContaining({
+        message: 'Second entry',
+        requestId: 'req-2',
+        repository: 'my-app',
+      }),
+    ]);
+  });
+
+  describe('requestContextMiddleware', () => {
+    const app = express();
+    app.use(requestContextMiddleware);
+    app.use(express.json());
+    app.post('/context', async (req: Request, res: Response) => {
+      await new Promise((resolve) => setTimeout(resolve, 1));
+      res.json(getRequestContext());
+    });
+
+    it('should use and echo the inbound X-Request-Id header', async () => {
+      const response = await request(app)
+        .post('/context')
+        .set('X-Request-Id', 'abc-123')
+        .send({ prompt: 'hello' })
+        .expect(200);
+
+      expect(response.headers['x-request-id']).toBe('abc-123');
+      expect(response.body).toEqual({ requestId: 'abc-123' });
+    });
+
+    it.each(['..', '-x', 'a b', 'x'.repeat(129)])(
+      'should generate a request ID for the invalid header %j',
+      async (header) => {
+        const response = await request(app)
+          .post('/context')
+          .set('X-Request-Id', header)
+          .send({})
+          .expect(200);
+
+        expect(response.headers['x-request-id']).toMatch(/^req-/);
+        expect(response.body.requestId).toBe(response.headers['x-request-id']);
+      }
+    );
+
+    it('should generate a request ID when the header is missing', async () => {
+      const response = await request(app).post('/context').send({}).expect(200);
+
+      expect(response.headers['x-request-id']).toMatch(/^req-/);
+      expect(response.body.requestId).toBe(response.headers['x-request-id']);
+    });
+  });
+});
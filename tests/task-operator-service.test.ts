@@ -0,0 +1,299 @@
+/**
+ * Unit tests for TaskOperatorService
+ * Tests draining ready tasks, status transitions and the single-instance lease
+ */
+import {
+  describe,
+  it,
+  expect,
+  beforeAll,
+  afterAll,
+  beforeEach,
+  afterEach,
+  jest,
+} from '@jest/globals';
+import { TaskService, TaskStatus } from '../src/task-service.js';
+import { TaskOperatorService, TASK_OPERATOR_LEASE } from '../src/task-operator-service.js';
+import { WorkerLeaseService } from '../src/worker-lease-service.js';
+import type { CursorExecutionService, ExecuteParams } from '../src/cursor-execution-service.js';
+import { createTempSqliteDb, type TempSqliteDb } from './test-utils.js';
+
+type ExecuteResult = { status: number; body: Record<string, unknown> };
+
+function successResult(): ExecuteResult {
+  return { status: 200, body: { success: true, exitCode: 0, output: 'done' } };
+}
+
+describe('TaskOperatorService', () => {
+  let tempDb: TempSqliteDb;
+  let originalSharedDbPath: string | undefined;
+  let taskService: TaskService;
+  let execute: jest.Mock<(params: ExecuteParams) => Promise<ExecuteResult>>;
+  let enabled: boolean;
+  let operator: TaskOperatorService;
+
+  function createOperator(): TaskOperatorService {
+    const cursorExecution = {
+      execute,
+      conversationService: { getConversationId: async () => 'conv-1' },
+    } as unknown as CursorExecutionService;
+    return new TaskOperatorService(taskService, cursorExecution, {
+      pollIntervalMs: 60000,
+      leaseTtlMs: 60000,
+      isEnabled: () => enabled,
+    });
+  }
+
+  beforeAll(async () => {
+    originalSharedDbPath = process.env.SHARED_DB_PATH;
+    tempDb = await createTempSqliteDb();
+    process.env.SHARED_DB_PATH = tempDb.dbPath;
+    taskService = new TaskService();
+  });
+
+  afterAll(async () => {
+    taskService.close();
+
+    if (originalSharedDbPath) {
+      process.env.SHARED_DB_PATH = originalSharedDbPath;
+    } else {
+      delete process.env.SHARED_DB_PATH;
+    }
+
+    if (tempDb && tempDb.cleanup) {
+      await tempDb.cleanup();
+    }
+  });
+
+  beforeEach(async () => {
+    tempDb.db.prepare('DELETE FROM tasks').run();
+    tempDb.db.prepare('DELETE FROM worker_leases').run();
+    tempDb.db.prepare('DELETE FROM task_runs').run();
+    enabled = true;
+    execute = jest.fn<(params: ExecuteParams) => Promise<ExecuteResult>>();
+    execute.mockResolvedValue(successResult());
+    operator = createOperator();
+  });
+
+  afterEach(async () => {
+    await operator.stop();
+  });
+
+  it('should run the ready task with the lowest order and complete it', async () => {
+    const later = taskService.createTask('Second task', 2);
+    const first = taskService.createTask('First task', 1);
+    taskService.createTask('Backlogged task', 0, TaskStatus.BACKLOGGED);
+
+    await operator.tick();
+
+    expect(execute).toHaveBeenCalledTimes(1);
+    expect(execute.mock.calls[0][0]).toMatchObject({
+      prompt: 'First task',
+      requestId: expect.stringMatching(new RegExp(`^task-${first.id}-`)),
+    });
+    expect(taskService.getTaskById(first.id)?.status).toBe(TaskStatus.COMPLETE);
+    expect(taskService.getTaskById(later.id)?.status).toBe(TaskStatus.READY);
+  });
+
+  it('should record each run in the task history', async () => {
+    const task = taskService.createTask('Recorded task');
+    execute.mockResolvedValueOnce({
+      status: 500,
+      body: { success: false, repository: 'my-repo', exitCode: 1, output: 'oops', error: 'boom' },
+    });
+
+    await operator.tick();
+
+    const runs = taskService.listTaskRuns(task.id);
+    expect(runs).toHaveLength(1);
+    expect(runs[0]).toMatchObject({
+      request_id: execute.mock.calls[0][0].requestId,
+      conversation_id: 'conv-1',
+      repository: 'my-repo',
+      status: 'failed',
+      exit_code: 1,
+      output_excerpt: 'oops',
+      error: 'boom',
+    });
+    expect(execute.mock.calls[0][0].conversationId).toBe('conv-1');
+  });
+
+  it('should run the task on its repository and branch', async () => {
+    const task = taskService.createTask('Targeted task', 0, TaskStatus.READY, {
+      repository: 'my-app',
+      branchName: 'feature/invoices',
+    });
+
+    await operator.tick();
+
+    expect(execute.mock.calls[0][0]).toMatchObject({
+      repository: 'my-app',
+      branchName: 'feature/invoices',
+    });
+    expect(taskService.listTaskRuns(task.id)[0].repository).toBe('my-app');
+  });
+
+  it('should mark the task in progress while it runs', async () => {
+    const task = taskService.createTask('Long task');
+    let statusDuringRun: TaskStatus | undefined;
+    execute.mockImplementation(async () => {
+      statusDuringRun = taskService.getTaskById(task.id)?.status;
+      return successResult();
+    });
+
+    await operator.tick();
+
+    expect(statusDuringRun).toBe(TaskStatus.IN_PROGRESS);
+  });
+
+  it('should move the task to the backlog when its last attempt fails', async () => {
+    const failed = taskService.createTask('Failing task', 0, TaskStatus.READY, { maxAttempts: 1 });
+    const thrown = taskService.createTask('Throwing task', 1, TaskStatus.READY, { maxAttempts: 1 });
+    execute
+      .mockResolvedValueOnce({ status: 500, body: { success: false, exitCode: 1, error: 'boom' } })
+      .mockRejectedValueOnce(new Error('cursor-cli crashed'));
+
+    await operator.tick();
+    await operator.tick();
+
+    expect(taskService.getTaskById(failed.id)).toMatchObject({
+      status: TaskStatus.BACKLOGGED,
+      attempt_count: 1,
+      last_error: 'boom',
+    });
+    expect(taskService.getTaskById(thrown.id)).toMatchObject({
+      status: TaskStatus.BACKLOGGED,
+      last_error: 'cursor-cli crashed',
+    });
+  });
+
+  it('should requeue a failed task with backoff while it has attempts left', async () => {
+    const task = taskService.createTask('Flaky task');
+    execute.mockResolvedValueOnce({ status: 200, body: { success: true, exitCode: 2 } });
+
+    await operator.tick();
+
+    const requeued = taskService.getTaskById(task.id);
+    expect(requeued).toMatchObject({
+      status: TaskStatus.READY,
+      attempt_count: 1,
+      last_error: 'cursor-cli exited with code 2',
+    });
+    expect(Date.parse(requeued?.next_attempt_at as string)).toBeGreaterThan(Date.now());
+
+    // The retry is not due yet
+    await operator.tick();
+    expect(execute).toHaveBeenCalledTimes(1);
+  });
+
+  it('should do nothing while the task_operator setting is off', async () => {
+    const task = taskService.createTask('Waiting task');
+    enabled = false;
+
+    await operator.tick();
+
+    expect(execute).not.toHaveBeenCalled();
+    expect(taskService.getTaskById(task.id)?.status).toBe(TaskStatus.READY);
+  });
+
+  it('should not process tasks while another instance holds the lease', async () => {
+    const task = taskService.createTask('Contended task');
+    const other = createOperator();
+
+    const leases = new WorkerLeaseService();
+    expect(leases.acquire(TASK_OPERATOR_LEASE, 'other-instance', 60000)).toBe(true);
+    await operator.tick();
+    expect(execute).not.toHaveBeenCalled();
+
+    // Once the other holder's lease expires it can be taken over
+    tempDb.db
+      .prepare('UPDATE worker_leases SET expires_at = ?')
+      .run(new Date(Date.now() - 1000).toISOString());
+    await operator.tick();
+    await other.tick();
+
+    expect(execute).toHaveBeenCalledTimes(1);
+    expect(taskService.getTaskById(task.id)?.status).toBe(TaskStatus.COMPLETE);
+    leases.close();
+    await other.stop();
+  });
+
+  it('should put the task back to ready when stopped mid-run', async () => {
+    const task = taskService.createTask('Interrupted task');
+    let started!: () => void;
+    const runStarted = new Promise<void>((resolve) => {
+      started = resolve;
+    });
+    execute.mockImplementation(
+      (params) =>
+        new Promise((resolve) => {
+          started();
+          params.signal?.addEventListener('abort', () =>
+            resolve({ status: 500, body: { success: false, error: 'cancelled' } })
+          );
+        })
+    );
+
+    const tick = operator.tick();
+    await runStarted;
+    await operator.stop();
+    await tick;
+
+    expect(taskService.getTaskById(task.id)?.status).toBe(TaskStatus.READY);
+    expect(taskService.listTaskRuns(task.id)[0].status).toBe('cancelled');
+    expect(tempDb.db.prepare('SELECT * FROM worker_leases').all()).toHaveLength(0);
+  });
+
+  it('should fail tasks left in progress when it takes over the lease', async () => {
+    const task = taskService.createTask('Orphaned task', 0, TaskStatus.IN_PROGRESS, {
+      maxAttempts: 2,
+    });
+    const run = taskService.startTaskRun(task.id, { requestId: 'task-crashed' });
+
+    await operator.tick();
+
+    expect(execute).not.toHaveBeenCalled();
+    expect(taskService.getTaskById(task.id)).toMatchObject({
+      status: TaskStatus.READY,
+      attempt_count: 1,
+      last_error: 'Task run was interrupted before it finished',
+    });
+    expect(taskService.listTaskRuns(task.id)[0]).toMatchObject({
+      id: run.id,
+      status: 'failed',
+      error: 'Task run was interrupted before it finished',
+    });
+  });
+
+  it('should keep the status a task was given through the API during its run', async () => {
+    const task = taskService.createTask('Archived task');
+    execute.mockImplementation(async () => {
+      taskService.updateTask(task.id, { status: TaskStatus.ARCHIVED });
+      return successResult();
+    });
+
+    await operator.tick();
+
+    expect(taskService.getTaskById(task.id)).toMatchObject({
+      status: TaskStatus.ARCHIVED,
+      attempt_count: 0,
+    });
+  });
+
+  it('should retry recording the outcome on the next tick when it fails', async () => {
+    const task = taskService.createTask('Unrecorded task');
+    const next = taskService.createTask('Next task', 1);
+    const completeTask = jest.spyOn(taskService, 'completeTask').mockImplementationOnce(() => {
+      throw new Error('database is locked');
+    });
+
+    await operator.tick();
+    expect(taskService.getTaskById(task.id)?.status).toBe(TaskStatus.IN_PROGRESS);
+
+    await operator.tick();
+    expect(taskService.getTaskById(task.id)?.status).toBe(TaskStatus.COMPLETE);
+    expect(taskService.getTaskById(next.id)?.status).toBe(TaskStatus.COMPLETE);
+    expect(execute).toHaveBeenCalledTimes(2);
+    completeTask.mockRestore();
+  });
+});
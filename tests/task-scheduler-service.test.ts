@@ -0,0 +1,160 @@
+/**
+ * Unit tests for TaskSchedulerService
+ * Tests creating tasks from due templates, catch-up policies and the single-instance lease
+ */
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach } from '@jest/globals';
+import { TaskService, TaskStatus } from '../src/task-service.js';
+import {
+  TaskTemplateService,
+  type TaskTemplate,
+  type TaskTemplateCatchUp,
+} from '../src/task-template-service.js';
+import { TaskSchedulerService, TASK_SCHEDULER_LEASE } from '../src/task-scheduler-service.js';
+import { WorkerLeaseService } from '../src/worker-lease-service.js';
+import { createTempSqliteDb, type TempSqliteDb } from './test-utils.js';
+
+describe('TaskSchedulerService', () => {
+  let tempDb: TempSqliteDb;
+  let originalSharedDbPath: string | undefined;
+  let taskService: TaskService;
+  let templates: TaskTemplateService;
+  let scheduler: TaskSchedulerService;
+
+  /**
+   * Create an hourly template that last ran at 09:00 and was due again at 10:00
+   */
+  function createDueTemplate(catchUp: TaskTemplateCatchUp): TaskTemplate {
+    const template = templates.createTemplate({
+      name: `Hourly (${catchUp})`,
+      prompt: 'Check the build',
+      schedule: '0 * * * *',
+      catchUp,
+      repository: 'my-app',
+      labels: ['scheduled'],
+      maxAttempts: 5,
+    });
+    tempDb.db
+      .prepare('UPDATE task_templates SET next_run_at = ? WHERE id = ?')
+      .run('2026-10-16T10:00:00.000Z', template.id);
+    return template;
+  }
+
+  beforeAll(async () => {
+    originalSharedDbPath = process.env.SHARED_DB_PATH;
+    tempDb = await createTempSqliteDb();
+    process.env.SHARED_DB_PATH = tempDb.dbPath;
+    taskService = new TaskService();
+    templates = new TaskTemplateService();
+  });
+
+  afterAll(async () => {
+    taskService.close();
+    templates.close();
+
+    if (originalSharedDbPath) {
+      process.env.SHARED_DB_PATH = originalSharedDbPath;
+    } else {
+      delete process.env.SHARED_DB_PATH;
+    }
+
+    if (tempDb && tempDb.cleanup) {
+      await tempDb.cleanup();
+    }
+  });
+
+  beforeEach(() => {
+    tempDb.db.prepare('DELETE FROM tasks').run();
+    tempDb.db.prepare('DELETE FROM task_templates').run();
+    tempDb.db.prepare('DELETE FROM worker_leases').run();
+    scheduler = new TaskSchedulerService(templates, taskService, {
+      pollIntervalMs: 60000,
+      leaseTtlMs: 60000,
+      misfireGraceMs: 5 * 60 * 1000,
+    });
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+  });
+
+  it('should create a ready task from a template when it comes due', () => {
+    const template = createDueTemplate('skip');
+
+    const created = scheduler.tick(new Date('2026-10-16T10:00:20.000Z'));
+
+    expect(created).toHaveLength(1);
+    expect(created[0]).toMatchObject({
+      prompt: 'Check the build',
+      status: TaskStatus.READY,
+      repository: 'my-app',
+      labels: ['scheduled'],
+      max_attempts: 5,
+    });
+    expect(templates.getTemplateById(template.id)).toMatchObject({
+      last_task_id: created[0].id,
+      next_run_at: '2026-10-16T11:00:00.000Z',
+    });
+    expect(scheduler.tick(new Date('2026-10-16T10:00:50.000Z'))).toEqual([]);
+  });
+
+  it.each([
+    ['skip', 1],
+    ['once', 1],
+    ['all', 3],
+  ] as const)('should apply the %s catch-up policy to missed runs', (catchUp, expected) => {
+    createDueTemplate(catchUp);
+
+    // 10:00 and 11:00 were missed; 12:00 is on time
+    const created = scheduler.tick(new Date('2026-10-16T12:01:00.000Z'));
+
+    expect(created).toHaveLength(expected);
+    expect(taskService.listTasks()).toHaveLength(expected);
+  });
+
+  it('should drop runs that were all missed with the skip policy', () => {
+    const template = createDueTemplate('skip');
+
+    expect(scheduler.tick(new Date('2026-10-16T11:30:00.000Z'))).toEqual([]);
+    expect(templates.getTemplateById(template.id)?.next_run_at).toBe('2026-10-16T12:00:00.000Z');
+  });
+
+  it('should leave a template due when its task cannot be created and go on to the others', () => {
+    const broken = createDueTemplate('once');
+    templates.updateTemplate(broken.id, { prompt: 'Broken' });
+    const working = createDueTemplate('once');
+    tempDb.db.exec(`
+      CREATE TRIGGER reject_broken_task BEFORE INSERT ON tasks WHEN NEW.prompt = 'Broken'
+      BEGIN SELECT RAISE(ABORT, 'insert failed'); END
+    `);
+
+    try {
+      const created = scheduler.tick(new Date('2026-10-16T10:00:20.000Z'));
+
+      expect(created).toHaveLength(1);
+      expect(templates.getTemplateById(working.id)?.last_task_id).toBe(created[0].id);
+      expect(templates.getTemplateById(broken.id)).toMatchObject({
+        next_run_at: '2026-10-16T10:00:00.000Z',
+        last_task_id: null,
+      });
+    } finally {
+      tempDb.db.exec('DROP TRIGGER reject_broken_task');
+    }
+
+    const retried = scheduler.tick(new Date('2026-10-16T10:01:00.000Z'));
+    expect(retried).toHaveLength(1);
+    expect(retried[0].prompt).toBe('Broken');
+  });
+
+  it('should not create tasks while another instance holds the lease', () => {
+    createDueTemplate('once');
+    const otherLeases = new WorkerLeaseService();
+    otherLeases.acquire(TASK_SCHEDULER_LEASE, 'other-instance', 60000);
+
+    try {
+      expect(scheduler.tick(new Date('2026-10-16T10:00:20.000Z'))).toEqual([]);
+      expect(taskService.listTasks()).toHaveLength(0);
+    } finally {
+      otherLeases.close();
+    }
+  });
+});
@@ -3,7 +3,12 @@
  * Tests CRUD operations, ordering, and status labels
  */
 import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
-import { TaskService, TaskStatus } from '../src/task-service.js';
+import {
+  TaskService,
+  TaskStatus,
+  TASK_RUN_OUTPUT_EXCERPT_LENGTH,
+  getTaskRetryDelay,
+} from '../src/task-service.js';
 import { createTempSqliteDb, type TempSqliteDb } from './test-utils.js';
 
 describe('TaskService - Basic Operations', () => {
@@ -261,3 +266,607 @@ describe('TaskService - Update Operations', () => {
     expect(tasks[0].id).toBe(task.id);
   });
 });
+
+describe('TaskService - Task Runs', () => {
+  let tempDb: TempSqliteDb;
+  let originalSharedDbPath: string | undefined;
+  let taskService: TaskService;
+
+  beforeAll(async () => {
+    originalSharedDbPath = process.env.SHARED_DB_PATH;
+    tempDb = await createTempSqliteDb();
+    process.env.SHARED_DB_PATH = tempDb.dbPath;
+    taskService = new TaskService();
+  });
+
+  afterAll(async () => {
+    taskService.close();
+
+    if (originalSharedDbPath) {
+      process.env.SHARED_DB_PATH = originalSharedDbPath;
+    } else {
+      delete process.env.SHARED_DB_PATH;
+    }
+
+    if (tempDb && tempDb.cleanup) {
+      await tempDb.cleanup();
+    }
+  });
+
+  beforeEach(() => {
+    tempDb.db.prepare('DELETE FROM tasks').run();
+    tempDb.db.prepare('DELETE FROM task_runs').run();
+  });
+
+  it('should keep only the end of long output', () => {
+    const task = taskService.createTask('Verbose task');
+    const run = taskService.startTaskRun(task.id, { requestId: 'req-1' });
+    const output = 'a'.repeat(TASK_RUN_OUTPUT_EXCERPT_LENGTH) + 'the end';
+
+    const finished = taskService.finishTaskRun(run.id, {
+      status: 'succeeded',
+      repository: 'my-repo',
+      exitCode: 0,
+      output,
+    });
+
+    expect(finished?.output_excerpt).toHaveLength(TASK_RUN_OUTPUT_EXCERPT_LENGTH);
+    expect(finished?.output_excerpt?.endsWith('the end')).toBe(true);
+    expect(finished?.repository).toBe('my-repo');
+  });
+
+  it('should delete the run history along with the task', () => {
+    const task = taskService.createTask('Short-lived task');
+    taskService.startTaskRun(task.id, { requestId: 'req-1' });
+
+    taskService.deleteTask(task.id);
+
+    expect(taskService.listTaskRuns(task.id)).toEqual([]);
+  });
+});
+
+describe('TaskService - Dependencies', () => {
+  let tempDb: TempSqliteDb;
+  let originalSharedDbPath: string | undefined;
+  let taskService: TaskService;
+
+  beforeAll(async () => {
+    originalSharedDbPath = process.env.SHARED_DB_PATH;
+    tempDb = await createTempSqliteDb();
+    process.env.SHARED_DB_PATH = tempDb.dbPath;
+    taskService = new TaskService();
+  });
+
+  afterAll(async () => {
+    taskService.close();
+
+    if (originalSharedDbPath) {
+      process.env.SHARED_DB_PATH = originalSharedDbPath;
+    } else {
+      delete process.env.SHARED_DB_PATH;
+    }
+
+    if (tempDb && tempDb.cleanup) {
+      await tempDb.cleanup();
+    }
+  });
+
+  beforeEach(() => {
+    tempDb.db.prepare('DELETE FROM tasks').run();
+    tempDb.db.prepare('DELETE FROM task_dependencies').run();
+  });
+
+  it('should report a ready task as blocked until its dependencies are complete', () => {
+    const migration = taskService.createTask('Add migration', 1);
+    const api = taskService.createTask('Update API', 0, TaskStatus.READY, {
+      dependsOn: [migration.id],
+    });
+
+    expect(api.depends_on).toEqual([migration.id]);
+    expect(api.blocked_by).toEqual([migration.id]);
+    expect(api.status_label).toBe('blocked');
+
+    taskService.updateTask(migration.id, { status: TaskStatus.COMPLETE });
+
+    const unblocked = taskService.getTaskById(api.id);
+    expect(unblocked?.blocked_by).toEqual([]);
+    expect(unblocked?.status_label).toBe('ready');
+  });
+
+  it('should only claim tasks whose dependencies are complete', () => {
+    const migration = taskService.createTask('Add migration', 1);
+    const api = taskService.createTask('Update API', 0, TaskStatus.READY, {
+      dependsOn: [migration.id],
+    });
+
+    // The API task comes first by order but has to wait for the migration
+    expect(taskService.claimNextReadyTask()?.id).toBe(migration.id);
+    expect(taskService.claimNextReadyTask()).toBeNull();
+
+    taskService.updateTask(migration.id, { status: TaskStatus.COMPLETE });
+    expect(taskService.claimNextReadyTask()?.id).toBe(api.id);
+  });
+
+  it('should reject dependencies that would create a cycle', () => {
+    const first = taskService.createTask('First');
+    const second = taskService.createTask('Second', 0, TaskStatus.READY, { dependsOn: [first.id] });
+    const third = taskService.createTask('Third', 0, TaskStatus.READY, { dependsOn: [second.id] });
+
+    expect(taskService.getDependencyError(first.id, [third.id])).toBe(
+      `Depending on task ${third.id} would create a cycle`
+    );
+    expect(taskService.getDependencyError(first.id, [first.id])).toBe(
+      'A task cannot depend on itself'
+    );
+    expect(() => taskService.setTaskDependencies(first.id, [third.id])).toThrow('cycle');
+    expect(taskService.getTaskById(first.id)?.depends_on).toEqual([]);
+  });
+
+  it('should reject dependencies on tasks that do not exist', () => {
+    expect(() =>
+      taskService.createTask('Orphan', 0, TaskStatus.READY, { dependsOn: [99999] })
+    ).toThrow('Task 99999 in depends_on does not exist');
+    expect(taskService.listTasks()).toEqual([]);
+  });
+
+  it('should drop dependency links when a task is deleted', () => {
+    const first = taskService.createTask('First');
+    const second = taskService.createTask('Second', 0, TaskStatus.READY, { dependsOn: [first.id] });
+
+    taskService.deleteTask(first.id);
+
+    expect(taskService.getTaskById(second.id)?.depends_on).toEqual([]);
+  });
+});
+
+describe('TaskService - Retries', () => {
+  let tempDb: TempSqliteDb;
+  let originalSharedDbPath: string | undefined;
+  let taskService: TaskService;
+
+  beforeAll(async () => {
+    originalSharedDbPath = process.env.SHARED_DB_PATH;
+    tempDb = await createTempSqliteDb();
+    process.env.SHARED_DB_PATH = tempDb.dbPath;
+    taskService = new TaskService({ retryBaseDelayMs: 1000, retryMaxDelayMs: 3000 });
+  });
+
+  afterAll(async () => {
+    taskService.close();
+
+    if (originalSharedDbPath) {
+      process.env.SHARED_DB_PATH = originalSharedDbPath;
+    } else {
+      delete process.env.SHARED_DB_PATH;
+    }
+
+    if (tempDb && tempDb.cleanup) {
+      await tempDb.cleanup();
+    }
+  });
+
+  beforeEach(() => {
+    tempDb.db.prepare('DELETE FROM tasks').run();
+  });
+
+  it('should back off exponentially up to the maximum delay', () => {
+    expect(getTaskRetryDelay(1, 1000, 3000)).toBe(1000);
+    expect(getTaskRetryDelay(2, 1000, 3000)).toBe(2000);
+    expect(getTaskRetryDelay(3, 1000, 3000)).toBe(3000);
+  });
+
+  it('should requeue failed attempts and backlog the task once they are used up', () => {
+    const task = taskService.createTask('Flaky task', 0, TaskStatus.IN_PROGRESS, {
+      maxAttempts: 2,
+    });
+    expect(task).toMatchObject({ max_attempts: 2, attempt_count: 0, next_attempt_at: null });
+
+    const before = Date.now();
+    const retried = taskService.failTask(task.id, 'first failure');
+    expect(retried).toMatchObject({
+      status: TaskStatus.READY,
+      attempt_count: 1,
+      last_error: 'first failure',
+    });
+    expect(Date.parse(retried?.next_attempt_at as string)).toBeGreaterThanOrEqual(before + 1000);
+    expect(taskService.claimNextReadyTask()).toBeNull();
+
+    taskService.updateTask(task.id, { status: TaskStatus.IN_PROGRESS });
+    const exhausted = taskService.failTask(task.id, 'second failure');
+    expect(exhausted).toMatchObject({
+      status: TaskStatus.BACKLOGGED,
+      attempt_count: 2,
+      last_error: 'second failure',
+      next_attempt_at: null,
+    });
+  });
+
+  it('should only record attempts on tasks that are in progress', () => {
+    const archived = taskService.createTask('Archived task', 0, TaskStatus.ARCHIVED);
+
+    expect(taskService.failTask(archived.id, 'boom')).toMatchObject({
+      status: TaskStatus.ARCHIVED,
+      attempt_count: 0,
+      last_error: null,
+    });
+    expect(taskService.completeTask(archived.id)?.status).toBe(TaskStatus.ARCHIVED);
+    expect(taskService.requeueTask(archived.id)?.status).toBe(TaskStatus.ARCHIVED);
+  });
+
+  it('should reset attempts and requeue on retry', () => {
+    const task = taskService.createTask('Broken task', 0, TaskStatus.IN_PROGRESS, {
+      maxAttempts: 1,
+    });
+    taskService.failTask(task.id, 'boom');
+
+    const retried = taskService.retryTask(task.id);
+
+    expect(retried).toMatchObject({
+      status: TaskStatus.READY,
+      attempt_count: 0,
+      last_error: null,
+      next_attempt_at: null,
+    });
+    expect(taskService.claimNextReadyTask()?.id).toBe(task.id);
+  });
+});
+
+describe('TaskService - Search and Bulk Operations', () => {
+  let tempDb: TempSqliteDb;
+  let originalSharedDbPath: string | undefined;
+  let taskService: TaskService;
+
+  beforeAll(async () => {
+    originalSharedDbPath = process.env.SHARED_DB_PATH;
+    tempDb = await createTempSqliteDb();
+    process.env.SHARED_DB_PATH = tempDb.dbPath;
+    taskService = new TaskService();
+  });
+
+  afterAll(async () => {
+    taskService.close();
+
+    if (originalSharedDbPath) {
+      process.env.SHARED_DB_PATH = originalSharedDbPath;
+    } else {
+      delete process.env.SHARED_DB_PATH;
+    }
+
+    if (tempDb && tempDb.cleanup) {
+      await tempDb.cleanup();
+    }
+  });
+
+  beforeEach(() => {
+    tempDb.db.prepare('DELETE FROM tasks').run();
+  });
+
+  it('should search prompts by word prefix, including after updates', () => {
+    const migration = taskService.createTask('Add a migration for invoices');
+    taskService.createTask('Update the API docs');
+    const renamed = taskService.createTask('Fix typo');
+    taskService.updateTask(renamed.id, { prompt: 'Fix invoice totals' });
+
+    const result = taskService.searchTasks({ search: 'invoice' });
+
+    expect(result.total).toBe(2);
+    expect(result.tasks.map((task) => task.id)).toEqual([migration.id, renamed.id]);
+    expect(taskService.searchTasks({ search: 'typo' }).total).toBe(0);
+  });
+
+  it('should match search input literally rather than as FTS syntax', () => {
+    taskService.createTask('Handle "quoted" OR NOT input');
+
+    expect(taskService.searchTasks({ search: '"quoted" OR' }).total).toBe(1);
+    expect(taskService.searchTasks({ search: 'NOT(' }).total).toBe(1);
+    expect(taskService.searchTasks({ search: 'input*"' }).total).toBe(1);
+  });
+
+  it('should filter by several statuses and sort and paginate the results', () => {
+    const first = taskService.createTask('First', 2, TaskStatus.READY);
+    const second = taskService.createTask('Second', 1, TaskStatus.BACKLOGGED);
+    taskService.createTask('Third', 0, TaskStatus.COMPLETE);
+
+    const page = taskService.searchTasks({
+      statuses: [TaskStatus.READY, TaskStatus.BACKLOGGED],
+      sort: 'order',
+      direction: 'desc',
+      limit: 1,
+      offset: 1,
+    });
+
+    expect(page.total).toBe(2);
+    expect(page.tasks.map((task) => task.id)).toEqual([second.id]);
+    expect(
+      taskService
+        .searchTasks({ statuses: [TaskStatus.READY, TaskStatus.BACKLOGGED], direction: 'desc' })
+        .tasks.map((task) => task.id)
+    ).toEqual([first.id, second.id]);
+  });
+
+  it('should filter by creation date', () => {
+    const old = taskService.createTask('Old task');
+    tempDb.db
+      .prepare('UPDATE tasks SET createdat = ? WHERE id = ?')
+      .run('2024-01-01T00:00:00.000Z', old.id);
+    const recent = taskService.createTask('Recent task');
+
+    const result = taskService.searchTasks({ createdAfter: '2025-01-01T00:00:00.000Z' });
+
+    expect(result.tasks.map((task) => task.id)).toEqual([recent.id]);
+  });
+
+  it('should reorder tasks in one transaction', () => {
+    const a = taskService.createTask('A', 0);
+    const b = taskService.createTask('B', 1);
+    const c = taskService.createTask('C', 2);
+
+    taskService.reorderTasks([c.id, a.id, b.id]);
+    expect(taskService.listTasks().map((task) => task.id)).toEqual([c.id, a.id, b.id]);
+
+    // An unknown ID rolls back the whole reorder
+    expect(() => taskService.reorderTasks([a.id, 99999, c.id])).toThrow('Task 99999 not found');
+    expect(taskService.listTasks().map((task) => task.id)).toEqual([c.id, a.id, b.id]);
+  });
+
+  it('should change the status of and delete several tasks at once', () => {
+    const a = taskService.createTask('A');
+    const b = taskService.createTask('B');
+    const c = taskService.createTask('C');
+
+    expect(taskService.updateTaskStatuses([a.id, b.id, 99999], TaskStatus.ARCHIVED)).toBe(2);
+    expect(taskService.listTasks(TaskStatus.ARCHIVED).map((task) => task.id)).toEqual([a.id, b.id]);
+
+    expect(taskService.deleteTasks([a.id, c.id])).toBe(2);
+    expect(taskService.listTasks().map((task) => task.id)).toEqual([b.id]);
+  });
+});
+
+describe('TaskService - Execution Fields', () => {
+  let tempDb: TempSqliteDb;
+  let originalSharedDbPath: string | undefined;
+  let taskService: TaskService;
+
+  beforeAll(async () => {
+    originalSharedDbPath = process.env.SHARED_DB_PATH;
+    tempDb = await createTempSqliteDb();
+    process.env.SHARED_DB_PATH = tempDb.dbPath;
+    taskService = new TaskService();
+  });
+
+  afterAll(async () => {
+    taskService.close();
+
+    if (originalSharedDbPath) {
+      process.env.SHARED_DB_PATH = originalSharedDbPath;
+    } else {
+      delete process.env.SHARED_DB_PATH;
+    }
+
+    if (tempDb && tempDb.cleanup) {
+      await tempDb.cleanup();
+    }
+  });
+
+  beforeEach(() => {
+    tempDb.db.prepare('DELETE FROM tasks').run();
+  });
+
+  it('should default the fields of tasks created without them', () => {
+    const task = taskService.createTask('Plain task');
+
+    expect(task).toMatchObject({
+      repository: null,
+      branch_name: null,
+      priority: 0,
+      due_at: null,
+      labels: [],
+      metadata: null,
+    });
+  });
+
+  it('should store and update repository, branch, priority, due date, labels and metadata', () => {
+    const task = taskService.createTask('Targeted task', 0, TaskStatus.READY, {
+      repository: 'my-app',
+      branchName: 'feature/invoices',
+      priority: 5,
+      dueAt: '2026-01-01T00:00:00.000Z',
+      labels: ['backend', 'billing'],
+      metadata: { ticket: 'INV-42', estimate: 3 },
+    });
+
+    expect(task).toMatchObject({
+      repository: 'my-app',
+      branch_name: 'feature/invoices',
+      priority: 5,
+      due_at: '2026-01-01T00:00:00.000Z',
+      labels: ['backend', 'billing'],
+      metadata: { ticket: 'INV-42', estimate: 3 },
+    });
+
+    const updated = taskService.updateTask(task.id, {
+      branchName: null,
+      labels: [],
+      metadata: null,
+    });
+    expect(updated).toMatchObject({
+      repository: 'my-app',
+      branch_name: null,
+      labels: [],
+      metadata: null,
+    });
+  });
+
+  it('should sort by priority', () => {
+    const low = taskService.createTask('Low', 0, TaskStatus.READY, { priority: 1 });
+    const high = taskService.createTask('High', 1, TaskStatus.READY, { priority: 9 });
+
+    const tasks = taskService.searchTasks({ sort: 'priority', direction: 'desc' }).tasks;
+
+    expect(tasks.map((task) => task.id)).toEqual([high.id, low.id]);
+  });
+});
+
+describe('TaskService - Import and Export', () => {
+  let tempDb: TempSqliteDb;
+  let originalSharedDbPath: string | undefined;
+  let taskService: TaskService;
+
+  beforeAll(async () => {
+    originalSharedDbPath = process.env.SHARED_DB_PATH;
+    tempDb = await createTempSqliteDb();
+    process.env.SHARED_DB_PATH = tempDb.dbPath;
+    taskService = new TaskService();
+  });
+
+  afterAll(async () => {
+    taskService.close();
+
+    if (originalSharedDbPath) {
+      process.env.SHARED_DB_PATH = originalSharedDbPath;
+    } else {
+      delete process.env.SHARED_DB_PATH;
+    }
+
+    if (tempDb && tempDb.cleanup) {
+      await tempDb.cleanup();
+    }
+  });
+
+  beforeEach(() => {
+    tempDb.db.prepare('DELETE FROM task_dependencies').run();
+    tempDb.db.prepare('DELETE FROM tasks').run();
+  });
+
+  it('should give created tasks a UUID', () => {
+    const task = taskService.createTask('Task with UUID');
+
+    expect(task.uuid).toMatch(/^[0-9a-f-]{36}$/);
+  });
+
+  it('should export tasks with dependencies referenced by UUID', () => {
+    const first = taskService.createTask('First', 0, TaskStatus.COMPLETE, {
+      labels: ['backend'],
+      metadata: { ticket: 'T-1' },
+    });
+    const second = taskService.createTask('Second', 1, TaskStatus.READY, {
+      dependsOn: [first.id],
+      repository: 'my-app',
+    });
+
+    const records = taskService.exportTasks();
+
+    expect(records).toHaveLength(2);
+    expect(records[0]).toMatchObject({
+      uuid: first.uuid,
+      prompt: 'First',
+      status: 'complete',
+      labels: ['backend'],
+      metadata: { ticket: 'T-1' },
+      depends_on: [],
+    });
+    expect(records[1]).toMatchObject({
+      uuid: second.uuid,
+      status: 'ready',
+      repository: 'my-app',
+      depends_on: [first.uuid],
+    });
+  });
+
+  it('should round-trip an export into an empty database', () => {
+    const first = taskService.createTask('First', 0, TaskStatus.BACKLOGGED, { priority: 3 });
+    taskService.createTask('Second', 1, TaskStatus.READY, {
+      dependsOn: [first.id],
+      dueAt: '2026-01-01T00:00:00.000Z',
+    });
+    const records = taskService.exportTasks();
+    tempDb.db.prepare('DELETE FROM task_dependencies').run();
+    tempDb.db.prepare('DELETE FROM tasks').run();
+
+    const result = taskService.importTasks(records);
+
+    expect(result).toEqual({ created: 2, updated: 0, errors: [] });
+    const imported = taskService.exportTasks();
+    // Imported tasks keep their creation date, but are updated by the import
+    expect(imported.map((record) => ({ ...record, updatedat: undefined }))).toEqual(
+      records.map((record) => ({ ...record, updatedat: undefined }))
+    );
+    expect(taskService.listTasks()[1].status_label).toBe('blocked');
+  });
+
+  it('should update tasks whose UUID matches and create the others', () => {
+    const existing = taskService.createTask('Old prompt', 0, TaskStatus.READY, {
+      labels: ['keep'],
+    });
+
+    const result = taskService.importTasks([
+      { uuid: existing.uuid, prompt: 'New prompt', status: 'archived' },
+      { prompt: 'Brand new', depends_on: [existing.uuid] },
+    ]);
+
+    expect(result).toEqual({ created: 1, updated: 1, errors: [] });
+    const tasks = taskService.listTasks();
+    expect(tasks).toHaveLength(2);
+    expect(tasks.find((task) => task.id === existing.id)).toMatchObject({
+      prompt: 'New prompt',
+      status: TaskStatus.ARCHIVED,
+      labels: ['keep'],
+    });
+    const created = tasks.find((task) => task.id !== existing.id);
+    expect(created?.uuid).toMatch(/^[0-9a-f-]{36}$/);
+    expect(created?.depends_on).toEqual([existing.id]);
+  });
+
+  it('should report every invalid row and import nothing', () => {
+    const result = taskService.importTasks([
+      { prompt: 'Valid' },
+      { prompt: '' },
+      { prompt: 'Bad status', status: 'blocked' },
+      { prompt: 'Bad priority', priority: 'high' },
+      { prompt: 'Missing dependency', depends_on: ['no-such-task'] },
+      'not a task',
+    ]);
+
+    expect(result.created).toBe(0);
+    expect(result.updated).toBe(0);
+    expect(result.errors).toEqual([
+      { row: 2, error: 'Prompt is required and must be a non-empty string' },
+      {
+        row: 3,
+        error: 'status must be one of: ready, complete, archived, backlogged, in_progress',
+      },
+      { row: 4, error: 'priority must be an integer' },
+      { row: 5, error: 'Task no-such-task in depends_on does not exist' },
+      { row: 6, error: 'Task must be an object' },
+    ]);
+    expect(taskService.listTasks()).toHaveLength(0);
+  });
+
+  it('should reject duplicate UUIDs', () => {
+    const result = taskService.importTasks([
+      { uuid: 'task-a', prompt: 'A' },
+      { uuid: 'task-a', prompt: 'A again' },
+    ]);
+
+    expect(result.errors).toEqual([{ row: 2, error: 'Task task-a appears more than once' }]);
+    expect(taskService.listTasks()).toHaveLength(0);
+  });
+
+  it('should roll back the whole import when dependencies form a cycle', () => {
+    const existing = taskService.createTask('Existing');
+
+    const result = taskService.importTasks([
+      { uuid: existing.uuid, prompt: 'Existing, updated', depends_on: ['task-b'] },
+      { uuid: 'task-b', prompt: 'B', depends_on: ['task-c'] },
+      { uuid: 'task-c', prompt: 'C', depends_on: [existing.uuid] },
+    ]);
+
+    expect(result.created).toBe(0);
+    expect(result.errors).toEqual([
+      { row: 3, error: `Depending on task ${existing.uuid} would create a cycle` },
+    ]);
+    const tasks = taskService.listTasks();
+    expect(tasks).toHaveLength(1);
+    expect(tasks[0]).toMatchObject({ prompt: 'Existing', depends_on: [] });
+  });
+});
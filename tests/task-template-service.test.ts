@@ -0,0 +1,240 @@
+/**
+ * Unit tests for TaskTemplateService
+ * Tests template CRUD, scheduling and claiming due runs
+ */
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import {
+  TaskTemplateService,
+  MAX_TASK_TEMPLATE_CATCH_UP_RUNS,
+  parseTaskTemplateInput,
+} from '../src/task-template-service.js';
+import { createTempSqliteDb, type TempSqliteDb } from './test-utils.js';
+
+describe('TaskTemplateService', () => {
+  let tempDb: TempSqliteDb;
+  let originalSharedDbPath: string | undefined;
+  let templates: TaskTemplateService;
+
+  function setNextRunAt(id: number, nextRunAt: string): void {
+    tempDb.db.prepare('UPDATE task_templates SET next_run_at = ? WHERE id = ?').run(nextRunAt, id);
+  }
+
+  beforeAll(async () => {
+    originalSharedDbPath = process.env.SHARED_DB_PATH;
+    tempDb = await createTempSqliteDb();
+    process.env.SHARED_DB_PATH = tempDb.dbPath;
+    templates = new TaskTemplateService();
+  });
+
+  afterAll(async () => {
+    templates.close();
+
+    if (originalSharedDbPath) {
+      process.env.SHARED_DB_PATH = originalSharedDbPath;
+    } else {
+      delete process.env.SHARED_DB_PATH;
+    }
+
+    if (tempDb && tempDb.cleanup) {
+      await tempDb.cleanup();
+    }
+  });
+
+  beforeEach(() => {
+    tempDb.db.prepare('DELETE FROM task_templates').run();
+  });
+
+  it('should create a template scheduled from now', () => {
+    const template = templates.createTemplate({
+      name: 'Morning report',
+      prompt: 'Summarize open pull requests',
+      schedule: '0 9 * * *',
+      timezone: 'Europe/Berlin',
+      labels: ['report'],
+    });
+
+    expect(template).toMatchObject({
+      name: 'Morning report',
+      schedule: '0 9 * * *',
+      timezone: 'Europe/Berlin',
+      catch_up: 'once',
+      enabled: true,
+      labels: ['report'],
+      max_attempts: 3,
+      last_task_id: null,
+    });
+    const nextRunAt = new Date(template.next_run_at as string);
+    expect(nextRunAt.getTime()).toBeGreaterThan(Date.now());
+    expect(nextRunAt.getTime() - Date.now()).toBeLessThanOrEqual(25 * 60 * 60 * 1000);
+    expect(templates.listTemplates().map((item) => item.id)).toEqual([template.id]);
+  });
+
+  it('should clear the next run while disabled and reschedule when enabled', () => {
+    const template = templates.createTemplate({
+      name: 'Hourly',
+      prompt: 'Check the build',
+      schedule: '@hourly',
+    });
+
+    const disabled = templates.updateTemplate(template.id, { enabled: false });
+    expect(disabled).toMatchObject({ enabled: false, next_run_at: null });
+
+    const enabled = templates.updateTemplate(template.id, { enabled: true });
+    expect(enabled?.enabled).toBe(true);
+    expect(new Date(enabled?.next_run_at as string).getUTCMinutes()).toBe(0);
+  });
+
+  it('should keep the next run when other fields change', () => {
+    const template = templates.createTemplate({ name: 'Daily', prompt: 'Run', schedule: '@daily' });
+    setNextRunAt(template.id, '2030-01-01T00:00:00.000Z');
+
+    const updated = templates.updateTemplate(template.id, { prompt: 'Run it', priority: 3 });
+
+    expect(updated).toMatchObject({
+      prompt: 'Run it',
+      priority: 3,
+      next_run_at: '2030-01-01T00:00:00.000Z',
+    });
+    expect(templates.updateTemplate(99999, { prompt: 'Missing' })).toBeNull();
+  });
+
+  it('should claim due runs once and move on to the next run', () => {
+    const template = templates.createTemplate({
+      name: 'Quarter-hourly',
+      prompt: 'Poll',
+      schedule: '*/15 * * * *',
+    });
+    setNextRunAt(template.id, '2026-10-16T12:00:00.000Z');
+    const now = new Date('2026-10-16T12:40:00.000Z');
+
+    const due = templates.claimDueTemplates(now);
+
+    expect(due).toHaveLength(1);
+    expect(due[0].runs).toEqual([
+      '2026-10-16T12:00:00.000Z',
+      '2026-10-16T12:15:00.000Z',
+      '2026-10-16T12:30:00.000Z',
+    ]);
+    expect(templates.getTemplateById(template.id)).toMatchObject({
+      next_run_at: '2026-10-16T12:45:00.000Z',
+      last_run_at: '2026-10-16T12:30:00.000Z',
+    });
+    expect(templates.claimDueTemplates(now)).toEqual([]);
+  });
+
+  it('should only keep the most recent missed runs', () => {
+    const template = templates.createTemplate({
+      name: 'Every minute',
+      prompt: 'Tick',
+      schedule: '* * * * *',
+    });
+    setNextRunAt(template.id, '2026-10-16T00:00:00.000Z');
+
+    const [due] = templates.claimDueTemplates(new Date('2026-10-16T12:00:30.000Z'));
+
+    expect(due.runs).toHaveLength(MAX_TASK_TEMPLATE_CATCH_UP_RUNS);
+    expect(due.runs[due.runs.length - 1]).toBe('2026-10-16T12:00:00.000Z');
+  });
+
+  it('should find the most recent runs of a long outage', () => {
+    const minutely = templates.createTemplate({
+      name: 'Every minute for a year',
+      prompt: 'Tick',
+      schedule: '* * * * *',
+    });
+    const daily = templates.createTemplate({
+      name: 'Daily',
+      prompt: 'Report',
+      schedule: '0 9 * * *',
+    });
+    setNextRunAt(minutely.id, '2025-10-16T12:00:00.000Z');
+    setNextRunAt(daily.id, '2026-10-13T09:00:00.000Z');
+
+    const due = templates.claimDueTemplates(new Date('2026-10-16T12:00:30.000Z'));
+
+    const minutelyRuns = due.find((entry) => entry.template.id === minutely.id)?.runs;
+    expect(minutelyRuns).toHaveLength(MAX_TASK_TEMPLATE_CATCH_UP_RUNS);
+    expect(minutelyRuns?.[0]).toBe('2026-10-16T10:21:00.000Z');
+    expect(minutelyRuns?.[MAX_TASK_TEMPLATE_CATCH_UP_RUNS - 1]).toBe('2026-10-16T12:00:00.000Z');
+    expect(due.find((entry) => entry.template.id === daily.id)?.runs).toEqual([
+      '2026-10-13T09:00:00.000Z',
+      '2026-10-14T09:00:00.000Z',
+      '2026-10-15T09:00:00.000Z',
+      '2026-10-16T09:00:00.000Z',
+    ]);
+    expect(templates.getTemplateById(minutely.id)?.next_run_at).toBe('2026-10-16T12:01:00.000Z');
+  });
+
+  it('should not claim disabled templates', () => {
+    const template = templates.createTemplate({
+      name: 'Paused',
+      prompt: 'Wait',
+      schedule: '@hourly',
+      enabled: false,
+    });
+    setNextRunAt(template.id, '2026-10-16T12:00:00.000Z');
+
+    expect(templates.claimDueTemplates(new Date('2026-10-16T13:00:00.000Z'))).toEqual([]);
+  });
+
+  it('should delete templates', () => {
+    const template = templates.createTemplate({ name: 'Gone', prompt: 'Bye', schedule: '@daily' });
+
+    expect(templates.deleteTemplate(template.id)).toBe(true);
+    expect(templates.deleteTemplate(template.id)).toBe(false);
+    expect(templates.getTemplateById(template.id)).toBeNull();
+  });
+});
+
+describe('parseTaskTemplateInput', () => {
+  it('should map a request body to template fields', () => {
+    expect(
+      parseTaskTemplateInput(
+        {
+          name: ' Report ',
+          prompt: 'Summarize',
+          schedule: '0 9 * * 1',
+          timezone: 'America/New_York',
+          catch_up: 'all',
+          enabled: false,
+          max_attempts: 2,
+          branch_name: 'main',
+        },
+        true
+      )
+    ).toEqual({
+      input: {
+        name: 'Report',
+        prompt: 'Summarize',
+        schedule: '0 9 * * 1',
+        timezone: 'America/New_York',
+        catchUp: 'all',
+        enabled: false,
+        maxAttempts: 2,
+        branchName: 'main',
+      },
+    });
+  });
+
+  it.each([
+    [{ prompt: 'p', schedule: '@daily' }, true, 'name is required and must be a non-empty string'],
+    [{ name: '' }, false, 'name must be a non-empty string'],
+    [{ schedule: 'every day' }, false, /^schedule must be a cron expression: Expected 5 fields/],
+    [{ schedule: '0 0 31 2 *' }, false, 'schedule never runs'],
+    [
+      { timezone: 'Nowhere/City' },
+      false,
+      'timezone must be an IANA time zone, such as Europe/Berlin',
+    ],
+    [{ catch_up: 'sometimes' }, false, 'catch_up must be one of: skip, once, all'],
+    [{ enabled: 'yes' }, false, 'enabled must be a boolean'],
+    [{ due_at: '2026-01-01' }, false, 'due_at cannot be set on a template'],
+    [{ priority: 'high' }, false, 'priority must be an integer'],
+  ])('should reject %j', (body, required, error) => {
+    const result = parseTaskTemplateInput(body, required);
+
+    expect('error' in result && result.error).toEqual(
+      error instanceof RegExp ? expect.stringMatching(error) : error
+    );
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Integration tests for Task Templates API endpoints
+ * Tests the full HTTP API for recurring task templates using a temporary SQLite database
+ */
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from '@jest/globals';
+import request from 'supertest';
+import { createTempSqliteDb, type TempSqliteDb } from './test-utils.js';
+import type { Server } from '../src/server.js';
+
+describe('Task Templates API', () => {
+  let tempDb: TempSqliteDb;
+  let originalSharedDbPath: string | undefined;
+  let server: Server;
+  let cleanup: () => Promise<void>;
+
+  beforeAll(async () => {
+    originalSharedDbPath = process.env.SHARED_DB_PATH;
+    tempDb = await createTempSqliteDb();
+    process.env.SHARED_DB_PATH = tempDb.dbPath;
+
+    // eslint-disable-next-line node/no-unsupported-features/es-syntax
+    const { createMockServer } = await import('./test-utils.js');
+    const mockServerResult = createMockServer();
+    server = mockServerResult.server;
+    cleanup = mockServerResult.cleanup;
+
+    await server.start();
+  });
+
+  afterAll(async () => {
+    if (cleanup) {
+      await cleanup();
+    }
+
+    if (originalSharedDbPath !== undefined) {
+      process.env.SHARED_DB_PATH = originalSharedDbPath;
+    } else {
+      delete process.env.SHARED_DB_PATH;
+    }
+
+    if (tempDb) {
+      await tempDb.cleanup();
+    }
+  });
+
+  beforeEach(async () => {
+    tempDb.db.prepare('DELETE FROM task_templates').run();
+  });
+
+  it('should create, list, get, update and delete a template', async () => {
+    const created = await request(server.app)
+      .post('/api/task-templates')
+      .send({
+        name: 'Morning report',
+        prompt: 'Summarize open pull requests',
+        schedule: '0 9 * * mon-fri',
+        timezone: 'Europe/Berlin',
+        catch_up: 'skip',
+        repository: 'my-app',
+      })
+      .expect(201);
+
+    expect(created.body).toMatchObject({
+      id: expect.any(Number),
+      name: 'Morning report',
+      schedule: '0 9 * * mon-fri',
+      timezone: 'Europe/Berlin',
+      catch_up: 'skip',
+      enabled: true,
+      repository: 'my-app',
+      next_run_at: expect.any(String),
+    });
+
+    const list = await request(server.app).get('/api/task-templates').expect(200);
+    expect(list.body.map((template: { id: number }) => template.id)).toEqual([created.body.id]);
+
+    await request(server.app).get(`/api/task-templates/${created.body.id}`).expect(200);
+
+    const updated = await request(server.app)
+      .put(`/api/task-templates/${created.body.id}`)
+      .send({ enabled: false })
+      .expect(200);
+    expect(updated.body).toMatchObject({ enabled: false, next_run_at: null });
+
+    await request(server.app).delete(`/api/task-templates/${created.body.id}`).expect(200);
+    await request(server.app).get(`/api/task-templates/${created.body.id}`).expect(404);
+  });
+
+  it('should return 400 for an invalid template', async () => {
+    const response = await request(server.app)
+      .post('/api/task-templates')
+      .send({ name: 'Bad', prompt: 'Never', schedule: '61 * * * *' })
+      .expect(400);
+
+    expect(response.body).toEqual({
+      success: false,
+      error: 'schedule must be a cron expression: minute must be between 0 and 59: 61',
+    });
+  });
+
+  it('should return 404 for unknown templates and 400 for invalid IDs', async () => {
+    await request(server.app).put('/api/task-templates/99999').send({ name: 'x' }).expect(404);
+    await request(server.app).delete('/api/task-templates/99999').expect(404);
+
+    const response = await request(server.app).get('/api/task-templates/abc').expect(400);
+    expect(response.body.error).toBe('Invalid task template ID. Must be a number.');
+  });
+});
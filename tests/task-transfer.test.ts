@@ -0,0 +1,75 @@
+/**
+ * Unit tests for task CSV export and import
+ */
+import { describe, it, expect } from '@jest/globals';
+import { formatTasksCsv, parseTasksCsv, TASK_CSV_COLUMNS } from '../src/task-transfer.js';
+import type { TaskTransferRecord } from '../src/task-service.js';
+import { parseCsv } from '../src/utils/csv.js';
+
+const record: TaskTransferRecord = {
+  uuid: 'task-a',
+  prompt: 'Fix the "login" bug,\nthen add tests',
+  status: 'ready',
+  order: 2,
+  priority: 5,
+  repository: 'my-app',
+  branch_name: null,
+  due_at: '2026-01-01T00:00:00.000Z',
+  labels: ['backend', 'auth'],
+  metadata: { ticket: 'T-1', estimate: 3 },
+  max_attempts: 3,
+  attempt_count: 1,
+  last_error: null,
+  next_attempt_at: null,
+  depends_on: ['task-b', 'task-c'],
+  createdat: '2025-06-01T10:00:00.000Z',
+  updatedat: '2025-06-02T10:00:00.000Z',
+};
+
+describe('parseCsv', () => {
+  it('should handle quoted fields, escaped quotes and line endings', () => {
+    const rows = parseCsv('\uFEFFa,"b,c","say ""hi"""\r\n\r\n"multi\nline",,x\n');
+
+    expect(rows).toEqual([
+      ['a', 'b,c', 'say "hi"'],
+      ['multi\nline', '', 'x'],
+    ]);
+  });
+});
+
+describe('Task CSV', () => {
+  it('should write a header row and one row per task', () => {
+    const csv = formatTasksCsv([record]);
+    const rows = parseCsv(csv);
+
+    expect(rows[0]).toEqual([...TASK_CSV_COLUMNS]);
+    expect(rows).toHaveLength(2);
+    expect(csv.endsWith('\r\n')).toBe(true);
+  });
+
+  it('should round-trip exported tasks', () => {
+    const parsed = parseTasksCsv(formatTasksCsv([record]));
+
+    expect(parsed).toEqual({ records: [record] });
+  });
+
+  it('should leave out empty cells for non-nullable columns', () => {
+    const parsed = parseTasksCsv('prompt,uuid,order,repository,labels\nDo it,,,,\n');
+
+    expect(parsed).toEqual({ records: [{ prompt: 'Do it', repository: null, labels: [] }] });
+  });
+
+  it('should keep values that cannot be converted so validation reports them', () => {
+    const parsed = parseTasksCsv('prompt,priority,metadata\nDo it,high,{oops\n');
+
+    expect(parsed).toEqual({ records: [{ prompt: 'Do it', priority: 'high', metadata: '{oops' }] });
+  });
+
+  it('should reject unknown columns and a missing prompt column', () => {
+    expect(parseTasksCsv('prompt,colour\nDo it,red\n')).toEqual({
+      error: 'Unknown CSV column: colour',
+    });
+    expect(parseTasksCsv('uuid\ntask-a\n')).toEqual({ error: 'CSV must have a prompt column' });
+    expect(parseTasksCsv('')).toEqual({ error: 'CSV must have a header row' });
+  });
+});
@@ -705,3 +705,639 @@ describe('DELETE /api/tasks/:id', () => {
     expect(getResponse.body.error).toBe('Task not found');
   });
 });
+
+describe('GET /api/tasks/:id/runs', () => {
+  let tempDb: TempSqliteDb;
+  let originalSharedDbPath: string | undefined;
+  let server: Server;
+  let cleanup: () => Promise<void>;
+
+  beforeAll(async () => {
+    originalSharedDbPath = process.env.SHARED_DB_PATH;
+    tempDb = await createTempSqliteDb();
+    process.env.SHARED_DB_PATH = tempDb.dbPath;
+
+    // eslint-disable-next-line node/no-unsupported-features/es-syntax
+    const { createMockServer } = await import('./test-utils.js');
+    const mockServerResult = createMockServer();
+    server = mockServerResult.server;
+    cleanup = mockServerResult.cleanup;
+
+    await server.start();
+  });
+
+  afterAll(async () => {
+    if (cleanup) {
+      await cleanup();
+    }
+
+    if (originalSharedDbPath !== undefined) {
+      process.env.SHARED_DB_PATH = originalSharedDbPath;
+    } else {
+      delete process.env.SHARED_DB_PATH;
+    }
+
+    if (tempDb) {
+      await tempDb.cleanup();
+    }
+  });
+
+  beforeEach(async () => {
+    tempDb.db.prepare('DELETE FROM tasks').run();
+    tempDb.db.prepare('DELETE FROM task_runs').run();
+  });
+
+  it('should return 404 when task not found', async () => {
+    const response = await request(server.app).get('/api/tasks/99999/runs').expect(404);
+
+    expect(response.body.success).toBe(false);
+    expect(response.body.error).toBe('Task not found');
+  });
+
+  it('should list the runs of a task, most recent first', async () => {
+    const task = server.taskService.createTask('Task with history');
+    const first = server.taskService.startTaskRun(task.id, {
+      requestId: 'task-run-1',
+      conversationId: 'conv-1',
+    });
+    server.taskService.finishTaskRun(first.id, {
+      status: 'failed',
+      exitCode: 1,
+      output: 'partial output',
+      error: 'cursor-cli exited with code 1',
+    });
+    server.taskService.startTaskRun(task.id, { requestId: 'task-run-2', conversationId: 'conv-1' });
+
+    const response = await request(server.app).get(`/api/tasks/${task.id}/runs`).expect(200);
+
+    expect(response.body).toHaveLength(2);
+    expect(response.body[0]).toMatchObject({
+      task_id: task.id,
+      request_id: 'task-run-2',
+      status: 'running',
+      finished_at: null,
+    });
+    expect(response.body[1]).toMatchObject({
+      request_id: 'task-run-1',
+      conversation_id: 'conv-1',
+      status: 'failed',
+      exit_code: 1,
+      output_excerpt: 'partial output',
+      error: 'cursor-cli exited with code 1',
+    });
+    expect(response.body[1].finished_at).toEqual(expect.any(String));
+  });
+});
+
+describe('Task dependencies API', () => {
+  let tempDb: TempSqliteDb;
+  let originalSharedDbPath: string | undefined;
+  let server: Server;
+  let cleanup: () => Promise<void>;
+
+  beforeAll(async () => {
+    originalSharedDbPath = process.env.SHARED_DB_PATH;
+    tempDb = await createTempSqliteDb();
+    process.env.SHARED_DB_PATH = tempDb.dbPath;
+
+    // eslint-disable-next-line node/no-unsupported-features/es-syntax
+    const { createMockServer } = await import('./test-utils.js');
+    const mockServerResult = createMockServer();
+    server = mockServerResult.server;
+    cleanup = mockServerResult.cleanup;
+
+    await server.start();
+  });
+
+  afterAll(async () => {
+    if (cleanup) {
+      await cleanup();
+    }
+
+    if (originalSharedDbPath !== undefined) {
+      process.env.SHARED_DB_PATH = originalSharedDbPath;
+    } else {
+      delete process.env.SHARED_DB_PATH;
+    }
+
+    if (tempDb) {
+      await tempDb.cleanup();
+    }
+  });
+
+  beforeEach(async () => {
+    tempDb.db.prepare('DELETE FROM tasks').run();
+    tempDb.db.prepare('DELETE FROM task_dependencies').run();
+  });
+
+  it('should create a task that depends on another', async () => {
+    const first = await request(server.app)
+      .post('/api/tasks')
+      .send({ prompt: 'Add migration' })
+      .expect(201);
+
+    const response = await request(server.app)
+      .post('/api/tasks')
+      .send({ prompt: 'Update API', depends_on: [first.body.id] })
+      .expect(201);
+
+    expect(response.body.depends_on).toEqual([first.body.id]);
+    expect(response.body.blocked_by).toEqual([first.body.id]);
+    expect(response.body.status_label).toBe('blocked');
+  });
+
+  it('should return 400 for dependencies on unknown tasks', async () => {
+    const response = await request(server.app)
+      .post('/api/tasks')
+      .send({ prompt: 'Update API', depends_on: [99999] })
+      .expect(400);
+
+    expect(response.body.success).toBe(false);
+    expect(response.body.error).toBe('Task 99999 in depends_on does not exist');
+  });
+
+  it('should replace dependencies on update and reject cycles', async () => {
+    const first = server.taskService.createTask('First');
+    const second = server.taskService.createTask('Second', 0, 0, { dependsOn: [first.id] });
+
+    const cycle = await request(server.app)
+      .put(`/api/tasks/${first.id}`)
+      .send({ depends_on: [second.id] })
+      .expect(400);
+    expect(cycle.body.error).toBe(`Depending on task ${second.id} would create a cycle`);
+
+    const cleared = await request(server.app)
+      .put(`/api/tasks/${second.id}`)
+      .send({ depends_on: [] })
+      .expect(200);
+    expect(cleared.body.depends_on).toEqual([]);
+    expect(cleared.body.status_label).toBe('ready');
+  });
+});
+
+describe('POST /api/tasks/:id/retry', () => {
+  let tempDb: TempSqliteDb;
+  let originalSharedDbPath: string | undefined;
+  let server: Server;
+  let cleanup: () => Promise<void>;
+
+  beforeAll(async () => {
+    originalSharedDbPath = process.env.SHARED_DB_PATH;
+    tempDb = await createTempSqliteDb();
+    process.env.SHARED_DB_PATH = tempDb.dbPath;
+
+    // eslint-disable-next-line node/no-unsupported-features/es-syntax
+    const { createMockServer } = await import('./test-utils.js');
+    const mockServerResult = createMockServer();
+    server = mockServerResult.server;
+    cleanup = mockServerResult.cleanup;
+
+    await server.start();
+  });
+
+  afterAll(async () => {
+    if (cleanup) {
+      await cleanup();
+    }
+
+    if (originalSharedDbPath !== undefined) {
+      process.env.SHARED_DB_PATH = originalSharedDbPath;
+    } else {
+      delete process.env.SHARED_DB_PATH;
+    }
+
+    if (tempDb) {
+      await tempDb.cleanup();
+    }
+  });
+
+  beforeEach(async () => {
+    tempDb.db.prepare('DELETE FROM tasks').run();
+  });
+
+  it('should return 404 when task not found', async () => {
+    const response = await request(server.app).post('/api/tasks/99999/retry').expect(404);
+
+    expect(response.body.error).toBe('Task not found');
+  });
+
+  it('should reset a backlogged task and requeue it', async () => {
+    const task = server.taskService.createTask('Broken task', 0, 4, { maxAttempts: 1 });
+    server.taskService.failTask(task.id, 'boom');
+
+    const response = await request(server.app).post(`/api/tasks/${task.id}/retry`).expect(200);
+
+    expect(response.body).toMatchObject({
+      id: task.id,
+      status: 0,
+      status_label: 'ready',
+      attempt_count: 0,
+      last_error: null,
+      next_attempt_at: null,
+    });
+  });
+
+  it('should return 409 while the task is in progress', async () => {
+    const task = server.taskService.createTask('Running task', 0, 4);
+
+    const response = await request(server.app).post(`/api/tasks/${task.id}/retry`).expect(409);
+
+    expect(response.body.error).toBe('Task is in progress');
+  });
+
+  it('should validate max_attempts on create', async () => {
+    const response = await request(server.app)
+      .post('/api/tasks')
+      .send({ prompt: 'Task', max_attempts: 0 })
+      .expect(400);
+
+    expect(response.body.error).toBe('max_attempts must be a positive integer');
+  });
+});
+
+describe('Task search and bulk operations API', () => {
+  let tempDb: TempSqliteDb;
+  let originalSharedDbPath: string | undefined;
+  let server: Server;
+  let cleanup: () => Promise<void>;
+
+  beforeAll(async () => {
+    originalSharedDbPath = process.env.SHARED_DB_PATH;
+    tempDb = await createTempSqliteDb();
+    process.env.SHARED_DB_PATH = tempDb.dbPath;
+
+    // eslint-disable-next-line node/no-unsupported-features/es-syntax
+    const { createMockServer } = await import('./test-utils.js');
+    const mockServerResult = createMockServer();
+    server = mockServerResult.server;
+    cleanup = mockServerResult.cleanup;
+
+    await server.start();
+  });
+
+  afterAll(async () => {
+    if (cleanup) {
+      await cleanup();
+    }
+
+    if (originalSharedDbPath !== undefined) {
+      process.env.SHARED_DB_PATH = originalSharedDbPath;
+    } else {
+      delete process.env.SHARED_DB_PATH;
+    }
+
+    if (tempDb) {
+      await tempDb.cleanup();
+    }
+  });
+
+  beforeEach(async () => {
+    tempDb.db.prepare('DELETE FROM tasks').run();
+  });
+
+  it('should search, filter and paginate tasks with the total in X-Total-Count', async () => {
+    server.taskService.createTask('Add invoice migration', 0, 0);
+    const second = server.taskService.createTask('Update invoice API', 1, 3);
+    server.taskService.createTask('Update invoice docs', 2, 1);
+    server.taskService.createTask('Unrelated', 3, 0);
+
+    const response = await request(server.app)
+      .get('/api/tasks?q=invoice&status=0,3&sort=order&direction=desc&limit=1')
+      .expect(200);
+
+    expect(response.headers['x-total-count']).toBe('2');
+    expect(response.body.map((task: { id: number }) => task.id)).toEqual([second.id]);
+  });
+
+  it('should return 400 for invalid query parameters', async () => {
+    const badSort = await request(server.app).get('/api/tasks?sort=prompt').expect(400);
+    expect(badSort.body.error).toBe(
+      'Invalid sort parameter. Must be one of: order, created, updated, priority, due'
+    );
+
+    const badDate = await request(server.app).get('/api/tasks?created_after=yesterday').expect(400);
+    expect(badDate.body.error).toBe('Invalid created_after parameter. Must be a date.');
+
+    await request(server.app).get('/api/tasks?limit=0').expect(400);
+  });
+
+  it('should reorder tasks with PUT /api/tasks/order', async () => {
+    const a = server.taskService.createTask('A', 0);
+    const b = server.taskService.createTask('B', 1);
+
+    const response = await request(server.app)
+      .put('/api/tasks/order')
+      .send({ ids: [b.id, a.id] })
+      .expect(200);
+
+    expect(
+      response.body.map((task: { id: number; order: number }) => [task.id, task.order])
+    ).toEqual([
+      [b.id, 0],
+      [a.id, 1],
+    ]);
+
+    const missing = await request(server.app)
+      .put('/api/tasks/order')
+      .send({ ids: [a.id, 99999] })
+      .expect(404);
+    expect(missing.body.error).toBe('Tasks not found: 99999');
+  });
+
+  it('should change the status of several tasks with PUT /api/tasks/status', async () => {
+    const a = server.taskService.createTask('A');
+    const b = server.taskService.createTask('B');
+
+    const response = await request(server.app)
+      .put('/api/tasks/status')
+      .send({ ids: [a.id, b.id], status: 2 })
+      .expect(200);
+
+    expect(response.body).toEqual({ success: true, updated: 2 });
+    expect(server.taskService.getTaskById(a.id)?.status_label).toBe('archived');
+
+    await request(server.app)
+      .put('/api/tasks/status')
+      .send({ ids: [a.id], status: 42 })
+      .expect(400);
+  });
+
+  it('should delete several tasks with DELETE /api/tasks', async () => {
+    const a = server.taskService.createTask('A');
+    const b = server.taskService.createTask('B');
+    const c = server.taskService.createTask('C');
+
+    const response = await request(server.app)
+      .delete('/api/tasks')
+      .send({ ids: [a.id, b.id] })
+      .expect(200);
+
+    expect(response.body).toEqual({ success: true, deleted: 2 });
+    expect(server.taskService.listTasks().map((task) => task.id)).toEqual([c.id]);
+
+    await request(server.app).delete('/api/tasks').send({}).expect(400);
+  });
+});
+
+describe('Task execution fields API', () => {
+  let tempDb: TempSqliteDb;
+  let originalSharedDbPath: string | undefined;
+  let server: Server;
+  let cleanup: () => Promise<void>;
+
+  beforeAll(async () => {
+    originalSharedDbPath = process.env.SHARED_DB_PATH;
+    tempDb = await createTempSqliteDb();
+    process.env.SHARED_DB_PATH = tempDb.dbPath;
+
+    // eslint-disable-next-line node/no-unsupported-features/es-syntax
+    const { createMockServer } = await import('./test-utils.js');
+    const mockServerResult = createMockServer();
+    server = mockServerResult.server;
+    cleanup = mockServerResult.cleanup;
+
+    await server.start();
+  });
+
+  afterAll(async () => {
+    if (cleanup) {
+      await cleanup();
+    }
+
+    if (originalSharedDbPath !== undefined) {
+      process.env.SHARED_DB_PATH = originalSharedDbPath;
+    } else {
+      delete process.env.SHARED_DB_PATH;
+    }
+
+    if (tempDb) {
+      await tempDb.cleanup();
+    }
+  });
+
+  beforeEach(async () => {
+    tempDb.db.prepare('DELETE FROM tasks').run();
+  });
+
+  it('should create and update a task with execution fields', async () => {
+    const created = await request(server.app)
+      .post('/api/tasks')
+      .send({
+        prompt: 'Add invoices endpoint',
+        repository: 'my-app',
+        branch_name: 'feature/invoices',
+        priority: 2,
+        due_at: '2026-01-01',
+        labels: ['backend', ' backend '],
+        metadata: { ticket: 'INV-42' },
+      })
+      .expect(201);
+
+    expect(created.body).toMatchObject({
+      repository: 'my-app',
+      branch_name: 'feature/invoices',
+      priority: 2,
+      due_at: '2026-01-01T00:00:00.000Z',
+      labels: ['backend'],
+      metadata: { ticket: 'INV-42' },
+    });
+
+    const updated = await request(server.app)
+      .put(`/api/tasks/${created.body.id}`)
+      .send({ branch_name: null, priority: 7 })
+      .expect(200);
+
+    expect(updated.body).toMatchObject({ repository: 'my-app', branch_name: null, priority: 7 });
+  });
+
+  it.each([
+    [
+      { repository: '../etc' },
+      'repository must be a repository name under the repositories directory',
+    ],
+    [{ branch_name: 'bad branch' }, 'branch_name must be a valid git branch name'],
+    [{ branch_name: '-x' }, 'branch_name must be a valid git branch name'],
+    [{ priority: 1.5 }, 'priority must be an integer'],
+    [{ due_at: 'someday' }, 'due_at must be a date'],
+    [{ labels: ['ok', ''] }, 'labels must be a list of non-empty strings'],
+    [{ labels: ['a,b'] }, 'labels must not contain commas'],
+    [{ metadata: ['not', 'an', 'object'] }, 'metadata must be a JSON object'],
+  ])('should return 400 for invalid field %j', async (fields, error) => {
+    const response = await request(server.app)
+      .post('/api/tasks')
+      .send({ prompt: 'Task', ...fields })
+      .expect(400);
+
+    expect(response.body.error).toBe(error);
+  });
+});
+
+describe('Task export and import API', () => {
+  let tempDb: TempSqliteDb;
+  let originalSharedDbPath: string | undefined;
+  let server: Server;
+  let cleanup: () => Promise<void>;
+
+  beforeAll(async () => {
+    originalSharedDbPath = process.env.SHARED_DB_PATH;
+    tempDb = await createTempSqliteDb();
+    process.env.SHARED_DB_PATH = tempDb.dbPath;
+
+    // eslint-disable-next-line node/no-unsupported-features/es-syntax
+    const { createMockServer } = await import('./test-utils.js');
+    const mockServerResult = createMockServer();
+    server = mockServerResult.server;
+    cleanup = mockServerResult.cleanup;
+
+    await server.start();
+  });
+
+  afterAll(async () => {
+    if (cleanup) {
+      await cleanup();
+    }
+
+    if (originalSharedDbPath !== undefined) {
+      process.env.SHARED_DB_PATH = originalSharedDbPath;
+    } else {
+      delete process.env.SHARED_DB_PATH;
+    }
+
+    if (tempDb) {
+      await tempDb.cleanup();
+    }
+  });
+
+  beforeEach(async () => {
+    tempDb.db.prepare('DELETE FROM task_dependencies').run();
+    tempDb.db.prepare('DELETE FROM tasks').run();
+  });
+
+  it('should export tasks as JSON', async () => {
+    const created = await request(server.app)
+      .post('/api/tasks')
+      .send({ prompt: 'Exported task', labels: ['backend'] })
+      .expect(201);
+
+    const response = await request(server.app).get('/api/tasks/export').expect(200);
+
+    expect(response.body).toEqual([
+      expect.objectContaining({
+        uuid: created.body.uuid,
+        prompt: 'Exported task',
+        status: 'ready',
+        labels: ['backend'],
+        depends_on: [],
+      }),
+    ]);
+  });
+
+  it('should export tasks as CSV and import the CSV back', async () => {
+    const first = await request(server.app)
+      .post('/api/tasks')
+      .send({ prompt: 'First, with a comma', metadata: { ticket: 'T-1' } })
+      .expect(201);
+    await request(server.app)
+      .post('/api/tasks')
+      .send({ prompt: 'Second', depends_on: [first.body.id] })
+      .expect(201);
+
+    const exported = await request(server.app).get('/api/tasks/export?format=csv').expect(200);
+    expect(exported.headers['content-type']).toMatch(/^text\/csv/);
+    expect(exported.headers['content-disposition']).toContain('tasks.csv');
+
+    tempDb.db.prepare('DELETE FROM task_dependencies').run();
+    tempDb.db.prepare('DELETE FROM tasks').run();
+
+    const imported = await request(server.app)
+      .post('/api/tasks/import')
+      .set('Content-Type', 'text/csv')
+      .send(exported.text)
+      .expect(200);
+
+    expect(imported.body).toEqual({ success: true, created: 2, updated: 0 });
+    const tasks = await request(server.app).get('/api/tasks').expect(200);
+    expect(tasks.body).toMatchObject([
+      { prompt: 'First, with a comma', uuid: first.body.uuid, metadata: { ticket: 'T-1' } },
+      { prompt: 'Second', status_label: 'blocked' },
+    ]);
+  });
+
+  it('should import a JSON list, updating tasks by uuid', async () => {
+    const existing = await request(server.app)
+      .post('/api/tasks')
+      .send({ prompt: 'Old prompt' })
+      .expect(201);
+
+    const response = await request(server.app)
+      .post('/api/tasks/import')
+      .send({
+        tasks: [{ uuid: existing.body.uuid, prompt: 'New prompt' }, { prompt: 'Created' }],
+      })
+      .expect(200);
+
+    expect(response.body).toEqual({ success: true, created: 1, updated: 1 });
+    const task = await request(server.app).get(`/api/tasks/${existing.body.id}`).expect(200);
+    expect(task.body.prompt).toBe('New prompt');
+  });
+
+  it('should report invalid rows and import nothing', async () => {
+    const response = await request(server.app)
+      .post('/api/tasks/import')
+      .send([{ prompt: 'Valid' }, { prompt: 'Invalid', max_attempts: 0 }])
+      .expect(400);
+
+    expect(response.body).toEqual({
+      success: false,
+      error: 'Some tasks are invalid; nothing was imported',
+      errors: [{ row: 2, error: 'max_attempts must be a positive integer' }],
+    });
+    const tasks = await request(server.app).get('/api/tasks').expect(200);
+    expect(tasks.body).toEqual([]);
+  });
+
+  it('should import in-progress tasks as ready and not update tasks that are running', async () => {
+    const running = await request(server.app)
+      .post('/api/tasks')
+      .send({ prompt: 'Running', status: 4 })
+      .expect(201);
+
+    const rejected = await request(server.app)
+      .post('/api/tasks/import')
+      .send([{ uuid: running.body.uuid, prompt: 'Changed mid-run' }])
+      .expect(400);
+    expect(rejected.body.errors).toEqual([
+      { row: 1, error: `Task ${running.body.uuid} is in progress and cannot be updated` },
+    ]);
+
+    const imported = await request(server.app)
+      .post('/api/tasks/import')
+      .send([{ prompt: 'Exported mid-run', status: 'in_progress' }])
+      .expect(200);
+    expect(imported.body.created).toBe(1);
+
+    const tasks = await request(server.app).get('/api/tasks').expect(200);
+    expect(tasks.body).toMatchObject([
+      { prompt: 'Running', status_label: 'in_progress' },
+      { prompt: 'Exported mid-run', status_label: 'ready' },
+    ]);
+  });
+
+  it('should return 400 for an invalid format or body', async () => {
+    const format = await request(server.app).get('/api/tasks/export?format=xml').expect(400);
+    expect(format.body.error).toBe('Invalid format parameter. Must be json or csv.');
+
+    const body = await request(server.app)
+      .post('/api/tasks/import')
+      .send({ prompt: 'Not a list' })
+      .expect(400);
+    expect(body.body.error).toBe('Body must be a list of tasks');
+
+    const csv = await request(server.app)
+      .post('/api/tasks/import')
+      .set('Content-Type', 'text/csv')
+      .send('title\nSomething\n')
+      .expect(400);
+    expect(csv.body.error).toBe('Unknown CSV column: title');
+  });
+});
@@ -14,6 +14,7 @@ import { readdirSync } from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import { CursorExecutionService } from '../src/cursor-execution-service.js';
+import type { ExecuteCommandOptions } from '../src/cursor-cli.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -361,7 +362,7 @@ export interface MockCursorCLIOptions {
  * Call tracking for mock CursorCLI
  */
 export interface CursorCLICallTracker {
-  executeCommand: Array<{ args: string[]; options?: { cwd?: string; timeout?: number } }>;
+  executeCommand: Array<{ args: string[]; options?: ExecuteCommandOptions }>;
   validate: number;
   getQueueStatus: number;
   extractFilesFromOutput: Array<{ output: string }>;
@@ -373,7 +374,7 @@ export interface CursorCLICallTracker {
 export interface MockCursorCLI {
   executeCommand: (
     args: string[],
-    options?: { cwd?: string; timeout?: number }
+    options?: ExecuteCommandOptions
   ) => Promise<CommandResult>;
   validate: () => Promise<boolean>;
   getQueueStatus: () => { available: number; waiting: number; maxConcurrent: number };
@@ -593,9 +594,10 @@ export function createMockCursorCLI(options: MockCursorCLIOptions = {}): MockCur
   const mockCLI: MockCursorCLI = {
     async executeCommand(
       args: string[],
-      options?: { cwd?: string; timeout?: number }
+      options?: ExecuteCommandOptions
     ): Promise<CommandResult> {
       calls.executeCommand.push({ args, options });
+      options?.onStart?.();
       return Promise.resolve(executeResult);
     },
 
@@ -0,0 +1,125 @@
+/**
+ * Unit tests for WorktreeService
+ * Tests worktree creation and cleanup against a real temporary git repository
+ */
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import { execSync } from 'child_process';
+import { existsSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import { WorktreeService } from '../src/worktree-service.js';
+
+describe('WorktreeService', () => {
+  let tempDir: string;
+  let repositoryPath: string;
+  let originalWorktreesPath: string | undefined;
+  let worktreeService: WorktreeService;
+
+  const git = (args: string): string =>
+    execSync(`git ${args}`, { cwd: repositoryPath, encoding: 'utf-8', stdio: 'pipe' }).trim();
+
+  beforeEach(() => {
+    tempDir = mkdtempSync(path.join(tmpdir(), 'worktree-service-'));
+    repositoryPath = path.join(tempDir, 'repositories', 'repo-a');
+    execSync(`git init -q "${repositoryPath}"`, { stdio: 'pipe' });
+    writeFileSync(path.join(repositoryPath, 'README.md'), '# repo-a\n');
+    git('add README.md');
+    git('-c user.name=test -c user.email=test@example.com commit -q -m initial');
+
+    originalWorktreesPath = process.env.WORKTREES_PATH;
+    process.env.WORKTREES_PATH = path.join(tempDir, 'worktrees');
+    worktreeService = new WorktreeService();
+  });
+
+  afterEach(() => {
+    if (originalWorktreesPath) {
+      process.env.WORKTREES_PATH = originalWorktreesPath;
+    } else {
+      delete process.env.WORKTREES_PATH;
+    }
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should create a worktree on a generated branch and remove both afterwards', async () => {
+    const worktree = await worktreeService.createWorktree(repositoryPath, {
+      repository: 'repo-a',
+      requestId: 'req/1',
+    });
+
+    expect(worktree).toEqual({
+      path: path.join(tempDir, 'worktrees', 'repo-a', 'req-1'),
+      branch: 'cursor/req-1',
+      generatedBranch: true,
+    });
+    expect(existsSync(path.join(worktree.path, 'README.md'))).toBe(true);
+
+    await worktreeService.removeWorktree(repositoryPath, worktree);
+
+    expect(existsSync(worktree.path)).toBe(false);
+    expect(git('branch --list cursor/req-1')).toBe('');
+  });
+
+  it('should keep the worktree of a dot request ID inside the repository worktrees', async () => {
+    const worktree = await worktreeService.createWorktree(repositoryPath, {
+      repository: 'repo-a',
+      requestId: '..',
+    });
+
+    expect(worktree.path).toBe(path.join(tempDir, 'worktrees', 'repo-a', '--'));
+    expect(worktree.branch).toBe('cursor/--');
+
+    await worktreeService.removeWorktree(repositoryPath, worktree);
+
+    expect(existsSync(worktree.path)).toBe(false);
+  });
+
+  it('should check out an existing branch and keep it on removal', async () => {
+    git('branch feature/existing');
+
+    const worktree = await worktreeService.createWorktree(repositoryPath, {
+      repository: 'repo-a',
+      requestId: 'req-2',
+      branchName: 'feature/existing',
+    });
+
+    expect(worktree.branch).toBe('feature/existing');
+    expect(worktree.generatedBranch).toBe(false);
+    expect(
+      execSync('git branch --show-current', { cwd: worktree.path, encoding: 'utf-8' }).trim()
+    ).toBe('feature/existing');
+
+    await worktreeService.removeWorktree(repositoryPath, worktree);
+
+    expect(git('branch --list feature/existing')).toContain('feature/existing');
+  });
+
+  it('should keep a generated branch that has unmerged commits', async () => {
+    const worktree = await worktreeService.createWorktree(repositoryPath, {
+      repository: 'repo-a',
+      requestId: 'req-3',
+    });
+    writeFileSync(path.join(worktree.path, 'CHANGE.md'), 'change\n');
+    execSync('git add CHANGE.md', { cwd: worktree.path, stdio: 'pipe' });
+    execSync('git -c user.name=test -c user.email=test@example.com commit -q -m change', {
+      cwd: worktree.path,
+      stdio: 'pipe',
+    });
+
+    await worktreeService.removeWorktree(repositoryPath, worktree);
+
+    expect(existsSync(worktree.path)).toBe(false);
+    expect(git('branch --list cursor/req-3')).toContain('cursor/req-3');
+  });
+
+  it('should fail when the branch is already checked out elsewhere', async () => {
+    const currentBranch = git('branch --show-current');
+
+    await expect(
+      worktreeService.createWorktree(repositoryPath, {
+        repository: 'repo-a',
+        requestId: 'req-4',
+        branchName: currentBranch,
+      })
+    ).rejects.toThrow(/already/);
+  });
+});